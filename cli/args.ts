@@ -0,0 +1,127 @@
+/**
+ * Invalid command line, reported with the usage of the command instead of the stack trace.
+ */
+export class UsageError extends Error {
+  readonly name = 'UsageError';
+}
+
+export interface OptionSpec {
+  description: string;
+  /** Flags are options without a value. */
+  flag?: boolean;
+  /** Other accepted spellings, parsed as the option itself. */
+  aliases?: string[];
+}
+
+export interface CommandSpec {
+  /** Space separated subcommand words, e.g. `payment-token enable`. */
+  name: string;
+  description: string;
+  args: string[];
+  options?: Record<string, OptionSpec>;
+  /** Unknown options and extra arguments are passed through to the spawned process. */
+  passthrough?: boolean;
+}
+
+export interface ParsedCommand<T extends CommandSpec = CommandSpec> {
+  command: T;
+  args: Record<string, string>;
+  options: Record<string, string | boolean>;
+  extra: string[];
+}
+
+/**
+ * Matches the longest command name and splits the rest of `argv` into positional arguments and options.
+ * Global options are accepted by every command.
+ */
+export function parseCommandLine<T extends CommandSpec>(
+  argv: string[],
+  commands: T[],
+  globalOptions: Record<string, OptionSpec> = {}
+): ParsedCommand<T> {
+  const firstOption = argv.findIndex((x) => x.startsWith('--'));
+  const words = firstOption < 0 ? argv : argv.slice(0, firstOption);
+  const command = commands
+    .filter((x) => x.name.split(' ').every((word, i) => words[i] === word))
+    .sort((a, b) => b.name.split(' ').length - a.name.split(' ').length)[0];
+  if (!command) {
+    throw new UsageError(argv.length === 0 ? 'Command is required' : `Unknown command "${words.join(' ')}"`);
+  }
+
+  const specs = { ...globalOptions, ...command.options };
+  const names: Record<string, string> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    for (const alias of spec.aliases ?? []) names[alias] = name;
+    names[name] = name;
+  }
+  const positional: string[] = [];
+  const options: Record<string, string | boolean> = {};
+  const extra: string[] = [];
+  const rest = argv.slice(command.name.split(' ').length);
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      if (positional.length < command.args.length) positional.push(arg);
+      else if (command.passthrough) extra.push(arg);
+      else throw new UsageError(`Unexpected argument "${arg}"`);
+      continue;
+    }
+
+    const name = names[arg.slice(2)];
+    const spec = specs[name];
+    if (!spec) {
+      if (!command.passthrough) throw new UsageError(`Unknown option ${arg}`);
+      extra.push(arg);
+    } else if (spec.flag) {
+      options[name] = true;
+    } else {
+      if (i + 1 >= rest.length) throw new UsageError(`Option --${name} requires a value`);
+      options[name] = rest[++i];
+    }
+  }
+
+  if (positional.length < command.args.length) {
+    const expected = command.args.map((x) => `<${x}>`).join(' ');
+    throw new UsageError(
+      `Expected ${command.args.length} argument(s) ${expected}, got ${positional.length}. Usage: ${usage(command)}`
+    );
+  }
+
+  return {
+    command,
+    args: Object.fromEntries(command.args.map((name, i) => [name, positional[i]])),
+    options,
+    extra,
+  };
+}
+
+export function usage(command: CommandSpec): string {
+  const options = Object.entries(command.options ?? {}).map(([name, spec]) =>
+    spec.flag ? `[--${name}]` : `[--${name} <value>]`
+  );
+  return ['iq', command.name, ...command.args.map((x) => `<${x}>`), ...options].join(' ');
+}
+
+export function help(commands: CommandSpec[], globalOptions: Record<string, OptionSpec>): string {
+  return [
+    'Usage: iq <command> [arguments] [options]',
+    '',
+    'Commands:',
+    ...commands.map((command) => `  ${usage(command)}\n      ${command.description}`),
+    '',
+    'Options:',
+    ...Object.entries(globalOptions).map(
+      ([name, spec]) => `  --${name}${spec.flag ? '' : ' <value>'}  ${spec.description}`
+    ),
+  ].join('\n');
+}
+
+/**
+ * Parses duration given in seconds or with `s`, `m`, `h`, `d` and `w` suffixes, e.g. `12h`.
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)([smhdw]?)$/.exec(value.trim());
+  if (!match) throw new UsageError(`Invalid duration "${value}"`);
+  const units: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  return Number(match[1]) * units[match[2]];
+}
@@ -0,0 +1,619 @@
+import { BigNumber, ContractReceipt, Signer } from 'ethers';
+import { formatUnits, Interface, parseUnits } from 'ethers/lib/utils';
+import { dump } from 'js-yaml';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+  DEFAULT_MAX_SEGMENTS,
+  DEFAULT_SLIPPAGE,
+  estimateRentalFee,
+  findEvent,
+  IQClient,
+  loadRentalFeeParams,
+  parseBaseRate,
+  planRental,
+  ProvisioningStep,
+  withSlippage,
+} from '../sdk';
+import { Enterprise, IERC20Metadata__factory, PowerToken } from '../typechain';
+import { CommandSpec, OptionSpec, parseCommandLine, ParsedCommand, parseDuration, UsageError } from './args';
+
+export const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+  network: { description: 'Hardhat network to connect to (defaults to localhost)' },
+  account: { description: 'Named account, account index or address to send transactions from (defaults to deployer)' },
+  json: { description: 'Print the result as JSON', flag: true },
+  'dry-run': { description: 'Print the transactions calldata without sending them', flag: true },
+  yes: { description: 'Do not ask for the confirmation of owner-only actions', flag: true },
+};
+
+const PAYMENT_OPTIONS: Record<string, OptionSpec> = {
+  'payment-token': { description: 'Payment token address (defaults to the enterprise token)' },
+  'max-payment': { description: 'Maximum payment nominated in payment tokens' },
+  slippage: { description: `Allowed fee increase in basis points, used without --max-payment (${DEFAULT_SLIPPAGE})` },
+};
+
+export interface CliIO {
+  write(text: string): void;
+  confirm(message: string): Promise<boolean>;
+}
+
+export interface CommandContext {
+  hre: HardhatRuntimeEnvironment;
+  client: IQClient;
+  signer: Signer;
+  account: string;
+  args: Record<string, string>;
+  options: Record<string, string | boolean>;
+}
+
+/**
+ * Transactions to be sent by the command. `result` extracts the command output from the receipts.
+ */
+export interface TransactionPlan {
+  transactions: ProvisioningStep[];
+  details?: Record<string, unknown>;
+  result?: (receipts: ContractReceipt[]) => Record<string, unknown>;
+}
+
+export interface EnterpriseCommand extends CommandSpec {
+  /** Owner-only actions are confirmed interactively unless `--yes` is given. */
+  ownerOnly?: boolean;
+  read?: (context: CommandContext) => Promise<Record<string, unknown>>;
+  plan?: (context: CommandContext) => Promise<TransactionPlan>;
+}
+
+export const ENTERPRISE_COMMANDS: EnterpriseCommand[] = [
+  {
+    name: 'enterprise info',
+    description: 'Prints enterprise configuration, reserves, services and payment tokens',
+    args: ['enterprise'],
+    read: enterpriseInfo,
+  },
+  {
+    name: 'service register',
+    description: 'Registers a new service (power token)',
+    args: ['enterprise'],
+    options: {
+      name: { description: 'Power token name' },
+      symbol: { description: 'Power token symbol' },
+      'base-rate': { description: 'Base rate expression: "baseRate(<tokens>, <period>, <price>)"' },
+      'base-token': { description: 'Base token address (defaults to the enterprise token)' },
+      'min-gc-fee': { description: 'Minimal GC fee nominated in base tokens' },
+      'service-fee-percent': { description: 'Service fee percent, 100 is 1%' },
+      'energy-gap-halving-period': { description: 'Energy gap halving period, e.g. 1d' },
+      'min-rental-period': { description: 'Minimal rental period, e.g. 12h' },
+      'max-rental-period': { description: 'Maximal rental period, e.g. 60d' },
+      'swapping-enabled-forever': { description: 'Enable power token swapping', flag: true },
+    },
+    ownerOnly: true,
+    plan: registerService,
+  },
+  {
+    name: 'stake',
+    description: 'Stakes enterprise tokens',
+    args: ['enterprise', 'amount'],
+    plan: stake,
+  },
+  {
+    name: 'unstake',
+    description: 'Unstakes the stake with the accrued reward',
+    args: ['enterprise', 'stake-token-id'],
+    plan: async ({ client, args }) => ({
+      transactions: [stakeCall(client, 'unstake', args['stake-token-id'])],
+      result: stakeResult(client, 'amount'),
+    }),
+  },
+  {
+    name: 'claim',
+    description: 'Claims the staking reward',
+    args: ['enterprise', 'stake-token-id'],
+    plan: async ({ client, args }) => ({
+      transactions: [stakeCall(client, 'claimStakingReward', args['stake-token-id'])],
+      result: stakeResult(client, 'reward'),
+    }),
+  },
+  {
+    name: 'quote',
+    description: 'Estimates the rental fee',
+    args: ['enterprise', 'power-token', 'amount', 'period'],
+    options: { 'payment-token': PAYMENT_OPTIONS['payment-token'] },
+    read: quote,
+  },
+  {
+    name: 'plan',
+    description: 'Finds the cheapest rental across the services, payment tokens and rental extensions',
+    args: ['enterprise', 'amount', 'period'],
+    options: {
+      enterprises: { description: 'Comma separated addresses of other enterprises to consider' },
+      'power-tokens': { description: 'Comma separated power token addresses to consider (defaults to all)' },
+      'payment-tokens': { description: 'Comma separated payment token addresses to consider (defaults to enabled)' },
+      'quote-token': { description: 'Token the rental fees are compared in (defaults to the enterprise token)' },
+      'max-segments': {
+        description: `Maximum number of the rental and extension periods (${DEFAULT_MAX_SEGMENTS})`,
+      },
+    },
+    read: rentalPlan,
+  },
+  {
+    name: 'rent',
+    description: 'Rents power tokens',
+    args: ['enterprise', 'power-token', 'amount', 'period'],
+    options: PAYMENT_OPTIONS,
+    plan: rent,
+  },
+  {
+    name: 'extend',
+    description: 'Extends the rental period',
+    args: ['enterprise', 'rental-token-id', 'period'],
+    options: PAYMENT_OPTIONS,
+    plan: extend,
+  },
+  {
+    name: 'return',
+    description: 'Returns the rental',
+    args: ['enterprise', 'rental-token-id'],
+    plan: async ({ client, args }) => ({
+      transactions: [
+        call(client.enterprise, `return rental ${args['rental-token-id']}`, 'returnRental', [args['rental-token-id']]),
+      ],
+    }),
+  },
+  {
+    name: 'payment-token enable',
+    description: 'Enables the payment token',
+    args: ['enterprise', 'token'],
+    ownerOnly: true,
+    plan: async ({ client, args }) => ({
+      transactions: [call(client.enterprise, `enable payment token ${args.token}`, 'enablePaymentToken', [args.token])],
+    }),
+  },
+  {
+    name: 'payment-token disable',
+    description: 'Disables the payment token',
+    args: ['enterprise', 'token'],
+    ownerOnly: true,
+    plan: async ({ client, args }) => ({
+      transactions: [
+        call(client.enterprise, `disable payment token ${args.token}`, 'disablePaymentToken', [args.token]),
+      ],
+    }),
+  },
+  {
+    name: 'shutdown',
+    description: 'Shuts the enterprise down forever',
+    args: ['enterprise'],
+    ownerOnly: true,
+    plan: async ({ client }) => ({
+      transactions: [
+        call(client.enterprise, `shut down enterprise ${client.address}`, 'shutdownEnterpriseForever', []),
+      ],
+    }),
+  },
+];
+
+/**
+ * Parses the command line and runs the enterprise command against the network of `hre`.
+ */
+export async function runCli(
+  argv: string[],
+  hre: HardhatRuntimeEnvironment,
+  io: CliIO
+): Promise<Record<string, unknown>> {
+  return runCommand(parseCommandLine(argv, ENTERPRISE_COMMANDS, GLOBAL_OPTIONS), hre, io);
+}
+
+/**
+ * Runs the command and writes its output. Returns the output object.
+ */
+export async function runCommand(
+  parsed: ParsedCommand<EnterpriseCommand>,
+  hre: HardhatRuntimeEnvironment,
+  io: CliIO
+): Promise<Record<string, unknown>> {
+  const { command, args, options } = parsed;
+  const account = await resolveAccount(hre, (options.account as string) ?? 'deployer');
+  const signer = await hre.ethers.getSigner(account);
+  const client = IQClient.connect(await resolveAddress(hre, args.enterprise), signer);
+  const context: CommandContext = { hre, client, signer, account, args, options };
+
+  let output: Record<string, unknown>;
+  if (command.read) {
+    output = await command.read(context);
+  } else if (command.plan) {
+    output = await executePlan(command, await command.plan(context), context, io);
+  } else {
+    throw new Error(`Command "${command.name}" is not implemented`);
+  }
+
+  io.write(options.json ? JSON.stringify(toPlain(output), null, 2) : dump(toPlain(output)).trimEnd());
+  return output;
+}
+
+async function executePlan(
+  command: EnterpriseCommand,
+  plan: TransactionPlan,
+  { hre, signer, account, options }: CommandContext,
+  io: CliIO
+): Promise<Record<string, unknown>> {
+  const { transactions } = plan;
+  if (options['dry-run']) {
+    return { ...plan.details, dryRun: true, from: account, transactions };
+  }
+
+  if (command.ownerOnly && !options.yes) {
+    const confirmed = await io.confirm(
+      [
+        `Owner-only action on ${hre.network.name} from ${account}:`,
+        ...transactions.map((x) => `  ${x.description}`),
+        'Continue?',
+      ].join('\n')
+    );
+    if (!confirmed) return { ...plan.details, aborted: true, transactions };
+  }
+
+  const receipts: ContractReceipt[] = [];
+  for (const { to, data } of transactions) {
+    receipts.push(await (await signer.sendTransaction({ to, data })).wait());
+  }
+  return {
+    ...plan.details,
+    ...plan.result?.(receipts),
+    transactions: transactions.map((x, i) => ({ description: x.description, hash: receipts[i].transactionHash })),
+  };
+}
+
+async function enterpriseInfo({ client }: CommandContext): Promise<Record<string, unknown>> {
+  const { enterprise } = client;
+  const token = await client.getEnterpriseToken();
+  const [info, owner, symbol, decimals, reserve, availableReserve, [pole, slope]] = await Promise.all([
+    enterprise.getInfo(),
+    enterprise.owner(),
+    token.symbol(),
+    token.decimals(),
+    enterprise.getReserve(),
+    enterprise.getAvailableReserve(),
+    enterprise.getBondingCurve(),
+  ]);
+  const format = (amount: BigNumber) => formatUnits(amount, decimals);
+
+  const services = [];
+  for (const powerToken of await client.getPowerTokens()) {
+    const service = await powerToken.getInfo();
+    services.push({
+      address: powerToken.address,
+      name: service.name,
+      symbol: service.symbol,
+      baseToken: service.baseToken,
+      serviceFeePercent: service.serviceFeePercent,
+      energyGapHalvingPeriod: service.energyGapHalvingPeriod,
+      minRentalPeriod: service.minRentalPeriod,
+      maxRentalPeriod: service.maxRentalPeriod,
+      swappingEnabled: service.swappingEnabled,
+      transferEnabled: service.transferEnabled,
+    });
+  }
+
+  return {
+    address: enterprise.address,
+    name: info.name,
+    owner,
+    enterpriseToken: { address: token.address, symbol, decimals },
+    baseUri: info.baseUri,
+    converter: await enterprise.getConverter(),
+    enterpriseWallet: await enterprise.getEnterpriseWallet(),
+    enterpriseCollector: await enterprise.getEnterpriseCollector(),
+    gcFeePercent: info.gcFeePercent,
+    bondingCurve: { pole: fromFixedPoint(pole), slope: fromFixedPoint(slope) },
+    streamingReserveHalvingPeriod: info.streamingReserveHalvingPeriod,
+    renterOnlyReturnPeriod: info.renterOnlyReturnPeriod,
+    enterpriseOnlyCollectionPeriod: info.enterpriseOnlyCollectionPeriod,
+    reserve: format(reserve),
+    usedReserve: format(info.usedReserve),
+    availableReserve: format(availableReserve),
+    streamingReserve: format(info.streamingReserve),
+    streamingReserveTarget: format(info.streamingReserveTarget),
+    totalShares: info.totalShares.toString(),
+    services,
+    paymentTokens: (await enterprise.getPaymentTokens()).map((x) => ({
+      address: x.paymentToken,
+      enabled: x.enabled,
+    })),
+  };
+}
+
+async function registerService({ client, options }: CommandContext): Promise<TransactionPlan> {
+  const baseToken = (options['base-token'] as string) ?? (await client.enterprise.getEnterpriseToken());
+  const decimals = await client.getToken(baseToken).decimals();
+  const name = requiredOption(options, 'name');
+  const transaction = call(client.enterprise, `register service ${name}`, 'registerService', [
+    name,
+    requiredOption(options, 'symbol'),
+    parseDuration(requiredOption(options, 'energy-gap-halving-period')),
+    parseBaseRate(requiredOption(options, 'base-rate')),
+    baseToken,
+    parseInteger(requiredOption(options, 'service-fee-percent')),
+    parseDuration(requiredOption(options, 'min-rental-period')),
+    parseDuration(requiredOption(options, 'max-rental-period')),
+    parseAmount((options['min-gc-fee'] as string) ?? '0', decimals),
+    !!options['swapping-enabled-forever'],
+  ]);
+
+  return {
+    transactions: [transaction],
+    result: ([receipt]) => ({
+      powerToken: findEvent(receipt, client.enterprise, 'ServiceRegistered').args.powerToken,
+    }),
+  };
+}
+
+async function stake({ client, account, args }: CommandContext): Promise<TransactionPlan> {
+  const token = await client.getEnterpriseToken();
+  const amount = parseAmount(args.amount, await token.decimals());
+  return {
+    transactions: [
+      ...(await approval(client, account, token.address, amount)),
+      call(client.enterprise, `stake ${args.amount}`, 'stake', [amount]),
+    ],
+    result: (receipts) => ({
+      stakeTokenId: findEvent(receipts[receipts.length - 1], client.enterprise, 'StakeChanged').args.stakeTokenId,
+    }),
+  };
+}
+
+async function quote({ client, args, options }: CommandContext): Promise<Record<string, unknown>> {
+  const powerToken = await resolvePowerToken(client, args['power-token']);
+  const paymentToken = client.getToken(
+    (options['payment-token'] as string) ?? (await client.enterprise.getEnterpriseToken())
+  );
+  const baseToken = client.getToken(await powerToken.getBaseToken());
+  const amount = parseAmount(args.amount, await powerToken.decimals());
+  const period = parseDuration(args.period);
+  const [fee, params, paymentDecimals, baseDecimals] = await Promise.all([
+    client.estimateRentalFee(powerToken.address, paymentToken.address, amount, period),
+    loadRentalFeeParams(client.enterprise, powerToken),
+    paymentToken.decimals(),
+    baseToken.decimals(),
+  ]);
+  const { poolFee, serviceFee, gcFee } = estimateRentalFee(params, amount.toBigInt(), period);
+
+  return {
+    powerToken: powerToken.address,
+    rentalPeriod: period,
+    paymentToken: paymentToken.address,
+    fee: formatUnits(fee, paymentDecimals),
+    // Fee components before the conversion into the payment token.
+    baseToken: baseToken.address,
+    poolFee: formatUnits(poolFee, baseDecimals),
+    serviceFee: formatUnits(serviceFee, baseDecimals),
+    gcFee: formatUnits(gcFee, baseDecimals),
+  };
+}
+
+async function rentalPlan({ hre, client, args, options }: CommandContext): Promise<Record<string, unknown>> {
+  const others = options.enterprises ? (options.enterprises as string).split(',') : [];
+  const enterprises = [client.enterprise];
+  for (const other of others) {
+    enterprises.push(client.enterprise.attach(await resolveAddress(hre, other)));
+  }
+  const list = (name: string) => (options[name] ? (options[name] as string).split(',') : undefined);
+  const amount = parseAmount(args.amount, await (await client.getEnterpriseToken()).decimals());
+  const plan = await planRental(
+    enterprises,
+    { amount, duration: parseDuration(args.period) },
+    {
+      quoteToken: options['quote-token'] as string | undefined,
+      powerTokens: list('power-tokens'),
+      paymentTokens: list('payment-tokens'),
+      maxSegments: options['max-segments'] ? parseInteger(options['max-segments'] as string) : undefined,
+    }
+  );
+
+  const decimals = new Map<string, number>();
+  const format = async (token: string, amount: bigint) => {
+    if (!decimals.has(token)) decimals.set(token, await client.getToken(token).decimals());
+    return formatUnits(amount, decimals.get(token));
+  };
+  const candidates = [];
+  for (const x of plan.candidates) {
+    const steps = [];
+    for (const step of x.steps) {
+      steps.push({
+        action: step.action,
+        rentalPeriod: step.rentalPeriod,
+        poolFee: await format(x.paymentToken, step.poolFee),
+        serviceFee: await format(x.paymentToken, step.serviceFee),
+        gcFee: await format(x.paymentToken, step.gcFee),
+      });
+    }
+    candidates.push({
+      enterprise: x.enterprise,
+      powerToken: x.powerToken,
+      paymentToken: x.paymentToken,
+      rentalPeriod: x.rentalPeriod,
+      total: await format(x.paymentToken, x.total),
+      quotedTotal: await format(plan.quoteToken, x.quotedTotal),
+      poolFee: await format(x.paymentToken, x.poolFee),
+      serviceFee: await format(x.paymentToken, x.serviceFee),
+      gcFee: await format(x.paymentToken, x.gcFee),
+      steps,
+    });
+  }
+
+  return { quoteToken: plan.quoteToken, best: candidates[0], candidates, skipped: plan.skipped };
+}
+
+async function rent({ client, account, args, options }: CommandContext): Promise<TransactionPlan> {
+  const powerToken = await resolvePowerToken(client, args['power-token']);
+  const paymentToken = (options['payment-token'] as string) ?? (await client.enterprise.getEnterpriseToken());
+  const amount = parseAmount(args.amount, await powerToken.decimals());
+  const period = parseDuration(args.period);
+  const maxPayment = await resolveMaxPayment(client, paymentToken, options, () =>
+    client.estimateRentalFee(powerToken.address, paymentToken, amount, period)
+  );
+
+  return {
+    details: { maxPayment: formatUnits(maxPayment, await client.getToken(paymentToken).decimals()) },
+    transactions: [
+      ...(await approval(client, account, paymentToken, maxPayment)),
+      call(client.enterprise, `rent ${args.amount} ${args['power-token']} for ${args.period}`, 'rent', [
+        powerToken.address,
+        paymentToken,
+        amount,
+        period,
+        maxPayment,
+      ]),
+    ],
+    result: (receipts) => {
+      const { rentalTokenId, endTime } = findEvent(receipts[receipts.length - 1], client.enterprise, 'Rented').args;
+      return { rentalTokenId, endTime };
+    },
+  };
+}
+
+async function extend({ client, account, args, options }: CommandContext): Promise<TransactionPlan> {
+  const rentalTokenId = args['rental-token-id'];
+  const paymentToken = (options['payment-token'] as string) ?? (await client.enterprise.getEnterpriseToken());
+  const period = parseDuration(args.period);
+  const maxPayment = await resolveMaxPayment(client, paymentToken, options, () =>
+    client.estimateRentalExtensionFee(rentalTokenId, paymentToken, period)
+  );
+
+  return {
+    details: { maxPayment: formatUnits(maxPayment, await client.getToken(paymentToken).decimals()) },
+    transactions: [
+      ...(await approval(client, account, paymentToken, maxPayment)),
+      call(client.enterprise, `extend rental ${rentalTokenId} for ${args.period}`, 'extendRentalPeriod', [
+        rentalTokenId,
+        paymentToken,
+        period,
+        maxPayment,
+      ]),
+    ],
+    result: (receipts) => ({
+      endTime: findEvent(receipts[receipts.length - 1], client.enterprise, 'RentalPeriodExtended').args.endTime,
+    }),
+  };
+}
+
+function call(enterprise: Enterprise, description: string, method: string, args: unknown[]): ProvisioningStep {
+  return {
+    description,
+    to: enterprise.address,
+    data: (enterprise.interface as Interface).encodeFunctionData(method, args),
+  };
+}
+
+function stakeCall(client: IQClient, method: 'unstake' | 'claimStakingReward', stakeTokenId: string): ProvisioningStep {
+  const description = `${method === 'unstake' ? 'unstake' : 'claim reward of'} stake ${stakeTokenId}`;
+  return call(client.enterprise, description, method, [stakeTokenId]);
+}
+
+function stakeResult(client: IQClient, field: string): TransactionPlan['result'] {
+  return ([receipt]) => ({ [field]: findEvent(receipt, client.enterprise, 'StakeChanged').args.amountDelta });
+}
+
+/**
+ * Returns the approval transaction unless the allowance is already sufficient.
+ */
+async function approval(
+  client: IQClient,
+  account: string,
+  token: string,
+  amount: BigNumber
+): Promise<ProvisioningStep[]> {
+  const erc20 = IERC20Metadata__factory.connect(token, client.enterprise.provider);
+  if ((await erc20.allowance(account, client.address)).gte(amount)) return [];
+  const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()]);
+  return [
+    {
+      description: `approve ${formatUnits(amount, decimals)} ${symbol} to ${client.address}`,
+      to: token,
+      data: erc20.interface.encodeFunctionData('approve', [client.address, amount]),
+    },
+  ];
+}
+
+async function resolveMaxPayment(
+  client: IQClient,
+  paymentToken: string,
+  options: Record<string, string | boolean>,
+  estimate: () => Promise<BigNumber>
+): Promise<BigNumber> {
+  if (options['max-payment']) {
+    return parseAmount(options['max-payment'] as string, await client.getToken(paymentToken).decimals());
+  }
+  const slippage = options.slippage ? parseInteger(options.slippage as string) : DEFAULT_SLIPPAGE;
+  return withSlippage(await estimate(), slippage);
+}
+
+/**
+ * Resolves power token given by the address or the symbol.
+ */
+async function resolvePowerToken(client: IQClient, value: string): Promise<PowerToken> {
+  const powerTokens = await client.getPowerTokens();
+  for (const powerToken of powerTokens) {
+    if (powerToken.address.toLowerCase() === value.toLowerCase()) return powerToken;
+    // Power token symbol is prefixed with the enterprise token symbol, e.g. `IQ IQPT`.
+    const symbol = await powerToken.symbol();
+    if (symbol === value || symbol.endsWith(` ${value}`)) return powerToken;
+  }
+  throw new UsageError(`Unknown service: ${value}`);
+}
+
+async function resolveAddress(hre: HardhatRuntimeEnvironment, value: string): Promise<string> {
+  if (hre.ethers.utils.isAddress(value)) return value;
+
+  const deployment = await hre.deployments.getOrNull(value);
+  if (!deployment) throw new UsageError(`Cannot resolve address: ${value}`);
+  return deployment.address;
+}
+
+/**
+ * Resolves named account, account index or address.
+ */
+async function resolveAccount(hre: HardhatRuntimeEnvironment, value: string): Promise<string> {
+  if (hre.ethers.utils.isAddress(value)) return value;
+  if (/^\d+$/.test(value)) {
+    const signers = await hre.ethers.getSigners();
+    if (Number(value) >= signers.length) throw new UsageError(`Unknown account: ${value}`);
+    return signers[Number(value)].address;
+  }
+
+  const account = (await hre.getNamedAccounts())[value];
+  if (!account) throw new UsageError(`Unknown account: ${value}`);
+  return account;
+}
+
+function requiredOption(options: Record<string, string | boolean>, name: string): string {
+  const value = options[name];
+  if (typeof value !== 'string') throw new UsageError(`Option --${name} is required`);
+  return value;
+}
+
+function parseAmount(value: string, decimals: number): BigNumber {
+  try {
+    return parseUnits(value, decimals);
+  } catch {
+    throw new UsageError(`Invalid amount "${value}"`);
+  }
+}
+
+function parseInteger(value: string): number {
+  if (!/^\d+$/.test(value)) throw new UsageError(`Invalid number "${value}"`);
+  return Number(value);
+}
+
+function fromFixedPoint(value: BigNumber): string {
+  return formatUnits((value.toBigInt() * 10n ** 18n + (1n << 63n)) >> 64n, 18);
+}
+
+/**
+ * Converts big numbers into decimal strings for JSON and YAML output.
+ */
+function toPlain(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value) || typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, x]) => [key, toPlain(x)]));
+  }
+  return value;
+}
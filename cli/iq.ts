@@ -0,0 +1,163 @@
+/**
+ * IQ Protocol operator CLI.
+ *
+ * Usage:
+ *   yarn iq <command> [arguments] [options]
+ *   yarn iq help
+ *
+ * Enterprise commands connect to `--network` (defaults to localhost) using the accounts configured
+ * in `hardhat.config.ts`. Process commands run hardhat and scripts for the network given as the first argument.
+ */
+import 'dotenv/config';
+import { spawn } from 'child_process';
+import readline from 'readline';
+import { decodeError } from '../sdk';
+import { CommandSpec, help, parseCommandLine, ParsedCommand, UsageError } from './args';
+import { CliIO, ENTERPRISE_COMMANDS, GLOBAL_OPTIONS, runCommand } from './commands';
+
+interface ProcessCommand extends CommandSpec {
+  spawn: (parsed: ParsedCommand) => { env?: Record<string, string | undefined>; command: string[] };
+}
+
+const FORK_OPTIONS = {
+  'block-number': { description: 'Fork block number', aliases: ['blockNumber'] },
+  'no-impersonation': { description: 'Do not impersonate named accounts', flag: true },
+};
+
+const forkEnv = ({ args, options }: ParsedCommand) => ({
+  HARDHAT_DEPLOY_ACCOUNTS_NETWORK: args.network,
+  HARDHAT_FORK: args.network,
+  HARDHAT_FORK_NUMBER: options['block-number'] as string | undefined,
+  HARDHAT_DEPLOY_NO_IMPERSONATION: options['no-impersonation'] ? 'true' : undefined,
+});
+
+const PROCESS_COMMANDS: ProcessCommand[] = [
+  {
+    name: 'run',
+    description: 'Runs the script on the network',
+    args: ['network', 'script'],
+    passthrough: true,
+    spawn: ({ args, extra }) => ({
+      env: { HARDHAT_NETWORK: args.network },
+      command: ['ts-node', '--files', args.script, ...extra],
+    }),
+  },
+  {
+    name: 'yield',
+    description: 'Prints staker yield report, see scripts/staker_yield.ts',
+    args: ['network', 'enterprise'],
+    passthrough: true,
+    spawn: ({ args, extra }) => ({
+      env: { HARDHAT_NETWORK: args.network },
+      command: ['ts-node', '--files', 'scripts/staker_yield.ts', args.enterprise, ...extra],
+    }),
+  },
+  {
+    name: 'deploy',
+    description: 'Runs hardhat-deploy on the network',
+    args: ['network'],
+    passthrough: true,
+    spawn: ({ args, extra }) => ({ command: ['hardhat', '--network', args.network, 'deploy', ...extra] }),
+  },
+  {
+    name: 'export',
+    description: 'Exports the network deployments',
+    args: ['network', 'file'],
+    spawn: ({ args }) => ({ command: ['hardhat', '--network', args.network, 'export', '--export', args.file] }),
+  },
+  {
+    name: 'fork:run',
+    description: 'Runs the script on the fork of the network',
+    args: ['network', 'script'],
+    options: { deploy: { description: 'Run deploy scripts before the script', flag: true }, ...FORK_OPTIONS },
+    passthrough: true,
+    spawn: (parsed) => ({
+      env: { ...forkEnv(parsed), HARDHAT_DEPLOY_FIXTURE: parsed.options.deploy ? 'true' : undefined },
+      command: ['ts-node', '--files', parsed.args.script, ...parsed.extra],
+    }),
+  },
+  {
+    name: 'fork:deploy',
+    description: 'Runs hardhat-deploy on the fork of the network',
+    args: ['network'],
+    options: FORK_OPTIONS,
+    passthrough: true,
+    spawn: (parsed) => ({ env: forkEnv(parsed), command: ['hardhat', 'deploy', ...parsed.extra] }),
+  },
+  {
+    name: 'fork:test',
+    description: 'Runs the tests on the fork of the network',
+    args: ['network'],
+    options: FORK_OPTIONS,
+    passthrough: true,
+    spawn: (parsed) => ({
+      env: { ...forkEnv(parsed), HARDHAT_DEPLOY_FIXTURE: 'true', HARDHAT_COMPILE: 'true' },
+      command: ['mocha', '--bail', '--recursive', 'test', ...parsed.extra],
+    }),
+  },
+  {
+    name: 'fork:dev',
+    description: 'Starts the local node forking the network',
+    args: ['network'],
+    options: FORK_OPTIONS,
+    passthrough: true,
+    spawn: (parsed) => ({
+      env: forkEnv(parsed),
+      command: ['hardhat', 'node', '--watch', '--export', 'contractsInfo.json', ...parsed.extra],
+    }),
+  },
+];
+
+const terminal: CliIO = {
+  write: (text) => console.log(text),
+  confirm: async (message) => {
+    // Prompt goes to stderr to keep stdout parsable.
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    const answer = await new Promise<string>((resolve) => rl.question(`${message} [y/N] `, resolve));
+    rl.close();
+    return /^y(es)?$/i.test(answer.trim());
+  },
+};
+
+async function spawnProcess(command: string[], env: Record<string, string | undefined> = {}): Promise<number> {
+  return new Promise((resolve, reject) => {
+    spawn(command[0], command.slice(1), {
+      stdio: 'inherit',
+      shell: true,
+      env: { ...process.env, ...env },
+    })
+      .on('error', reject)
+      .on('exit', (code) => resolve(code ?? 1));
+  });
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === 'help' || argv[0] === '--help') {
+    console.log(help([...ENTERPRISE_COMMANDS, ...PROCESS_COMMANDS], GLOBAL_OPTIONS));
+    return 0;
+  }
+
+  if (PROCESS_COMMANDS.some((x) => x.name === argv[0])) {
+    const parsed = parseCommandLine(argv, PROCESS_COMMANDS);
+    const { env, command } = parsed.command.spawn(parsed);
+    return spawnProcess(command, env);
+  }
+
+  const parsed = parseCommandLine(argv, ENTERPRISE_COMMANDS, GLOBAL_OPTIONS);
+  // Hardhat runtime picks the network up when it is loaded.
+  process.env.HARDHAT_NETWORK = (parsed.options.network as string) ?? process.env.HARDHAT_NETWORK ?? 'localhost';
+  const hre = (await import('hardhat')).default;
+  const output = await runCommand(parsed, hre, terminal);
+  return output.aborted ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      process.exit(2);
+    }
+    console.error(decodeError(error)?.message ?? error);
+    process.exit(1);
+  });
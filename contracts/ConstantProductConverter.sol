@@ -0,0 +1,235 @@
+// SPDX-License-Identifier: MIT
+
+// IQ Protocol. Risk-free collateral-less utility renting
+// https://iq.space/docs/iq-yellow-paper.pdf
+// (C) Blockvis & PARSIQ
+// 🖖 Stake strong!
+
+pragma solidity 0.8.4;
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IConverter.sol";
+import "./interfaces/IUniswapV2Factory.sol";
+import "./interfaces/IUniswapV2Pair.sol";
+import "./libs/Errors.sol";
+
+/**
+ * Converts tokens by swapping them through the Uniswap V2 compatible constant-product pair.
+ * Conversions are estimated at the time-weighted average price (TWAP) of the pair over at least `twapPeriod` seconds,
+ * so that the rental fees cannot be manipulated by moving the pair reserves within a block. Swaps yielding less than
+ * the average price by more than `maxDeviationPercent` are rejected.
+ * Price observations are recorded by `update` and by the conversions, a pair must be observed once
+ * and `twapPeriod` seconds must pass before its tokens can be converted.
+ */
+contract ConstantProductConverter is IConverter {
+    using SafeERC20 for IERC20;
+
+    struct Observation {
+        uint32 timestamp;
+        uint256 price0Cumulative;
+        uint256 price1Cumulative;
+    }
+
+    IUniswapV2Factory internal immutable _factory;
+    // Pair swap fee, 10000 is 100%. E.g. 30 for Uniswap V2, 25 for PancakeSwap V2.
+    uint16 internal immutable _feePercent;
+    // Minimal averaging window in seconds.
+    uint32 internal immutable _twapPeriod;
+    // Maximal shortfall of the swap output relative to the average price, 10000 is 100%.
+    uint16 internal immutable _maxDeviationPercent;
+    // Two latest cumulative price observations of the pair, the latest one is the second.
+    mapping(IUniswapV2Pair => Observation[2]) internal _observations;
+
+    event PriceObserved(address pair, uint256 price0Cumulative, uint256 price1Cumulative);
+
+    constructor(
+        IUniswapV2Factory factory,
+        uint16 feePercent,
+        uint32 twapPeriod,
+        uint16 maxDeviationPercent
+    ) {
+        require(address(factory) != address(0), Errors.CPC_INVALID_FACTORY_ADDRESS);
+        require(feePercent < 10_000, Errors.CPC_INVALID_FEE_PERCENT);
+        require(twapPeriod > 0, Errors.CPC_INVALID_TWAP_PERIOD);
+        require(maxDeviationPercent > 0 && maxDeviationPercent < 10_000, Errors.CPC_INVALID_MAX_DEVIATION);
+        _factory = factory;
+        _feePercent = feePercent;
+        _twapPeriod = twapPeriod;
+        _maxDeviationPercent = maxDeviationPercent;
+    }
+
+    function getFactory() external view returns (IUniswapV2Factory) {
+        return _factory;
+    }
+
+    function getFeePercent() external view returns (uint16) {
+        return _feePercent;
+    }
+
+    function getTwapPeriod() external view returns (uint32) {
+        return _twapPeriod;
+    }
+
+    function getMaxDeviationPercent() external view returns (uint16) {
+        return _maxDeviationPercent;
+    }
+
+    /**
+     * @dev Returns the time-weighted average price of `source` in `target` tokens as UQ112x112 fixed point number.
+     */
+    function getAveragePrice(IERC20 source, IERC20 target) external view returns (uint256) {
+        (IUniswapV2Pair pair, , ) = _getPair(source, target);
+        return _getAveragePrice(pair, source);
+    }
+
+    /**
+     * @dev Records the cumulative prices of the pair, unless the latest observation is younger than `twapPeriod`.
+     */
+    function update(IERC20 tokenA, IERC20 tokenB) external {
+        (IUniswapV2Pair pair, , ) = _getPair(tokenA, tokenB);
+        _update(pair);
+    }
+
+    function estimateConvert(
+        IERC20 source,
+        uint256 amount,
+        IERC20 target
+    ) external view override returns (uint256) {
+        // Power tokens price unavailable rentals at `type(uint112).max`, which would overflow the average price math.
+        if (address(source) == address(target) || amount >= type(uint112).max) return amount;
+
+        (IUniswapV2Pair pair, , ) = _getPair(source, target);
+        return _getAverageAmountOut(pair, source, amount);
+    }
+
+    /**
+     * @dev Converts `source` tokens to `target` tokens.
+     * Converted tokens must be on `msg.sender` address after exiting this function
+     */
+    function convert(
+        IERC20 source,
+        uint256 amount,
+        IERC20 target
+    ) external override returns (uint256) {
+        if (address(source) == address(target) || amount == 0) return amount;
+
+        (IUniswapV2Pair pair, uint256 reserveIn, uint256 reserveOut) = _getPair(source, target);
+        uint256 amountOut = _getAmountOut(amount, reserveIn, reserveOut);
+        require(
+            amountOut * 10_000 >= _getAverageAmountOut(pair, source, amount) * (10_000 - _maxDeviationPercent),
+            Errors.CPC_PRICE_DEVIATION_EXCEEDED
+        );
+        _update(pair);
+
+        source.safeTransferFrom(msg.sender, address(pair), amount);
+        if (address(source) == pair.token0()) {
+            pair.swap(0, amountOut, msg.sender, "");
+        } else {
+            pair.swap(amountOut, 0, msg.sender, "");
+        }
+
+        return amountOut;
+    }
+
+    function _update(IUniswapV2Pair pair) internal {
+        Observation[2] storage observations = _observations[pair];
+        uint32 timestamp = uint32(block.timestamp);
+        unchecked {
+            if (observations[1].timestamp != 0 && timestamp - observations[1].timestamp < _twapPeriod) return;
+        }
+
+        (uint256 price0Cumulative, uint256 price1Cumulative) = _getCumulativePrices(pair);
+        observations[0] = observations[1];
+        observations[1] = Observation(timestamp, price0Cumulative, price1Cumulative);
+        emit PriceObserved(address(pair), price0Cumulative, price1Cumulative);
+    }
+
+    function _getPair(IERC20 source, IERC20 target)
+        internal
+        view
+        returns (
+            IUniswapV2Pair pair,
+            uint256 reserveIn,
+            uint256 reserveOut
+        )
+    {
+        pair = IUniswapV2Pair(_factory.getPair(address(source), address(target)));
+        require(address(pair) != address(0), Errors.CPC_UNSUPPORTED_PAIR);
+
+        (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
+        (reserveIn, reserveOut) = address(source) == pair.token0() ? (reserve0, reserve1) : (reserve1, reserve0);
+        require(reserveIn > 0 && reserveOut > 0, Errors.CPC_INSUFFICIENT_LIQUIDITY);
+    }
+
+    /**
+     * @dev Averages the price since the latest observation at least `twapPeriod` old.
+     */
+    function _getAveragePrice(IUniswapV2Pair pair, IERC20 source) internal view returns (uint256) {
+        Observation[2] storage observations = _observations[pair];
+        uint32 timestamp = uint32(block.timestamp);
+        Observation memory observation = observations[1];
+        // Timestamps overflow in 2106, the differences stay correct.
+        unchecked {
+            if (timestamp - observation.timestamp < _twapPeriod) observation = observations[0];
+            require(
+                observation.timestamp != 0 && timestamp - observation.timestamp >= _twapPeriod,
+                Errors.CPC_INSUFFICIENT_PRICE_HISTORY
+            );
+        }
+
+        (uint256 price0Cumulative, uint256 price1Cumulative) = _getCumulativePrices(pair);
+        unchecked {
+            uint32 elapsed = timestamp - observation.timestamp;
+            return
+                address(source) == pair.token0()
+                    ? (price0Cumulative - observation.price0Cumulative) / elapsed
+                    : (price1Cumulative - observation.price1Cumulative) / elapsed;
+        }
+    }
+
+    /**
+     * @dev Uniswap V2 `currentCumulativePrices`, accumulates the prices since the last pair update
+     * without calling `sync`.
+     */
+    function _getCumulativePrices(IUniswapV2Pair pair)
+        internal
+        view
+        returns (uint256 price0Cumulative, uint256 price1Cumulative)
+    {
+        price0Cumulative = pair.price0CumulativeLast();
+        price1Cumulative = pair.price1CumulativeLast();
+        (uint256 reserve0, uint256 reserve1, uint32 blockTimestampLast) = pair.getReserves();
+        uint32 timestamp = uint32(block.timestamp);
+        if (blockTimestampLast != timestamp) {
+            // Cumulative prices are expected to overflow.
+            unchecked {
+                uint32 elapsed = timestamp - blockTimestampLast;
+                price0Cumulative += ((reserve1 << 112) / reserve0) * elapsed;
+                price1Cumulative += ((reserve0 << 112) / reserve1) * elapsed;
+            }
+        }
+    }
+
+    /**
+     * @dev Converts `amountIn` at the average price less the swap fee.
+     */
+    function _getAverageAmountOut(
+        IUniswapV2Pair pair,
+        IERC20 source,
+        uint256 amountIn
+    ) internal view returns (uint256) {
+        return (((amountIn * _getAveragePrice(pair, source)) >> 112) * (10_000 - _feePercent)) / 10_000;
+    }
+
+    /**
+     * @dev Uniswap V2 `getAmountOut` with configurable swap fee
+     */
+    function _getAmountOut(
+        uint256 amountIn,
+        uint256 reserveIn,
+        uint256 reserveOut
+    ) internal view returns (uint256) {
+        uint256 amountInWithFee = amountIn * (10_000 - _feePercent);
+        return (amountInWithFee * reserveOut) / (reserveIn * 10_000 + amountInWithFee);
+    }
+}
@@ -83,6 +83,8 @@ contract Enterprise is EnterpriseStorage, IEnterprise {
         uint256 totalUsedReserve
     );
 
+    event CallFailed(uint256 index, bytes reason);
+
     function registerService(
         string memory serviceName,
         string memory serviceSymbol,
@@ -147,7 +149,8 @@ contract Enterprise is EnterpriseStorage, IEnterprise {
         {
             // Ensure no rental fee payment slippage.
             // GC fee does not go to the pool but must be accounted for slippage calculation.
-            require(poolFee + serviceFee + gcFee <= maxPayment, Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+            // The fees are summed up as uint256, since unavailable rentals are priced at `type(uint112).max`.
+            require(uint256(poolFee) + serviceFee + gcFee <= maxPayment, Errors.E_RENTAL_PAYMENT_SLIPPAGE);
 
             // Handle rental fee transfer and distribution.
             handleRentalPayment(IERC20(paymentToken), serviceFee, poolFee);
@@ -528,7 +531,7 @@ contract Enterprise is EnterpriseStorage, IEnterprise {
             rentalPeriod
         );
 
-        return poolFee + serviceFee + gcFee;
+        return uint256(poolFee) + serviceFee + gcFee;
     }
 
     function _increaseReserveAndShares(uint256 reserveDelta, uint256 sharesDelta) internal {
@@ -586,7 +589,7 @@ contract Enterprise is EnterpriseStorage, IEnterprise {
         }
     }
 
-    function getStakingReward(uint256 stakeTokenId) public view returns (uint256) {
+    function getStakingReward(uint256 stakeTokenId) public view override returns (uint256) {
         Stake storage stakeInfo = _stakes[stakeTokenId];
         return _calculateStakingReward(stakeInfo.shares, stakeInfo.amount, getReserve());
     }
@@ -601,6 +604,22 @@ contract Enterprise is EnterpriseStorage, IEnterprise {
         return liquidity <= stakeAmount ? 0 : liquidity - stakeAmount;
     }
 
+    /**
+     * @dev Executes the calls to this enterprise on behalf of the sender in one transaction,
+     * e.g. `returnRental`, `claimStakingReward` or `unstake` for many tokens.
+     * Failed calls do not revert the batch, they are reported by `CallFailed` events with the call index
+     * and the revert data.
+     */
+    function multicall(bytes[] calldata data) external {
+        for (uint256 i = 0; i < data.length; i++) {
+            // solhint-disable-next-line avoid-low-level-calls
+            (bool success, bytes memory reason) = address(this).delegatecall(data[i]);
+            if (!success) {
+                emit CallFailed(i, reason);
+            }
+        }
+    }
+
     /**
      * @dev Shuts down Enterprise.
      *  * Unlocks all reserves, stakers can withdraw their tokens
@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.4;
+
+import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./Enterprise.sol";
+import "./PowerToken.sol";
+
+/**
+ * @dev Stateless read aggregator, returns the enterprise snapshot or the account view in a single `eth_call`.
+ */
+contract EnterpriseLens {
+    using Address for address;
+
+    struct ServiceSnapshot {
+        address powerToken;
+        string name;
+        string symbol;
+        uint8 decimals;
+        uint256 totalSupply;
+        IERC20Metadata baseToken;
+        uint112 baseRate;
+        uint96 minGCFee;
+        uint16 serviceFeePercent;
+        uint32 energyGapHalvingPeriod;
+        uint16 index;
+        uint32 minRentalPeriod;
+        uint32 maxRentalPeriod;
+        bool swappingEnabled;
+        bool transferEnabled;
+    }
+
+    struct EnterpriseSnapshot {
+        uint256 blockNumber;
+        uint256 timestamp;
+        address enterprise;
+        address owner;
+        string name;
+        string baseUri;
+        bool onChainTokenUri;
+        IERC20Metadata enterpriseToken;
+        IConverter converter;
+        IRentalToken rentalToken;
+        IStakeToken stakeToken;
+        address enterpriseWallet;
+        address enterpriseCollector;
+        uint32 streamingReserveHalvingPeriod;
+        uint32 renterOnlyReturnPeriod;
+        uint32 enterpriseOnlyCollectionPeriod;
+        uint16 gcFeePercent;
+        uint256 bondingPole;
+        uint256 bondingSlope;
+        uint256 totalShares;
+        uint256 fixedReserve;
+        uint256 usedReserve;
+        uint256 reserve;
+        uint256 availableReserve;
+        uint112 streamingReserve;
+        uint112 streamingReserveTarget;
+        uint32 streamingReserveUpdated;
+        EnterpriseStorage.PaymentTokenInfo[] paymentTokens;
+        ServiceSnapshot[] services;
+    }
+
+    struct AccountService {
+        address powerToken;
+        uint256 balance;
+        uint256 availableBalance;
+        uint112 lockedBalance;
+        uint112 energy;
+    }
+
+    struct AccountRental {
+        uint256 rentalTokenId;
+        IEnterpriseStorage.RentalAgreement agreement;
+    }
+
+    struct AccountStake {
+        uint256 stakeTokenId;
+        IEnterpriseStorage.Stake stake;
+        uint256 reward;
+    }
+
+    struct AccountView {
+        uint256 blockNumber;
+        uint256 timestamp;
+        address account;
+        uint256 enterpriseTokenBalance;
+        uint256 enterpriseTokenAllowance;
+        AccountService[] services;
+        AccountRental[] rentals;
+        AccountStake[] stakes;
+    }
+
+    function getEnterpriseSnapshot(Enterprise enterprise) external view returns (EnterpriseSnapshot memory snapshot) {
+        snapshot.blockNumber = block.number;
+        snapshot.timestamp = block.timestamp;
+        snapshot.enterprise = address(enterprise);
+        snapshot.owner = enterprise.owner();
+        // Enterprises deployed before the on-chain token URIs do not have the getter, and are reported as off-chain.
+        try enterprise.isOnChainTokenUri() returns (bool onChainTokenUri) {
+            snapshot.onChainTokenUri = onChainTokenUri;
+        } catch {
+            snapshot.onChainTokenUri = false;
+        }
+        snapshot.enterpriseToken = enterprise.getEnterpriseToken();
+        snapshot.converter = enterprise.getConverter();
+        snapshot.rentalToken = enterprise.getRentalToken();
+        snapshot.stakeToken = enterprise.getStakeToken();
+        snapshot.enterpriseWallet = enterprise.getEnterpriseWallet();
+        snapshot.enterpriseCollector = enterprise.getEnterpriseCollector();
+        (snapshot.bondingPole, snapshot.bondingSlope) = enterprise.getBondingCurve();
+        snapshot.reserve = enterprise.getReserve();
+        snapshot.availableReserve = enterprise.getAvailableReserve();
+        snapshot.paymentTokens = enterprise.getPaymentTokens();
+        _loadInfo(enterprise, snapshot);
+
+        IPowerToken[] memory powerTokens = enterprise.getPowerTokens();
+        snapshot.services = new ServiceSnapshot[](powerTokens.length);
+        for (uint256 i = 0; i < powerTokens.length; i++) {
+            snapshot.services[i] = _getService(PowerToken(address(powerTokens[i])));
+        }
+    }
+
+    function getAccountView(Enterprise enterprise, address account) external view returns (AccountView memory view_) {
+        view_.blockNumber = block.number;
+        view_.timestamp = block.timestamp;
+        view_.account = account;
+        IERC20Metadata enterpriseToken = enterprise.getEnterpriseToken();
+        view_.enterpriseTokenBalance = enterpriseToken.balanceOf(account);
+        view_.enterpriseTokenAllowance = enterpriseToken.allowance(account, address(enterprise));
+
+        IPowerToken[] memory powerTokens = enterprise.getPowerTokens();
+        view_.services = new AccountService[](powerTokens.length);
+        for (uint256 i = 0; i < powerTokens.length; i++) {
+            view_.services[i] = _getAccountService(PowerToken(address(powerTokens[i])), account);
+        }
+
+        IERC721Enumerable rentalToken = IERC721Enumerable(address(enterprise.getRentalToken()));
+        view_.rentals = new AccountRental[](rentalToken.balanceOf(account));
+        for (uint256 i = 0; i < view_.rentals.length; i++) {
+            uint256 rentalTokenId = rentalToken.tokenOfOwnerByIndex(account, i);
+            view_.rentals[i] = AccountRental(rentalTokenId, enterprise.getRentalAgreement(rentalTokenId));
+        }
+
+        IERC721Enumerable stakeToken = IERC721Enumerable(address(enterprise.getStakeToken()));
+        view_.stakes = new AccountStake[](stakeToken.balanceOf(account));
+        for (uint256 i = 0; i < view_.stakes.length; i++) {
+            uint256 stakeTokenId = stakeToken.tokenOfOwnerByIndex(account, i);
+            view_.stakes[i] = AccountStake(
+                stakeTokenId,
+                enterprise.getStake(stakeTokenId),
+                enterprise.getStakingReward(stakeTokenId)
+            );
+        }
+    }
+
+    function _loadInfo(Enterprise enterprise, EnterpriseSnapshot memory snapshot) private view {
+        // Decoding all the `getInfo` values is too deep for the stack, so its head words are read as an array.
+        // Values are padded to the full words, the strings are referenced by their offsets.
+        bytes memory data = address(enterprise).functionStaticCall(abi.encodeWithSelector(enterprise.getInfo.selector));
+        uint256[12] memory info = abi.decode(data, (uint256[12]));
+        snapshot.name = abi.decode(data, (string));
+        snapshot.baseUri = enterprise.getBaseUri();
+        snapshot.streamingReserveHalvingPeriod = uint32(info[2]);
+        snapshot.renterOnlyReturnPeriod = uint32(info[3]);
+        snapshot.enterpriseOnlyCollectionPeriod = uint32(info[4]);
+        snapshot.gcFeePercent = uint16(info[5]);
+        snapshot.totalShares = info[6];
+        snapshot.fixedReserve = info[7];
+        snapshot.usedReserve = info[8];
+        snapshot.streamingReserve = uint112(info[9]);
+        snapshot.streamingReserveTarget = uint112(info[10]);
+        snapshot.streamingReserveUpdated = uint32(info[11]);
+    }
+
+    function _getService(PowerToken powerToken) private view returns (ServiceSnapshot memory service) {
+        service.powerToken = address(powerToken);
+        service.name = powerToken.name();
+        service.symbol = powerToken.symbol();
+        service.decimals = powerToken.decimals();
+        service.totalSupply = powerToken.totalSupply();
+        service.baseToken = powerToken.getBaseToken();
+        service.baseRate = powerToken.getBaseRate();
+        service.minGCFee = powerToken.getMinGCFee();
+        service.serviceFeePercent = powerToken.getServiceFeePercent();
+        service.energyGapHalvingPeriod = powerToken.getEnergyGapHalvingPeriod();
+        service.index = powerToken.getIndex();
+        service.minRentalPeriod = powerToken.getMinRentalPeriod();
+        service.maxRentalPeriod = powerToken.getMaxRentalPeriod();
+        service.swappingEnabled = powerToken.isSwappingEnabled();
+        service.transferEnabled = powerToken.isTransferEnabled();
+    }
+
+    function _getAccountService(PowerToken powerToken, address account)
+        private
+        view
+        returns (AccountService memory service)
+    {
+        service.powerToken = address(powerToken);
+        service.balance = powerToken.balanceOf(account);
+        service.availableBalance = powerToken.availableBalanceOf(account);
+        service.lockedBalance = powerToken.getState(account).lockedBalance;
+        service.energy = powerToken.energyAt(account, uint32(block.timestamp));
+    }
+}
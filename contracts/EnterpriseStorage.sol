@@ -22,11 +22,6 @@ import "./libs/Errors.sol";
  * be used as an `owner` of this contract
  */
 abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage {
-    struct Stake {
-        uint256 amount;
-        uint256 shares;
-        uint256 block;
-    }
     struct PaymentTokenInfo {
         address paymentToken;
         bool enabled;
@@ -118,6 +113,7 @@ abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage
     mapping(uint256 => Stake) internal _stakes;
     mapping(address => bool) internal _registeredPowerTokens;
     IPowerToken[] internal _powerTokens;
+    bool internal _onChainTokenUri;
 
     event EnterpriseOnlyCollectionPeriodChanged(uint32 period);
     event RenterOnlyReturnPeriodChanged(uint32 period);
@@ -132,6 +128,7 @@ abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage
     event EnterpriseWalletChanged(address wallet);
     event EnterpriseCollectorChanged(address collector);
     event BaseUriChanged(string baseUri);
+    event OnChainTokenUriChanged(bool enabled);
 
     modifier whenNotShutdown() {
         require(!_enterpriseShutdown, Errors.E_ENTERPRISE_SHUTDOWN);
@@ -306,7 +303,7 @@ abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage
         );
     }
 
-    function getPowerTokens() external view returns (IPowerToken[] memory) {
+    function getPowerTokens() external view override returns (IPowerToken[] memory) {
         return _powerTokens;
     }
 
@@ -315,7 +312,7 @@ abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage
         return _rentalAgreements[rentalTokenId];
     }
 
-    function getStake(uint256 stakeTokenId) external view returns (Stake memory) {
+    function getStake(uint256 stakeTokenId) external view override returns (Stake memory) {
         _stakeToken.ownerOf(stakeTokenId); // will throw on non existent tokenId
         return _stakes[stakeTokenId];
     }
@@ -381,6 +378,18 @@ abstract contract EnterpriseStorage is InitializableOwnable, IEnterpriseStorage
         emit BaseUriChanged(baseUri);
     }
 
+    /**
+     * @dev Switches `tokenURI` of the rental and stake tokens between the on-chain data URIs and `baseUri`.
+     */
+    function setOnChainTokenUri(bool enabled) external onlyOwner {
+        _onChainTokenUri = enabled;
+        emit OnChainTokenUriChanged(enabled);
+    }
+
+    function isOnChainTokenUri() external view override returns (bool) {
+        return _onChainTokenUri;
+    }
+
     function setStreamingReserveHalvingPeriod(uint32 streamingReserveHalvingPeriod) external onlyOwner {
         require(streamingReserveHalvingPeriod > 0, Errors.ES_STREAMING_RESERVE_HALVING_PERIOD_NOT_GT_0);
         _streamingReserveHalvingPeriod = streamingReserveHalvingPeriod;
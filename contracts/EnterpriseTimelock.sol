@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+
+// IQ Protocol. Risk-free collateral-less utility renting
+// https://iq.space/docs/iq-yellow-paper.pdf
+// (C) Blockvis & PARSIQ
+// 🖖 Stake strong!
+
+pragma solidity 0.8.4;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+/**
+ * @dev OpenZeppelin `TimelockController` intended to be the enterprise owner.
+ */
+contract EnterpriseTimelock is TimelockController {
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors
+    ) TimelockController(minDelay, proposers, executors) {}
+}
@@ -34,10 +34,17 @@ abstract contract InitializableOwnable is IInitializableOwnable {
      * @dev Throws if called by any account other than the owner.
      */
     modifier onlyOwner() {
-        require(owner() == msg.sender, Errors.CALLER_NOT_OWNER);
+        _checkOwner();
         _;
     }
 
+    /**
+     * @dev Keeps the check out of the modifier, so that it is not inlined into every owner-only function.
+     */
+    function _checkOwner() internal view {
+        require(owner() == msg.sender, Errors.CALLER_NOT_OWNER);
+    }
+
     /**
      * @dev Transfers ownership of the contract to a new account (`newOwner`).
      * Can only be called by the current owner.
@@ -0,0 +1,182 @@
+// SPDX-License-Identifier: MIT
+
+// IQ Protocol. Risk-free collateral-less utility renting
+// https://iq.space/docs/iq-yellow-paper.pdf
+// (C) Blockvis & PARSIQ
+// 🖖 Stake strong!
+
+pragma solidity 0.8.4;
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IAggregatorV3.sol";
+import "./interfaces/IConverter.sol";
+import "./InitializableOwnable.sol";
+import "./libs/Errors.sol";
+
+/**
+ * Converts tokens at prices reported by Chainlink compatible aggregators, all feeds must share the same quote (e.g. USD).
+ * Converted tokens are paid out of the converter own balance, so it is supposed to be pre-funded by the owner
+ * with enterprise tokens. Payment tokens received in exchange can be withdrawn by the owner.
+ * Only the enterprises allowed by the owner can convert, so that nobody can trade against the pre-funded balance
+ * when the feed prices lag the market.
+ */
+contract OracleConverter is IConverter, InitializableOwnable {
+    using SafeERC20 for IERC20;
+
+    uint256 internal constant PRICE_DECIMALS = 18;
+
+    mapping(IERC20 => IAggregatorV3) internal _feeds;
+    // Maximal age of the latest feed answer in seconds.
+    uint32 internal _maxStaleness;
+    // Maximal change of the latest feed answer relative to the previous round, 10000 is 100%.
+    uint16 internal _maxDeviationPercent;
+    mapping(address => bool) internal _allowedEnterprises;
+
+    event FeedChanged(address token, address feed);
+    event MaxStalenessChanged(uint32 maxStaleness);
+    event MaxDeviationPercentChanged(uint16 percent);
+    event EnterpriseAllowedChanged(address enterprise, bool allowed);
+
+    constructor(uint32 maxStaleness, uint16 maxDeviationPercent) {
+        initialize(msg.sender);
+        _setMaxStaleness(maxStaleness);
+        _setMaxDeviationPercent(maxDeviationPercent);
+    }
+
+    /**
+     * @dev Converts `source` tokens to `target` tokens.
+     * Converted tokens must be on `msg.sender` address after exiting this function
+     */
+    function convert(
+        IERC20 source,
+        uint256 amount,
+        IERC20 target
+    ) external override returns (uint256) {
+        require(_allowedEnterprises[msg.sender], Errors.OC_CALLER_NOT_ALLOWED);
+        if (address(source) == address(target) || amount == 0) return amount;
+
+        uint256 converted = _estimateConvert(source, amount, target);
+        require(target.balanceOf(address(this)) >= converted, Errors.OC_INSUFFICIENT_BALANCE);
+
+        source.safeTransferFrom(msg.sender, address(this), amount);
+        target.safeTransfer(msg.sender, converted);
+
+        return converted;
+    }
+
+    function setFeed(IERC20 token, IAggregatorV3 feed) external onlyOwner {
+        _feeds[token] = feed;
+        emit FeedChanged(address(token), address(feed));
+    }
+
+    function setEnterpriseAllowed(address enterprise, bool allowed) external onlyOwner {
+        _allowedEnterprises[enterprise] = allowed;
+        emit EnterpriseAllowedChanged(enterprise, allowed);
+    }
+
+    function setMaxStaleness(uint32 maxStaleness) external onlyOwner {
+        _setMaxStaleness(maxStaleness);
+    }
+
+    function setMaxDeviationPercent(uint16 maxDeviationPercent) external onlyOwner {
+        _setMaxDeviationPercent(maxDeviationPercent);
+    }
+
+    function withdraw(
+        IERC20 token,
+        address to,
+        uint256 amount
+    ) external onlyOwner {
+        token.safeTransfer(to, amount);
+    }
+
+    function estimateConvert(
+        IERC20 source,
+        uint256 amount,
+        IERC20 target
+    ) external view override returns (uint256) {
+        if (address(source) == address(target)) return amount;
+
+        return _estimateConvert(source, amount, target);
+    }
+
+    function getFeed(IERC20 token) external view returns (IAggregatorV3) {
+        return _feeds[token];
+    }
+
+    function isEnterpriseAllowed(address enterprise) external view returns (bool) {
+        return _allowedEnterprises[enterprise];
+    }
+
+    function getMaxStaleness() external view returns (uint32) {
+        return _maxStaleness;
+    }
+
+    function getMaxDeviationPercent() external view returns (uint16) {
+        return _maxDeviationPercent;
+    }
+
+    /**
+     * @dev Returns validated price of one whole `token` in the feed quote, scaled to 18 decimals.
+     */
+    function getPrice(IERC20 token) external view returns (uint256) {
+        return _getPrice(token);
+    }
+
+    function _setMaxStaleness(uint32 maxStaleness) internal {
+        require(maxStaleness > 0, Errors.OC_INVALID_MAX_STALENESS);
+        _maxStaleness = maxStaleness;
+        emit MaxStalenessChanged(maxStaleness);
+    }
+
+    function _setMaxDeviationPercent(uint16 maxDeviationPercent) internal {
+        require(maxDeviationPercent > 0, Errors.OC_INVALID_MAX_DEVIATION);
+        _maxDeviationPercent = maxDeviationPercent;
+        emit MaxDeviationPercentChanged(maxDeviationPercent);
+    }
+
+    function _estimateConvert(
+        IERC20 source,
+        uint256 amount,
+        IERC20 target
+    ) internal view returns (uint256) {
+        uint256 value = (amount * _getPrice(source)) / 10**IERC20Metadata(address(source)).decimals();
+        return (value * 10**IERC20Metadata(address(target)).decimals()) / _getPrice(target);
+    }
+
+    function _getPrice(IERC20 token) internal view returns (uint256) {
+        IAggregatorV3 feed = _feeds[token];
+        require(address(feed) != address(0), Errors.OC_UNSUPPORTED_TOKEN);
+
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = feed.latestRoundData();
+        require(answer > 0 && answeredInRound >= roundId, Errors.OC_INVALID_PRICE);
+        require(updatedAt + _maxStaleness >= block.timestamp, Errors.OC_STALE_PRICE);
+        _checkDeviation(feed, roundId, uint256(answer));
+
+        uint8 feedDecimals = feed.decimals();
+        return
+            feedDecimals > PRICE_DECIMALS
+                ? uint256(answer) / 10**(feedDecimals - PRICE_DECIMALS)
+                : uint256(answer) * 10**(PRICE_DECIMALS - feedDecimals);
+    }
+
+    /**
+     * @dev Rejects answers jumping too far from the previous round, which is skipped when it is not available
+     * (e.g. the first round of the aggregator phase).
+     */
+    function _checkDeviation(
+        IAggregatorV3 feed,
+        uint80 roundId,
+        uint256 answer
+    ) internal view {
+        if (roundId <= 1) return;
+
+        try feed.getRoundData(roundId - 1) returns (uint80, int256 previous, uint256, uint256, uint80) {
+            if (previous <= 0) return;
+            uint256 delta = answer > uint256(previous) ? answer - uint256(previous) : uint256(previous) - answer;
+            require(delta * 10_000 <= uint256(previous) * _maxDeviationPercent, Errors.OC_PRICE_DEVIATION_EXCEEDED);
+        } catch {
+            return;
+        }
+    }
+}
@@ -11,9 +11,11 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "./interfaces/IRentalToken.sol";
 import "./interfaces/IEnterprise.sol";
 import "./RentalTokenStorage.sol";
+import "./libs/TokenUri.sol";
 
 contract RentalToken is RentalTokenStorage, IRentalToken {
     using SafeERC20 for IERC20;
+    using Strings for uint256;
 
     function mint(address to) external override onlyEnterprise returns (uint256) {
         uint256 tokenId = getNextTokenId();
@@ -45,6 +47,60 @@ contract RentalToken is RentalTokenStorage, IRentalToken {
         getEnterprise().transferRental(from, to, tokenId);
     }
 
+    /**
+     * @dev Renders the rental agreement as data URI when the enterprise has on-chain token URIs enabled.
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        IEnterprise enterprise = getEnterprise();
+        if (!enterprise.isOnChainTokenUri()) return super.tokenURI(tokenId);
+        require(_exists(tokenId), Errors.ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN);
+
+        IEnterprise.RentalAgreement memory rentalAgreement = enterprise.getRentalAgreement(tokenId);
+        IPowerToken powerToken = enterprise.getPowerTokens()[rentalAgreement.powerTokenIndex];
+        string memory amount = TokenUri.formatUnits(rentalAgreement.rentalAmount, powerToken.decimals());
+        string memory symbol = TokenUri.sanitize(powerToken.symbol());
+        string memory title = string(abi.encodePacked(amount, " ", symbol, " rental"));
+        string memory status = _getStatus(rentalAgreement);
+
+        string memory expiry = TokenUri.formatTime(rentalAgreement.endTime);
+
+        string[2][] memory rows = new string[2][](3);
+        rows[0] = ["Status", status];
+        rows[1] = ["Expiry", expiry];
+        rows[2] = ["Renter only return", TokenUri.formatTime(rentalAgreement.renterOnlyReturnTime)];
+
+        string memory attributes = string(
+            abi.encodePacked(
+                TokenUri.attribute("Power token", symbol, ""),
+                ",",
+                TokenUri.attribute("Amount", amount, "number"),
+                ",",
+                TokenUri.attribute("Status", status, ""),
+                ",",
+                TokenUri.attribute("Expiry", uint256(rentalAgreement.endTime).toString(), "date")
+            )
+        );
+        return
+            TokenUri.encode(
+                title,
+                string(abi.encodePacked("Rental of ", amount, " ", symbol, " expiring at ", expiry, ".")),
+                TokenUri.card(TokenUri.sanitize(name()), title, rows),
+                attributes
+            );
+    }
+
+    /**
+     * @dev Returns the rental agreement status with regards to `Enterprise.returnRental` caller restrictions.
+     */
+    function _getStatus(IEnterprise.RentalAgreement memory rentalAgreement) internal view returns (string memory) {
+        // solhint-disable-next-line not-rely-on-time
+        uint256 timestamp = block.timestamp;
+        if (timestamp < rentalAgreement.endTime) return "Active";
+        if (timestamp <= rentalAgreement.renterOnlyReturnTime) return "Renter only";
+        if (timestamp <= rentalAgreement.enterpriseOnlyCollectionTime) return "Collector only";
+        return "Collectable";
+    }
+
     function _baseURI() internal view override returns (string memory) {
         string memory baseURI = getEnterprise().getBaseUri();
         return bytes(baseURI).length > 0 ? string(abi.encodePacked(baseURI, "rental/")) : "";
@@ -10,12 +10,54 @@ pragma solidity 0.8.4;
 import "./interfaces/IStakeToken.sol";
 import "./interfaces/IEnterprise.sol";
 import "./StakeTokenStorage.sol";
+import "./libs/TokenUri.sol";
 
 contract StakeToken is StakeTokenStorage, IStakeToken {
     function getNextTokenId() public view override returns (uint256) {
         return uint256(keccak256(abi.encodePacked("s", address(this), _tokenIdTracker)));
     }
 
+    /**
+     * @dev Renders the stake as data URI when the enterprise has on-chain token URIs enabled.
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        IEnterprise enterprise = getEnterprise();
+        if (!enterprise.isOnChainTokenUri()) return super.tokenURI(tokenId);
+        require(_exists(tokenId), Errors.ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN);
+
+        IEnterprise.Stake memory stake = enterprise.getStake(tokenId);
+        IERC20Metadata enterpriseToken = enterprise.getEnterpriseToken();
+        uint8 decimals = enterpriseToken.decimals();
+        string memory symbol = TokenUri.sanitize(enterpriseToken.symbol());
+        string memory amount = TokenUri.formatUnits(stake.amount, decimals);
+        string memory shares = TokenUri.formatUnits(stake.shares, decimals);
+        string memory reward = TokenUri.formatUnits(enterprise.getStakingReward(tokenId), decimals);
+        string memory title = string(abi.encodePacked(amount, " ", symbol, " stake"));
+
+        string memory pendingReward = string(abi.encodePacked(reward, " ", symbol));
+
+        string[2][] memory rows = new string[2][](2);
+        rows[0] = ["Shares", shares];
+        rows[1] = ["Pending reward", pendingReward];
+
+        string memory attributes = string(
+            abi.encodePacked(
+                TokenUri.attribute("Amount", amount, "number"),
+                ",",
+                TokenUri.attribute("Shares", shares, "number"),
+                ",",
+                TokenUri.attribute("Pending reward", reward, "number")
+            )
+        );
+        return
+            TokenUri.encode(
+                title,
+                string(abi.encodePacked("Stake of ", amount, " ", symbol, " with ", pendingReward, " pending reward.")),
+                TokenUri.card(TokenUri.sanitize(name()), title, rows),
+                attributes
+            );
+    }
+
     function _baseURI() internal view override returns (string memory) {
         string memory baseURI = getEnterprise().getBaseUri();
         return bytes(baseURI).length > 0 ? string(abi.encodePacked(baseURI, "stake/")) : "";
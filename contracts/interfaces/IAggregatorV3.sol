@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.4;
+
+/**
+ * Subset of Chainlink `AggregatorV3Interface`, implemented by Chainlink price feeds and compatible oracles.
+ */
+interface IAggregatorV3 {
+    function decimals() external view returns (uint8);
+
+    function getRoundData(uint80 roundId)
+        external
+        view
+        returns (
+            uint80 id,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        );
+
+    function latestRoundData()
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        );
+}
@@ -10,4 +10,6 @@ interface IEnterprise is IEnterpriseStorage {
         address to,
         uint256 rentalTokenId
     ) external;
+
+    function getStakingReward(uint256 stakeTokenId) external view returns (uint256);
 }
@@ -8,6 +8,7 @@ import "./IInitializableOwnable.sol";
 import "./IStakeToken.sol";
 import "./IRentalToken.sol";
 import "./IConverter.sol";
+import "./IPowerToken.sol";
 
 interface IEnterpriseStorage is IInitializableOwnable {
     struct RentalAgreement {
@@ -23,6 +24,12 @@ interface IEnterpriseStorage is IInitializableOwnable {
         uint16 gcRewardTokenIndex; // 2 bytes
     }
 
+    struct Stake {
+        uint256 amount;
+        uint256 shares;
+        uint256 block;
+    }
+
     function initialize(
         string memory enterpriseName,
         string calldata baseUri,
@@ -58,5 +65,11 @@ interface IEnterpriseStorage is IInitializableOwnable {
 
     function getRentalAgreement(uint256 rentalTokenId) external view returns (RentalAgreement memory);
 
+    function getStake(uint256 stakeTokenId) external view returns (Stake memory);
+
+    function getPowerTokens() external view returns (IPowerToken[] memory);
+
+    function isOnChainTokenUri() external view returns (bool);
+
     function getPaymentToken(uint256 index) external view returns (address);
 }
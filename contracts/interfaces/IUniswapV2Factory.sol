@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.4;
+
+/**
+ * Subset of Uniswap V2 factory interface, implemented by PancakeSwap, QuickSwap and other forks.
+ */
+interface IUniswapV2Factory {
+    function getPair(address tokenA, address tokenB) external view returns (address pair);
+}
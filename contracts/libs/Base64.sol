@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.4;
+
+/**
+ * @dev Base64 encoding (RFC 4648) used to build data URIs.
+ */
+library Base64 {
+    bytes internal constant TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+    function encode(bytes memory data) internal pure returns (string memory) {
+        bytes memory table = TABLE;
+        // Every 3 bytes are encoded as 4 characters, the last group is padded with `=`.
+        bytes memory result = new bytes(4 * ((data.length + 2) / 3));
+        uint256 j = 0;
+        for (uint256 i = 0; i < data.length; i += 3) {
+            uint256 chunk = uint256(uint8(data[i])) << 16;
+            if (i + 1 < data.length) chunk |= uint256(uint8(data[i + 1])) << 8;
+            if (i + 2 < data.length) chunk |= uint256(uint8(data[i + 2]));
+
+            result[j++] = table[(chunk >> 18) & 63];
+            result[j++] = table[(chunk >> 12) & 63];
+            result[j++] = i + 1 < data.length ? table[(chunk >> 6) & 63] : bytes1("=");
+            result[j++] = i + 2 < data.length ? table[chunk & 63] : bytes1("=");
+        }
+        return string(result);
+    }
+}
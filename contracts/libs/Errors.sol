@@ -9,12 +9,15 @@ pragma solidity 0.8.4;
  *  - ERC721 = ERC721
  *  - ERC721META = ERC721Metadata
  *  - ERC721ENUM = ERC721Enumerable
+ *  - CPC = ConstantProductConverter
  *  - DC = DefaultConverter
  *  - DE = DefaultEstimator
  *  - E = Enterprise
+ *  - EF = EnterpriseFactory
  *  - EO = EnterpriseOwnable
  *  - ES = EnterpriseStorage
  *  - IO = InitializableOwnable
+ *  - OC = OracleConverter
  *  - PT = PowerToken
  */
 library Errors {
@@ -117,4 +120,22 @@ library Errors {
     string internal constant E_INVALID_ENTERPRISE_NAME = "81";
     string internal constant PT_INVALID_MAX_RENTAL_PERIOD = "82";
     string internal constant E_INVALID_ENTERPRISE_FACTORY_ADDRESS = "83";
+
+    string internal constant CPC_INVALID_FACTORY_ADDRESS = "84";
+    string internal constant CPC_INVALID_FEE_PERCENT = "85";
+    string internal constant CPC_UNSUPPORTED_PAIR = "86";
+    string internal constant CPC_INSUFFICIENT_LIQUIDITY = "87";
+    string internal constant CPC_INVALID_TWAP_PERIOD = "88";
+    string internal constant CPC_INVALID_MAX_DEVIATION = "89";
+    string internal constant CPC_INSUFFICIENT_PRICE_HISTORY = "90";
+    string internal constant CPC_PRICE_DEVIATION_EXCEEDED = "91";
+
+    string internal constant OC_INVALID_MAX_STALENESS = "92";
+    string internal constant OC_INVALID_MAX_DEVIATION = "93";
+    string internal constant OC_UNSUPPORTED_TOKEN = "94";
+    string internal constant OC_INVALID_PRICE = "95";
+    string internal constant OC_STALE_PRICE = "96";
+    string internal constant OC_PRICE_DEVIATION_EXCEEDED = "97";
+    string internal constant OC_INSUFFICIENT_BALANCE = "98";
+    string internal constant OC_CALLER_NOT_ALLOWED = "99";
 }
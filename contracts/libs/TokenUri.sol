@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.4;
+
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./Base64.sol";
+
+// JSON and SVG literals are single-quoted by prettier to avoid escaping the double quotes.
+// solhint-disable quotes
+
+/**
+ * @dev Renders ERC-721 metadata JSON with an SVG card as a base64 data URI.
+ */
+library TokenUri {
+    using Strings for uint256;
+
+    uint256 private constant FRACTION_DIGITS = 4;
+
+    /**
+     * @dev Returns the metadata data URI, `attributes` is the content of the JSON attributes array.
+     */
+    function encode(
+        string memory name,
+        string memory description,
+        string memory image,
+        string memory attributes
+    ) internal pure returns (string memory) {
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            name,
+            '","description":"',
+            description,
+            '","image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(image)),
+            '","attributes":[',
+            attributes,
+            "]}"
+        );
+        return string(abi.encodePacked("data:application/json;base64,", Base64.encode(json)));
+    }
+
+    /**
+     * @dev Renders the 350x350 card with the header, the title and the labeled rows.
+     */
+    function card(
+        string memory header,
+        string memory title,
+        string[2][] memory rows
+    ) internal pure returns (string memory) {
+        bytes memory lines;
+        for (uint256 i = 0; i < rows.length; i++) {
+            string memory y = (130 + i * 30).toString();
+            lines = abi.encodePacked(
+                lines,
+                '<text x="20" y="',
+                y,
+                '" class="label">',
+                rows[i][0],
+                '</text><text x="330" y="',
+                y,
+                '" class="value" text-anchor="end">',
+                rows[i][1],
+                "</text>"
+            );
+        }
+        return
+            string(
+                abi.encodePacked(
+                    '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="350" viewBox="0 0 350 350">',
+                    "<style>text{font-family:monospace;fill:#fff}.header{font-size:14px;opacity:.7}",
+                    ".title{font-size:18px}.label{font-size:11px;opacity:.7}.value{font-size:11px}</style>",
+                    '<rect width="350" height="350" rx="16" fill="#1b1f3b"/><text x="20" y="40" class="header">',
+                    header,
+                    '</text><text x="20" y="80" class="title">',
+                    title,
+                    "</text>",
+                    lines,
+                    "</svg>"
+                )
+            );
+    }
+
+    /**
+     * @dev Returns the JSON attribute, `value` is quoted unless `displayType` is set.
+     */
+    function attribute(
+        string memory traitType,
+        string memory value,
+        string memory displayType
+    ) internal pure returns (string memory) {
+        return
+            bytes(displayType).length > 0
+                ? string(
+                    abi.encodePacked(
+                        '{"trait_type":"',
+                        traitType,
+                        '","display_type":"',
+                        displayType,
+                        '","value":',
+                        value,
+                        "}"
+                    )
+                )
+                : string(abi.encodePacked('{"trait_type":"', traitType, '","value":"', value, '"}'));
+    }
+
+    /**
+     * @dev Formats the token amount with up to 4 fraction digits, e.g. `1234.5`.
+     */
+    function formatUnits(uint256 amount, uint8 decimals) internal pure returns (string memory) {
+        uint256 unit = 10**decimals;
+        uint256 digits = decimals < FRACTION_DIGITS ? decimals : FRACTION_DIGITS;
+        uint256 fraction = (amount % unit) / 10**(decimals - digits);
+        if (fraction == 0) return (amount / unit).toString();
+
+        bytes memory padded = bytes((fraction + 10**digits).toString());
+        uint256 length = padded.length;
+        while (padded[length - 1] == "0") length--;
+        bytes memory fractionDigits = new bytes(length - 1);
+        for (uint256 i = 1; i < length; i++) {
+            fractionDigits[i - 1] = padded[i];
+        }
+        return string(abi.encodePacked((amount / unit).toString(), ".", fractionDigits));
+    }
+
+    /**
+     * @dev Formats the timestamp as ISO 8601 UTC date and time, e.g. `2021-10-01T12:00:00Z`.
+     */
+    function formatTime(uint256 timestamp) internal pure returns (string memory) {
+        // Civil from days algorithm, see http://howardhinnant.github.io/date_algorithms.html
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+        uint256 time = timestamp % 1 days;
+
+        return
+            string(
+                abi.encodePacked(
+                    year.toString(),
+                    "-",
+                    _pad(month),
+                    "-",
+                    _pad(doy - (153 * mp + 2) / 5 + 1),
+                    "T",
+                    _pad(time / 1 hours),
+                    ":",
+                    _pad((time % 1 hours) / 1 minutes),
+                    ":",
+                    _pad(time % 1 minutes),
+                    "Z"
+                )
+            );
+    }
+
+    /**
+     * @dev Replaces the characters breaking JSON strings or SVG markup with `_`.
+     */
+    function sanitize(string memory value) internal pure returns (string memory) {
+        bytes memory result = abi.encodePacked(value);
+        for (uint256 i = 0; i < result.length; i++) {
+            bytes1 char = result[i];
+            if (char == '"' || char == "\\" || char == "<" || char == ">" || char == "&" || char < 0x20) {
+                result[i] = "_";
+            }
+        }
+        return string(result);
+    }
+
+    function _pad(uint256 value) private pure returns (string memory) {
+        return value < 10 ? string(abi.encodePacked("0", value.toString())) : value.toString();
+    }
+}
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.4;
+import "../interfaces/IAggregatorV3.sol";
+
+/**
+ * For testing purposes only
+ * DO NOT USE IN PRODUCTION!!!
+ */
+contract AggregatorMock is IAggregatorV3 {
+    struct Round {
+        int256 answer;
+        uint256 updatedAt;
+    }
+
+    uint8 public immutable override decimals;
+    uint80 internal _latestRound;
+    mapping(uint80 => Round) internal _rounds;
+
+    constructor(uint8 feedDecimals, int256 answer) {
+        decimals = feedDecimals;
+        setAnswer(answer);
+    }
+
+    /**
+     * @dev Starts a new round answered at the current block timestamp.
+     */
+    function setAnswer(int256 answer) public {
+        setRound(answer, block.timestamp);
+    }
+
+    function setRound(int256 answer, uint256 updatedAt) public {
+        _latestRound++;
+        _rounds[_latestRound] = Round(answer, updatedAt);
+    }
+
+    function getRoundData(uint80 roundId)
+        external
+        view
+        override
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        return _getRoundData(roundId);
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        return _getRoundData(_latestRound);
+    }
+
+    function _getRoundData(uint80 roundId)
+        internal
+        view
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        Round storage round = _rounds[roundId];
+        require(round.updatedAt > 0, "No data present");
+        return (roundId, round.answer, round.updatedAt, round.updatedAt, roundId);
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.4;
+import "../interfaces/IUniswapV2Factory.sol";
+import "./UniswapV2PairMock.sol";
+
+/**
+ * For testing purposes only
+ * DO NOT USE IN PRODUCTION!!!
+ */
+contract UniswapV2FactoryMock is IUniswapV2Factory {
+    uint16 internal _feePercent;
+    mapping(address => mapping(address => address)) public override getPair;
+
+    event PairCreated(address indexed token0, address indexed token1, address pair);
+
+    constructor(uint16 feePercent) {
+        _feePercent = feePercent;
+    }
+
+    function createPair(address tokenA, address tokenB) external returns (address pair) {
+        require(getPair[tokenA][tokenB] == address(0), "UniswapV2: PAIR_EXISTS");
+        UniswapV2PairMock created = new UniswapV2PairMock(tokenA, tokenB, _feePercent);
+        pair = address(created);
+        getPair[tokenA][tokenB] = pair;
+        getPair[tokenB][tokenA] = pair;
+        emit PairCreated(created.token0(), created.token1(), pair);
+    }
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.4;
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IUniswapV2Pair.sol";
+
+/**
+ * Constant-product pair without LP tokens, liquidity is added by transferring tokens and calling `sync`.
+ * For testing purposes only
+ * DO NOT USE IN PRODUCTION!!!
+ */
+contract UniswapV2PairMock is IUniswapV2Pair {
+    using SafeERC20 for IERC20;
+
+    address public override token0;
+    address public override token1;
+    uint256 public override price0CumulativeLast;
+    uint256 public override price1CumulativeLast;
+    uint16 internal _feePercent;
+    uint112 internal _reserve0;
+    uint112 internal _reserve1;
+    uint32 internal _blockTimestampLast;
+
+    constructor(
+        address tokenA,
+        address tokenB,
+        uint16 feePercent
+    ) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        _feePercent = feePercent;
+    }
+
+    function getReserves()
+        external
+        view
+        override
+        returns (
+            uint112,
+            uint112,
+            uint32
+        )
+    {
+        return (_reserve0, _reserve1, _blockTimestampLast);
+    }
+
+    function sync() public {
+        uint32 timestamp = uint32(block.timestamp);
+        unchecked {
+            // Same UQ112x112 price accumulation as in Uniswap V2, overflows are desired.
+            uint32 elapsed = timestamp - _blockTimestampLast;
+            if (elapsed > 0 && _reserve0 != 0 && _reserve1 != 0) {
+                price0CumulativeLast += ((uint256(_reserve1) << 112) / _reserve0) * elapsed;
+                price1CumulativeLast += ((uint256(_reserve0) << 112) / _reserve1) * elapsed;
+            }
+        }
+        _reserve0 = uint112(IERC20(token0).balanceOf(address(this)));
+        _reserve1 = uint112(IERC20(token1).balanceOf(address(this)));
+        _blockTimestampLast = timestamp;
+    }
+
+    function swap(
+        uint256 amount0Out,
+        uint256 amount1Out,
+        address to,
+        bytes calldata
+    ) external override {
+        require(amount0Out > 0 || amount1Out > 0, "UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT");
+        require(amount0Out < _reserve0 && amount1Out < _reserve1, "UniswapV2: INSUFFICIENT_LIQUIDITY");
+
+        if (amount0Out > 0) IERC20(token0).safeTransfer(to, amount0Out);
+        if (amount1Out > 0) IERC20(token1).safeTransfer(to, amount1Out);
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+
+        uint256 amount0In = balance0 > _reserve0 - amount0Out ? balance0 - (_reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > _reserve1 - amount1Out ? balance1 - (_reserve1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "UniswapV2: INSUFFICIENT_INPUT_AMOUNT");
+
+        uint256 balance0Adjusted = balance0 * 10_000 - amount0In * _feePercent;
+        uint256 balance1Adjusted = balance1 * 10_000 - amount1In * _feePercent;
+        require(balance0Adjusted * balance1Adjusted >= uint256(_reserve0) * _reserve1 * 10_000**2, "UniswapV2: K");
+
+        sync();
+    }
+}
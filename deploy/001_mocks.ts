@@ -18,6 +18,12 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     from: deployer,
     log: true,
   });
+
+  await deploy('UniswapV2FactoryMock', {
+    from: deployer,
+    args: [30],
+    log: true,
+  });
 };
 export default func;
 func.tags = ['test'];
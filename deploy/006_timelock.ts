@@ -0,0 +1,50 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+
+const TWO_DAYS = 2 * 24 * 60 * 60;
+
+/**
+ * Deploys `<enterprise>_Timelock` and transfers the enterprise ownership to it. Configured by environment:
+ * `TIMELOCK_ENTERPRISE` (enterprise address or deployment name), `TIMELOCK_MIN_DELAY` (seconds),
+ * `TIMELOCK_PROPOSERS` and `TIMELOCK_EXECUTORS` (comma separated addresses or named accounts).
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, ethers } = hre;
+  const { deploy } = deployments;
+
+  const accounts = await getNamedAccounts();
+  const { deployer } = accounts;
+  const resolve = async (value: string): Promise<string> => {
+    if (ethers.utils.isAddress(value)) return value;
+    if (accounts[value]) return accounts[value];
+    return (await deployments.get(value)).address;
+  };
+  const resolveList = (value: string) => Promise.all(value.split(',').map((x) => resolve(x.trim())));
+
+  const enterpriseName = process.env.TIMELOCK_ENTERPRISE as string;
+  const enterprise = await ethers.getContractAt('Enterprise', await resolve(enterpriseName), deployer);
+  const proposers = await resolveList(process.env.TIMELOCK_PROPOSERS ?? 'deployer');
+  const executors = process.env.TIMELOCK_EXECUTORS ? await resolveList(process.env.TIMELOCK_EXECUTORS) : proposers;
+  const minDelay = process.env.TIMELOCK_MIN_DELAY ? parseInt(process.env.TIMELOCK_MIN_DELAY) : TWO_DAYS;
+
+  const timelock = await deploy(`${enterpriseName}_Timelock`, {
+    contract: 'EnterpriseTimelock',
+    from: deployer,
+    args: [minDelay, proposers, executors],
+    log: true,
+  });
+
+  if (timelock.newlyDeployed) {
+    // Further role changes have to go through the timelock itself.
+    const contract = await ethers.getContractAt('EnterpriseTimelock', timelock.address, deployer);
+    await (await contract.renounceRole(await contract.TIMELOCK_ADMIN_ROLE(), deployer)).wait();
+  }
+
+  if ((await enterprise.owner()) !== timelock.address) {
+    await (await enterprise.transferOwnership(timelock.address)).wait();
+    console.log(`transferred ${enterpriseName} ownership to ${timelock.address}`);
+  }
+};
+export default func;
+func.tags = ['timelock'];
+func.skip = async () => !process.env.TIMELOCK_ENTERPRISE;
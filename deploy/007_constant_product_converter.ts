@@ -0,0 +1,44 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+
+/**
+ * Uniswap V2 compatible factories and their swap fees (10000 is 100%).
+ */
+const PAIR_FACTORIES: Record<string, { factory: string; feePercent: number }> = {
+  // PancakeSwap V2
+  binance: { factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73', feePercent: 25 },
+  // QuickSwap
+  polygon: { factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32', feePercent: 30 },
+};
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deploy } = deployments;
+
+  const { deployer } = await getNamedAccounts();
+
+  // Forks use the factory of the forked network, local networks use the mock factory.
+  const known = PAIR_FACTORIES[process.env.HARDHAT_FORK ?? network.name];
+  const mock = await deployments.getOrNull('UniswapV2FactoryMock');
+  const factory = process.env.CONVERTER_PAIR_FACTORY || known?.factory || mock?.address;
+  if (!factory) {
+    if (network.live) throw new Error(`No pair factory configured for ${network.name}, set CONVERTER_PAIR_FACTORY`);
+    console.log(`skipping ConstantProductConverter: no pair factory configured for ${network.name}`);
+    return;
+  }
+  const feePercent = process.env.CONVERTER_FEE_PERCENT
+    ? parseInt(process.env.CONVERTER_FEE_PERCENT)
+    : known?.feePercent ?? 30;
+  const twapPeriod = process.env.CONVERTER_TWAP_PERIOD ? parseInt(process.env.CONVERTER_TWAP_PERIOD) : 1800;
+  const maxDeviationPercent = process.env.CONVERTER_MAX_DEVIATION_PERCENT
+    ? parseInt(process.env.CONVERTER_MAX_DEVIATION_PERCENT)
+    : 200;
+
+  await deploy('ConstantProductConverter', {
+    from: deployer,
+    args: [factory, feePercent, twapPeriod, maxDeviationPercent],
+    log: true,
+  });
+};
+export default func;
+func.tags = ['production', 'constant-product-converter'];
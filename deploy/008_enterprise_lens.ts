@@ -0,0 +1,17 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy } = deployments;
+
+  const { deployer } = await getNamedAccounts();
+
+  await deploy('EnterpriseLens', {
+    from: deployer,
+    args: [],
+    log: true,
+  });
+};
+export default func;
+func.tags = ['production', 'lens'];
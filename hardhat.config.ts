@@ -7,7 +7,29 @@ import '@nomiclabs/hardhat-waffle';
 import '@typechain/hardhat';
 import 'solidity-coverage';
 import 'hardhat-contract-sizer';
-import { node_url, accounts, privateKey } from './utils/network';
+import { node_url, accounts, namedRole, resolveSigners } from './utils/network';
+import './tasks/provision';
+import './tasks/upgrade';
+import './tasks/errors';
+import './tasks/simulate';
+import './tasks/address_book';
+import './tasks/fuzz';
+import './tasks/gas';
+
+// Keystores are decrypted and the default keys are refused only for the network selected by `--network`.
+const signers = {
+  localhost: resolveSigners('localhost', { keys: '' }),
+  staging: resolveSigners('staging', { keys: 'rinkeby' }),
+  production: resolveSigners('production', { keys: 'mainnet' }),
+  mainnet: resolveSigners('mainnet'),
+  rinkeby: resolveSigners('rinkeby'),
+  kovan: resolveSigners('kovan'),
+  goerli: resolveSigners('goerli'),
+  binance: resolveSigners('binance'),
+  binanceTestnet: resolveSigners('binanceTestnet', { privateKey: true }),
+  polygonTestnet: resolveSigners('polygonTestnet', { privateKey: true }),
+  polygon: resolveSigners('polygon', { privateKey: true }),
+};
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -28,6 +50,8 @@ const config: HardhatUserConfig = {
     user: 1,
     user2: 2,
     stranger: 3,
+    operator: namedRole(signers, 'operator'),
+    collector: namedRole(signers, 'collector'),
   },
   networks: {
     hardhat: {
@@ -44,47 +68,47 @@ const config: HardhatUserConfig = {
     },
     localhost: {
       url: node_url('localhost'),
-      accounts: accounts(),
+      accounts: signers.localhost.accounts,
     },
     staging: {
       url: node_url('rinkeby'),
-      accounts: accounts('rinkeby'),
+      accounts: signers.staging.accounts,
     },
     production: {
       url: node_url('mainnet'),
-      accounts: accounts('mainnet'),
+      accounts: signers.production.accounts,
     },
     mainnet: {
       url: node_url('mainnet'),
-      accounts: accounts('mainnet'),
+      accounts: signers.mainnet.accounts,
     },
     rinkeby: {
       url: node_url('rinkeby'),
-      accounts: accounts('rinkeby'),
+      accounts: signers.rinkeby.accounts,
     },
     kovan: {
       url: node_url('kovan'),
-      accounts: accounts('kovan'),
+      accounts: signers.kovan.accounts,
     },
     goerli: {
       url: node_url('goerli'),
-      accounts: accounts('goerli'),
+      accounts: signers.goerli.accounts,
     },
     binance: {
       url: 'https://bsc-dataseed.binance.org/',
-      accounts: accounts('binance'),
+      accounts: signers.binance.accounts,
     },
     binanceTestnet: {
       url: 'https://data-seed-prebsc-1-s1.binance.org:8545/',
-      accounts: privateKey('binanceTestnet'),
+      accounts: signers.binanceTestnet.accounts,
     },
     polygonTestnet: {
       url: 'https://matic-testnet-archive-rpc.bwarelabs.com',
-      accounts: privateKey('polygonTestnet'),
+      accounts: signers.polygonTestnet.accounts,
     },
     polygon: {
       url: 'https://polygon-rpc.com/',
-      accounts: privateKey('polygon'),
+      accounts: signers.polygon.accounts,
     },
   },
   paths: {
@@ -0,0 +1,67 @@
+/**
+ * Returns expired rentals of the enterprise collecting the GC reward.
+ *
+ * Usage:
+ *   yarn execute <network> scripts/gc_keeper.ts <enterprise> [--native-price <tokens>] [--min-profit <tokens>]
+ *     [--account <named account, defaults to operator>] [--dry-run]
+ *
+ * `--native-price` is the price of one native coin nominated in enterprise tokens, used to compare
+ * transaction costs with GC rewards. `--dry-run` prints the collection plan without sending transactions.
+ */
+import { ethers, getNamedAccounts } from 'hardhat';
+import { formatUnits, parseUnits } from 'ethers/lib/utils';
+import { Enterprise, IERC20Metadata } from '../typechain';
+import { executeCollection, planCollection, RentalStatus } from '../sdk';
+import { parseOptions } from './utils';
+
+async function main() {
+  const { args, options } = parseOptions(process.argv.slice(2), ['dry-run']);
+  if (args.length !== 1) throw new Error('Enterprise address is required');
+
+  const accountName = (options.account as string) ?? 'operator';
+  const account = (await getNamedAccounts())[accountName];
+  if (!account) throw new Error(`Unknown account: ${accountName}`);
+
+  const enterprise = (await ethers.getContractAt('Enterprise', args[0], account)) as Enterprise;
+  const token = (await ethers.getContractAt('IERC20Metadata', await enterprise.getEnterpriseToken())) as IERC20Metadata;
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  const format = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+
+  const gasPrice = await ethers.provider.getGasPrice();
+  const plan = await planCollection(enterprise, account, {
+    gasPrice,
+    nativePrice: parseUnits((options['native-price'] as string) ?? '0', decimals).toBigInt(),
+    minProfit: parseUnits((options['min-profit'] as string) ?? '0', decimals).toBigInt(),
+  });
+
+  console.log(`Collector: ${account}, gas price: ${formatUnits(gasPrice, 'gwei')} gwei`);
+  console.log(`Rentals to return: ${plan.returns.length}, skipped: ${plan.skipped.length}`);
+  console.table(
+    [...plan.returns.map((x) => ({ ...x, reason: 'return' })), ...plan.skipped].map((x) => ({
+      rentalTokenId: x.rentalTokenId.toString(),
+      status: RentalStatus[x.status],
+      reward: x.reward === undefined ? '' : format(x.reward),
+      cost: x.cost === undefined ? '' : format(x.cost),
+      profit: x.profit === undefined ? '' : format(x.profit),
+      action: x.reason,
+    }))
+  );
+
+  if (options['dry-run'] || plan.returns.length === 0) return;
+
+  const results = await executeCollection(enterprise, plan, gasPrice);
+  for (const { rentalTokenId, receipt, error } of results) {
+    console.log(
+      receipt
+        ? `Returned rental ${rentalTokenId}: ${receipt.transactionHash}`
+        : `Failed to return rental ${rentalTokenId}: ${error?.message}`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+/**
+ * Serves ERC-721 metadata of the rental and stake tokens of the enterprises.
+ *
+ * Usage:
+ *   yarn execute <network> scripts/metadata_server.ts <enterprise...> [--port <port>] [--cache-ttl <seconds>]
+ *     [--rpc <url>]
+ *
+ * Token URIs are `<base URI>rental/<id>` and `<base URI>stake/<id>`, so the enterprise base URI is
+ * `http(s)://<host>/<enterprise>/`, or `http(s)://<host>/` when only one enterprise is served.
+ * `--rpc` reads the chain from the given JSON-RPC endpoint instead of the network provider.
+ */
+import { ethers } from 'hardhat';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { createMetadataServer, MetadataResolver } from '../sdk';
+import { parseOptions } from './utils';
+
+async function main() {
+  const { args, options } = parseOptions(process.argv.slice(2));
+  if (args.length === 0) throw new Error('Enterprise address is required');
+
+  const provider = options.rpc ? new JsonRpcProvider(options.rpc as string) : ethers.provider;
+  const cacheTtl = options['cache-ttl'] ? parseInt(options['cache-ttl'] as string) : undefined;
+  const resolvers = args.map((address) => new MetadataResolver(provider, address, { cacheTtl }));
+  const port = options.port ? parseInt(options.port as string) : 8080;
+
+  const server = createMetadataServer(resolvers);
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(`Serving metadata of ${args.join(', ')} on http://localhost:${port}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
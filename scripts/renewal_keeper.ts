@@ -0,0 +1,87 @@
+/**
+ * Extends the rentals of the account before they end within the renewal budget.
+ *
+ * Usage:
+ *   yarn execute <network> scripts/renewal_keeper.ts <enterprise> --budget <tokens> --max-unit-price <tokens>
+ *     [--payment-token <address, defaults to enterprise token>] [--period <days>] [--renew-before <hours>]
+ *     [--slippage <bps>] [--rentals <id,id...>] [--state <file>] [--interval <seconds>]
+ *     [--account <named account, defaults to user>] [--dry-run]
+ *
+ * `--budget` is the total amount of payment tokens to spend on renewals, tracked in the `--state` file across runs.
+ * `--max-unit-price` is the maximum extension fee of one power token per day nominated in payment tokens.
+ * With `--interval` the rentals are checked repeatedly, otherwise once.
+ */
+import { ethers, getNamedAccounts } from 'hardhat';
+import { formatUnits, parseUnits } from 'ethers/lib/utils';
+import { FileRenewalStore, IQClient, RenewalDecision, RenewalKeeper } from '../sdk';
+import { parseOptions } from './utils';
+
+async function main() {
+  const { args, options } = parseOptions(process.argv.slice(2), ['dry-run']);
+  if (args.length !== 1) throw new Error('Enterprise address is required');
+  if (!options.budget || !options['max-unit-price']) throw new Error('Budget and maximum unit price are required');
+
+  const accountName = (options.account as string) ?? 'user';
+  const account = (await getNamedAccounts())[accountName];
+  if (!account) throw new Error(`Unknown account: ${accountName}`);
+
+  const client = IQClient.connect(args[0], await ethers.getSigner(account));
+  const paymentToken = client.getToken(
+    (options['payment-token'] as string) ?? (await client.enterprise.getEnterpriseToken())
+  );
+  const [symbol, decimals] = await Promise.all([paymentToken.symbol(), paymentToken.decimals()]);
+  const format = (amount?: bigint) => (amount === undefined ? '' : `${formatUnits(amount, decimals)} ${symbol}`);
+
+  const keeper = new RenewalKeeper(
+    client,
+    {
+      paymentToken: paymentToken.address,
+      budget: parseUnits(options.budget as string, decimals).toBigInt(),
+      maxUnitPrice: parseUnits(options['max-unit-price'] as string, decimals).toBigInt(),
+      rentalPeriod: Math.round(parseFloat((options.period as string) ?? '7') * 86400),
+      renewBefore: Math.round(parseFloat((options['renew-before'] as string) ?? '6') * 3600),
+      slippage: options.slippage ? parseInt(options.slippage as string) : undefined,
+      rentalTokenIds: options.rentals ? (options.rentals as string).split(',') : undefined,
+    },
+    {
+      store: new FileRenewalStore((options.state as string) ?? 'renewal-state.json'),
+      log: (x: RenewalDecision) =>
+        console.log(
+          `${new Date(x.timestamp * 1000).toISOString()} rental ${x.rentalTokenId} ending at ` +
+            `${new Date(x.endTime * 1000).toISOString()}: ${x.action} (${x.reason})` +
+            (x.fee === undefined ? '' : `, fee: ${format(x.fee)}, unit price: ${format(x.unitPrice)}`) +
+            (x.transactionHash ? `, tx: ${x.transactionHash}` : '')
+        ),
+    }
+  );
+
+  if (options['dry-run']) {
+    console.log(`Renter: ${account}, spent: ${format(await keeper.getSpent())}`);
+    console.table(
+      (await keeper.plan()).map((x) => ({
+        rentalTokenId: x.rentalTokenId,
+        endTime: new Date(x.endTime * 1000).toISOString(),
+        action: x.action,
+        reason: x.reason,
+        period: x.rentalPeriod ?? '',
+        fee: format(x.fee),
+        unitPrice: format(x.unitPrice),
+      }))
+    );
+    return;
+  }
+
+  const interval = options.interval ? parseInt(options.interval as string) : 0;
+  await keeper.run();
+  while (interval > 0) {
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    await keeper.run();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
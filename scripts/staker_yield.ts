@@ -0,0 +1,78 @@
+/**
+ * Prints share price history, realized and projected staker yields of the enterprise.
+ *
+ * Usage:
+ *   yarn yield <network> <enterprise> [--from-block <n>] [--horizon <days>] [--stake <stake token id>]
+ *
+ * `--from-block` is the first block to load stake changes from, usually the enterprise deployment block.
+ * `--horizon` is the projection period, the projection takes into account the vesting of the streaming reserve only.
+ */
+import { ethers } from 'hardhat';
+import { formatUnits } from 'ethers/lib/utils';
+import { Enterprise, IERC20Metadata } from '../typechain';
+import { loadStakerYield } from '../sdk';
+import { parseOptions } from './utils';
+
+async function main() {
+  const { args, options } = parseOptions(process.argv.slice(2));
+  if (args.length !== 1) throw new Error('Enterprise address is required');
+
+  const enterprise = (await ethers.getContractAt('Enterprise', args[0])) as Enterprise;
+  const token = (await ethers.getContractAt('IERC20Metadata', await enterprise.getEnterpriseToken())) as IERC20Metadata;
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  const format = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+  const percent = (x: number) => `${x.toFixed(2)}%`;
+  const date = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+  const horizonDays = Number((options.horizon as string) ?? '30');
+  const report = await loadStakerYield(enterprise, {
+    fromBlock: options['from-block'] ? parseInt(options['from-block'] as string) : undefined,
+    horizon: horizonDays * 86400,
+  });
+  const stakes = options.stake ? report.stakes.filter((x) => x.stakeTokenId === options.stake) : report.stakes;
+
+  console.log(`Enterprise ${enterprise.address} at block ${report.blockNumber} (${date(report.timestamp)})`);
+  console.table({
+    reserve: format(report.reserve),
+    'share price': report.sharePrice.toFixed(6),
+    'realized return': percent(report.realizedReturn),
+    APR: percent(report.apr),
+    'unvested reserve': format(report.unvestedReserve),
+    [`projected reward, ${horizonDays} days`]: format(report.projectedReward),
+    'projected APR': percent(report.projectedApr),
+  });
+
+  console.log('Share price history');
+  console.table(
+    report.history.map((x) => ({
+      block: x.blockNumber,
+      time: date(x.timestamp),
+      reserve: format(x.totalReserve),
+      'share price': x.sharePrice.toFixed(6),
+    }))
+  );
+
+  console.log('Stakes');
+  console.table(
+    stakes.map((x) => ({
+      stake: x.stakeTokenId,
+      staker: x.staker,
+      status: x.open ? 'open' : 'unstaked',
+      since: date(x.startTime),
+      amount: format(x.amount),
+      claimed: format(x.claimedReward),
+      pending: format(x.pendingReward),
+      return: percent(x.realizedReturn),
+      APR: percent(x.apr),
+      unvested: format(x.unvestedReward),
+      projected: format(x.projectedReward),
+    }))
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
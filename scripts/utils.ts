@@ -8,6 +8,26 @@ export enum FacetCutAction {
   Remove = 2,
 }
 
+/**
+ * Splits script arguments into positional arguments and `--name value` options, `flags` are options without value.
+ */
+export function parseOptions(
+  argv: string[],
+  flags: string[] = []
+): { args: string[]; options: Record<string, string | boolean> } {
+  const args: string[] = [];
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const name = argv[i].slice(2);
+      options[name] = flags.includes(name) ? true : argv[++i];
+    } else {
+      args.push(argv[i]);
+    }
+  }
+  return { args, options };
+}
+
 export function getSelectors(contract: Contract): string[] {
   return Object.keys(contract.interface.functions).map((x) => contract.interface.getSighash(x));
 }
@@ -0,0 +1,91 @@
+import { Contract, Signer } from 'ethers';
+import { EnterpriseFactory, EnterpriseFactory__factory } from '../typechain';
+import { IQClient, SignerOrProvider } from './client';
+import { DEPLOYED_ADDRESSES } from './deployed_addresses';
+
+export { DEPLOYED_ADDRESSES };
+
+export type ChainId = keyof typeof DEPLOYED_ADDRESSES;
+export type DeploymentName<C extends ChainId> = keyof typeof DEPLOYED_ADDRESSES[C]['contracts'] & string;
+export type KnownEnterprise<C extends ChainId> = keyof typeof DEPLOYED_ADDRESSES[C]['enterprises'] & string;
+
+export interface AddressBookEntry {
+  address: string;
+  /** Human readable ABI of the deployment. */
+  abi: readonly string[];
+  deploymentBlock?: number;
+}
+
+export interface NetworkAddressBook {
+  network: string;
+  contracts: Record<string, AddressBookEntry>;
+  enterprises: Record<string, AddressBookEntry>;
+}
+
+/**
+ * Signer or provider is connected to another chain than the one of the requested deployment.
+ */
+export class ChainMismatchError extends Error {
+  readonly name = 'ChainMismatchError';
+
+  constructor(readonly expected: number, readonly actual: number) {
+    super(`Expected chain ${expected} (${getAddressBook(expected).network}), connected to chain ${actual}`);
+  }
+}
+
+export function getAddressBook(chainId: number): NetworkAddressBook {
+  const book = (DEPLOYED_ADDRESSES as Record<number, NetworkAddressBook | undefined>)[chainId];
+  if (!book) throw new Error(`No deployments on chain ${chainId}`);
+  return book;
+}
+
+export function getDeployment<C extends ChainId>(chainId: C, name: DeploymentName<C>): AddressBookEntry {
+  const deployment = getAddressBook(chainId).contracts[name];
+  if (!deployment) throw new Error(`No ${name} deployment on chain ${chainId}`);
+  return deployment;
+}
+
+export function getKnownEnterprise<C extends ChainId>(chainId: C, name: KnownEnterprise<C>): AddressBookEntry {
+  const enterprise = getAddressBook(chainId).enterprises[name];
+  if (!enterprise) throw new Error(`Unknown enterprise ${name} on chain ${chainId}`);
+  return enterprise;
+}
+
+/**
+ * Throws `ChainMismatchError` unless the signer or provider is connected to the chain.
+ */
+export async function checkChainId(signerOrProvider: SignerOrProvider, chainId: number): Promise<void> {
+  const actual = Signer.isSigner(signerOrProvider)
+    ? await signerOrProvider.getChainId()
+    : (await signerOrProvider.getNetwork()).chainId;
+  if (actual !== chainId) throw new ChainMismatchError(chainId, actual);
+}
+
+export async function connectDeployment<C extends ChainId>(
+  signerOrProvider: SignerOrProvider,
+  chainId: C,
+  name: DeploymentName<C>
+): Promise<Contract> {
+  const { address, abi } = getDeployment(chainId, name);
+  await checkChainId(signerOrProvider, chainId);
+  return new Contract(address, abi as string[], signerOrProvider);
+}
+
+export async function connectEnterpriseFactory(
+  signerOrProvider: SignerOrProvider,
+  chainId: ChainId
+): Promise<EnterpriseFactory> {
+  const { address } = getDeployment(chainId, 'EnterpriseFactory');
+  await checkChainId(signerOrProvider, chainId);
+  return EnterpriseFactory__factory.connect(address, signerOrProvider);
+}
+
+export async function connectKnownEnterprise<C extends ChainId>(
+  signerOrProvider: SignerOrProvider,
+  chainId: C,
+  name: KnownEnterprise<C>
+): Promise<IQClient> {
+  const { address } = getKnownEnterprise(chainId, name);
+  await checkChainId(signerOrProvider, chainId);
+  return IQClient.connect(address, signerOrProvider);
+}
@@ -0,0 +1,422 @@
+import { BigNumber, BigNumberish, BaseContract, ContractReceipt, ContractTransaction, Signer } from 'ethers';
+import { Provider } from '@ethersproject/providers';
+import { Interface, LogDescription } from '@ethersproject/abi';
+import {
+  Enterprise,
+  Enterprise__factory,
+  EnterpriseFactory__factory,
+  IConverter__factory,
+  IERC20Metadata,
+  IERC20Metadata__factory,
+  PowerToken,
+  PowerToken__factory,
+  RentalToken,
+  RentalToken__factory,
+  StakeToken,
+  StakeToken__factory,
+} from '../typechain';
+import { decodeError, ProtocolError } from './errors';
+import { estimateRentalBaseFee, loadRentalFeeParams } from './rental_fee';
+
+export type SignerOrProvider = Signer | Provider;
+
+export interface EnterpriseParams {
+  name: string;
+  enterpriseToken: string;
+  baseUri: string;
+  gcFeePercent: number;
+  converter: string;
+}
+
+export interface ServiceParams {
+  name: string;
+  symbol: string;
+  energyGapHalvingPeriod: number;
+  baseRate: BigNumberish;
+  baseToken: string;
+  serviceFeePercent: number;
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+  minGCFee: BigNumberish;
+  swappingEnabledForever: boolean;
+}
+
+export interface RentalParams {
+  powerToken: string;
+  paymentToken: string;
+  rentalAmount: BigNumberish;
+  rentalPeriod: number;
+  /**
+   * Exact maximum payment. When omitted, it is calculated from the current estimate and `slippage`.
+   */
+  maxPayment?: BigNumberish;
+  /**
+   * Allowed rental fee increase in basis points (100 is 1%), used when `maxPayment` is omitted.
+   */
+  slippage?: number;
+}
+
+export interface RentalExtensionParams {
+  rentalTokenId: BigNumberish;
+  paymentToken: string;
+  rentalPeriod: number;
+  maxPayment?: BigNumberish;
+  slippage?: number;
+}
+
+export interface RentalResult {
+  rentalTokenId: BigNumber;
+  receipt: ContractReceipt;
+}
+
+export interface StakeResult {
+  stakeTokenId: BigNumber;
+  receipt: ContractReceipt;
+}
+
+export interface BatchOptions {
+  /**
+   * Gas limit of a single `multicall` transaction, larger batches are split by the gas estimates of the calls.
+   */
+  maxGas?: BigNumberish;
+}
+
+export interface BatchFailure {
+  tokenId: BigNumber;
+  /** Revert data reported by the `CallFailed` event or the gas estimation error. */
+  reason: unknown;
+  /** Decoded protocol error, `undefined` for other reverts. */
+  error?: ProtocolError;
+}
+
+export interface BatchResult {
+  succeeded: BigNumber[];
+  failed: BatchFailure[];
+  receipts: ContractReceipt[];
+}
+
+export interface Batch {
+  tokenIds: BigNumber[];
+  gasLimit: BigNumber;
+}
+
+export interface BatchPlan {
+  batches: Batch[];
+  failed: BatchFailure[];
+}
+
+export type BatchMethod = 'returnRental' | 'claimStakingReward' | 'unstake';
+
+export const DEFAULT_SLIPPAGE = 100; // 1%
+export const DEFAULT_BATCH_GAS = 5_000_000;
+const INTRINSIC_GAS = 21_000;
+
+/**
+ * Returns all the logs of `eventName` emitted by `contract` within the transaction receipt.
+ */
+export function findEvents(receipt: ContractReceipt, contract: BaseContract, eventName: string): LogDescription[] {
+  const address = contract.address.toLowerCase();
+  const topic = contract.interface.getEventTopic(eventName);
+
+  return receipt.logs
+    .filter((log) => log.address.toLowerCase() === address && log.topics[0] === topic)
+    .map((log) => contract.interface.parseLog(log));
+}
+
+/**
+ * Returns the single log of `eventName` emitted by `contract` within the transaction receipt.
+ */
+export function findEvent(receipt: ContractReceipt, contract: BaseContract, eventName: string): LogDescription {
+  const events = findEvents(receipt, contract, eventName);
+  if (events.length !== 1) {
+    throw new Error(`Expected exactly one ${eventName} event in transaction ${receipt.transactionHash}`);
+  }
+  return events[0];
+}
+
+/**
+ * Increases `amount` by `slippage` basis points rounding up.
+ */
+export function withSlippage(amount: BigNumberish, slippage: number): BigNumber {
+  return BigNumber.from(amount)
+    .mul(10_000 + slippage)
+    .add(9_999)
+    .div(10_000);
+}
+
+/**
+ * Provider agnostic IQ Protocol client bound to a single enterprise.
+ * Write operations require the client to be connected with a signer.
+ */
+export class IQClient {
+  readonly enterprise: Enterprise;
+
+  constructor(enterprise: Enterprise) {
+    this.enterprise = enterprise;
+  }
+
+  static connect(enterpriseAddress: string, signerOrProvider: SignerOrProvider): IQClient {
+    return new IQClient(Enterprise__factory.connect(enterpriseAddress, signerOrProvider));
+  }
+
+  /**
+   * Deploys new enterprise using the enterprise factory and returns a client bound to it.
+   */
+  static async deploy(factoryAddress: string, signer: Signer, params: EnterpriseParams): Promise<IQClient> {
+    const factory = EnterpriseFactory__factory.connect(factoryAddress, signer);
+    const receipt = await wait(
+      factory.deploy(params.name, params.enterpriseToken, params.baseUri, params.gcFeePercent, params.converter)
+    );
+    const { args } = findEvent(receipt, factory, 'EnterpriseDeployed');
+
+    return IQClient.connect(args.deployed, signer);
+  }
+
+  connect(signerOrProvider: SignerOrProvider): IQClient {
+    return new IQClient(this.enterprise.connect(signerOrProvider));
+  }
+
+  get address(): string {
+    return this.enterprise.address;
+  }
+
+  private get signerOrProvider(): SignerOrProvider {
+    return this.enterprise.signer ?? this.enterprise.provider;
+  }
+
+  async getEnterpriseToken(): Promise<IERC20Metadata> {
+    return this.getToken(await this.enterprise.getEnterpriseToken());
+  }
+
+  getToken(address: string): IERC20Metadata {
+    return IERC20Metadata__factory.connect(address, this.signerOrProvider);
+  }
+
+  getPowerToken(address: string): PowerToken {
+    return PowerToken__factory.connect(address, this.signerOrProvider);
+  }
+
+  async getPowerTokens(): Promise<PowerToken[]> {
+    const powerTokens = await this.enterprise.getPowerTokens();
+    return powerTokens.map((address) => this.getPowerToken(address));
+  }
+
+  async getStakeToken(): Promise<StakeToken> {
+    return StakeToken__factory.connect(await this.enterprise.getStakeToken(), this.signerOrProvider);
+  }
+
+  async getRentalToken(): Promise<RentalToken> {
+    return RentalToken__factory.connect(await this.enterprise.getRentalToken(), this.signerOrProvider);
+  }
+
+  async registerService(params: ServiceParams): Promise<PowerToken> {
+    const receipt = await wait(
+      this.enterprise.registerService(
+        params.name,
+        params.symbol,
+        params.energyGapHalvingPeriod,
+        params.baseRate,
+        params.baseToken,
+        params.serviceFeePercent,
+        params.minRentalPeriod,
+        params.maxRentalPeriod,
+        params.minGCFee,
+        params.swappingEnabledForever
+      )
+    );
+    const { args } = findEvent(receipt, this.enterprise, 'ServiceRegistered');
+
+    return this.getPowerToken(args.powerToken);
+  }
+
+  async stake(amount: BigNumberish): Promise<StakeResult> {
+    await this.approve(await this.enterprise.getEnterpriseToken(), amount);
+    return this.parseStake(await wait(this.enterprise.stake(amount)));
+  }
+
+  async increaseStake(stakeTokenId: BigNumberish, amount: BigNumberish): Promise<StakeResult> {
+    await this.approve(await this.enterprise.getEnterpriseToken(), amount);
+    return this.parseStake(await wait(this.enterprise.increaseStake(stakeTokenId, amount)));
+  }
+
+  async decreaseStake(stakeTokenId: BigNumberish, amount: BigNumberish): Promise<StakeResult> {
+    return this.parseStake(await wait(this.enterprise.decreaseStake(stakeTokenId, amount)));
+  }
+
+  async claimStakingReward(stakeTokenId: BigNumberish): Promise<StakeResult> {
+    return this.parseStake(await wait(this.enterprise.claimStakingReward(stakeTokenId)));
+  }
+
+  async unstake(stakeTokenId: BigNumberish): Promise<StakeResult> {
+    return this.parseStake(await wait(this.enterprise.unstake(stakeTokenId)));
+  }
+
+  /**
+   * Returns the total rental fee (including GC fee) nominated in payment tokens.
+   */
+  async estimateRentalFee(
+    powerToken: string,
+    paymentToken: string,
+    rentalAmount: BigNumberish,
+    rentalPeriod: number
+  ): Promise<BigNumber> {
+    return this.enterprise.estimateRentalFee(powerToken, paymentToken, rentalAmount, rentalPeriod);
+  }
+
+  /**
+   * Returns the rental period extension fee nominated in payment tokens.
+   * Extension fee is estimated as if the rental was returned first, GC fee is not charged.
+   */
+  async estimateRentalExtensionFee(
+    rentalTokenId: BigNumberish,
+    paymentToken: string,
+    rentalPeriod: number
+  ): Promise<BigNumber> {
+    const { rentalAmount, powerTokenIndex } = await this.enterprise.getRentalAgreement(rentalTokenId);
+    const powerTokens = await this.enterprise.getPowerTokens();
+    const powerToken = this.getPowerToken(powerTokens[powerTokenIndex]);
+    const [params, baseToken, converter] = await Promise.all([
+      loadRentalFeeParams(this.enterprise, powerToken),
+      powerToken.getBaseToken(),
+      this.enterprise.getConverter(),
+    ]);
+
+    // Simulate rental return the same way `Enterprise.extendRentalPeriod` does.
+    params.usedReserve -= rentalAmount.toBigInt();
+    const rentalBaseFee = estimateRentalBaseFee(params, rentalAmount.toBigInt(), rentalPeriod);
+
+    // Pool fee and service fee add up to the converted rental base fee.
+    return IConverter__factory.connect(converter, this.signerOrProvider).estimateConvert(
+      baseToken,
+      rentalBaseFee,
+      paymentToken
+    );
+  }
+
+  async rent(params: RentalParams): Promise<RentalResult> {
+    const maxPayment =
+      params.maxPayment ??
+      withSlippage(
+        await this.estimateRentalFee(params.powerToken, params.paymentToken, params.rentalAmount, params.rentalPeriod),
+        params.slippage ?? DEFAULT_SLIPPAGE
+      );
+    await this.approve(params.paymentToken, maxPayment);
+
+    const receipt = await wait(
+      this.enterprise.rent(params.powerToken, params.paymentToken, params.rentalAmount, params.rentalPeriod, maxPayment)
+    );
+    const { args } = findEvent(receipt, this.enterprise, 'Rented');
+
+    return { rentalTokenId: args.rentalTokenId, receipt };
+  }
+
+  async extendRentalPeriod(params: RentalExtensionParams): Promise<ContractReceipt> {
+    const maxPayment =
+      params.maxPayment ??
+      withSlippage(
+        await this.estimateRentalExtensionFee(params.rentalTokenId, params.paymentToken, params.rentalPeriod),
+        params.slippage ?? DEFAULT_SLIPPAGE
+      );
+    await this.approve(params.paymentToken, maxPayment);
+
+    return wait(
+      this.enterprise.extendRentalPeriod(params.rentalTokenId, params.paymentToken, params.rentalPeriod, maxPayment)
+    );
+  }
+
+  async returnRental(rentalTokenId: BigNumberish): Promise<ContractReceipt> {
+    return wait(this.enterprise.returnRental(rentalTokenId));
+  }
+
+  /**
+   * Returns the rentals using `Enterprise.multicall`, failed returns are reported per rental.
+   */
+  async returnRentals(rentalTokenIds: BigNumberish[], options?: BatchOptions): Promise<BatchResult> {
+    return this.multicall('returnRental', rentalTokenIds, options);
+  }
+
+  async claimStakingRewards(stakeTokenIds: BigNumberish[], options?: BatchOptions): Promise<BatchResult> {
+    return this.multicall('claimStakingReward', stakeTokenIds, options);
+  }
+
+  async unstakeMany(stakeTokenIds: BigNumberish[], options?: BatchOptions): Promise<BatchResult> {
+    return this.multicall('unstake', stakeTokenIds, options);
+  }
+
+  /**
+   * Splits the calls into `multicall` batches fitting `maxGas` by the gas estimates of the single calls.
+   * Calls failing the estimation are not batched, they are returned as failures.
+   */
+  async planBatches(method: BatchMethod, tokenIds: BigNumberish[], options: BatchOptions = {}): Promise<BatchPlan> {
+    const maxGas = BigNumber.from(options.maxGas ?? DEFAULT_BATCH_GAS);
+    const overhead = await this.enterprise.estimateGas.multicall([]);
+    const plan: BatchPlan = { batches: [], failed: [] };
+    let batch: Batch | undefined;
+    for (const id of tokenIds) {
+      const tokenId = BigNumber.from(id);
+      let gas: BigNumber;
+      try {
+        gas = await this.enterprise.estimateGas[method](tokenId);
+      } catch (e) {
+        plan.failed.push({ tokenId, reason: e, error: decodeError(e) });
+        continue;
+      }
+      // The call is executed within the multicall transaction, which can only forward 63/64 of the remaining gas.
+      const cost = gas.sub(INTRINSIC_GAS).mul(64).div(63);
+      if (!batch || batch.gasLimit.add(cost).gt(maxGas)) {
+        batch = { tokenIds: [], gasLimit: overhead };
+        plan.batches.push(batch);
+      }
+      batch.tokenIds.push(tokenId);
+      batch.gasLimit = batch.gasLimit.add(cost);
+    }
+    return plan;
+  }
+
+  /**
+   * Approves `amount` of `token` to the enterprise unless sufficient allowance is already given.
+   */
+  async approve(token: string, amount: BigNumberish): Promise<void> {
+    const signer = this.enterprise.signer;
+    if (!signer) throw new Error('Signer is required');
+
+    const erc20 = IERC20Metadata__factory.connect(token, signer);
+    const allowance = await erc20.allowance(await signer.getAddress(), this.enterprise.address);
+    if (allowance.lt(amount)) {
+      await wait(erc20.approve(this.enterprise.address, amount));
+    }
+  }
+
+  private async multicall(method: BatchMethod, tokenIds: BigNumberish[], options?: BatchOptions): Promise<BatchResult> {
+    const { batches, failed } = await this.planBatches(method, tokenIds, options);
+    const result: BatchResult = { succeeded: [], failed, receipts: [] };
+    for (const batch of batches) {
+      const data = batch.tokenIds.map((id) => this.encodeBatchCall(method, id));
+      const receipt = await wait(this.enterprise.multicall(data, { gasLimit: batch.gasLimit }));
+      const failures = new Map<number, string>(
+        findEvents(receipt, this.enterprise, 'CallFailed').map(({ args }) => [args.index.toNumber(), args.reason])
+      );
+      batch.tokenIds.forEach((tokenId, i) => {
+        const reason = failures.get(i);
+        if (reason === undefined) result.succeeded.push(tokenId);
+        else result.failed.push({ tokenId, reason, error: decodeError(reason) });
+      });
+      result.receipts.push(receipt);
+    }
+    return result;
+  }
+
+  private encodeBatchCall(method: BatchMethod, tokenId: BigNumberish): string {
+    // The typed overloads do not accept a union of function names.
+    return (this.enterprise.interface as Interface).encodeFunctionData(method, [tokenId]);
+  }
+
+  private parseStake(receipt: ContractReceipt): StakeResult {
+    const { args } = findEvent(receipt, this.enterprise, 'StakeChanged');
+    return { stakeTokenId: args.stakeTokenId, receipt };
+  }
+}
+
+async function wait(tx: Promise<ContractTransaction>): Promise<ContractReceipt> {
+  return (await tx).wait();
+}
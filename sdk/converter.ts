@@ -0,0 +1,100 @@
+import {
+  ConstantProductConverter,
+  IERC20Metadata__factory,
+  IUniswapV2Factory__factory,
+  IUniswapV2Pair__factory,
+  OracleConverter,
+} from '../typechain';
+import { FeeConverter, MAX_UINT112 } from './rental_fee';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface PairReserves {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  /**
+   * Swap fee, 10000 is 100%.
+   */
+  feePercent: number;
+}
+
+/**
+ * Same as `ConstantProductConverter._getAmountOut`.
+ */
+export function getAmountOut(amountIn: bigint, { reserveIn, reserveOut, feePercent }: PairReserves): bigint {
+  const amountInWithFee = amountIn * BigInt(10_000 - feePercent);
+  return (amountInWithFee * reserveOut) / (reserveIn * 10_000n + amountInWithFee);
+}
+
+/**
+ * Reads the pair reserves the converter swaps `source` tokens into `target` tokens through.
+ */
+export async function loadPairReserves(
+  converter: ConstantProductConverter,
+  source: string,
+  target: string
+): Promise<PairReserves> {
+  const provider = converter.signer ?? converter.provider;
+  const [factory, feePercent] = await Promise.all([converter.getFactory(), converter.getFeePercent()]);
+  const pairAddress = await IUniswapV2Factory__factory.connect(factory, provider).getPair(source, target);
+  if (pairAddress === ZERO_ADDRESS) throw new Error(`No pair for ${source} and ${target}`);
+
+  const pair = IUniswapV2Pair__factory.connect(pairAddress, provider);
+  const [token0, [reserve0, reserve1]] = await Promise.all([pair.token0(), pair.getReserves()]);
+  const sourceIsToken0 = token0.toLowerCase() === source.toLowerCase();
+  return {
+    reserveIn: (sourceIsToken0 ? reserve0 : reserve1).toBigInt(),
+    reserveOut: (sourceIsToken0 ? reserve1 : reserve0).toBigInt(),
+    feePercent,
+  };
+}
+
+/**
+ * Same as `ConstantProductConverter._getAverageAmountOut`, `averagePrice` is UQ112x112 price of the source token.
+ */
+export function getAverageAmountOut(amountIn: bigint, averagePrice: bigint, feePercent: number): bigint {
+  return (((amountIn * averagePrice) >> 112n) * BigInt(10_000 - feePercent)) / 10_000n;
+}
+
+/**
+ * Builds `FeeConverter` reproducing `estimateConvert` of the constant-product converter at the latest block,
+ * to be used with `estimateRentalFee`. The average price changes from block to block as long as it differs
+ * from the pair price.
+ */
+export async function loadConstantProductFeeConverter(
+  converter: ConstantProductConverter,
+  source: string,
+  target: string
+): Promise<FeeConverter> {
+  if (source.toLowerCase() === target.toLowerCase()) return (amount) => amount;
+
+  const [averagePrice, feePercent] = await Promise.all([
+    converter.getAveragePrice(source, target),
+    converter.getFeePercent(),
+  ]);
+  return (amount) =>
+    amount >= MAX_UINT112 ? amount : getAverageAmountOut(amount, averagePrice.toBigInt(), feePercent);
+}
+
+/**
+ * Builds `FeeConverter` reproducing `estimateConvert` of the oracle converter at the latest block,
+ * to be used with `estimateRentalFee`. Fails when any of the feeds does not pass the converter checks.
+ */
+export async function loadOracleFeeConverter(
+  converter: OracleConverter,
+  source: string,
+  target: string
+): Promise<FeeConverter> {
+  if (source.toLowerCase() === target.toLowerCase()) return (amount) => amount;
+
+  const provider = converter.signer ?? converter.provider;
+  const [sourcePrice, targetPrice, sourceDecimals, targetDecimals] = await Promise.all([
+    converter.getPrice(source),
+    converter.getPrice(target),
+    IERC20Metadata__factory.connect(source, provider).decimals(),
+    IERC20Metadata__factory.connect(target, provider).decimals(),
+  ]);
+  return (amount) =>
+    (((amount * sourcePrice.toBigInt()) / 10n ** BigInt(sourceDecimals)) * 10n ** BigInt(targetDecimals)) /
+    targetPrice.toBigInt();
+}
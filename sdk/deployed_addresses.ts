@@ -0,0 +1,437 @@
+// Generated from deployments/ by the address-book task, do not edit.
+
+const ABIS = {
+  RentalToken: [
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'function approve(address to, uint256 tokenId)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function burn(uint256 tokenId, address burner)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function getEnterprise() view returns (address)',
+    'function getNextTokenId() view returns (uint256)',
+    'function initialize(string name, string symbol, address enterprise)',
+    'function initialize(string name_, string symbol_)',
+    'function initialize(address enterprise)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function mint(address to) returns (uint256)',
+    'function name() view returns (string)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes _data)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function symbol() view returns (string)',
+    'function tokenByIndex(uint256 index) view returns (uint256)',
+    'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+    'function tokenURI(uint256 tokenId) view returns (string)',
+    'function totalSupply() view returns (uint256)',
+    'function transferFrom(address from, address to, uint256 tokenId)',
+  ],
+  DefaultConverter: [
+    'function convert(address source, uint256 amount, address target) pure returns (uint256)',
+    'function estimateConvert(address source, uint256 amount, address target) pure returns (uint256)',
+  ],
+  Enterprise: [
+    'event BaseUriChanged(string baseUri)',
+    'event BondingChanged(uint256 pole, uint256 slope)',
+    'event ConverterChanged(address converter)',
+    'event EnterpriseCollectorChanged(address collector)',
+    'event EnterpriseOnlyCollectionPeriodChanged(uint32 period)',
+    'event EnterpriseShutdown()',
+    'event EnterpriseWalletChanged(address wallet)',
+    'event FixedReserveChanged(uint256 fixedReserve)',
+    'event GcFeePercentChanged(uint16 percent)',
+    'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+    'event PaymentTokenChange(address paymentToken, bool enabled)',
+    'event RentalPeriodExtended(uint256 indexed rentalTokenId, address indexed renter, address paymentToken, uint112 poolFee, uint112 serviceFee, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime)',
+    'event RentalReturned(uint256 indexed rentalTokenId, address indexed returner, address indexed powerToken, uint112 rentalAmount, uint112 gcRewardAmount, address gcRewardToken, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event Rented(uint256 indexed rentalTokenId, address indexed renter, address indexed powerToken, address paymentToken, uint112 rentalAmount, uint112 poolFee, uint112 serviceFee, uint112 gcFee, uint32 startTime, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event RenterOnlyReturnPeriodChanged(uint32 period)',
+    'event ServiceRegistered(address indexed powerToken)',
+    'event StakeChanged(uint256 indexed stakeTokenId, address indexed staker, uint8 indexed operation, uint256 amountDelta, uint256 amount, uint256 sharesDelta, uint256 shares, uint256 totalShares, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event StreamingReserveChanged(uint112 streamingReserve, uint112 streamingReserveTarget)',
+    'event StreamingReserveHalvingPeriodChanged(uint32 period)',
+    'function claimStakingReward(uint256 stakeTokenId)',
+    'function decreaseStake(uint256 stakeTokenId, uint256 stakeAmountDelta)',
+    'function disablePaymentToken(address token)',
+    'function enablePaymentToken(address token)',
+    'function estimateRentalFee(address powerToken, address paymentToken, uint112 rentalAmount, uint32 rentalPeriod) view returns (uint256)',
+    'function extendRentalPeriod(uint256 rentalTokenId, address paymentToken, uint32 rentalPeriod, uint256 maxPayment)',
+    'function getAvailableReserve() view returns (uint256)',
+    'function getBaseUri() view returns (string)',
+    'function getBondingCurve() view returns (uint256 pole, uint256 slope)',
+    'function getConverter() view returns (address)',
+    'function getEnterpriseCollector() view returns (address)',
+    'function getEnterpriseOnlyCollectionPeriod() view returns (uint32)',
+    'function getEnterpriseToken() view returns (address)',
+    'function getEnterpriseWallet() view returns (address)',
+    'function getFactory() view returns (address)',
+    'function getGCFeePercent() view returns (uint16)',
+    'function getInfo() view returns (string name, string baseUri, uint32 streamingReserveHalvingPeriod, uint32 renterOnlyReturnPeriod, uint32 enterpriseOnlyCollectionPeriod, uint16 gcFeePercent, uint256 totalShares, uint256 fixedReserve, uint256 usedReserve, uint112 streamingReserve, uint112 streamingReserveTarget, uint32 streamingReserveUpdated)',
+    'function getPaymentToken(uint256 index) view returns (address)',
+    'function getPaymentTokenIndex(address token) view returns (int16)',
+    'function getPaymentTokens() view returns (tuple(address paymentToken, bool enabled)[])',
+    'function getPowerTokens() view returns (address[])',
+    'function getProxyAdmin() view returns (address)',
+    'function getRentalAgreement(uint256 rentalTokenId) view returns (tuple(uint112 rentalAmount, uint16 powerTokenIndex, uint32 startTime, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime, uint112 gcRewardAmount, uint16 gcRewardTokenIndex))',
+    'function getRentalToken() view returns (address)',
+    'function getRenterOnlyReturnPeriod() view returns (uint32)',
+    'function getReserve() view returns (uint256)',
+    'function getStake(uint256 stakeTokenId) view returns (tuple(uint256 amount, uint256 shares, uint256 block))',
+    'function getStakeToken() view returns (address)',
+    'function getStakingReward(uint256 stakeTokenId) view returns (uint256)',
+    'function getStreamingReserveHalvingPeriod() view returns (uint32)',
+    'function getUsedReserve() view returns (uint256)',
+    'function increaseStake(uint256 stakeTokenId, uint256 stakeAmountDelta)',
+    'function initialize(string enterpriseName, string baseUri, uint16 gcFeePercent, address converter, address proxyAdmin, address owner)',
+    'function initialize(address initialOwner)',
+    'function initializeTokens(address enterpriseToken, address stakeToken, address rentalToken)',
+    'function isRegisteredPowerToken(address powerToken) view returns (bool)',
+    'function isSupportedPaymentToken(address token) view returns (bool)',
+    'function owner() view returns (address)',
+    'function registerService(string serviceName, string serviceSymbol, uint32 energyGapHalvingPeriod, uint112 baseRate, address baseToken, uint16 serviceFeePercent, uint32 minRentalPeriod, uint32 maxRentalPeriod, uint96 minGCFee, bool swappingEnabledForever)',
+    'function rent(address powerToken, address paymentToken, uint112 rentalAmount, uint32 rentalPeriod, uint256 maxPayment)',
+    'function returnRental(uint256 rentalTokenId)',
+    'function setBaseUri(string baseUri)',
+    'function setBondingCurve(uint256 pole, uint256 slope)',
+    'function setConverter(address newConverter)',
+    'function setEnterpriseCollector(address newCollector)',
+    'function setEnterpriseOnlyCollectionPeriod(uint32 newPeriod)',
+    'function setEnterpriseWallet(address newWallet)',
+    'function setGcFeePercent(uint16 newGcFeePercent)',
+    'function setRenterOnlyReturnPeriod(uint32 newPeriod)',
+    'function setStreamingReserveHalvingPeriod(uint32 streamingReserveHalvingPeriod)',
+    'function shutdownEnterpriseForever()',
+    'function stake(uint256 stakeAmount)',
+    'function transferOwnership(address newOwner)',
+    'function transferRental(address from, address to, uint256 rentalTokenId)',
+    'function unstake(uint256 stakeTokenId)',
+    'function upgrade(address enterpriseFactory, address enterpriseImplementation, address rentalTokenImplementation, address stakeTokenImplementation, address powerTokenImplementation, address[] powerTokens)',
+  ],
+  EnterpriseFactory: [
+    'constructor(address enterpriseImpl, address powerTokenImpl, address stakeTokenImpl, address rentalTokenImpl)',
+    'event EnterpriseDeployed(address indexed creator, address indexed enterpriseToken, string name, string baseUri, address deployed)',
+    'function deploy(string name, address enterpriseToken, string baseUri, uint16 gcFeePercent, address converter) returns (address)',
+    'function deployService(address admin) returns (address)',
+    'function getEnterpriseImpl() view returns (address)',
+    'function getPowerTokenImpl() view returns (address)',
+    'function getRentalTokenImpl() view returns (address)',
+    'function getStakeTokenImpl() view returns (address)',
+  ],
+  StakeToken: [
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'function approve(address to, uint256 tokenId)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function burn(uint256 tokenId)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function getEnterprise() view returns (address)',
+    'function getNextTokenId() view returns (uint256)',
+    'function initialize(string name, string symbol, address enterprise)',
+    'function initialize(string name_, string symbol_)',
+    'function initialize(address enterprise)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function mint(address to) returns (uint256)',
+    'function name() view returns (string)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes _data)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function symbol() view returns (string)',
+    'function tokenByIndex(uint256 index) view returns (uint256)',
+    'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+    'function tokenURI(uint256 tokenId) view returns (string)',
+    'function totalSupply() view returns (uint256)',
+    'function transferFrom(address from, address to, uint256 tokenId)',
+  ],
+  PowerToken: [
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    'event BaseRateChanged(uint112 baseRate, address baseToken, uint96 minGCFee)',
+    'event RentalPeriodLimitsChanged(uint32 minRentalPeriod, uint32 maxRentalPeriod)',
+    'event ServiceFeePercentChanged(uint16 percent)',
+    'event SwappingEnabled()',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event TransferEnabled()',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function availableBalanceOf(address account) view returns (uint256)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function burnFrom(address account, uint256 value)',
+    'function decimals() view returns (uint8)',
+    'function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)',
+    'function enableSwappingForever()',
+    'function enableTransferForever()',
+    'function energyAt(address who, uint32 timestamp) view returns (uint112)',
+    'function estimateRentalFee(address paymentToken, uint112 rentalAmount, uint32 rentalPeriod) view returns (uint112 poolFee, uint112 serviceFee, uint112 gcFee)',
+    'function forceTransfer(address from, address to, uint256 amount) returns (bool)',
+    'function getBaseRate() view returns (uint112)',
+    'function getBaseToken() view returns (address)',
+    'function getEnergyGapHalvingPeriod() view returns (uint32)',
+    'function getEnterprise() view returns (address)',
+    'function getIndex() view returns (uint16)',
+    'function getInfo() view returns (string name, string symbol, address baseToken, uint112 baseRate, uint96 minGCFee, uint16 serviceFeePercent, uint32 energyGapHalvingPeriod, uint16 index, uint32 minRentalPeriod, uint32 maxRentalPeriod, bool swappingEnabled, bool transferEnabled)',
+    'function getMaxRentalPeriod() view returns (uint32)',
+    'function getMinGCFee() view returns (uint96)',
+    'function getMinRentalPeriod() view returns (uint32)',
+    'function getServiceFeePercent() view returns (uint16)',
+    'function getState(address account) view returns (tuple(uint112 lockedBalance, uint112 energy, uint32 timestamp))',
+    'function increaseAllowance(address spender, uint256 addedValue) returns (bool)',
+    'function initialize(string name_, string symbol_, uint8 decimals_)',
+    'function initialize(address enterprise, address baseToken, uint112 baseRate, uint96 minGCFee, uint16 serviceFeePercent, uint32 energyGapHalvingPeriod, uint16 index, uint32 minRentalPeriod, uint32 maxRentalPeriod, bool swappingEnabled)',
+    'function initialize(address enterprise)',
+    'function isAllowedRentalPeriod(uint32 period) view returns (bool)',
+    'function isSwappingEnabled() view returns (bool)',
+    'function isTransferEnabled() view returns (bool)',
+    'function mint(address to, uint256 value)',
+    'function name() view returns (string)',
+    'function notifyNewRental(uint256 rentalTokenId)',
+    'function setBaseRate(uint112 baseRate, address baseToken, uint96 minGCFee)',
+    'function setRentalPeriodLimits(uint32 minRentalPeriod, uint32 maxRentalPeriod)',
+    'function setServiceFeePercent(uint16 newServiceFeePercent)',
+    'function swapIn(uint256 amount) returns (bool)',
+    'function swapOut(uint256 amount) returns (bool)',
+    'function symbol() view returns (string)',
+    'function totalSupply() view returns (uint256)',
+    'function transfer(address recipient, uint256 amount) returns (bool)',
+    'function transferFrom(address sender, address recipient, uint256 amount) returns (bool)',
+  ],
+  Enterprise2: [
+    'event BaseUriChanged(string baseUri)',
+    'event BondingChanged(uint256 pole, uint256 slope)',
+    'event ConverterChanged(address converter)',
+    'event EnterpriseCollectorChanged(address collector)',
+    'event EnterpriseOnlyCollectionPeriodChanged(uint32 period)',
+    'event EnterpriseShutdown()',
+    'event EnterpriseWalletChanged(address wallet)',
+    'event FixedReserveChanged(uint256 fixedReserve)',
+    'event GcFeePercentChanged(uint16 percent)',
+    'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+    'event PaymentTokenChange(address paymentToken, bool enabled)',
+    'event RentalPeriodExtended(uint256 indexed rentalTokenId, address indexed renter, address paymentToken, uint112 poolFee, uint112 serviceFee, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime)',
+    'event RentalReturned(uint256 indexed rentalTokenId, address indexed returner, address indexed powerToken, uint112 rentalAmount, uint112 gcRewardAmount, address gcRewardToken, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event Rented(uint256 indexed rentalTokenId, address indexed renter, address indexed powerToken, address paymentToken, uint112 rentalAmount, uint112 poolFee, uint112 serviceFee, uint112 gcFee, uint32 startTime, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event RenterOnlyReturnPeriodChanged(uint32 period)',
+    'event ServiceRegistered(address indexed powerToken)',
+    'event StakeChanged(uint256 indexed stakeTokenId, address indexed staker, uint8 indexed operation, uint256 amountDelta, uint256 amount, uint256 sharesDelta, uint256 shares, uint256 totalShares, uint256 totalReserve, uint256 totalUsedReserve)',
+    'event StreamingReserveChanged(uint112 streamingReserve, uint112 streamingReserveTarget)',
+    'event StreamingReserveHalvingPeriodChanged(uint32 period)',
+    'function claimStakingReward(uint256 stakeTokenId)',
+    'function decreaseStake(uint256 stakeTokenId, uint256 stakeAmountDelta)',
+    'function disablePaymentToken(address token)',
+    'function enablePaymentToken(address token)',
+    'function estimateRentalFee(address powerToken, address paymentToken, uint112 rentalAmount, uint32 rentalPeriod) view returns (uint256)',
+    'function extendRentalPeriod(uint256 rentalTokenId, address paymentToken, uint32 rentalPeriod, uint256 maxPayment)',
+    'function getAvailableReserve() view returns (uint256)',
+    'function getBaseUri() view returns (string)',
+    'function getBondingCurve() view returns (uint256 pole, uint256 slope)',
+    'function getConverter() view returns (address)',
+    'function getEnterpriseCollector() view returns (address)',
+    'function getEnterpriseOnlyCollectionPeriod() view returns (uint32)',
+    'function getEnterpriseToken() view returns (address)',
+    'function getEnterpriseWallet() view returns (address)',
+    'function getFactory() view returns (address)',
+    'function getGCFeePercent() view returns (uint16)',
+    'function getInfo() view returns (string name, string baseUri, uint32 streamingReserveHalvingPeriod, uint32 renterOnlyReturnPeriod, uint32 enterpriseOnlyCollectionPeriod, uint16 gcFeePercent, uint256 totalShares, uint256 fixedReserve, uint256 usedReserve, uint112 streamingReserve, uint112 streamingReserveTarget, uint32 streamingReserveUpdated)',
+    'function getPaymentToken(uint256 index) view returns (address)',
+    'function getPaymentTokenIndex(address token) view returns (int16)',
+    'function getPowerTokens() view returns (address[])',
+    'function getProxyAdmin() view returns (address)',
+    'function getRentalAgreement(uint256 rentalTokenId) view returns (tuple(uint112 rentalAmount, uint16 powerTokenIndex, uint32 startTime, uint32 endTime, uint32 renterOnlyReturnTime, uint32 enterpriseOnlyCollectionTime, uint112 gcRewardAmount, uint16 gcRewardTokenIndex))',
+    'function getRentalToken() view returns (address)',
+    'function getRenterOnlyReturnPeriod() view returns (uint32)',
+    'function getReserve() view returns (uint256)',
+    'function getStake(uint256 stakeTokenId) view returns (tuple(uint256 amount, uint256 shares, uint256 block))',
+    'function getStakeToken() view returns (address)',
+    'function getStakingReward(uint256 stakeTokenId) view returns (uint256)',
+    'function getStreamingReserveHalvingPeriod() view returns (uint32)',
+    'function getUsedReserve() view returns (uint256)',
+    'function increaseStake(uint256 stakeTokenId, uint256 stakeAmountDelta)',
+    'function initialize(string enterpriseName, string baseUri, uint16 gcFeePercent, address converter, address proxyAdmin, address owner)',
+    'function initialize(address initialOwner)',
+    'function initializeTokens(address enterpriseToken, address stakeToken, address rentalToken)',
+    'function isRegisteredPowerToken(address powerToken) view returns (bool)',
+    'function isSupportedPaymentToken(address token) view returns (bool)',
+    'function owner() view returns (address)',
+    'function registerService(string serviceName, string serviceSymbol, uint32 energyGapHalvingPeriod, uint112 baseRate, address baseToken, uint16 serviceFeePercent, uint32 minRentalPeriod, uint32 maxRentalPeriod, uint96 minGCFee, bool swappingEnabledForever)',
+    'function rent(address powerToken, address paymentToken, uint112 rentalAmount, uint32 rentalPeriod, uint256 maxPayment)',
+    'function returnRental(uint256 rentalTokenId)',
+    'function setBaseUri(string baseUri)',
+    'function setBondingCurve(uint256 pole, uint256 slope)',
+    'function setConverter(address newConverter)',
+    'function setEnterpriseCollector(address newCollector)',
+    'function setEnterpriseOnlyCollectionPeriod(uint32 newPeriod)',
+    'function setEnterpriseWallet(address newWallet)',
+    'function setGcFeePercent(uint16 newGcFeePercent)',
+    'function setRenterOnlyReturnPeriod(uint32 newPeriod)',
+    'function setStreamingReserveHalvingPeriod(uint32 streamingReserveHalvingPeriod)',
+    'function shutdownEnterpriseForever()',
+    'function stake(uint256 stakeAmount)',
+    'function transferOwnership(address newOwner)',
+    'function transferRental(address from, address to, uint256 rentalTokenId)',
+    'function unstake(uint256 stakeTokenId)',
+    'function upgrade(address enterpriseFactory, address enterpriseImplementation, address rentalTokenImplementation, address stakeTokenImplementation, address powerTokenImplementation, address[] powerTokens)',
+  ],
+} as const;
+
+export const DEPLOYED_ADDRESSES = {
+  56: {
+    network: 'binance',
+    contracts: {
+      BorrowToken: {
+        address: '0xE0582Cc604005457dd0Bf8D2bE82845DDdE8efea',
+        abi: ABIS.RentalToken,
+        deploymentBlock: 11962520,
+      },
+      DefaultConverter: {
+        address: '0x7c88605dDB1f5eD8e7689088eBC77D82dee87f11',
+        abi: ABIS.DefaultConverter,
+        deploymentBlock: 8746290,
+      },
+      Enterprise: {
+        address: '0x0Fa5914616c81245e0C306A99F0c01E26649D0dF',
+        abi: ABIS.Enterprise,
+        deploymentBlock: 13350675,
+      },
+      EnterpriseFactory: {
+        address: '0x09B943cD0F7cA48A99A35a580CEf37E07B5c1dae',
+        abi: ABIS.EnterpriseFactory,
+        deploymentBlock: 13350680,
+      },
+      InterestToken: {
+        address: '0x7c6d55dc2787A8aA7cA7F929E0E99b465aAcA405',
+        abi: ABIS.StakeToken,
+        deploymentBlock: 11962523,
+      },
+      PowerToken: {
+        address: '0xC4110b723a785d4F23E0547BB21c82E348112D89',
+        abi: ABIS.PowerToken,
+        deploymentBlock: 13350669,
+      },
+      RentalToken: {
+        address: '0x55F4A8f015d14e55ff05935B391Af4a75f5dbBc1',
+        abi: ABIS.RentalToken,
+        deploymentBlock: 13350660,
+      },
+      StakeToken: {
+        address: '0xAdB3e6c787e6D91DFcA4679EF6575a3745837E47',
+        abi: ABIS.StakeToken,
+        deploymentBlock: 13350664,
+      },
+    },
+    enterprises: {
+      PARSIQ: { address: '0xfAA9721D51c49f0CA7e82203d7914c9726b5cCaB', abi: ABIS.Enterprise },
+    },
+  },
+  97: {
+    network: 'binanceTestnet',
+    contracts: {
+      DefaultConverter: {
+        address: '0x59F089539CC0d7680f1b859c187b7161e4F9421d',
+        abi: ABIS.DefaultConverter,
+        deploymentBlock: 10156288,
+      },
+      Enterprise: {
+        address: '0x28186aDfe931cf3e529362bA10932C71dc5B0669',
+        abi: ABIS.Enterprise,
+        deploymentBlock: 14044444,
+      },
+      EnterpriseFactory: {
+        address: '0xC98D0Ebb8904a0Aa15036379017770882aA14AE1',
+        abi: ABIS.EnterpriseFactory,
+        deploymentBlock: 14044450,
+      },
+      PowerToken: {
+        address: '0xeA59D44f72A1Db24934b013424967e1e8750c7Bc',
+        abi: ABIS.PowerToken,
+        deploymentBlock: 14044438,
+      },
+      RentalToken: {
+        address: '0x261a4F072929CFF97f45A8ED1340e092eC50E9Cc',
+        abi: ABIS.RentalToken,
+        deploymentBlock: 14044428,
+      },
+      StakeToken: {
+        address: '0x4c38877C34E99B8847B950e474551dE2a9E72EF7',
+        abi: ABIS.StakeToken,
+        deploymentBlock: 14044433,
+      },
+    },
+    enterprises: {},
+  },
+  137: {
+    network: 'polygon',
+    contracts: {
+      DefaultConverter: {
+        address: '0xf3e20Dc3F8df51bd608187dA09a649d081ee5B35',
+        abi: ABIS.DefaultConverter,
+        deploymentBlock: 23185461,
+      },
+      Enterprise: {
+        address: '0x4ba78695845eb5e0a02cee3b51ffa214996032ce',
+        abi: ABIS.Enterprise,
+        deploymentBlock: 23185444,
+      },
+      EnterpriseFactory: {
+        address: '0x908AC335219D13276D31Fa68449f7f63B1731BA6',
+        abi: ABIS.EnterpriseFactory,
+        deploymentBlock: 23185474,
+      },
+      PowerToken: {
+        address: '0xcEeef2a276109DE31750519405fBaF66A5938A3E',
+        abi: ABIS.PowerToken,
+        deploymentBlock: 23181464,
+      },
+      RentalToken: {
+        address: '0x7eB8D59514747e1d8A42519Ec08EbaB91cB8E1F2',
+        abi: ABIS.RentalToken,
+        deploymentBlock: 23181383,
+      },
+      StakeToken: {
+        address: '0x27cdca6265B971D1aF8E46164F6E5494997dC449',
+        abi: ABIS.StakeToken,
+        deploymentBlock: 23181418,
+      },
+    },
+    enterprises: {},
+  },
+  80001: {
+    network: 'polygonTestnet',
+    contracts: {
+      DefaultConverter: {
+        address: '0x93Dc01F4C24698EaAF7777F391Cc75F8FcbbF5C5',
+        abi: ABIS.DefaultConverter,
+        deploymentBlock: 21036825,
+      },
+      Enterprise: {
+        address: '0x833DA99fa17b6d335DDEccC54626d6039a93277E',
+        abi: ABIS.Enterprise2,
+        deploymentBlock: 21036822,
+      },
+      EnterpriseFactory: {
+        address: '0xAe90F3c94Ec3649CF616061b66f28dbFEE747d3D',
+        abi: ABIS.EnterpriseFactory,
+        deploymentBlock: 21036828,
+      },
+      PowerToken: {
+        address: '0xc7459C308c05eDeEf331B2eB3Dc44296129B775f',
+        abi: ABIS.PowerToken,
+        deploymentBlock: 21036819,
+      },
+      RentalToken: {
+        address: '0xE6FA2C67c45A1D8DF0A57b632351f2C18Ea76F09',
+        abi: ABIS.RentalToken,
+        deploymentBlock: 21036813,
+      },
+      StakeToken: {
+        address: '0x9aF78eddD01b3dc1D800A16AB04Db0E6FD6824a2',
+        abi: ABIS.StakeToken,
+        deploymentBlock: 21036816,
+      },
+    },
+    enterprises: {},
+  },
+} as const;
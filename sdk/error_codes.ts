@@ -0,0 +1,211 @@
+// Generated from contracts/libs/Errors.sol by the compile task, do not edit.
+
+export enum Errors {
+  NOT_INITIALIZED = '1',
+  ALREADY_INITIALIZED = '2',
+  CALLER_NOT_OWNER = '3',
+  CALLER_NOT_ENTERPRISE = '4',
+  INVALID_ADDRESS = '5',
+  UNREGISTERED_POWER_TOKEN = '6',
+  INVALID_ARRAY_LENGTH = '7',
+  EXP_INVALID_PERIOD = '8',
+  ERC20_INVALID_PERIOD = '9',
+  ERC20_TRANSFER_AMOUNT_EXCEEDS_ALLOWANCE = '10',
+  ERC20_DECREASED_ALLOWANCE_BELOW_ZERO = '11',
+  ERC20_TRANSFER_FROM_THE_ZERO_ADDRESS = '12',
+  ERC20_TRANSFER_TO_THE_ZERO_ADDRESS = '13',
+  ERC20_TRANSFER_AMOUNT_EXCEEDS_BALANCE = '14',
+  ERC20_MINT_TO_THE_ZERO_ADDRESS = '15',
+  ERC20_BURN_FROM_THE_ZERO_ADDRESS = '16',
+  ERC20_BURN_AMOUNT_EXCEEDS_BALANCE = '17',
+  ERC20_APPROVE_FROM_THE_ZERO_ADDRESS = '18',
+  ERC20_APPROVE_TO_THE_ZERO_ADDRESS = '19',
+  ERC721_BALANCE_QUERY_FOR_THE_ZERO_ADDRESS = '20',
+  ERC721_OWNER_QUERY_FOR_NONEXISTENT_TOKEN = '21',
+  ERC721_APPROVAL_TO_CURRENT_OWNER = '22',
+  ERC721_APPROVE_CALLER_IS_NOT_OWNER_NOR_APPROVED_FOR_ALL = '23',
+  ERC721_APPROVED_QUERY_FOR_NONEXISTENT_TOKEN = '24',
+  ERC721_APPROVE_TO_CALLER = '25',
+  ERC721_TRANSFER_CALLER_IS_NOT_OWNER_NOR_APPROVED = '26',
+  ERC721_TRANSFER_TO_NON_ERC721RECEIVER_IMPLEMENTER = '27',
+  ERC721_OPERATOR_QUERY_FOR_NONEXISTENT_TOKEN = '28',
+  ERC721_MINT_TO_THE_ZERO_ADDRESS = '29',
+  ERC721_TOKEN_ALREADY_MINTED = '30',
+  ERC721_TRANSFER_OF_TOKEN_THAT_IS_NOT_OWN = '31',
+  ERC721_TRANSFER_TO_THE_ZERO_ADDRESS = '32',
+  ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN = '33',
+  ERC721ENUM_OWNER_INDEX_OUT_OF_BOUNDS = '34',
+  ERC721ENUM_GLOBAL_INDEX_OUT_OF_BOUNDS = '35',
+  DC_UNSUPPORTED_PAIR = '36',
+  DE_INVALID_ENTERPRISE_ADDRESS = '37',
+  DE_LABMDA_NOT_GT_0 = '38',
+  E_CALLER_NOT_RENTAL_TOKEN = '39',
+  E_INVALID_BASE_TOKEN_ADDRESS = '40',
+  E_SERVICE_LIMIT_REACHED = '41',
+  E_INVALID_RENTAL_PERIOD_RANGE = '42',
+  E_SERVICE_ENERGY_GAP_HALVING_PERIOD_NOT_GT_0 = '43',
+  E_UNSUPPORTED_PAYMENT_TOKEN = '44',
+  E_RENTAL_PERIOD_OUT_OF_RANGE = '45',
+  E_INSUFFICIENT_LIQUIDITY = '46',
+  E_RENTAL_PAYMENT_SLIPPAGE = '47',
+  E_INVALID_RENTAL_TOKEN_ID = '48',
+  E_INVALID_RENTAL_PERIOD = '49',
+  E_FLASH_LIQUIDITY_REMOVAL = '50',
+  E_SWAPPING_DISABLED = '51',
+  E_RENTAL_TRANSFER_NOT_ALLOWED = '52',
+  E_INVALID_CALLER_WITHIN_RENTER_ONLY_RETURN_PERIOD = '53',
+  E_INVALID_CALLER_WITHIN_ENTERPRISE_ONLY_COLLECTION_PERIOD = '54',
+  EF_INVALID_ENTERPRISE_IMPLEMENTATION_ADDRESS = '55',
+  EF_INVALID_POWER_TOKEN_IMPLEMENTATION_ADDRESS = '56',
+  EF_INVALID_STAKE_TOKEN_IMPLEMENTATION_ADDRESS = '57',
+  EF_INVALID_RENTAL_TOKEN_IMPLEMENTATION_ADDRESS = '58',
+  EO_INVALID_ENTERPRISE_ADDRESS = '59',
+  ES_INVALID_ESTIMATOR_ADDRESS = '60',
+  ES_INVALID_COLLECTOR_ADDRESS = '61',
+  ES_INVALID_WALLET_ADDRESS = '62',
+  ES_INVALID_CONVERTER_ADDRESS = '63',
+  ES_INVALID_RENTER_ONLY_RETURN_PERIOD = '64',
+  ES_INVALID_ENTERPRISE_ONLY_COLLECTION_PERIOD = '65',
+  ES_STREAMING_RESERVE_HALVING_PERIOD_NOT_GT_0 = '66',
+  ES_MAX_SERVICE_FEE_PERCENT_EXCEEDED = '67',
+  ES_INVALID_BASE_TOKEN_ADDRESS = '68',
+  ES_INVALID_RENTAL_PERIOD_RANGE = '69',
+  ES_SWAPPING_ALREADY_ENABLED = '70',
+  ES_INVALID_PAYMENT_TOKEN_ADDRESS = '71',
+  ES_UNREGISTERED_PAYMENT_TOKEN = '72',
+  IO_INVALID_OWNER_ADDRESS = '73',
+  PT_INSUFFICIENT_AVAILABLE_BALANCE = '74',
+  E_ENTERPRISE_SHUTDOWN = '75',
+  E_INVALID_RENTAL_AMOUNT = '76',
+  ES_INVALID_BONDING_POLE = '77',
+  ES_INVALID_BONDING_SLOPE = '78',
+  ES_TRANSFER_ALREADY_ENABLED = '79',
+  PT_TRANSFER_DISABLED = '80',
+  E_INVALID_ENTERPRISE_NAME = '81',
+  PT_INVALID_MAX_RENTAL_PERIOD = '82',
+  E_INVALID_ENTERPRISE_FACTORY_ADDRESS = '83',
+  CPC_INVALID_FACTORY_ADDRESS = '84',
+  CPC_INVALID_FEE_PERCENT = '85',
+  CPC_UNSUPPORTED_PAIR = '86',
+  CPC_INSUFFICIENT_LIQUIDITY = '87',
+  CPC_INVALID_TWAP_PERIOD = '88',
+  CPC_INVALID_MAX_DEVIATION = '89',
+  CPC_INSUFFICIENT_PRICE_HISTORY = '90',
+  CPC_PRICE_DEVIATION_EXCEEDED = '91',
+  OC_INVALID_MAX_STALENESS = '92',
+  OC_INVALID_MAX_DEVIATION = '93',
+  OC_UNSUPPORTED_TOKEN = '94',
+  OC_INVALID_PRICE = '95',
+  OC_STALE_PRICE = '96',
+  OC_PRICE_DEVIATION_EXCEEDED = '97',
+  OC_INSUFFICIENT_BALANCE = '98',
+  OC_CALLER_NOT_ALLOWED = '99',
+}
+
+export const ERROR_MESSAGES: Record<Errors, string> = {
+  [Errors.NOT_INITIALIZED]: 'Not initialized',
+  [Errors.ALREADY_INITIALIZED]: 'Already initialized',
+  [Errors.CALLER_NOT_OWNER]: 'Caller not owner',
+  [Errors.CALLER_NOT_ENTERPRISE]: 'Caller not enterprise',
+  [Errors.INVALID_ADDRESS]: 'Invalid address',
+  [Errors.UNREGISTERED_POWER_TOKEN]: 'Unregistered power token',
+  [Errors.INVALID_ARRAY_LENGTH]: 'Invalid array length',
+  [Errors.EXP_INVALID_PERIOD]: 'ExpMath: invalid period',
+  [Errors.ERC20_INVALID_PERIOD]: 'ERC20: invalid period',
+  [Errors.ERC20_TRANSFER_AMOUNT_EXCEEDS_ALLOWANCE]: 'ERC20: transfer amount exceeds allowance',
+  [Errors.ERC20_DECREASED_ALLOWANCE_BELOW_ZERO]: 'ERC20: decreased allowance below zero',
+  [Errors.ERC20_TRANSFER_FROM_THE_ZERO_ADDRESS]: 'ERC20: transfer from the zero address',
+  [Errors.ERC20_TRANSFER_TO_THE_ZERO_ADDRESS]: 'ERC20: transfer to the zero address',
+  [Errors.ERC20_TRANSFER_AMOUNT_EXCEEDS_BALANCE]: 'ERC20: transfer amount exceeds balance',
+  [Errors.ERC20_MINT_TO_THE_ZERO_ADDRESS]: 'ERC20: mint to the zero address',
+  [Errors.ERC20_BURN_FROM_THE_ZERO_ADDRESS]: 'ERC20: burn from the zero address',
+  [Errors.ERC20_BURN_AMOUNT_EXCEEDS_BALANCE]: 'ERC20: burn amount exceeds balance',
+  [Errors.ERC20_APPROVE_FROM_THE_ZERO_ADDRESS]: 'ERC20: approve from the zero address',
+  [Errors.ERC20_APPROVE_TO_THE_ZERO_ADDRESS]: 'ERC20: approve to the zero address',
+  [Errors.ERC721_BALANCE_QUERY_FOR_THE_ZERO_ADDRESS]: 'ERC721: balance query for the zero address',
+  [Errors.ERC721_OWNER_QUERY_FOR_NONEXISTENT_TOKEN]: 'ERC721: owner query for nonexistent token',
+  [Errors.ERC721_APPROVAL_TO_CURRENT_OWNER]: 'ERC721: approval to current owner',
+  [Errors.ERC721_APPROVE_CALLER_IS_NOT_OWNER_NOR_APPROVED_FOR_ALL]:
+    'ERC721: approve caller is not owner nor approved for all',
+  [Errors.ERC721_APPROVED_QUERY_FOR_NONEXISTENT_TOKEN]: 'ERC721: approved query for nonexistent token',
+  [Errors.ERC721_APPROVE_TO_CALLER]: 'ERC721: approve to caller',
+  [Errors.ERC721_TRANSFER_CALLER_IS_NOT_OWNER_NOR_APPROVED]: 'ERC721: transfer caller is not owner nor approved',
+  [Errors.ERC721_TRANSFER_TO_NON_ERC721RECEIVER_IMPLEMENTER]: 'ERC721: transfer to non erc721receiver implementer',
+  [Errors.ERC721_OPERATOR_QUERY_FOR_NONEXISTENT_TOKEN]: 'ERC721: operator query for nonexistent token',
+  [Errors.ERC721_MINT_TO_THE_ZERO_ADDRESS]: 'ERC721: mint to the zero address',
+  [Errors.ERC721_TOKEN_ALREADY_MINTED]: 'ERC721: token already minted',
+  [Errors.ERC721_TRANSFER_OF_TOKEN_THAT_IS_NOT_OWN]: 'ERC721: transfer of token that is not own',
+  [Errors.ERC721_TRANSFER_TO_THE_ZERO_ADDRESS]: 'ERC721: transfer to the zero address',
+  [Errors.ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN]: 'ERC721Metadata: uri query for nonexistent token',
+  [Errors.ERC721ENUM_OWNER_INDEX_OUT_OF_BOUNDS]: 'ERC721Enumerable: owner index out of bounds',
+  [Errors.ERC721ENUM_GLOBAL_INDEX_OUT_OF_BOUNDS]: 'ERC721Enumerable: global index out of bounds',
+  [Errors.DC_UNSUPPORTED_PAIR]: 'DefaultConverter: unsupported pair',
+  [Errors.DE_INVALID_ENTERPRISE_ADDRESS]: 'DefaultEstimator: invalid enterprise address',
+  [Errors.DE_LABMDA_NOT_GT_0]: 'DefaultEstimator: labmda not gt 0',
+  [Errors.E_CALLER_NOT_RENTAL_TOKEN]: 'Enterprise: caller not rental token',
+  [Errors.E_INVALID_BASE_TOKEN_ADDRESS]: 'Enterprise: invalid base token address',
+  [Errors.E_SERVICE_LIMIT_REACHED]: 'Enterprise: service limit reached',
+  [Errors.E_INVALID_RENTAL_PERIOD_RANGE]: 'Enterprise: invalid rental period range',
+  [Errors.E_SERVICE_ENERGY_GAP_HALVING_PERIOD_NOT_GT_0]: 'Enterprise: service energy gap halving period not gt 0',
+  [Errors.E_UNSUPPORTED_PAYMENT_TOKEN]: 'Enterprise: unsupported payment token',
+  [Errors.E_RENTAL_PERIOD_OUT_OF_RANGE]: 'Enterprise: rental period out of range',
+  [Errors.E_INSUFFICIENT_LIQUIDITY]: 'Enterprise: insufficient liquidity',
+  [Errors.E_RENTAL_PAYMENT_SLIPPAGE]: 'Enterprise: rental payment slippage',
+  [Errors.E_INVALID_RENTAL_TOKEN_ID]: 'Enterprise: invalid rental token id',
+  [Errors.E_INVALID_RENTAL_PERIOD]: 'Enterprise: invalid rental period',
+  [Errors.E_FLASH_LIQUIDITY_REMOVAL]: 'Enterprise: flash liquidity removal',
+  [Errors.E_SWAPPING_DISABLED]: 'Enterprise: swapping disabled',
+  [Errors.E_RENTAL_TRANSFER_NOT_ALLOWED]: 'Enterprise: rental transfer not allowed',
+  [Errors.E_INVALID_CALLER_WITHIN_RENTER_ONLY_RETURN_PERIOD]:
+    'Enterprise: invalid caller within renter only return period',
+  [Errors.E_INVALID_CALLER_WITHIN_ENTERPRISE_ONLY_COLLECTION_PERIOD]:
+    'Enterprise: invalid caller within enterprise only collection period',
+  [Errors.EF_INVALID_ENTERPRISE_IMPLEMENTATION_ADDRESS]: 'EnterpriseFactory: invalid enterprise implementation address',
+  [Errors.EF_INVALID_POWER_TOKEN_IMPLEMENTATION_ADDRESS]:
+    'EnterpriseFactory: invalid power token implementation address',
+  [Errors.EF_INVALID_STAKE_TOKEN_IMPLEMENTATION_ADDRESS]:
+    'EnterpriseFactory: invalid stake token implementation address',
+  [Errors.EF_INVALID_RENTAL_TOKEN_IMPLEMENTATION_ADDRESS]:
+    'EnterpriseFactory: invalid rental token implementation address',
+  [Errors.EO_INVALID_ENTERPRISE_ADDRESS]: 'EnterpriseOwnable: invalid enterprise address',
+  [Errors.ES_INVALID_ESTIMATOR_ADDRESS]: 'EnterpriseStorage: invalid estimator address',
+  [Errors.ES_INVALID_COLLECTOR_ADDRESS]: 'EnterpriseStorage: invalid collector address',
+  [Errors.ES_INVALID_WALLET_ADDRESS]: 'EnterpriseStorage: invalid wallet address',
+  [Errors.ES_INVALID_CONVERTER_ADDRESS]: 'EnterpriseStorage: invalid converter address',
+  [Errors.ES_INVALID_RENTER_ONLY_RETURN_PERIOD]: 'EnterpriseStorage: invalid renter only return period',
+  [Errors.ES_INVALID_ENTERPRISE_ONLY_COLLECTION_PERIOD]: 'EnterpriseStorage: invalid enterprise only collection period',
+  [Errors.ES_STREAMING_RESERVE_HALVING_PERIOD_NOT_GT_0]: 'EnterpriseStorage: streaming reserve halving period not gt 0',
+  [Errors.ES_MAX_SERVICE_FEE_PERCENT_EXCEEDED]: 'EnterpriseStorage: max service fee percent exceeded',
+  [Errors.ES_INVALID_BASE_TOKEN_ADDRESS]: 'EnterpriseStorage: invalid base token address',
+  [Errors.ES_INVALID_RENTAL_PERIOD_RANGE]: 'EnterpriseStorage: invalid rental period range',
+  [Errors.ES_SWAPPING_ALREADY_ENABLED]: 'EnterpriseStorage: swapping already enabled',
+  [Errors.ES_INVALID_PAYMENT_TOKEN_ADDRESS]: 'EnterpriseStorage: invalid payment token address',
+  [Errors.ES_UNREGISTERED_PAYMENT_TOKEN]: 'EnterpriseStorage: unregistered payment token',
+  [Errors.IO_INVALID_OWNER_ADDRESS]: 'InitializableOwnable: invalid owner address',
+  [Errors.PT_INSUFFICIENT_AVAILABLE_BALANCE]: 'PowerToken: insufficient available balance',
+  [Errors.E_ENTERPRISE_SHUTDOWN]: 'Enterprise: enterprise shutdown',
+  [Errors.E_INVALID_RENTAL_AMOUNT]: 'Enterprise: invalid rental amount',
+  [Errors.ES_INVALID_BONDING_POLE]: 'EnterpriseStorage: invalid bonding pole',
+  [Errors.ES_INVALID_BONDING_SLOPE]: 'EnterpriseStorage: invalid bonding slope',
+  [Errors.ES_TRANSFER_ALREADY_ENABLED]: 'EnterpriseStorage: transfer already enabled',
+  [Errors.PT_TRANSFER_DISABLED]: 'PowerToken: transfer disabled',
+  [Errors.E_INVALID_ENTERPRISE_NAME]: 'Enterprise: invalid enterprise name',
+  [Errors.PT_INVALID_MAX_RENTAL_PERIOD]: 'PowerToken: invalid max rental period',
+  [Errors.E_INVALID_ENTERPRISE_FACTORY_ADDRESS]: 'Enterprise: invalid enterprise factory address',
+  [Errors.CPC_INVALID_FACTORY_ADDRESS]: 'ConstantProductConverter: invalid factory address',
+  [Errors.CPC_INVALID_FEE_PERCENT]: 'ConstantProductConverter: invalid fee percent',
+  [Errors.CPC_UNSUPPORTED_PAIR]: 'ConstantProductConverter: unsupported pair',
+  [Errors.CPC_INSUFFICIENT_LIQUIDITY]: 'ConstantProductConverter: insufficient liquidity',
+  [Errors.CPC_INVALID_TWAP_PERIOD]: 'ConstantProductConverter: invalid twap period',
+  [Errors.CPC_INVALID_MAX_DEVIATION]: 'ConstantProductConverter: invalid max deviation',
+  [Errors.CPC_INSUFFICIENT_PRICE_HISTORY]: 'ConstantProductConverter: insufficient price history',
+  [Errors.CPC_PRICE_DEVIATION_EXCEEDED]: 'ConstantProductConverter: price deviation exceeded',
+  [Errors.OC_INVALID_MAX_STALENESS]: 'OracleConverter: invalid max staleness',
+  [Errors.OC_INVALID_MAX_DEVIATION]: 'OracleConverter: invalid max deviation',
+  [Errors.OC_UNSUPPORTED_TOKEN]: 'OracleConverter: unsupported token',
+  [Errors.OC_INVALID_PRICE]: 'OracleConverter: invalid price',
+  [Errors.OC_STALE_PRICE]: 'OracleConverter: stale price',
+  [Errors.OC_PRICE_DEVIATION_EXCEEDED]: 'OracleConverter: price deviation exceeded',
+  [Errors.OC_INSUFFICIENT_BALANCE]: 'OracleConverter: insufficient balance',
+  [Errors.OC_CALLER_NOT_ALLOWED]: 'OracleConverter: caller not allowed',
+};
@@ -0,0 +1,86 @@
+import { defaultAbiCoder, hexDataSlice } from 'ethers/lib/utils';
+import { ERROR_MESSAGES, Errors } from './error_codes';
+
+export { ERROR_MESSAGES, Errors };
+
+// Selector of `Error(string)` used by `require` and `revert` with a reason string.
+const ERROR_SELECTOR = '0x08c379a0';
+const REVERT_PATTERNS = [
+  /reverted with reason string '([^']*)'/,
+  /revert with reason "([^"]*)"/,
+  /execution reverted: ([^"\\\n]*)/,
+];
+
+const ERROR_NAMES = new Map<string, keyof typeof Errors>(
+  Object.entries(Errors).map(([name, code]) => [code, name as keyof typeof Errors])
+);
+
+/**
+ * Protocol revert decoded from the numeric reason string, see `contracts/libs/Errors.sol`.
+ */
+export class ProtocolError extends Error {
+  readonly name = 'ProtocolError';
+
+  constructor(readonly code: Errors, readonly error: keyof typeof Errors, readonly cause?: unknown) {
+    super(ERROR_MESSAGES[code]);
+  }
+}
+
+/**
+ * Decodes the revert reason string like `'47'`, returns `undefined` for reasons not coming from the protocol.
+ */
+export function decodeRevertReason(reason: string, cause?: unknown): ProtocolError | undefined {
+  const error = ERROR_NAMES.get(reason);
+  return error ? new ProtocolError(reason as Errors, error, cause) : undefined;
+}
+
+/**
+ * Decodes the protocol revert thrown by a contract call, transaction or gas estimation of ethers or hardhat providers.
+ */
+export function decodeError(error: unknown): ProtocolError | undefined {
+  const reason = findRevertReason(error);
+  return reason === undefined ? undefined : decodeRevertReason(reason, error);
+}
+
+/**
+ * Rethrows the protocol revert as `ProtocolError`, other errors are rethrown as is.
+ */
+export async function withDecodedErrors<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (e) {
+    throw decodeError(e) ?? e;
+  }
+}
+
+/**
+ * Looks for the revert reason in the error chain: ABI encoded revert data, `reason` and provider messages.
+ */
+export function findRevertReason(error: unknown, visited = new Set<unknown>()): string | undefined {
+  if (typeof error === 'string') return parseRevertReason(error);
+  if (!error || typeof error !== 'object' || visited.has(error)) return undefined;
+  visited.add(error);
+
+  const { data, reason, message, error: nested, body } = error as Record<string, unknown>;
+  if (typeof reason === 'string' && ERROR_NAMES.has(reason)) return reason;
+  for (const value of [data, reason, message, nested, body]) {
+    const found = findRevertReason(value, visited);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+function parseRevertReason(value: string): string | undefined {
+  if (value.startsWith(ERROR_SELECTOR)) {
+    try {
+      return defaultAbiCoder.decode(['string'], hexDataSlice(value, 4))[0];
+    } catch {
+      return undefined;
+    }
+  }
+  for (const pattern of REVERT_PATTERNS) {
+    const match = pattern.exec(value);
+    if (match) return match[1];
+  }
+  return undefined;
+}
@@ -0,0 +1,84 @@
+/**
+ * Exact off-chain implementation of `ExpMath` library and PowerToken energy calculation.
+ */
+
+const ONE = 1n << 144n;
+const LOG_ONE_HALF = 15457698658747239244624307340191628289589491n; // log(0.5) * 2 ** 144
+const MAX_UINT32 = (1n << 32n) - 1n;
+const MAX_UINT112 = (1n << 112n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+export interface EnergyState {
+  energy: bigint;
+  timestamp: number;
+}
+
+export interface EnergyPoint {
+  timestamp: number;
+  energy: bigint;
+}
+
+/**
+ * Calculates amount of `c0` left after `t - t0` seconds of exponential decay with `t12` half-life period.
+ * Mirrors `ExpMath.halfLife` including its wrapping (unchecked) arithmetic.
+ */
+export function halfLife(t0: number, c0: bigint, t12: number, t: number): bigint {
+  if (t < t0) throw new RangeError('Invalid period');
+  if (t12 === 0) throw new RangeError('Division by zero');
+
+  const dt = (BigInt(t) - BigInt(t0)) & MAX_UINT32;
+  const period = BigInt(t12);
+
+  c0 >>= dt / period;
+  const rest = dt % period;
+  if (rest === 0n || c0 === 0n) return c0;
+
+  let sum = 0n;
+  let z = c0;
+  const x = (LOG_ONE_HALF * rest) / period;
+  let i = ONE;
+
+  while (z !== 0n) {
+    sum = (sum + z) & MAX_UINT256;
+    z = (z * x) / i;
+    i += ONE;
+    sum = (sum - z) & MAX_UINT256;
+    z = (z * x) / i;
+    i += ONE;
+  }
+
+  return sum & MAX_UINT112;
+}
+
+/**
+ * Projects PowerToken energy of the account at `timestamp`.
+ * Mirrors `PowerToken._getEnergy`, `state` is the result of `PowerToken.getState`
+ * and `balance` is the current account balance.
+ */
+export function projectEnergy(state: EnergyState, balance: bigint, halvingPeriod: number, timestamp: number): bigint {
+  if (balance > state.energy) {
+    return balance - halfLife(state.timestamp, balance - state.energy, halvingPeriod, timestamp);
+  } else {
+    return balance + halfLife(state.timestamp, state.energy - balance, halvingPeriod, timestamp);
+  }
+}
+
+/**
+ * Samples energy curve between `from` and `to` timestamps (inclusive) with `step` seconds interval.
+ */
+export function projectEnergyCurve(
+  state: EnergyState,
+  balance: bigint,
+  halvingPeriod: number,
+  from: number,
+  to: number,
+  step: number
+): EnergyPoint[] {
+  if (step <= 0) throw new RangeError('Invalid step');
+
+  const points: EnergyPoint[] = [];
+  for (let timestamp = Math.max(from, state.timestamp); timestamp <= to; timestamp += step) {
+    points.push({ timestamp, energy: projectEnergy(state, balance, halvingPeriod, timestamp) });
+  }
+  return points;
+}
@@ -0,0 +1,207 @@
+import { BigNumber, ContractReceipt } from 'ethers';
+import { Enterprise, IConverter__factory, RentalToken__factory } from '../typechain';
+
+/**
+ * Rental agreement state with regards to `Enterprise.returnRental` caller restrictions.
+ */
+export enum RentalStatus {
+  /** Rental period is not over yet, only the renter can return the rental. */
+  Active,
+  /** Only the renter can return the rental. */
+  RenterOnly,
+  /** Only the renter or the enterprise collector can return the rental. */
+  CollectorOnly,
+  /** Anyone can return the rental and receive the GC reward. */
+  Collectable,
+}
+
+export interface RentalReturnWindows {
+  endTime: number;
+  renterOnlyReturnTime: number;
+  enterpriseOnlyCollectionTime: number;
+}
+
+export interface CollectionOptions {
+  /**
+   * Gas price used to calculate the transaction costs.
+   */
+  gasPrice: BigNumber;
+  /**
+   * Price of one native coin (10^18 wei) nominated in enterprise tokens.
+   */
+  nativePrice: bigint;
+  /**
+   * Minimal profit (nominated in enterprise tokens) required to return the rental.
+   */
+  minProfit?: bigint;
+  /**
+   * Timestamp used to determine return windows. Defaults to the latest block timestamp.
+   */
+  timestamp?: number;
+}
+
+export interface CollectionCandidate {
+  rentalTokenId: BigNumber;
+  renter: string;
+  status: RentalStatus;
+  gcRewardToken: string;
+  gcRewardAmount: bigint;
+  /** GC reward converted to enterprise tokens. */
+  reward: bigint;
+  gasLimit: bigint;
+  /** Transaction cost converted to enterprise tokens. */
+  cost: bigint;
+  profit: bigint;
+}
+
+export interface CollectionPlan {
+  collector: string;
+  timestamp: number;
+  /** Rentals to be returned in the order of decreasing profit. */
+  returns: CollectionCandidate[];
+  /** Open rentals which cannot be returned profitably or are not returnable by the collector yet. */
+  skipped: (Partial<CollectionCandidate> & { rentalTokenId: BigNumber; status: RentalStatus; reason: string })[];
+}
+
+export interface CollectionResult {
+  rentalTokenId: BigNumber;
+  receipt?: ContractReceipt;
+  error?: Error;
+}
+
+/**
+ * Determines rental status at the `timestamp`. Bounds match the strict comparisons in `Enterprise.returnRental`.
+ */
+export function getRentalStatus(rental: RentalReturnWindows, timestamp: number): RentalStatus {
+  if (timestamp < rental.endTime) return RentalStatus.Active;
+  if (timestamp <= rental.renterOnlyReturnTime) return RentalStatus.RenterOnly;
+  if (timestamp <= rental.enterpriseOnlyCollectionTime) return RentalStatus.CollectorOnly;
+  return RentalStatus.Collectable;
+}
+
+/**
+ * Checks whether `caller` is allowed to return the rental at the `timestamp`.
+ */
+export function canReturnRental(
+  rental: RentalReturnWindows,
+  timestamp: number,
+  caller: string,
+  renter: string,
+  enterpriseCollector: string
+): boolean {
+  const isRenter = caller.toLowerCase() === renter.toLowerCase();
+  const isCollector = caller.toLowerCase() === enterpriseCollector.toLowerCase();
+
+  return (
+    (rental.renterOnlyReturnTime < timestamp || isRenter) &&
+    (rental.enterpriseOnlyCollectionTime < timestamp || isRenter || isCollector)
+  );
+}
+
+/**
+ * Discovers all open rental agreements of the enterprise and selects the ones `collector` can profitably return.
+ */
+export async function planCollection(
+  enterprise: Enterprise,
+  collector: string,
+  options: CollectionOptions
+): Promise<CollectionPlan> {
+  const provider = enterprise.provider;
+  const timestamp = options.timestamp ?? (await provider.getBlock('latest')).timestamp;
+  const minProfit = options.minProfit ?? 0n;
+  const [rentalTokenAddress, enterpriseCollector, enterpriseToken, converterAddress] = await Promise.all([
+    enterprise.getRentalToken(),
+    enterprise.getEnterpriseCollector(),
+    enterprise.getEnterpriseToken(),
+    enterprise.getConverter(),
+  ]);
+  const rentalToken = RentalToken__factory.connect(rentalTokenAddress, provider);
+  const converter = IConverter__factory.connect(converterAddress, provider);
+
+  const plan: CollectionPlan = { collector, timestamp, returns: [], skipped: [] };
+  const totalSupply = (await rentalToken.totalSupply()).toNumber();
+  for (let i = 0; i < totalSupply; i++) {
+    const rentalTokenId = await rentalToken.tokenByIndex(i);
+    const [rental, renter] = await Promise.all([
+      enterprise.getRentalAgreement(rentalTokenId),
+      rentalToken.ownerOf(rentalTokenId),
+    ]);
+    const status = getRentalStatus(rental, timestamp);
+
+    if (!canReturnRental(rental, timestamp, collector, renter, enterpriseCollector)) {
+      plan.skipped.push({ rentalTokenId, renter, status, reason: 'not returnable by collector' });
+      continue;
+    }
+
+    const gcRewardToken = await enterprise.getPaymentToken(rental.gcRewardTokenIndex);
+    const gcRewardAmount = rental.gcRewardAmount.toBigInt();
+    const reward =
+      gcRewardAmount === 0n
+        ? 0n
+        : (await converter.estimateConvert(gcRewardToken, gcRewardAmount, enterpriseToken)).toBigInt();
+
+    let gasLimit: bigint;
+    try {
+      // Contract connected to a signer cannot override the sender.
+      gasLimit = (
+        await enterprise.connect(provider).estimateGas.returnRental(rentalTokenId, { from: collector })
+      ).toBigInt();
+    } catch {
+      plan.skipped.push({
+        rentalTokenId,
+        renter,
+        status,
+        gcRewardToken,
+        gcRewardAmount,
+        reward,
+        reason: 'gas estimation failed',
+      });
+      continue;
+    }
+
+    const cost = (gasLimit * options.gasPrice.toBigInt() * options.nativePrice) / 10n ** 18n;
+    const candidate = {
+      rentalTokenId,
+      renter,
+      status,
+      gcRewardToken,
+      gcRewardAmount,
+      reward,
+      gasLimit,
+      cost,
+      profit: reward - cost,
+    };
+    if (candidate.profit < minProfit) {
+      plan.skipped.push({ ...candidate, reason: 'unprofitable' });
+    } else {
+      plan.returns.push(candidate);
+    }
+  }
+
+  plan.returns.sort((a, b) => (a.profit === b.profit ? 0 : a.profit > b.profit ? -1 : 1));
+  return plan;
+}
+
+/**
+ * Submits `returnRental` transactions for the planned rentals one at a time, the next transaction is sent
+ * once the previous one is mined, so that a failed one does not leave a gap in the account nonces.
+ * Failures are reported per rental and do not stop the collection.
+ */
+export async function executeCollection(
+  enterprise: Enterprise,
+  plan: CollectionPlan,
+  gasPrice: BigNumber
+): Promise<CollectionResult[]> {
+  const results: CollectionResult[] = [];
+  for (const { rentalTokenId, gasLimit } of plan.returns) {
+    try {
+      // Gas limit is pinned, so that the transaction is not estimated again.
+      const tx = await enterprise.returnRental(rentalTokenId, { gasPrice, gasLimit: (gasLimit * 12n) / 10n });
+      results.push({ rentalTokenId, receipt: await tx.wait() });
+    } catch (e) {
+      results.push({ rentalTokenId, error: e as Error });
+    }
+  }
+
+  return results;
+}
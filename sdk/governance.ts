@@ -0,0 +1,284 @@
+import { BigNumber, BigNumberish, ContractReceipt } from 'ethers';
+import { defaultAbiCoder, id as hashText, Interface, keccak256 } from 'ethers/lib/utils';
+import { Enterprise, PowerToken__factory, TimelockController } from '../typechain';
+import { ServiceParams } from './client';
+
+const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+export interface ProposalCall {
+  target: string;
+  value: BigNumber;
+  data: string;
+  description: string;
+}
+
+/**
+ * Batch of calls executed by `TimelockController` as a single operation.
+ */
+export interface TimelockProposal {
+  id: string;
+  description: string;
+  calls: ProposalCall[];
+  predecessor: string;
+  salt: string;
+}
+
+export interface TimelockTransaction {
+  to: string;
+  data: string;
+}
+
+/**
+ * Mirrors `TimelockController` operation lifecycle. Cancelled operations become `Unset` again.
+ */
+export enum ProposalState {
+  Unset,
+  Pending,
+  Ready,
+  Done,
+}
+
+export interface ProposalStatus {
+  state: ProposalState;
+  /**
+   * Timestamp the proposal becomes executable at, `0` when unset or done.
+   */
+  readyAt: number;
+}
+
+export interface ScheduledProposal extends ProposalStatus {
+  id: string;
+  calls: Omit<ProposalCall, 'description'>[];
+  predecessor: string;
+  delay: number;
+  blockNumber: number;
+}
+
+/**
+ * Collects owner-only enterprise and power token calls into a timelock proposal.
+ */
+export class EnterpriseProposalBuilder {
+  private readonly calls: ProposalCall[] = [];
+
+  constructor(readonly enterprise: Enterprise) {}
+
+  setBondingCurve(pole: BigNumberish, slope: BigNumberish): this {
+    return this.enterpriseCall('setBondingCurve', [pole, slope]);
+  }
+
+  setGcFeePercent(gcFeePercent: number): this {
+    return this.enterpriseCall('setGcFeePercent', [gcFeePercent]);
+  }
+
+  setConverter(converter: string): this {
+    return this.enterpriseCall('setConverter', [converter]);
+  }
+
+  registerService(params: ServiceParams): this {
+    return this.enterpriseCall('registerService', [
+      params.name,
+      params.symbol,
+      params.energyGapHalvingPeriod,
+      params.baseRate,
+      params.baseToken,
+      params.serviceFeePercent,
+      params.minRentalPeriod,
+      params.maxRentalPeriod,
+      params.minGCFee,
+      params.swappingEnabledForever,
+    ]);
+  }
+
+  setBaseRate(powerToken: string, baseRate: BigNumberish, baseToken: string, minGCFee: BigNumberish): this {
+    return this.powerTokenCall(powerToken, 'setBaseRate', [baseRate, baseToken, minGCFee]);
+  }
+
+  enableTransferForever(powerToken: string): this {
+    return this.powerTokenCall(powerToken, 'enableTransferForever', []);
+  }
+
+  shutdownEnterpriseForever(): this {
+    return this.enterpriseCall('shutdownEnterpriseForever', []);
+  }
+
+  upgrade(
+    factory: string,
+    enterpriseImplementation: string,
+    rentalTokenImplementation: string,
+    stakeTokenImplementation: string,
+    powerTokenImplementation: string,
+    powerTokens: string[]
+  ): this {
+    return this.enterpriseCall('upgrade', [
+      factory,
+      enterpriseImplementation,
+      rentalTokenImplementation,
+      stakeTokenImplementation,
+      powerTokenImplementation,
+      powerTokens,
+    ]);
+  }
+
+  /**
+   * The description is hashed into the salt, so identical call batches may be proposed under different descriptions.
+   */
+  build(description: string, predecessor = ZERO_HASH): TimelockProposal {
+    if (this.calls.length === 0) throw new Error('Proposal has no calls');
+
+    const proposal = { description, calls: [...this.calls], predecessor, salt: hashText(description) };
+    return { id: hashProposal(proposal), ...proposal };
+  }
+
+  private enterpriseCall(name: string, args: unknown[]): this {
+    return this.push(
+      this.enterprise.address,
+      (this.enterprise.interface as Interface).encodeFunctionData(name, args),
+      name,
+      args
+    );
+  }
+
+  private powerTokenCall(powerToken: string, name: string, args: unknown[]): this {
+    const data = (PowerToken__factory.createInterface() as Interface).encodeFunctionData(name, args);
+    return this.push(powerToken, data, `${powerToken}.${name}`, args);
+  }
+
+  private push(target: string, data: string, name: string, args: unknown[]): this {
+    this.calls.push({ target, value: BigNumber.from(0), data, description: `${name}(${args.join(', ')})` });
+    return this;
+  }
+}
+
+/**
+ * Same as `TimelockController.hashOperationBatch`.
+ */
+export function hashProposal(proposal: Omit<TimelockProposal, 'id' | 'description'>): string {
+  return keccak256(
+    defaultAbiCoder.encode(
+      ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+      [
+        proposal.calls.map((x) => x.target),
+        proposal.calls.map((x) => x.value),
+        proposal.calls.map((x) => x.data),
+        proposal.predecessor,
+        proposal.salt,
+      ]
+    )
+  );
+}
+
+/**
+ * Encodes `scheduleBatch` transaction to be sent by a proposer, e.g. a multisig wallet.
+ */
+export function encodeScheduleProposal(
+  timelock: TimelockController,
+  proposal: TimelockProposal,
+  delay: BigNumberish
+): TimelockTransaction {
+  const { targets, values, payloads } = unzipCalls(proposal);
+  return {
+    to: timelock.address,
+    data: timelock.interface.encodeFunctionData('scheduleBatch', [
+      targets,
+      values,
+      payloads,
+      proposal.predecessor,
+      proposal.salt,
+      delay,
+    ]),
+  };
+}
+
+/**
+ * Encodes `executeBatch` transaction to be sent by an executor once the proposal is ready.
+ */
+export function encodeExecuteProposal(timelock: TimelockController, proposal: TimelockProposal): TimelockTransaction {
+  const { targets, values, payloads } = unzipCalls(proposal);
+  return {
+    to: timelock.address,
+    data: timelock.interface.encodeFunctionData('executeBatch', [
+      targets,
+      values,
+      payloads,
+      proposal.predecessor,
+      proposal.salt,
+    ]),
+  };
+}
+
+/**
+ * Schedules the proposal with the given delay, timelock minimal delay is used by default.
+ */
+export async function scheduleProposal(
+  timelock: TimelockController,
+  proposal: TimelockProposal,
+  delay?: BigNumberish
+): Promise<ContractReceipt> {
+  const { targets, values, payloads } = unzipCalls(proposal);
+  const tx = await timelock.scheduleBatch(
+    targets,
+    values,
+    payloads,
+    proposal.predecessor,
+    proposal.salt,
+    delay ?? (await timelock.getMinDelay())
+  );
+  return tx.wait();
+}
+
+export async function executeProposal(
+  timelock: TimelockController,
+  proposal: TimelockProposal
+): Promise<ContractReceipt> {
+  const { targets, values, payloads } = unzipCalls(proposal);
+  const value = values.reduce((sum, x) => sum.add(x), BigNumber.from(0));
+  const tx = await timelock.executeBatch(targets, values, payloads, proposal.predecessor, proposal.salt, { value });
+  return tx.wait();
+}
+
+export async function cancelProposal(timelock: TimelockController, proposalId: string): Promise<ContractReceipt> {
+  return (await timelock.cancel(proposalId)).wait();
+}
+
+export async function getProposalStatus(timelock: TimelockController, proposalId: string): Promise<ProposalStatus> {
+  const [timestamp, ready, done] = await Promise.all([
+    timelock.getTimestamp(proposalId),
+    timelock.isOperationReady(proposalId),
+    timelock.isOperationDone(proposalId),
+  ]);
+  if (done) return { state: ProposalState.Done, readyAt: 0 };
+  if (timestamp.isZero()) return { state: ProposalState.Unset, readyAt: 0 };
+  return { state: ready ? ProposalState.Ready : ProposalState.Pending, readyAt: timestamp.toNumber() };
+}
+
+/**
+ * Lists proposals scheduled since `fromBlock` together with their current status.
+ */
+export async function listProposals(timelock: TimelockController, fromBlock = 0): Promise<ScheduledProposal[]> {
+  const events = await timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock);
+  const proposals = new Map<string, ScheduledProposal>();
+  for (const { args, blockNumber } of events) {
+    let proposal = proposals.get(args.id);
+    if (!proposal) {
+      proposal = {
+        id: args.id,
+        calls: [],
+        predecessor: args.predecessor,
+        delay: args.delay.toNumber(),
+        blockNumber,
+        ...(await getProposalStatus(timelock, args.id)),
+      };
+      proposals.set(args.id, proposal);
+    }
+    proposal.calls[args.index.toNumber()] = { target: args.target, value: args.value, data: args.data };
+  }
+  return [...proposals.values()];
+}
+
+function unzipCalls(proposal: TimelockProposal) {
+  return {
+    targets: proposal.calls.map((x) => x.target),
+    values: proposal.calls.map((x) => x.value),
+    payloads: proposal.calls.map((x) => x.data),
+  };
+}
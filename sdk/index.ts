@@ -0,0 +1,18 @@
+export * from './rental_fee';
+export * from './exp_math';
+export * from './client';
+export * from './indexer';
+export * from './gc';
+export * from './manifest';
+export * from './upgrade';
+export * from './governance';
+export * from './converter';
+export * from './errors';
+export * from './simulator';
+export * from './random';
+export * from './staker_yield';
+export * from './address_book';
+export * from './metadata';
+export * from './renewal';
+export * from './rental_planner';
+export * from './lens';
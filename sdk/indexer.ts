@@ -0,0 +1,562 @@
+import { promises as fs } from 'fs';
+import { Interface, LogDescription } from '@ethersproject/abi';
+import { Log, Provider } from '@ethersproject/providers';
+import { Enterprise__factory, PowerToken__factory, StakeToken__factory } from '../typechain';
+import { halfLife } from './exp_math';
+import { parse, stringify } from './json';
+
+export enum StakeOperation {
+  Reward,
+  Stake,
+  Unstake,
+  Increase,
+  Decrease,
+}
+
+export interface IndexedStake {
+  stakeTokenId: string;
+  owner: string;
+  amount: bigint;
+  shares: bigint;
+  block: number;
+}
+
+export interface IndexedRentalAgreement {
+  rentalTokenId: string;
+  owner: string;
+  powerToken: string;
+  powerTokenIndex: number;
+  paymentToken: string;
+  rentalAmount: bigint;
+  startTime: number;
+  endTime: number;
+  renterOnlyReturnTime: number;
+  enterpriseOnlyCollectionTime: number;
+  gcRewardAmount: bigint;
+  gcRewardTokenIndex: number;
+}
+
+export interface IndexedService {
+  address: string;
+  index: number;
+  baseRate: bigint;
+  baseToken: string;
+  minGCFee: bigint;
+  serviceFeePercent: number;
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+  swappingEnabled: boolean;
+  transferEnabled: boolean;
+}
+
+export interface IndexedPaymentToken {
+  address: string;
+  enabled: boolean;
+}
+
+export interface ReserveSnapshot {
+  blockNumber: number;
+  transactionHash: string;
+  event: string;
+  totalReserve: bigint;
+  totalUsedReserve: bigint;
+}
+
+/**
+ * Enterprise state reconstructed from the emitted logs. Mirrors `EnterpriseStorage` and `PowerTokenStorage`.
+ */
+export interface EnterpriseState {
+  baseUri: string;
+  onChainTokenUri: boolean;
+  converter: string;
+  enterpriseWallet: string;
+  enterpriseCollector: string;
+  gcFeePercent: number;
+  bondingPole: bigint;
+  bondingSlope: bigint;
+  streamingReserveHalvingPeriod: number;
+  renterOnlyReturnPeriod: number;
+  enterpriseOnlyCollectionPeriod: number;
+  shutdown: boolean;
+  totalShares: bigint;
+  fixedReserve: bigint;
+  usedReserve: bigint;
+  streamingReserve: bigint;
+  streamingReserveTarget: bigint;
+  streamingReserveUpdated: number;
+  paymentTokens: IndexedPaymentToken[];
+  services: IndexedService[];
+  stakes: Record<string, IndexedStake>;
+  rentalAgreements: Record<string, IndexedRentalAgreement>;
+  reserveHistory: ReserveSnapshot[];
+}
+
+/**
+ * Indexed state at the end of the block identified by both number and hash.
+ */
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+  state: EnterpriseState;
+}
+
+export interface CheckpointStore {
+  load(): Promise<Checkpoint[]>;
+  save(checkpoints: Checkpoint[]): Promise<void>;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Checkpoint[] = [];
+
+  async load(): Promise<Checkpoint[]> {
+    return this.checkpoints.map(cloneCheckpoint);
+  }
+
+  async save(checkpoints: Checkpoint[]): Promise<void> {
+    this.checkpoints = checkpoints.map(cloneCheckpoint);
+  }
+}
+
+/**
+ * Persists checkpoints as a JSON file, so that indexing can be resumed after restart.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<Checkpoint[]> {
+    try {
+      return parse(await fs.readFile(this.path, 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+  }
+
+  async save(checkpoints: Checkpoint[]): Promise<void> {
+    await fs.writeFile(this.path, stringify(checkpoints));
+  }
+}
+
+export interface IndexerOptions {
+  /**
+   * Enterprise deployment block. Indexing starts from this block.
+   */
+  startBlock: number;
+  /**
+   * Number of blocks behind the chain head considered final enough to be indexed.
+   */
+  confirmations?: number;
+  /**
+   * Maximum number of blocks requested within a single `eth_getLogs` call.
+   */
+  batchSize?: number;
+  /**
+   * Number of the most recent checkpoints kept for reorg recovery.
+   */
+  maxCheckpoints?: number;
+  store?: CheckpointStore;
+}
+
+const enterpriseInterface = Enterprise__factory.createInterface();
+const powerTokenInterface = PowerToken__factory.createInterface();
+const tokenInterface = StakeToken__factory.createInterface();
+
+/**
+ * Replays enterprise, power token, stake token and rental token logs into an in-memory model of the enterprise.
+ * The indexer keeps a checkpoint after every processed batch. When a checkpointed block hash no longer matches
+ * the canonical chain, the state is rolled back to the latest checkpoint which is still canonical and the
+ * following blocks are replayed.
+ */
+export class EnterpriseIndexer {
+  readonly enterprise: string;
+  readonly startBlock: number;
+  readonly confirmations: number;
+  readonly batchSize: number;
+  readonly maxCheckpoints: number;
+  private readonly store: CheckpointStore;
+  private checkpoints: Checkpoint[] | undefined;
+  private tokens: { stakeToken: string; rentalToken: string } | undefined;
+
+  constructor(readonly provider: Provider, enterprise: string, options: IndexerOptions) {
+    this.enterprise = enterprise.toLowerCase();
+    this.startBlock = options.startBlock;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.maxCheckpoints = options.maxCheckpoints ?? 64;
+    this.store = options.store ?? new MemoryCheckpointStore();
+  }
+
+  /**
+   * Returns the latest indexed state.
+   */
+  get state(): EnterpriseState {
+    return this.latest.state;
+  }
+
+  /**
+   * Returns the latest indexed block number.
+   */
+  get blockNumber(): number {
+    return this.latest.blockNumber;
+  }
+
+  /**
+   * Indexes all confirmed blocks up to `toBlock` (or the chain head) and returns the latest indexed block number.
+   */
+  async sync(toBlock?: number): Promise<number> {
+    const checkpoints = await this.loadCheckpoints();
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    const target = head - this.confirmations;
+
+    await this.rollbackOrphaned(checkpoints);
+
+    let { blockNumber, state } = this.latest;
+    state = cloneState(state);
+    while (blockNumber < target) {
+      const fromBlock = blockNumber + 1;
+      const batchEnd = Math.min(target, blockNumber + this.batchSize);
+      await this.applyLogs(state, await this.getLogs(state, fromBlock, batchEnd));
+
+      const block = await this.provider.getBlock(batchEnd);
+      checkpoints.push({ blockNumber: batchEnd, blockHash: block.hash, state: cloneState(state) });
+      checkpoints.splice(0, Math.max(0, checkpoints.length - this.maxCheckpoints));
+      await this.store.save(checkpoints);
+      blockNumber = batchEnd;
+    }
+
+    return this.blockNumber;
+  }
+
+  /**
+   * Calculates the total reserve (`EnterpriseStorage.getReserve`) at the given timestamp.
+   */
+  getReserve(timestamp: number): bigint {
+    const state = this.state;
+    const streamingReserve =
+      state.streamingReserveTarget -
+      halfLife(
+        state.streamingReserveUpdated,
+        state.streamingReserveTarget - state.streamingReserve,
+        state.streamingReserveHalvingPeriod,
+        timestamp
+      );
+
+    return state.fixedReserve + streamingReserve;
+  }
+
+  private get latest(): Checkpoint {
+    if (!this.checkpoints) throw new Error('Indexer is not synchronized');
+    return this.checkpoints.length > 0
+      ? this.checkpoints[this.checkpoints.length - 1]
+      : { blockNumber: this.startBlock - 1, blockHash: '', state: createState() };
+  }
+
+  private async loadCheckpoints(): Promise<Checkpoint[]> {
+    if (!this.checkpoints) {
+      this.checkpoints = await this.store.load();
+    }
+    return this.checkpoints;
+  }
+
+  /**
+   * Drops all the checkpoints which are no longer part of the canonical chain.
+   */
+  private async rollbackOrphaned(checkpoints: Checkpoint[]): Promise<void> {
+    let dropped = false;
+    while (checkpoints.length > 0) {
+      const { blockNumber, blockHash } = checkpoints[checkpoints.length - 1];
+      const block = await this.provider.getBlock(blockNumber);
+      if (block && block.hash === blockHash) break;
+      checkpoints.pop();
+      dropped = true;
+    }
+    if (dropped) {
+      await this.store.save(checkpoints);
+    }
+  }
+
+  private async getTokens(): Promise<{ stakeToken: string; rentalToken: string }> {
+    if (!this.tokens) {
+      const enterprise = Enterprise__factory.connect(this.enterprise, this.provider);
+      const [stakeToken, rentalToken] = await Promise.all([enterprise.getStakeToken(), enterprise.getRentalToken()]);
+      this.tokens = { stakeToken: stakeToken.toLowerCase(), rentalToken: rentalToken.toLowerCase() };
+    }
+    return this.tokens;
+  }
+
+  private async getLogs(state: EnterpriseState, fromBlock: number, toBlock: number): Promise<Log[]> {
+    const { stakeToken, rentalToken } = await this.getTokens();
+    const addresses = [this.enterprise, stakeToken, rentalToken, ...state.services.map((s) => s.address)];
+    const logs = (
+      await Promise.all(addresses.map((address) => this.provider.getLogs({ address, fromBlock, toBlock })))
+    ).flat();
+
+    // Services registered within the batch emit logs before their addresses are known.
+    const serviceRegistered = enterpriseInterface.getEventTopic('ServiceRegistered');
+    const newServices = logs
+      .filter((log) => log.address.toLowerCase() === this.enterprise && log.topics[0] === serviceRegistered)
+      .map((log) => (enterpriseInterface.parseLog(log).args.powerToken as string).toLowerCase());
+    for (const address of newServices) {
+      logs.push(...(await this.provider.getLogs({ address, fromBlock, toBlock })));
+    }
+
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private async applyLogs(state: EnterpriseState, logs: Log[]): Promise<void> {
+    const { stakeToken, rentalToken } = await this.getTokens();
+    const timestamps = new Map<number, number>();
+    // Power token initialization events precede the service registration.
+    const pending = new Map<string, LogDescription[]>();
+
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      if (address === this.enterprise) {
+        const event = parseLog(enterpriseInterface, log);
+        if (!event) continue;
+        if (event.name === 'StreamingReserveChanged' && !timestamps.has(log.blockNumber)) {
+          timestamps.set(log.blockNumber, (await this.provider.getBlock(log.blockNumber)).timestamp);
+        }
+        applyEnterpriseEvent(state, log, event, timestamps.get(log.blockNumber) ?? 0);
+        if (event.name === 'ServiceRegistered') {
+          const service = state.services[state.services.length - 1];
+          pending.get(service.address)?.forEach((event) => applyPowerTokenEvent(service, event));
+          pending.delete(service.address);
+        }
+      } else if (address === stakeToken || address === rentalToken) {
+        const event = parseLog(tokenInterface, log);
+        if (event?.name !== 'Transfer') continue;
+        const { to, tokenId } = event.args;
+        const id = tokenId.toString();
+        const record = address === stakeToken ? state.stakes[id] : state.rentalAgreements[id];
+        // Initial owner is set by `Rented` and `StakeChanged` events which follow the mint transfer.
+        if (record) record.owner = to.toLowerCase();
+      } else {
+        const service = state.services.find((s) => s.address === address);
+        const event = parseLog(powerTokenInterface, log);
+        if (!event) continue;
+        if (service) {
+          applyPowerTokenEvent(service, event);
+        } else {
+          pending.set(address, [...(pending.get(address) ?? []), event]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parses the log skipping events unknown to the interface (e.g. proxy upgrade events).
+ */
+function parseLog(contractInterface: Interface, log: Log): LogDescription | undefined {
+  const topic = log.topics[0];
+  if (Object.values(contractInterface.events).some((event) => contractInterface.getEventTopic(event) === topic)) {
+    return contractInterface.parseLog(log);
+  }
+}
+
+function applyEnterpriseEvent(state: EnterpriseState, log: Log, event: LogDescription, timestamp: number): void {
+  const { args } = event;
+  switch (event.name) {
+    case 'BaseUriChanged':
+      state.baseUri = args.baseUri;
+      break;
+    case 'OnChainTokenUriChanged':
+      state.onChainTokenUri = args.enabled;
+      break;
+    case 'ConverterChanged':
+      state.converter = args.converter.toLowerCase();
+      break;
+    case 'EnterpriseWalletChanged':
+      state.enterpriseWallet = args.wallet.toLowerCase();
+      break;
+    case 'EnterpriseCollectorChanged':
+      state.enterpriseCollector = args.collector.toLowerCase();
+      break;
+    case 'GcFeePercentChanged':
+      state.gcFeePercent = args.percent;
+      break;
+    case 'BondingChanged':
+      state.bondingPole = args.pole.toBigInt();
+      state.bondingSlope = args.slope.toBigInt();
+      break;
+    case 'StreamingReserveHalvingPeriodChanged':
+      state.streamingReserveHalvingPeriod = args.period;
+      break;
+    case 'RenterOnlyReturnPeriodChanged':
+      state.renterOnlyReturnPeriod = args.period;
+      break;
+    case 'EnterpriseOnlyCollectionPeriodChanged':
+      state.enterpriseOnlyCollectionPeriod = args.period;
+      break;
+    case 'PaymentTokenChange': {
+      const address = args.paymentToken.toLowerCase();
+      const paymentToken = state.paymentTokens.find((token) => token.address === address);
+      if (paymentToken) {
+        paymentToken.enabled = args.enabled;
+      } else {
+        state.paymentTokens.push({ address, enabled: args.enabled });
+      }
+      break;
+    }
+    case 'ServiceRegistered':
+      state.services.push(createService(args.powerToken.toLowerCase(), state.services.length));
+      break;
+    case 'FixedReserveChanged':
+      state.fixedReserve = args.fixedReserve.toBigInt();
+      break;
+    case 'StreamingReserveChanged':
+      state.streamingReserve = args.streamingReserve.toBigInt();
+      state.streamingReserveTarget = args.streamingReserveTarget.toBigInt();
+      state.streamingReserveUpdated = timestamp;
+      break;
+    case 'EnterpriseShutdown':
+      state.shutdown = true;
+      state.usedReserve = 0n;
+      state.streamingReserve = state.streamingReserveTarget;
+      break;
+    case 'StakeChanged': {
+      const id = args.stakeTokenId.toString();
+      const operation: StakeOperation = args.operation;
+      if (operation === StakeOperation.Unstake) {
+        delete state.stakes[id];
+      } else {
+        const stake = (state.stakes[id] ??= {
+          stakeTokenId: id,
+          owner: args.staker.toLowerCase(),
+          amount: 0n,
+          shares: 0n,
+          block: log.blockNumber,
+        });
+        stake.amount = args.amount.toBigInt();
+        stake.shares = args.shares.toBigInt();
+        if (operation === StakeOperation.Stake || operation === StakeOperation.Increase) {
+          stake.block = log.blockNumber;
+        }
+      }
+      state.totalShares = args.totalShares.toBigInt();
+      state.usedReserve = args.totalUsedReserve.toBigInt();
+      recordReserve(state, log, event);
+      break;
+    }
+    case 'Rented': {
+      const id = args.rentalTokenId.toString();
+      const powerToken = args.powerToken.toLowerCase();
+      const paymentToken = args.paymentToken.toLowerCase();
+      state.rentalAgreements[id] = {
+        rentalTokenId: id,
+        owner: args.renter.toLowerCase(),
+        powerToken,
+        powerTokenIndex: state.services.findIndex((service) => service.address === powerToken),
+        paymentToken,
+        rentalAmount: args.rentalAmount.toBigInt(),
+        startTime: args.startTime,
+        endTime: args.endTime,
+        renterOnlyReturnTime: args.renterOnlyReturnTime,
+        enterpriseOnlyCollectionTime: args.enterpriseOnlyCollectionTime,
+        gcRewardAmount: args.gcFee.toBigInt(),
+        gcRewardTokenIndex: state.paymentTokens.findIndex((token) => token.address === paymentToken),
+      };
+      state.usedReserve = args.totalUsedReserve.toBigInt();
+      recordReserve(state, log, event);
+      break;
+    }
+    case 'RentalPeriodExtended': {
+      const rentalAgreement = state.rentalAgreements[args.rentalTokenId.toString()];
+      rentalAgreement.endTime = args.endTime;
+      rentalAgreement.renterOnlyReturnTime = args.renterOnlyReturnTime;
+      rentalAgreement.enterpriseOnlyCollectionTime = args.enterpriseOnlyCollectionTime;
+      break;
+    }
+    case 'RentalReturned':
+      delete state.rentalAgreements[args.rentalTokenId.toString()];
+      state.usedReserve = args.totalUsedReserve.toBigInt();
+      recordReserve(state, log, event);
+      break;
+  }
+}
+
+function applyPowerTokenEvent(service: IndexedService, event: LogDescription): void {
+  const { args } = event;
+  switch (event.name) {
+    case 'BaseRateChanged':
+      service.baseRate = args.baseRate.toBigInt();
+      service.baseToken = args.baseToken.toLowerCase();
+      service.minGCFee = args.minGCFee.toBigInt();
+      break;
+    case 'ServiceFeePercentChanged':
+      service.serviceFeePercent = args.percent;
+      break;
+    case 'RentalPeriodLimitsChanged':
+      service.minRentalPeriod = args.minRentalPeriod;
+      service.maxRentalPeriod = args.maxRentalPeriod;
+      break;
+    case 'SwappingEnabled':
+      service.swappingEnabled = true;
+      break;
+    case 'TransferEnabled':
+      service.transferEnabled = true;
+      break;
+  }
+}
+
+function recordReserve(state: EnterpriseState, log: Log, event: LogDescription): void {
+  state.reserveHistory.push({
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    event: event.name,
+    totalReserve: event.args.totalReserve.toBigInt(),
+    totalUsedReserve: event.args.totalUsedReserve.toBigInt(),
+  });
+}
+
+function createService(address: string, index: number): IndexedService {
+  return {
+    address,
+    index,
+    baseRate: 0n,
+    baseToken: '',
+    minGCFee: 0n,
+    serviceFeePercent: 0,
+    minRentalPeriod: 0,
+    maxRentalPeriod: 0,
+    swappingEnabled: false,
+    transferEnabled: false,
+  };
+}
+
+function createState(): EnterpriseState {
+  return {
+    baseUri: '',
+    onChainTokenUri: false,
+    converter: '',
+    enterpriseWallet: '',
+    enterpriseCollector: '',
+    gcFeePercent: 0,
+    bondingPole: 0n,
+    bondingSlope: 0n,
+    streamingReserveHalvingPeriod: 0,
+    renterOnlyReturnPeriod: 0,
+    enterpriseOnlyCollectionPeriod: 0,
+    shutdown: false,
+    totalShares: 0n,
+    fixedReserve: 0n,
+    usedReserve: 0n,
+    streamingReserve: 0n,
+    streamingReserveTarget: 0n,
+    streamingReserveUpdated: 0,
+    paymentTokens: [],
+    services: [],
+    stakes: {},
+    rentalAgreements: {},
+    reserveHistory: [],
+  };
+}
+
+function cloneState(state: EnterpriseState): EnterpriseState {
+  return parse(stringify(state));
+}
+
+function cloneCheckpoint(checkpoint: Checkpoint): Checkpoint {
+  return parse(stringify(checkpoint));
+}
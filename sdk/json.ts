@@ -0,0 +1,19 @@
+/**
+ * Serializes `value` as JSON encoding bigints as `{"$bigint": "<digits>"}` objects.
+ */
+export function stringify(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? { $bigint: v.toString() } : v));
+}
+
+/**
+ * Parses JSON produced by `stringify` restoring the bigints.
+ */
+export function parse<T>(json: string): T {
+  return JSON.parse(json, (_, v) => (isEncodedBigInt(v) ? BigInt(v.$bigint) : v));
+}
+
+function isEncodedBigInt(value: unknown): value is { $bigint: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === '$bigint' && typeof (value as { $bigint: unknown }).$bigint === 'string';
+}
@@ -0,0 +1,200 @@
+import { BlockTag } from '@ethersproject/providers';
+import { EnterpriseLens } from '../typechain';
+
+export interface ServiceSnapshot {
+  powerToken: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: bigint;
+  baseToken: string;
+  baseRate: bigint;
+  minGCFee: bigint;
+  serviceFeePercent: number;
+  energyGapHalvingPeriod: number;
+  index: number;
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+  swappingEnabled: boolean;
+  transferEnabled: boolean;
+}
+
+export interface EnterpriseSnapshot {
+  blockNumber: number;
+  timestamp: number;
+  enterprise: string;
+  owner: string;
+  name: string;
+  baseUri: string;
+  onChainTokenUri: boolean;
+  enterpriseToken: string;
+  converter: string;
+  rentalToken: string;
+  stakeToken: string;
+  enterpriseWallet: string;
+  enterpriseCollector: string;
+  streamingReserveHalvingPeriod: number;
+  renterOnlyReturnPeriod: number;
+  enterpriseOnlyCollectionPeriod: number;
+  gcFeePercent: number;
+  bondingPole: bigint;
+  bondingSlope: bigint;
+  totalShares: bigint;
+  fixedReserve: bigint;
+  usedReserve: bigint;
+  /** Fixed reserve plus the part of the streaming reserve flown in by the snapshot block. */
+  reserve: bigint;
+  availableReserve: bigint;
+  streamingReserve: bigint;
+  streamingReserveTarget: bigint;
+  streamingReserveUpdated: number;
+  paymentTokens: { paymentToken: string; enabled: boolean }[];
+  /** Services in the order of the power token indexes. */
+  services: ServiceSnapshot[];
+}
+
+export interface AccountService {
+  powerToken: string;
+  balance: bigint;
+  availableBalance: bigint;
+  lockedBalance: bigint;
+  /** Energy at the snapshot block timestamp. */
+  energy: bigint;
+}
+
+export interface AccountRental {
+  rentalTokenId: bigint;
+  rentalAmount: bigint;
+  powerTokenIndex: number;
+  startTime: number;
+  endTime: number;
+  renterOnlyReturnTime: number;
+  enterpriseOnlyCollectionTime: number;
+  gcRewardAmount: bigint;
+  gcRewardTokenIndex: number;
+}
+
+export interface AccountStake {
+  stakeTokenId: bigint;
+  amount: bigint;
+  shares: bigint;
+  block: number;
+  reward: bigint;
+}
+
+export interface AccountView {
+  blockNumber: number;
+  timestamp: number;
+  account: string;
+  enterpriseTokenBalance: bigint;
+  /** Enterprise token allowance of the enterprise. */
+  enterpriseTokenAllowance: bigint;
+  /** Power token balances in the order of the power token indexes. */
+  services: AccountService[];
+  rentals: AccountRental[];
+  stakes: AccountStake[];
+}
+
+/**
+ * Reads the enterprise configuration, reserves and services with a single `EnterpriseLens` call,
+ * so that all the values are consistent with one block (the latest one by default).
+ */
+export async function loadEnterpriseSnapshot(
+  lens: EnterpriseLens,
+  enterprise: string,
+  blockTag?: BlockTag
+): Promise<EnterpriseSnapshot> {
+  const x = await lens.getEnterpriseSnapshot(enterprise, { blockTag });
+  return {
+    blockNumber: x.blockNumber.toNumber(),
+    timestamp: x.timestamp.toNumber(),
+    enterprise: x.enterprise,
+    owner: x.owner,
+    name: x.name,
+    baseUri: x.baseUri,
+    onChainTokenUri: x.onChainTokenUri,
+    enterpriseToken: x.enterpriseToken,
+    converter: x.converter,
+    rentalToken: x.rentalToken,
+    stakeToken: x.stakeToken,
+    enterpriseWallet: x.enterpriseWallet,
+    enterpriseCollector: x.enterpriseCollector,
+    streamingReserveHalvingPeriod: x.streamingReserveHalvingPeriod,
+    renterOnlyReturnPeriod: x.renterOnlyReturnPeriod,
+    enterpriseOnlyCollectionPeriod: x.enterpriseOnlyCollectionPeriod,
+    gcFeePercent: x.gcFeePercent,
+    bondingPole: x.bondingPole.toBigInt(),
+    bondingSlope: x.bondingSlope.toBigInt(),
+    totalShares: x.totalShares.toBigInt(),
+    fixedReserve: x.fixedReserve.toBigInt(),
+    usedReserve: x.usedReserve.toBigInt(),
+    reserve: x.reserve.toBigInt(),
+    availableReserve: x.availableReserve.toBigInt(),
+    streamingReserve: x.streamingReserve.toBigInt(),
+    streamingReserveTarget: x.streamingReserveTarget.toBigInt(),
+    streamingReserveUpdated: x.streamingReserveUpdated,
+    paymentTokens: x.paymentTokens.map(({ paymentToken, enabled }) => ({ paymentToken, enabled })),
+    services: x.services.map((service) => ({
+      powerToken: service.powerToken,
+      name: service.name,
+      symbol: service.symbol,
+      decimals: service.decimals,
+      totalSupply: service.totalSupply.toBigInt(),
+      baseToken: service.baseToken,
+      baseRate: service.baseRate.toBigInt(),
+      minGCFee: service.minGCFee.toBigInt(),
+      serviceFeePercent: service.serviceFeePercent,
+      energyGapHalvingPeriod: service.energyGapHalvingPeriod,
+      index: service.index,
+      minRentalPeriod: service.minRentalPeriod,
+      maxRentalPeriod: service.maxRentalPeriod,
+      swappingEnabled: service.swappingEnabled,
+      transferEnabled: service.transferEnabled,
+    })),
+  };
+}
+
+/**
+ * Reads the enterprise token and power token balances, rentals and stakes of the account
+ * with a single `EnterpriseLens` call.
+ */
+export async function loadAccountView(
+  lens: EnterpriseLens,
+  enterprise: string,
+  account: string,
+  blockTag?: BlockTag
+): Promise<AccountView> {
+  const x = await lens.getAccountView(enterprise, account, { blockTag });
+  return {
+    blockNumber: x.blockNumber.toNumber(),
+    timestamp: x.timestamp.toNumber(),
+    account: x.account,
+    enterpriseTokenBalance: x.enterpriseTokenBalance.toBigInt(),
+    enterpriseTokenAllowance: x.enterpriseTokenAllowance.toBigInt(),
+    services: x.services.map((service) => ({
+      powerToken: service.powerToken,
+      balance: service.balance.toBigInt(),
+      availableBalance: service.availableBalance.toBigInt(),
+      lockedBalance: service.lockedBalance.toBigInt(),
+      energy: service.energy.toBigInt(),
+    })),
+    rentals: x.rentals.map(({ rentalTokenId, agreement }) => ({
+      rentalTokenId: rentalTokenId.toBigInt(),
+      rentalAmount: agreement.rentalAmount.toBigInt(),
+      powerTokenIndex: agreement.powerTokenIndex,
+      startTime: agreement.startTime,
+      endTime: agreement.endTime,
+      renterOnlyReturnTime: agreement.renterOnlyReturnTime,
+      enterpriseOnlyCollectionTime: agreement.enterpriseOnlyCollectionTime,
+      gcRewardAmount: agreement.gcRewardAmount.toBigInt(),
+      gcRewardTokenIndex: agreement.gcRewardTokenIndex,
+    })),
+    stakes: x.stakes.map(({ stakeTokenId, stake, reward }) => ({
+      stakeTokenId: stakeTokenId.toBigInt(),
+      amount: stake.amount.toBigInt(),
+      shares: stake.shares.toBigInt(),
+      block: stake.block.toNumber(),
+      reward: reward.toBigInt(),
+    })),
+  };
+}
@@ -0,0 +1,380 @@
+import { JSON_SCHEMA, load, Schema, Type } from 'js-yaml';
+import { parseUnits } from 'ethers/lib/utils';
+import { Enterprise, IERC20Metadata__factory, PowerToken, PowerToken__factory } from '../typechain';
+
+/**
+ * Human readable service price: `price` base tokens for `tokens` power tokens rented for `period` seconds.
+ */
+export interface BaseRateManifest {
+  tokens: string | number;
+  period: number;
+  price: string | number;
+}
+
+export interface ServiceManifest {
+  name: string;
+  symbol: string;
+  energyGapHalvingPeriod: number;
+  /**
+   * Either an object or the `baseRate(tokens, period, price)` expression.
+   */
+  baseRate: BaseRateManifest | string;
+  baseToken: string;
+  /**
+   * Minimal GC fee nominated in base tokens.
+   */
+  minGCFee: string | number;
+  serviceFeePercent: number;
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+  swappingEnabled?: boolean;
+  transferEnabled?: boolean;
+}
+
+/**
+ * Declarative enterprise description. Optional parameters are left intact when omitted.
+ */
+export interface EnterpriseManifest {
+  name: string;
+  /**
+   * Name of the hardhat-deploy deployment the enterprise is saved under.
+   */
+  deploymentName?: string;
+  enterpriseToken: string;
+  baseUri: string;
+  converter: string;
+  gcFeePercent: number;
+  enterpriseWallet?: string;
+  enterpriseCollector?: string;
+  streamingReserveHalvingPeriod?: number;
+  renterOnlyReturnPeriod?: number;
+  enterpriseOnlyCollectionPeriod?: number;
+  /**
+   * Bonding curve parameters given as decimal fractions, e.g. `0.05`.
+   */
+  bondingCurve?: { pole: string | number; slope: string | number };
+  /**
+   * Enabled payment tokens in addition to the enterprise token. Other payment tokens get disabled.
+   */
+  paymentTokens?: string[];
+  services?: ServiceManifest[];
+}
+
+export interface ProvisioningStep {
+  description: string;
+  to: string;
+  data: string;
+}
+
+export interface ProvisioningPlan {
+  steps: ProvisioningStep[];
+  /**
+   * Differences which cannot be applied on-chain, e.g. changes of immutable parameters.
+   */
+  conflicts: string[];
+}
+
+const REQUIRED_ENTERPRISE_FIELDS = ['name', 'enterpriseToken', 'baseUri', 'converter', 'gcFeePercent'] as const;
+const REQUIRED_SERVICE_FIELDS = [
+  'name',
+  'symbol',
+  'energyGapHalvingPeriod',
+  'baseRate',
+  'baseToken',
+  'minGCFee',
+  'serviceFeePercent',
+  'minRentalPeriod',
+  'maxRentalPeriod',
+] as const;
+
+/**
+ * YAML schema resolving decimal integers only, so that unquoted addresses are kept as strings.
+ */
+const MANIFEST_SCHEMA = new Schema({
+  include: [JSON_SCHEMA],
+  implicit: [
+    new Type('tag:yaml.org,2002:int', {
+      kind: 'scalar',
+      resolve: (data: string) => /^-?[0-9]+$/.test(data),
+      construct: (data: string) => parseInt(data, 10),
+    }),
+  ],
+});
+
+/**
+ * Parses JSON or YAML enterprise manifest.
+ */
+export function parseManifest(text: string): EnterpriseManifest {
+  const manifest = load(text, { schema: MANIFEST_SCHEMA }) as EnterpriseManifest;
+  if (typeof manifest !== 'object' || manifest === null) throw new Error('Invalid manifest');
+
+  for (const field of REQUIRED_ENTERPRISE_FIELDS) {
+    if (manifest[field] === undefined) throw new Error(`Manifest: missing "${field}"`);
+  }
+  for (const service of manifest.services ?? []) {
+    for (const field of REQUIRED_SERVICE_FIELDS) {
+      if (service[field] === undefined) throw new Error(`Manifest: service "${service.name}" is missing "${field}"`);
+    }
+  }
+  if (new Set(manifest.services?.map((x) => x.name)).size !== (manifest.services?.length ?? 0)) {
+    throw new Error('Manifest: service names must be unique');
+  }
+  return manifest;
+}
+
+/**
+ * Converts decimal fraction into 64.64 fixed point number.
+ */
+export function toFixedPoint(value: string | number): bigint {
+  return (parseUnits(value.toString(), 18).toBigInt() << 64n) / 10n ** 18n;
+}
+
+/**
+ * Calculates 64.64 fixed point base rate: `price` base tokens per `tokens` power tokens per `period` seconds.
+ * Power token and base token decimals are accounted for by `PowerToken.estimateRentalFee`.
+ */
+export function parseBaseRate(baseRate: BaseRateManifest | string): bigint {
+  if (typeof baseRate === 'string') {
+    const match = baseRate.match(/^\s*baseRate\(([^,]+),([^,]+),([^,]+)\)\s*$/);
+    if (!match) throw new Error(`Invalid base rate: ${baseRate}`);
+    const [tokens, period, price] = match.slice(1).map((x) => x.trim().replace(/n$/, ''));
+    return parseBaseRate({ tokens, period: Number(period), price });
+  }
+
+  const tokens = parseUnits(baseRate.tokens.toString(), 18).toBigInt();
+  const price = parseUnits(baseRate.price.toString(), 18).toBigInt();
+  return (price << 64n) / (tokens * BigInt(baseRate.period));
+}
+
+/**
+ * Compares the manifest with the on-chain state of the enterprise and returns the transactions required
+ * to bring the enterprise in line with the manifest. Services registered by the plan are not configured
+ * any further, so planning should be repeated once the plan is executed.
+ */
+export async function planProvisioning(
+  enterprise: Enterprise,
+  manifest: EnterpriseManifest
+): Promise<ProvisioningPlan> {
+  const plan: ProvisioningPlan = { steps: [], conflicts: [] };
+  const call = (description: string, data: string) => plan.steps.push({ description, to: enterprise.address, data });
+  const iface = enterprise.interface;
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  const [info, enterpriseToken, converter, wallet, collector, [pole, slope]] = await Promise.all([
+    enterprise.getInfo(),
+    enterprise.getEnterpriseToken(),
+    enterprise.getConverter(),
+    enterprise.getEnterpriseWallet(),
+    enterprise.getEnterpriseCollector(),
+    enterprise.getBondingCurve(),
+  ]);
+
+  if (info.name !== manifest.name) {
+    plan.conflicts.push(`name: ${info.name} cannot be changed to ${manifest.name}`);
+  }
+  if (!same(enterpriseToken, manifest.enterpriseToken)) {
+    plan.conflicts.push(`enterpriseToken: ${enterpriseToken} cannot be changed to ${manifest.enterpriseToken}`);
+  }
+  if (info.baseUri !== manifest.baseUri) {
+    call(`setBaseUri(${manifest.baseUri})`, iface.encodeFunctionData('setBaseUri', [manifest.baseUri]));
+  }
+  if (!same(converter, manifest.converter)) {
+    call(`setConverter(${manifest.converter})`, iface.encodeFunctionData('setConverter', [manifest.converter]));
+  }
+  if (info.gcFeePercent !== manifest.gcFeePercent) {
+    call(
+      `setGcFeePercent(${manifest.gcFeePercent})`,
+      iface.encodeFunctionData('setGcFeePercent', [manifest.gcFeePercent])
+    );
+  }
+  if (manifest.enterpriseWallet && !same(wallet, manifest.enterpriseWallet)) {
+    call(
+      `setEnterpriseWallet(${manifest.enterpriseWallet})`,
+      iface.encodeFunctionData('setEnterpriseWallet', [manifest.enterpriseWallet])
+    );
+  }
+  if (manifest.enterpriseCollector && !same(collector, manifest.enterpriseCollector)) {
+    call(
+      `setEnterpriseCollector(${manifest.enterpriseCollector})`,
+      iface.encodeFunctionData('setEnterpriseCollector', [manifest.enterpriseCollector])
+    );
+  }
+  if (
+    manifest.streamingReserveHalvingPeriod !== undefined &&
+    info.streamingReserveHalvingPeriod !== manifest.streamingReserveHalvingPeriod
+  ) {
+    call(
+      `setStreamingReserveHalvingPeriod(${manifest.streamingReserveHalvingPeriod})`,
+      iface.encodeFunctionData('setStreamingReserveHalvingPeriod', [manifest.streamingReserveHalvingPeriod])
+    );
+  }
+  if (manifest.bondingCurve) {
+    const newPole = toFixedPoint(manifest.bondingCurve.pole);
+    const newSlope = toFixedPoint(manifest.bondingCurve.slope);
+    if (!pole.eq(newPole) || !slope.eq(newSlope)) {
+      call(
+        `setBondingCurve(${manifest.bondingCurve.pole}, ${manifest.bondingCurve.slope})`,
+        iface.encodeFunctionData('setBondingCurve', [newPole, newSlope])
+      );
+    }
+  }
+  planReturnPeriods(plan, enterprise, info, manifest);
+  await planPaymentTokens(plan, enterprise, manifest);
+
+  const powerTokens = (await enterprise.getPowerTokens()).map((address) =>
+    PowerToken__factory.connect(address, enterprise.provider)
+  );
+  const serviceNames = await Promise.all(powerTokens.map((powerToken) => powerToken.name()));
+  for (const service of manifest.services ?? []) {
+    const index = serviceNames.indexOf(service.name);
+    if (index < 0) {
+      await planServiceRegistration(plan, enterprise, service);
+    } else {
+      await planServiceUpdate(plan, powerTokens[index], service);
+    }
+  }
+
+  return plan;
+}
+
+function planReturnPeriods(
+  plan: ProvisioningPlan,
+  enterprise: Enterprise,
+  info: { renterOnlyReturnPeriod: number; enterpriseOnlyCollectionPeriod: number },
+  manifest: EnterpriseManifest
+): void {
+  const renterOnly = manifest.renterOnlyReturnPeriod ?? info.renterOnlyReturnPeriod;
+  const enterpriseOnly = manifest.enterpriseOnlyCollectionPeriod ?? info.enterpriseOnlyCollectionPeriod;
+  const steps: ProvisioningStep[] = [];
+
+  if (renterOnly !== info.renterOnlyReturnPeriod) {
+    steps.push({
+      description: `setRenterOnlyReturnPeriod(${renterOnly})`,
+      to: enterprise.address,
+      data: enterprise.interface.encodeFunctionData('setRenterOnlyReturnPeriod', [renterOnly]),
+    });
+  }
+  if (enterpriseOnly !== info.enterpriseOnlyCollectionPeriod) {
+    const step = {
+      description: `setEnterpriseOnlyCollectionPeriod(${enterpriseOnly})`,
+      to: enterprise.address,
+      data: enterprise.interface.encodeFunctionData('setEnterpriseOnlyCollectionPeriod', [enterpriseOnly]),
+    };
+    // Renter only return period must never exceed enterprise only collection period.
+    if (enterpriseOnly >= info.renterOnlyReturnPeriod) {
+      steps.unshift(step);
+    } else {
+      steps.push(step);
+    }
+  }
+  plan.steps.push(...steps);
+}
+
+async function planPaymentTokens(
+  plan: ProvisioningPlan,
+  enterprise: Enterprise,
+  manifest: EnterpriseManifest
+): Promise<void> {
+  if (!manifest.paymentTokens) return;
+
+  const enabled = new Set([manifest.enterpriseToken, ...manifest.paymentTokens].map((x) => x.toLowerCase()));
+  const states = new Map<string, boolean>([...enabled].map((token) => [token, false]));
+  for (const { paymentToken, enabled } of await enterprise.getPaymentTokens()) {
+    states.set(paymentToken.toLowerCase(), enabled);
+  }
+
+  for (const [token, isEnabled] of states) {
+    if (enabled.has(token) && !isEnabled) {
+      plan.steps.push({
+        description: `enablePaymentToken(${token})`,
+        to: enterprise.address,
+        data: enterprise.interface.encodeFunctionData('enablePaymentToken', [token]),
+      });
+    } else if (!enabled.has(token) && isEnabled) {
+      plan.steps.push({
+        description: `disablePaymentToken(${token})`,
+        to: enterprise.address,
+        data: enterprise.interface.encodeFunctionData('disablePaymentToken', [token]),
+      });
+    }
+  }
+}
+
+async function planServiceRegistration(
+  plan: ProvisioningPlan,
+  enterprise: Enterprise,
+  service: ServiceManifest
+): Promise<void> {
+  const baseToken = IERC20Metadata__factory.connect(service.baseToken, enterprise.provider);
+  const minGCFee = parseUnits(service.minGCFee.toString(), await baseToken.decimals());
+
+  plan.steps.push({
+    description: `registerService(${service.name})`,
+    to: enterprise.address,
+    data: enterprise.interface.encodeFunctionData('registerService', [
+      service.name,
+      service.symbol,
+      service.energyGapHalvingPeriod,
+      parseBaseRate(service.baseRate),
+      service.baseToken,
+      service.serviceFeePercent,
+      service.minRentalPeriod,
+      service.maxRentalPeriod,
+      minGCFee,
+      service.swappingEnabled ?? false,
+    ]),
+  });
+}
+
+async function planServiceUpdate(
+  plan: ProvisioningPlan,
+  powerToken: PowerToken,
+  service: ServiceManifest
+): Promise<void> {
+  const info = await powerToken.getInfo();
+  const iface = powerToken.interface;
+  const push = (description: string, data: string) =>
+    plan.steps.push({ description: `${service.name}: ${description}`, to: powerToken.address, data });
+
+  if (info.energyGapHalvingPeriod !== service.energyGapHalvingPeriod) {
+    plan.conflicts.push(`${service.name}: energyGapHalvingPeriod cannot be changed`);
+  }
+  if (info.swappingEnabled && service.swappingEnabled === false) {
+    plan.conflicts.push(`${service.name}: swapping cannot be disabled`);
+  }
+  if (info.transferEnabled && service.transferEnabled === false) {
+    plan.conflicts.push(`${service.name}: transfer cannot be disabled`);
+  }
+
+  const baseToken = IERC20Metadata__factory.connect(service.baseToken, powerToken.provider);
+  const baseRate = parseBaseRate(service.baseRate);
+  const minGCFee = parseUnits(service.minGCFee.toString(), await baseToken.decimals());
+  if (
+    !info.baseRate.eq(baseRate) ||
+    info.baseToken.toLowerCase() !== service.baseToken.toLowerCase() ||
+    !info.minGCFee.eq(minGCFee)
+  ) {
+    push(
+      `setBaseRate(${baseRate}, ${service.baseToken}, ${minGCFee})`,
+      iface.encodeFunctionData('setBaseRate', [baseRate, service.baseToken, minGCFee])
+    );
+  }
+  if (info.serviceFeePercent !== service.serviceFeePercent) {
+    push(
+      `setServiceFeePercent(${service.serviceFeePercent})`,
+      iface.encodeFunctionData('setServiceFeePercent', [service.serviceFeePercent])
+    );
+  }
+  if (info.minRentalPeriod !== service.minRentalPeriod || info.maxRentalPeriod !== service.maxRentalPeriod) {
+    push(
+      `setRentalPeriodLimits(${service.minRentalPeriod}, ${service.maxRentalPeriod})`,
+      iface.encodeFunctionData('setRentalPeriodLimits', [service.minRentalPeriod, service.maxRentalPeriod])
+    );
+  }
+  if (!info.swappingEnabled && service.swappingEnabled) {
+    push('enableSwappingForever()', iface.encodeFunctionData('enableSwappingForever'));
+  }
+  if (!info.transferEnabled && service.transferEnabled) {
+    push('enableTransferForever()', iface.encodeFunctionData('enableTransferForever'));
+  }
+}
@@ -0,0 +1,304 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { BigNumber, BigNumberish } from 'ethers';
+import { formatUnits } from 'ethers/lib/utils';
+import { Provider } from '@ethersproject/providers';
+import { Enterprise, Enterprise__factory, IERC20Metadata__factory } from '../typechain';
+import { decodeError } from './errors';
+import { getRentalStatus, RentalStatus } from './gc';
+
+export type TokenKind = 'rental' | 'stake';
+
+export interface NftAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'date' | 'boost_percentage';
+}
+
+/**
+ * ERC-721 metadata JSON, `image` is an SVG data URI.
+ */
+export interface NftMetadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes: NftAttribute[];
+}
+
+export interface MetadataOptions {
+  /**
+   * Seconds the metadata of a token is cached for. Enterprise and service details are cached until `clear`.
+   */
+  cacheTtl?: number;
+}
+
+interface TokenInfo {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface EnterpriseDetails {
+  name: string;
+  token: TokenInfo;
+  services: Promise<TokenInfo>[];
+}
+
+interface CacheEntry {
+  expires: number;
+  metadata: Promise<NftMetadata | undefined>;
+}
+
+export const DEFAULT_METADATA_CACHE_TTL = 60;
+
+const STATUS_NAMES: Record<RentalStatus, string> = {
+  [RentalStatus.Active]: 'Active',
+  [RentalStatus.RenterOnly]: 'Renter only return',
+  [RentalStatus.CollectorOnly]: 'Enterprise only collection',
+  [RentalStatus.Collectable]: 'Collectable',
+};
+
+/**
+ * Resolves rental and stake token ids of the enterprise into ERC-721 metadata read from the rental agreements
+ * and stakes. Metadata of the burned or never minted tokens resolves to `undefined`.
+ */
+export class MetadataResolver {
+  readonly enterprise: Enterprise;
+  readonly cacheTtl: number;
+  private details: Promise<EnterpriseDetails> | undefined;
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(readonly provider: Provider, enterprise: string, options: MetadataOptions = {}) {
+    this.enterprise = Enterprise__factory.connect(enterprise, provider);
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_METADATA_CACHE_TTL;
+  }
+
+  get address(): string {
+    return this.enterprise.address;
+  }
+
+  async getMetadata(kind: TokenKind, tokenId: BigNumberish): Promise<NftMetadata | undefined> {
+    const key = `${kind}/${BigNumber.from(tokenId).toString()}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.metadata;
+
+    const metadata = (kind === 'rental' ? this.loadRental(tokenId) : this.loadStake(tokenId)).catch((e) => {
+      // Failed requests are not cached.
+      this.cache.delete(key);
+      throw e;
+    });
+    this.cache.set(key, { expires: Date.now() + this.cacheTtl * 1000, metadata });
+    return metadata;
+  }
+
+  getRentalMetadata(rentalTokenId: BigNumberish): Promise<NftMetadata | undefined> {
+    return this.getMetadata('rental', rentalTokenId);
+  }
+
+  getStakeMetadata(stakeTokenId: BigNumberish): Promise<NftMetadata | undefined> {
+    return this.getMetadata('stake', stakeTokenId);
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.details = undefined;
+  }
+
+  private async loadRental(rentalTokenId: BigNumberish): Promise<NftMetadata | undefined> {
+    const agreement = await ifMinted(this.enterprise.getRentalAgreement(rentalTokenId));
+    if (!agreement) return undefined;
+    const details = await this.getDetails();
+    const [service, gcRewardToken, { timestamp }] = await Promise.all([
+      this.getService(details, agreement.powerTokenIndex),
+      this.getTokenInfo(await this.enterprise.getPaymentToken(agreement.gcRewardTokenIndex)),
+      this.provider.getBlock('latest'),
+    ]);
+    const amount = `${formatUnits(agreement.rentalAmount, service.decimals)} ${service.symbol}`;
+    const gcReward = `${formatUnits(agreement.gcRewardAmount, gcRewardToken.decimals)} ${gcRewardToken.symbol}`;
+    const status = STATUS_NAMES[getRentalStatus(agreement, timestamp)];
+    const name = `${amount} rental`;
+
+    return {
+      name,
+      description:
+        `Rental of ${amount} (${service.name}) from ${details.name}, ` +
+        `${formatTime(agreement.startTime)} - ${formatTime(agreement.endTime)}. ` +
+        `Only the renter can return it until ${formatTime(agreement.renterOnlyReturnTime)}, ` +
+        `the enterprise collects it until ${formatTime(agreement.enterpriseOnlyCollectionTime)}.`,
+      image: svgDataUri(
+        renderCard(details.name, name, [
+          ['Service', service.name],
+          ['Status', status],
+          ['Start', formatTime(agreement.startTime)],
+          ['End', formatTime(agreement.endTime)],
+          ['Renter only return', formatTime(agreement.renterOnlyReturnTime)],
+          ['Enterprise collection', formatTime(agreement.enterpriseOnlyCollectionTime)],
+          ['GC reward', gcReward],
+        ])
+      ),
+      attributes: [
+        { trait_type: 'Service', value: service.name },
+        { trait_type: 'Amount', value: Number(formatUnits(agreement.rentalAmount, service.decimals)) },
+        { trait_type: 'Status', value: status },
+        { trait_type: 'Start', value: agreement.startTime, display_type: 'date' },
+        { trait_type: 'End', value: agreement.endTime, display_type: 'date' },
+        { trait_type: 'Renter only return until', value: agreement.renterOnlyReturnTime, display_type: 'date' },
+        {
+          trait_type: 'Enterprise only collection until',
+          value: agreement.enterpriseOnlyCollectionTime,
+          display_type: 'date',
+        },
+        { trait_type: 'GC reward', value: gcReward },
+      ],
+    };
+  }
+
+  private async loadStake(stakeTokenId: BigNumberish): Promise<NftMetadata | undefined> {
+    const stake = await ifMinted(this.enterprise.getStake(stakeTokenId));
+    if (!stake) return undefined;
+    const [details, reward, info] = await Promise.all([
+      this.getDetails(),
+      this.enterprise.getStakingReward(stakeTokenId),
+      this.enterprise.getInfo(),
+    ]);
+    const { symbol, decimals } = details.token;
+    const amount = `${formatUnits(stake.amount, decimals)} ${symbol}`;
+    const rewardAmount = `${formatUnits(reward, decimals)} ${symbol}`;
+    const share = info.totalShares.isZero() ? 0 : stake.shares.mul(10_000).div(info.totalShares).toNumber() / 100;
+    const name = `${amount} stake`;
+
+    return {
+      name,
+      description: `Stake of ${amount} in ${details.name} with ${rewardAmount} staking reward.`,
+      image: svgDataUri(
+        renderCard(details.name, name, [
+          ['Reward', rewardAmount],
+          ['Pool share', `${share}%`],
+        ])
+      ),
+      attributes: [
+        { trait_type: 'Amount', value: Number(formatUnits(stake.amount, decimals)) },
+        { trait_type: 'Reward', value: Number(formatUnits(reward, decimals)) },
+        { trait_type: 'Pool share', value: share, display_type: 'boost_percentage' },
+      ],
+    };
+  }
+
+  private getDetails(): Promise<EnterpriseDetails> {
+    if (!this.details) {
+      this.details = (async () => {
+        const [{ name }, token] = await Promise.all([
+          this.enterprise.getInfo(),
+          this.enterprise.getEnterpriseToken().then((x) => this.getTokenInfo(x)),
+        ]);
+        return { name, token, services: [] };
+      })().catch((e) => {
+        this.details = undefined;
+        throw e;
+      });
+    }
+    return this.details;
+  }
+
+  private getService(details: EnterpriseDetails, index: number): Promise<TokenInfo> {
+    if (!details.services[index]) {
+      details.services[index] = this.enterprise.getPowerTokens().then((x) => this.getTokenInfo(x[index]));
+    }
+    return details.services[index];
+  }
+
+  private async getTokenInfo(address: string): Promise<TokenInfo> {
+    const token = IERC20Metadata__factory.connect(address, this.provider);
+    const [name, symbol, decimals] = await Promise.all([token.name(), token.symbol(), token.decimals()]);
+    return { name, symbol, decimals };
+  }
+}
+
+/**
+ * Creates the HTTP server answering `GET [/<enterprise>]/rental/<id>` and `GET [/<enterprise>]/stake/<id>` with
+ * the token metadata. The enterprise prefix can only be omitted when the server has a single resolver, so the
+ * enterprise base URI is either `https://<host>/` or `https://<host>/<enterprise>/`.
+ */
+export function createMetadataServer(resolvers: MetadataResolver[]): Server {
+  const byAddress = new Map(resolvers.map((x) => [x.address.toLowerCase(), x]));
+
+  return createServer((request, response) => {
+    handleMetadataRequest(request, response, byAddress).catch((e) => {
+      respond(response, 500, { error: (e as Error).message });
+    });
+  });
+}
+
+async function handleMetadataRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  resolvers: Map<string, MetadataResolver>
+): Promise<void> {
+  if (request.method !== 'GET') return respond(response, 405, { error: 'Method not allowed' });
+
+  const segments = new URL(request.url ?? '/', 'http://localhost').pathname.split('/').filter((x) => x);
+  if (segments.length === 2 && resolvers.size === 1) segments.unshift([...resolvers.keys()][0]);
+  const [enterprise, kind, id] = segments;
+  const resolver = resolvers.get(enterprise?.toLowerCase());
+  if (segments.length !== 3 || !resolver || (kind !== 'rental' && kind !== 'stake')) {
+    return respond(response, 404, { error: 'Not found' });
+  }
+  if (!/^\d+$/.test(id)) return respond(response, 400, { error: `Invalid token id: ${id}` });
+
+  const metadata = await resolver.getMetadata(kind, id);
+  if (!metadata) return respond(response, 404, { error: `Unknown ${kind} token: ${id}` });
+  respond(response, 200, metadata, resolver.cacheTtl);
+}
+
+function respond(response: ServerResponse, status: number, body: unknown, cacheTtl?: number): void {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...(cacheTtl === undefined ? {} : { 'Cache-Control': `public, max-age=${cacheTtl}` }),
+  });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Resolves to `undefined` when the call reverts because the token does not exist.
+ */
+async function ifMinted<T>(call: Promise<T>): Promise<T | undefined> {
+  try {
+    return await call;
+  } catch (e) {
+    if (decodeError(e)?.error === 'ERC721_OWNER_QUERY_FOR_NONEXISTENT_TOKEN') return undefined;
+    throw e;
+  }
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace('.000Z', 'Z');
+}
+
+function svgDataUri(svg: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+/**
+ * Renders the 350x350 card with the enterprise name, the token title and the labeled rows.
+ */
+function renderCard(header: string, title: string, rows: [string, string][]): string {
+  const lines = rows.map(
+    ([label, value], i) =>
+      `<text x="20" y="${130 + i * 30}" class="label">${escapeXml(label)}</text>` +
+      `<text x="330" y="${130 + i * 30}" class="value" text-anchor="end">${escapeXml(value)}</text>`
+  );
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="350" viewBox="0 0 350 350">',
+    '<style>text{font-family:monospace;fill:#fff}.header{font-size:14px;opacity:.7}.title{font-size:18px}' +
+      '.label{font-size:11px;opacity:.7}.value{font-size:11px}</style>',
+    '<rect width="350" height="350" rx="16" fill="#1b1f3b"/>',
+    `<text x="20" y="40" class="header">${escapeXml(header)}</text>`,
+    `<text x="20" y="80" class="title">${escapeXml(title)}</text>`,
+    ...lines,
+    '</svg>',
+  ].join('');
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (x) => `&#${x.charCodeAt(0)};`);
+}
@@ -0,0 +1,32 @@
+export interface Random {
+  next(): number;
+  int(min: number, max: number): number;
+  bigint(min: bigint, max: bigint): bigint;
+}
+
+/**
+ * Deterministic pseudo random generator (mulberry32), makes simulations and randomized tests reproducible from a seed.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number): number => min + Math.floor(next() * (max - min + 1)),
+    bigint: (min: bigint, max: bigint): bigint => {
+      const range = max - min + 1n;
+      let value = 0n;
+      for (let bits = 0n; 1n << bits < range; bits += 32n) {
+        value = (value << 32n) | BigInt(Math.floor(next() * 4294967296));
+      }
+      return min + (value % range);
+    },
+  };
+}
@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import { BigNumber } from 'ethers';
+import { DEFAULT_SLIPPAGE, findEvent, IQClient, withSlippage } from './client';
+import { decodeError } from './errors';
+import { parse, stringify } from './json';
+
+const ONE_DAY = 86400n;
+
+export interface RenewalPolicy {
+  paymentToken: string;
+  /**
+   * Total amount of payment tokens the renter is willing to spend on renewals.
+   */
+  budget: bigint;
+  /**
+   * Maximum extension fee of one power token (10^decimals units) per day nominated in payment tokens.
+   */
+  maxUnitPrice: bigint;
+  /**
+   * Extension period. It is shortened, so that the rental does not exceed the maximum rental period of the service.
+   */
+  rentalPeriod: number;
+  /**
+   * Rentals ending within `renewBefore` seconds are renewed.
+   */
+  renewBefore: number;
+  /**
+   * Allowed extension fee increase in basis points (100 is 1%) between the quote and the transaction.
+   */
+  slippage?: number;
+  /**
+   * Rentals to renew, all rentals of the renter when omitted.
+   */
+  rentalTokenIds?: string[];
+}
+
+/**
+ * `wait` - the rental is not due for renewal yet, `skip` - the renewal is not allowed by the policy,
+ * `renew` - the renewal is planned or done, `failed` - the extension transaction failed.
+ */
+export type RenewalAction = 'renew' | 'wait' | 'skip' | 'failed';
+
+export interface RenewalDecision {
+  rentalTokenId: string;
+  renter: string;
+  timestamp: number;
+  endTime: number;
+  action: RenewalAction;
+  reason: string;
+  rentalPeriod?: number;
+  /** Quoted extension fee, replaced with the paid fee once renewed. */
+  fee?: bigint;
+  /** Quoted extension fee of one power token per day. */
+  unitPrice?: bigint;
+  maxPayment?: bigint;
+  transactionHash?: string;
+}
+
+export interface RenewalState {
+  /** Payment tokens spent on renewals by renter. */
+  spent: Record<string, bigint>;
+  /** Executed and failed renewals in chronological order. */
+  renewals: RenewalDecision[];
+}
+
+export interface RenewalStore {
+  load(): Promise<RenewalState>;
+  save(state: RenewalState): Promise<void>;
+}
+
+export class MemoryRenewalStore implements RenewalStore {
+  private state: RenewalState = createState();
+
+  async load(): Promise<RenewalState> {
+    return parse(stringify(this.state));
+  }
+
+  async save(state: RenewalState): Promise<void> {
+    this.state = parse(stringify(state));
+  }
+}
+
+/**
+ * Persists the spent budgets and renewals as a JSON file, so that the budget survives restarts.
+ */
+export class FileRenewalStore implements RenewalStore {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<RenewalState> {
+    try {
+      return parse(await fs.readFile(this.path, 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return createState();
+      throw e;
+    }
+  }
+
+  async save(state: RenewalState): Promise<void> {
+    await fs.writeFile(this.path, stringify(state));
+  }
+}
+
+export interface RenewalKeeperOptions {
+  store?: RenewalStore;
+  /**
+   * Called with every decision made by `run`.
+   */
+  log?: (decision: RenewalDecision) => void;
+}
+
+interface ServiceLimits {
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+  unit: bigint;
+}
+
+/**
+ * Extends the rentals of the renter the client is connected with before they end, as long as the extension
+ * fits the policy budget and unit price. Budgets are tracked per renter, so one store can be shared by the keepers
+ * of several renters run one after another.
+ */
+export class RenewalKeeper {
+  private readonly store: RenewalStore;
+  private readonly log: (decision: RenewalDecision) => void;
+
+  constructor(readonly client: IQClient, readonly policy: RenewalPolicy, options: RenewalKeeperOptions = {}) {
+    this.store = options.store ?? new MemoryRenewalStore();
+    this.log = options.log ?? (() => undefined);
+  }
+
+  /**
+   * Returns the amount of payment tokens spent on renewals by the renter.
+   */
+  async getSpent(): Promise<bigint> {
+    const { spent } = await this.store.load();
+    return spent[await this.getRenter()] ?? 0n;
+  }
+
+  /**
+   * Decides on every rental of the renter at the `timestamp` (the latest block timestamp by default)
+   * without sending transactions. The most urgent rentals are served from the remaining budget first.
+   */
+  async plan(timestamp?: number): Promise<RenewalDecision[]> {
+    const renter = await this.getRenter();
+    const now = timestamp ?? (await this.client.enterprise.provider.getBlock('latest')).timestamp;
+    let available = this.policy.budget - (await this.getSpent());
+
+    const rentals = await this.getRentals(renter);
+    const services = new Map<number, Promise<ServiceLimits>>();
+    const decisions: RenewalDecision[] = [];
+    for (const { rentalTokenId, rentalAmount, endTime, powerTokenIndex } of rentals) {
+      const base = { rentalTokenId: rentalTokenId.toString(), renter, timestamp: now, endTime };
+      if (endTime - now > this.policy.renewBefore) {
+        decisions.push({ ...base, action: 'wait', reason: 'not due' });
+        continue;
+      }
+
+      const limits = services.get(powerTokenIndex) ?? this.getServiceLimits(powerTokenIndex);
+      services.set(powerTokenIndex, limits);
+      const { minRentalPeriod, maxRentalPeriod, unit } = await limits;
+      const rentalPeriod = Math.min(this.policy.rentalPeriod, maxRentalPeriod - Math.max(0, endTime - now));
+      if (rentalPeriod < minRentalPeriod) {
+        decisions.push({ ...base, action: 'skip', reason: 'rental period out of range', rentalPeriod });
+        continue;
+      }
+
+      let fee: bigint;
+      try {
+        fee = (
+          await this.client.estimateRentalExtensionFee(rentalTokenId, this.policy.paymentToken, rentalPeriod)
+        ).toBigInt();
+      } catch (e) {
+        decisions.push({ ...base, action: 'skip', reason: describeError(e), rentalPeriod });
+        continue;
+      }
+
+      const unitPrice = (fee * unit * ONE_DAY) / (rentalAmount.toBigInt() * BigInt(rentalPeriod));
+      const maxPayment = withSlippage(fee, this.policy.slippage ?? DEFAULT_SLIPPAGE).toBigInt();
+      const quote = { ...base, rentalPeriod, fee, unitPrice, maxPayment };
+      if (unitPrice > this.policy.maxUnitPrice) {
+        decisions.push({ ...quote, action: 'skip', reason: 'unit price above limit' });
+      } else if (maxPayment > available) {
+        decisions.push({ ...quote, action: 'skip', reason: 'budget exceeded' });
+      } else {
+        available -= maxPayment;
+        decisions.push({ ...quote, action: 'renew', reason: 'due' });
+      }
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Plans and executes the renewals one by one. The state is saved after every renewal, failed extensions
+   * are recorded and do not stop the run.
+   */
+  async run(): Promise<RenewalDecision[]> {
+    const decisions = await this.plan();
+    const results: RenewalDecision[] = [];
+    for (const decision of decisions) {
+      const result = decision.action === 'renew' ? await this.renew(decision) : decision;
+      this.log(result);
+      results.push(result);
+    }
+    return results;
+  }
+
+  private async renew(decision: RenewalDecision): Promise<RenewalDecision> {
+    let result: RenewalDecision;
+    try {
+      const receipt = await this.client.extendRentalPeriod({
+        rentalTokenId: decision.rentalTokenId,
+        paymentToken: this.policy.paymentToken,
+        rentalPeriod: decision.rentalPeriod as number,
+        maxPayment: decision.maxPayment as bigint,
+      });
+      const { args } = findEvent(receipt, this.client.enterprise, 'RentalPeriodExtended');
+      const fee = (args.poolFee as BigNumber).add(args.serviceFee).toBigInt();
+      result = { ...decision, fee, endTime: args.endTime, transactionHash: receipt.transactionHash };
+    } catch (e) {
+      result = { ...decision, action: 'failed', reason: describeError(e) };
+    }
+
+    const state = await this.store.load();
+    if (result.action === 'renew') {
+      state.spent[result.renter] = (state.spent[result.renter] ?? 0n) + (result.fee as bigint);
+    }
+    state.renewals.push(result);
+    await this.store.save(state);
+    return result;
+  }
+
+  private async getRenter(): Promise<string> {
+    const signer = this.client.enterprise.signer;
+    if (!signer) throw new Error('Signer is required');
+    return (await signer.getAddress()).toLowerCase();
+  }
+
+  private async getRentals(renter: string) {
+    const rentalToken = await this.client.getRentalToken();
+    const count = (await rentalToken.balanceOf(renter)).toNumber();
+    const rentalTokenIds: BigNumber[] = [];
+    for (let i = 0; i < count; i++) {
+      rentalTokenIds.push(await rentalToken.tokenOfOwnerByIndex(renter, i));
+    }
+
+    const selected = this.policy.rentalTokenIds?.map((id) => BigNumber.from(id));
+    const rentals = await Promise.all(
+      rentalTokenIds
+        .filter((id) => !selected || selected.some((x) => x.eq(id)))
+        .map(async (rentalTokenId) => ({
+          rentalTokenId,
+          ...(await this.client.enterprise.getRentalAgreement(rentalTokenId)),
+        }))
+    );
+    return rentals.sort((a, b) => a.endTime - b.endTime);
+  }
+
+  private async getServiceLimits(powerTokenIndex: number): Promise<ServiceLimits> {
+    const powerTokens = await this.client.enterprise.getPowerTokens();
+    const powerToken = this.client.getPowerToken(powerTokens[powerTokenIndex]);
+    const [minRentalPeriod, maxRentalPeriod, decimals] = await Promise.all([
+      powerToken.getMinRentalPeriod(),
+      powerToken.getMaxRentalPeriod(),
+      powerToken.decimals(),
+    ]);
+    return { minRentalPeriod, maxRentalPeriod, unit: 10n ** BigInt(decimals) };
+  }
+}
+
+function describeError(error: unknown): string {
+  return decodeError(error)?.error ?? (error as Error).message;
+}
+
+function createState(): RenewalState {
+  return { spent: {}, renewals: [] };
+}
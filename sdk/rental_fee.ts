@@ -0,0 +1,173 @@
+import { Enterprise, IERC20Metadata__factory, PowerToken } from '../typechain';
+
+/**
+ * Exact off-chain implementation of the PowerToken rental fee calculation.
+ *
+ * All the arithmetic follows `PowerToken.estimateRentalBaseFee` and `PowerToken.estimateRentalFee`
+ * step by step, including 64.64 fixed point rounding, Solidity checked arithmetic and integer casts,
+ * so the results are identical to the on-chain ones.
+ */
+
+export const ONE = 1n << 64n;
+export const MAX_UINT112 = (1n << 112n) - 1n;
+const MAX_UINT128 = (1n << 128n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+export interface RentalFeeParams {
+  reserve: bigint;
+  usedReserve: bigint;
+  pole: bigint;
+  slope: bigint;
+  baseRate: bigint;
+  minGCFee: bigint;
+  serviceFeePercent: number;
+  gcFeePercent: number;
+  enterpriseTokenDecimals: number;
+  baseTokenDecimals: number;
+}
+
+export interface RentalFee {
+  poolFee: bigint;
+  serviceFee: bigint;
+  gcFee: bigint;
+}
+
+/**
+ * Converts `amount` of base tokens into payment tokens, the way `IConverter.estimateConvert` does.
+ */
+export type FeeConverter = (amount: bigint) => bigint;
+
+const identity: FeeConverter = (amount) => amount;
+
+const add = (a: bigint, b: bigint): bigint => {
+  const result = a + b;
+  if (result > MAX_UINT256) throw new RangeError('Arithmetic overflow');
+  return result;
+};
+
+const sub = (a: bigint, b: bigint): bigint => {
+  if (b > a) throw new RangeError('Arithmetic underflow');
+  return a - b;
+};
+
+const mul = (a: bigint, b: bigint): bigint => {
+  const result = a * b;
+  if (result > MAX_UINT256) throw new RangeError('Arithmetic overflow');
+  return result;
+};
+
+const uint112 = (x: bigint): bigint => x & MAX_UINT112;
+const uint128 = (x: bigint): bigint => x & MAX_UINT128;
+
+/**
+ * f(x) = ((1 - t) * k) / (x - t) + (1 - k)
+ */
+export function f(x: bigint, pole: bigint, slope: bigint): bigint {
+  if (x <= pole) return MAX_UINT128;
+  return add(mul(sub(ONE, pole), slope) / sub(x, pole), sub(ONE, slope));
+}
+
+/**
+ * h(x) = x * f((T - x) / T)
+ */
+export function h(x: bigint, pole: bigint, slope: bigint, reserve: bigint): bigint {
+  // Shifts are unchecked in Solidity.
+  const shifted = (sub(reserve, x) << 64n) & MAX_UINT256;
+  return mul(x, f(uint128(shifted / reserve), pole, slope)) >> 64n;
+}
+
+/**
+ * g(x) = h(U + x) - h(U)
+ */
+export function g(x: bigint, pole: bigint, slope: bigint, reserve: bigint, usedReserve: bigint): bigint {
+  return sub(h(add(usedReserve, x), pole, slope, reserve), h(usedReserve, pole, slope, reserve));
+}
+
+/**
+ * Calculates the rental base fee nominated in service base tokens.
+ * Returns `MAX_UINT112` when there is not enough available reserve for the rental.
+ */
+export function estimateRentalBaseFee(params: RentalFeeParams, rentalAmount: bigint, rentalPeriod: number): bigint {
+  const { reserve, usedReserve, pole, slope, baseRate } = params;
+  const availableReserve = sub(reserve, usedReserve);
+  if (availableReserve <= rentalAmount) return MAX_UINT112;
+
+  const decimalsDiff = params.enterpriseTokenDecimals - params.baseTokenDecimals;
+
+  let baseFee = mul(g(rentalAmount, pole, slope, reserve, usedReserve), BigInt(rentalPeriod));
+
+  if (decimalsDiff > 0) {
+    baseFee = (mul(baseFee, baseRate) / 10n ** BigInt(decimalsDiff)) >> 64n;
+  } else if (decimalsDiff < 0) {
+    baseFee = mul(mul(baseFee, baseRate), 10n ** BigInt(-decimalsDiff)) >> 64n;
+  } else {
+    baseFee = mul(baseFee, baseRate) >> 64n;
+  }
+  return uint112(baseFee);
+}
+
+/**
+ * Calculates rental fee components nominated in payment tokens.
+ * `convert` must reproduce the enterprise converter for base token -> payment token pair,
+ * by default base token and payment token are considered to be the same.
+ */
+export function estimateRentalFee(
+  params: RentalFeeParams,
+  rentalAmount: bigint,
+  rentalPeriod: number,
+  convert: FeeConverter = identity
+): RentalFee {
+  const rentalBaseFee = convert(estimateRentalBaseFee(params, rentalAmount, rentalPeriod));
+
+  const serviceFee = uint112(mul(rentalBaseFee, BigInt(params.serviceFeePercent)) / 10_000n);
+  const poolFee = uint112(sub(rentalBaseFee, serviceFee));
+  const gcFee = estimateGCFee(params, rentalBaseFee, convert);
+
+  return { poolFee, serviceFee, gcFee };
+}
+
+function estimateGCFee(params: RentalFeeParams, amount: bigint, convert: FeeConverter): bigint {
+  const gcFeeAmount = uint112(mul(amount, BigInt(params.gcFeePercent)) / 10_000n);
+  const minGcFee = uint112(convert(params.minGCFee));
+  return gcFeeAmount < minGcFee ? minGcFee : gcFeeAmount;
+}
+
+/**
+ * Sums up rental fee components the same way `Enterprise.estimateRentalFee` does.
+ */
+export function totalRentalFee({ poolFee, serviceFee, gcFee }: RentalFee): bigint {
+  return poolFee + serviceFee + gcFee;
+}
+
+/**
+ * Reads all the parameters required for the rental fee calculation.
+ * Reserves are read at the latest block and must be reloaded once they change.
+ */
+export async function loadRentalFeeParams(enterprise: Enterprise, powerToken: PowerToken): Promise<RentalFeeParams> {
+  const [reserve, usedReserve, [pole, slope], info, { gcFeePercent }, enterpriseToken] = await Promise.all([
+    enterprise.getReserve(),
+    enterprise.getUsedReserve(),
+    enterprise.getBondingCurve(),
+    powerToken.getInfo(),
+    enterprise.getInfo(),
+    enterprise.getEnterpriseToken(),
+  ]);
+  const provider = enterprise.signer ?? enterprise.provider;
+  const [enterpriseTokenDecimals, baseTokenDecimals] = await Promise.all([
+    IERC20Metadata__factory.connect(enterpriseToken, provider).decimals(),
+    IERC20Metadata__factory.connect(info.baseToken, provider).decimals(),
+  ]);
+
+  return {
+    reserve: reserve.toBigInt(),
+    usedReserve: usedReserve.toBigInt(),
+    pole: pole.toBigInt(),
+    slope: slope.toBigInt(),
+    baseRate: info.baseRate.toBigInt(),
+    minGCFee: info.minGCFee.toBigInt(),
+    serviceFeePercent: info.serviceFeePercent,
+    gcFeePercent,
+    enterpriseTokenDecimals,
+    baseTokenDecimals,
+  };
+}
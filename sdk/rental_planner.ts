@@ -0,0 +1,213 @@
+import { BigNumberish, BigNumber } from 'ethers';
+import { Enterprise, IConverter__factory, PowerToken, PowerToken__factory } from '../typechain';
+import { decodeError } from './errors';
+import { RentalFee } from './rental_fee';
+
+export interface CapacityRequest {
+  /**
+   * Power token amount, the power tokens of all the enterprises are assumed to have the same decimals.
+   */
+  amount: BigNumberish;
+  /**
+   * Rental duration in seconds.
+   */
+  duration: number;
+}
+
+export interface RentalPlannerOptions {
+  /**
+   * Token the plan totals are converted into for the comparison. Defaults to the token of the first enterprise.
+   */
+  quoteToken?: string;
+  /**
+   * Power tokens to consider, all the registered services by default.
+   */
+  powerTokens?: string[];
+  /**
+   * Payment tokens to consider, all the enabled payment tokens by default.
+   */
+  paymentTokens?: string[];
+  /**
+   * Maximum number of rental periods (the rental and its extensions) the duration is split into. Defaults to 3.
+   */
+  maxSegments?: number;
+}
+
+export interface RentalPlanStep extends RentalFee {
+  action: 'rent' | 'extend';
+  rentalPeriod: number;
+}
+
+export interface RentalCandidate extends RentalFee {
+  enterprise: string;
+  powerToken: string;
+  paymentToken: string;
+  rentalAmount: bigint;
+  /** Covered period, longer than requested when the duration is below the minimum rental period. */
+  rentalPeriod: number;
+  steps: RentalPlanStep[];
+  /** Total fee nominated in payment tokens. */
+  total: bigint;
+  /** Total fee converted into the quote token. */
+  quotedTotal: bigint;
+}
+
+export interface RentalPlan {
+  quoteToken: string;
+  /** The cheapest candidate. */
+  best?: RentalCandidate;
+  /** Candidates in the order of increasing quoted total. */
+  candidates: RentalCandidate[];
+  /** Services and payment tokens which cannot serve the request. */
+  skipped: { enterprise: string; powerToken: string; paymentToken?: string; reason: string }[];
+}
+
+export const DEFAULT_MAX_SEGMENTS = 3;
+
+/**
+ * Splits the `duration` into `segments` rental periods allowed by `PowerToken.isAllowedRentalPeriod`.
+ * The first period is as short as possible, since the GC fee is only charged for the rental and not
+ * for the extensions. Durations below the minimum rental period are rounded up to it.
+ */
+export function splitRentalPeriod(
+  duration: number,
+  segments: number,
+  minRentalPeriod: number,
+  maxRentalPeriod: number
+): number[] | undefined {
+  if (duration <= minRentalPeriod) return segments === 1 ? [minRentalPeriod] : undefined;
+  if (duration < segments * minRentalPeriod || duration > segments * maxRentalPeriod) return undefined;
+
+  const first = Math.max(minRentalPeriod, duration - (segments - 1) * maxRentalPeriod);
+  const rest = duration - first;
+  const periods = [first];
+  for (let i = 1; i < segments; i++) {
+    // Remainder is spread over the last extensions.
+    periods.push(Math.floor(rest / (segments - 1)) + (segments - i <= rest % (segments - 1) ? 1 : 0));
+  }
+  return periods;
+}
+
+/**
+ * Finds the cheapest way to rent `request.amount` power tokens for `request.duration` across the services
+ * of the enterprises, their payment tokens and the splits of the duration into a rental and its extensions.
+ * Extension fees are estimated at the current reserves, the way `Enterprise.extendRentalPeriod` simulates
+ * the rental return, so the plan assumes the reserves do not change until the rental is extended.
+ */
+export async function planRental(
+  enterprises: Enterprise[],
+  request: CapacityRequest,
+  options: RentalPlannerOptions = {}
+): Promise<RentalPlan> {
+  if (enterprises.length === 0) throw new Error('Enterprise is required');
+  const rentalAmount = BigNumber.from(request.amount).toBigInt();
+  const maxSegments = options.maxSegments ?? DEFAULT_MAX_SEGMENTS;
+  const quoteToken = options.quoteToken ?? (await enterprises[0].getEnterpriseToken());
+  const selected = (list: string[] | undefined, address: string) =>
+    !list || list.some((x) => x.toLowerCase() === address.toLowerCase());
+
+  const plan: RentalPlan = { quoteToken, candidates: [], skipped: [] };
+  for (const enterprise of enterprises) {
+    const provider = enterprise.signer ?? enterprise.provider;
+    const [powerTokens, paymentTokens, availableReserve, converterAddress] = await Promise.all([
+      enterprise.getPowerTokens(),
+      enterprise.getPaymentTokens(),
+      enterprise.getAvailableReserve(),
+      enterprise.getConverter(),
+    ]);
+    const converter = IConverter__factory.connect(converterAddress, provider);
+
+    for (const powerTokenAddress of powerTokens.filter((x) => selected(options.powerTokens, x))) {
+      const skip = (reason: string, paymentToken?: string) =>
+        plan.skipped.push({ enterprise: enterprise.address, powerToken: powerTokenAddress, paymentToken, reason });
+      // `PowerToken.estimateRentalBaseFee` requires the available reserve to exceed the rental amount.
+      if (availableReserve.lte(rentalAmount)) {
+        skip('insufficient available reserve');
+        continue;
+      }
+
+      const powerToken = PowerToken__factory.connect(powerTokenAddress, provider);
+      const [minRentalPeriod, maxRentalPeriod] = await Promise.all([
+        powerToken.getMinRentalPeriod(),
+        powerToken.getMaxRentalPeriod(),
+      ]);
+      const splits = [];
+      for (let segments = 1; segments <= maxSegments; segments++) {
+        const periods = splitRentalPeriod(request.duration, segments, minRentalPeriod, maxRentalPeriod);
+        if (periods) splits.push(periods);
+      }
+      if (splits.length === 0) {
+        skip('rental period out of range');
+        continue;
+      }
+
+      for (const { paymentToken, enabled } of paymentTokens) {
+        if (!enabled || !selected(options.paymentTokens, paymentToken)) continue;
+
+        try {
+          // Rental fee is estimated by the enterprise too, which also checks the enterprise is not shut down.
+          await enterprise.estimateRentalFee(powerTokenAddress, paymentToken, rentalAmount, splits[0][0]);
+          for (const candidate of await estimateSplits(powerToken, paymentToken, rentalAmount, splits)) {
+            const quotedTotal =
+              paymentToken.toLowerCase() === quoteToken.toLowerCase()
+                ? candidate.total
+                : (await converter.estimateConvert(paymentToken, candidate.total, quoteToken)).toBigInt();
+            plan.candidates.push({ enterprise: enterprise.address, ...candidate, quotedTotal });
+          }
+        } catch (e) {
+          skip(decodeError(e)?.error ?? (e as Error).message, paymentToken);
+        }
+      }
+    }
+  }
+
+  plan.candidates.sort((a, b) =>
+    a.quotedTotal === b.quotedTotal ? a.steps.length - b.steps.length : a.quotedTotal < b.quotedTotal ? -1 : 1
+  );
+  plan.best = plan.candidates[0];
+  return plan;
+}
+
+async function estimateSplits(
+  powerToken: PowerToken,
+  paymentToken: string,
+  rentalAmount: bigint,
+  splits: number[][]
+): Promise<Omit<RentalCandidate, 'enterprise' | 'quotedTotal'>[]> {
+  const fees = new Map<number, RentalFee>();
+  const estimate = async (period: number) => {
+    if (!fees.has(period)) {
+      const [poolFee, serviceFee, gcFee] = await powerToken.estimateRentalFee(paymentToken, rentalAmount, period);
+      fees.set(period, { poolFee: poolFee.toBigInt(), serviceFee: serviceFee.toBigInt(), gcFee: gcFee.toBigInt() });
+    }
+    return fees.get(period) as RentalFee;
+  };
+
+  const candidates = [];
+  for (const periods of splits) {
+    const steps: RentalPlanStep[] = [];
+    for (const [i, rentalPeriod] of periods.entries()) {
+      const fee = await estimate(rentalPeriod);
+      // GC fee is not charged for the extensions.
+      steps.push(
+        i === 0 ? { action: 'rent', rentalPeriod, ...fee } : { action: 'extend', rentalPeriod, ...fee, gcFee: 0n }
+      );
+    }
+
+    const poolFee = steps.reduce((sum, x) => sum + x.poolFee, 0n);
+    const serviceFee = steps.reduce((sum, x) => sum + x.serviceFee, 0n);
+    const gcFee = steps[0].gcFee;
+    candidates.push({
+      powerToken: powerToken.address,
+      paymentToken,
+      rentalAmount,
+      rentalPeriod: periods.reduce((sum, x) => sum + x, 0),
+      steps,
+      poolFee,
+      serviceFee,
+      gcFee,
+      total: poolFee + serviceFee + gcFee,
+    });
+  }
+  return candidates;
+}
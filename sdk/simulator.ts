@@ -0,0 +1,678 @@
+import { load } from 'js-yaml';
+import { parseUnits } from 'ethers/lib/utils';
+import { decodeRevertReason, Errors, ProtocolError } from './errors';
+import { halfLife } from './exp_math';
+import { BaseRateManifest, parseBaseRate, toFixedPoint } from './manifest';
+import { createRandom } from './random';
+import { estimateRentalFee, MAX_UINT112, RentalFee, RentalFeeParams, totalRentalFee } from './rental_fee';
+
+/**
+ * Off-chain model of the enterprise economy. `EnterpriseModel` follows `Enterprise` and `EnterpriseStorage`
+ * arithmetic exactly (enterprise token is the only payment and base token), so simulated actions can be replayed
+ * on-chain with the same results, see `enterprise:simulate --calibrate`.
+ */
+
+const ONE_DAY = 86400;
+const ONE_YEAR = 365 * ONE_DAY;
+const TOKEN_DECIMALS = 18;
+
+export interface ModelService {
+  baseRate: bigint;
+  minGCFee: bigint;
+  serviceFeePercent: number;
+  energyGapHalvingPeriod: number;
+  minRentalPeriod: number;
+  maxRentalPeriod: number;
+}
+
+export interface ModelEnterpriseParams {
+  bondingPole: bigint;
+  bondingSlope: bigint;
+  streamingReserveHalvingPeriod: number;
+  gcFeePercent: number;
+}
+
+export interface ModelStake {
+  amount: bigint;
+  shares: bigint;
+}
+
+export interface ModelRental {
+  service: number;
+  rentalAmount: bigint;
+  startTime: number;
+  endTime: number;
+}
+
+export interface ModelState {
+  totalShares: bigint;
+  fixedReserve: bigint;
+  usedReserve: bigint;
+  streamingReserve: bigint;
+  streamingReserveTarget: bigint;
+  streamingReserveUpdated: number;
+}
+
+const fail = (code: Errors): ProtocolError => decodeRevertReason(code) as ProtocolError;
+
+export class EnterpriseModel {
+  readonly state: ModelState = {
+    totalShares: 0n,
+    fixedReserve: 0n,
+    usedReserve: 0n,
+    streamingReserve: 0n,
+    streamingReserveTarget: 0n,
+    streamingReserveUpdated: 0,
+  };
+  readonly stakes = new Map<number, ModelStake>();
+  readonly rentals = new Map<number, ModelRental>();
+  private nextStakeId = 1;
+  private nextRentalId = 1;
+
+  constructor(readonly params: ModelEnterpriseParams, readonly services: ModelService[]) {}
+
+  getStreamingReserve(timestamp: number): bigint {
+    const { streamingReserve, streamingReserveTarget, streamingReserveUpdated } = this.state;
+    return (
+      streamingReserveTarget -
+      halfLife(
+        streamingReserveUpdated,
+        streamingReserveTarget - streamingReserve,
+        this.params.streamingReserveHalvingPeriod,
+        timestamp
+      )
+    );
+  }
+
+  getReserve(timestamp: number): bigint {
+    return this.state.fixedReserve + this.getStreamingReserve(timestamp);
+  }
+
+  getAvailableReserve(timestamp: number): bigint {
+    return this.getReserve(timestamp) - this.state.usedReserve;
+  }
+
+  getStakeLiquidity(stakeId: number, timestamp: number): bigint {
+    const stake = this.stakes.get(stakeId);
+    if (!stake) throw new Error(`Unknown stake ${stakeId}`);
+    return (this.getReserve(timestamp) * stake.shares) / this.state.totalShares;
+  }
+
+  estimateRentalFee(service: number, rentalAmount: bigint, rentalPeriod: number, timestamp: number): RentalFee {
+    const params = this.services[service];
+    if (rentalPeriod < params.minRentalPeriod || rentalPeriod > params.maxRentalPeriod) {
+      throw fail(Errors.E_RENTAL_PERIOD_OUT_OF_RANGE);
+    }
+    return estimateRentalFee(this.feeParams(service, timestamp), rentalAmount, rentalPeriod);
+  }
+
+  /**
+   * Estimates the extension fee the way `Enterprise.extendRentalPeriod` does, the rental is considered returned.
+   */
+  estimateExtensionFee(rentalId: number, rentalPeriod: number, timestamp: number): RentalFee {
+    const rental = this.getRental(rentalId);
+    this.state.usedReserve -= rental.rentalAmount;
+    try {
+      return this.estimateRentalFee(rental.service, rental.rentalAmount, rentalPeriod, timestamp);
+    } finally {
+      this.state.usedReserve += rental.rentalAmount;
+    }
+  }
+
+  stake(amount: bigint, timestamp: number): { stakeId: number; shares: bigint } {
+    const reserve = this.getReserve(timestamp);
+    const shares = this.state.totalShares === 0n ? amount : (this.state.totalShares * amount) / reserve;
+    this.state.totalShares += shares;
+    this.state.fixedReserve += amount;
+
+    const stakeId = this.nextStakeId++;
+    this.stakes.set(stakeId, { amount, shares });
+    return { stakeId, shares };
+  }
+
+  unstake(stakeId: number, timestamp: number): bigint {
+    const stake = this.stakes.get(stakeId);
+    if (!stake) throw new Error(`Unknown stake ${stakeId}`);
+    const reserve = this.getReserve(timestamp);
+    const amount = (reserve * stake.shares) / this.state.totalShares;
+    if (amount > reserve - this.state.usedReserve) throw fail(Errors.E_INSUFFICIENT_LIQUIDITY);
+
+    this.state.totalShares -= stake.shares;
+    if (this.state.fixedReserve >= amount) {
+      this.state.fixedReserve -= amount;
+    } else {
+      this.state.fixedReserve = this.state.fixedReserve + this.flushStreamingReserve(timestamp) - amount;
+    }
+    this.stakes.delete(stakeId);
+    return amount;
+  }
+
+  rent(
+    service: number,
+    rentalAmount: bigint,
+    rentalPeriod: number,
+    maxPayment: bigint,
+    timestamp: number
+  ): { rentalId: number; fee: RentalFee } {
+    if (rentalAmount <= 0n) throw fail(Errors.E_INVALID_RENTAL_AMOUNT);
+    if (rentalAmount > this.getAvailableReserve(timestamp)) throw fail(Errors.E_INSUFFICIENT_LIQUIDITY);
+    const fee = this.estimateRentalFee(service, rentalAmount, rentalPeriod, timestamp);
+    if (totalRentalFee(fee) > maxPayment) throw Object.assign(fail(Errors.E_RENTAL_PAYMENT_SLIPPAGE), { fee });
+
+    this.increaseStreamingReserveTarget(fee.poolFee, timestamp);
+    this.state.usedReserve += rentalAmount;
+
+    const rentalId = this.nextRentalId++;
+    this.rentals.set(rentalId, { service, rentalAmount, startTime: timestamp, endTime: timestamp + rentalPeriod });
+    return { rentalId, fee };
+  }
+
+  extendRentalPeriod(rentalId: number, rentalPeriod: number, maxPayment: bigint, timestamp: number): RentalFee {
+    const rental = this.getRental(rentalId);
+    if (rental.endTime + rentalPeriod < timestamp) throw fail(Errors.E_INVALID_RENTAL_PERIOD);
+    const fee = this.estimateExtensionFee(rentalId, rentalPeriod, timestamp);
+    if (fee.poolFee + fee.serviceFee > maxPayment) {
+      throw Object.assign(fail(Errors.E_RENTAL_PAYMENT_SLIPPAGE), { fee });
+    }
+
+    this.increaseStreamingReserveTarget(fee.poolFee, timestamp);
+    rental.endTime += rentalPeriod;
+    return fee;
+  }
+
+  returnRental(rentalId: number): void {
+    this.state.usedReserve -= this.getRental(rentalId).rentalAmount;
+    this.rentals.delete(rentalId);
+  }
+
+  private getRental(rentalId: number): ModelRental {
+    const rental = this.rentals.get(rentalId);
+    if (!rental) throw fail(Errors.E_INVALID_RENTAL_TOKEN_ID);
+    return rental;
+  }
+
+  private feeParams(service: number, timestamp: number): RentalFeeParams {
+    const { baseRate, minGCFee, serviceFeePercent } = this.services[service];
+    return {
+      reserve: this.getReserve(timestamp),
+      usedReserve: this.state.usedReserve,
+      pole: this.params.bondingPole,
+      slope: this.params.bondingSlope,
+      baseRate,
+      minGCFee,
+      serviceFeePercent,
+      gcFeePercent: this.params.gcFeePercent,
+      enterpriseTokenDecimals: TOKEN_DECIMALS,
+      baseTokenDecimals: TOKEN_DECIMALS,
+    };
+  }
+
+  private increaseStreamingReserveTarget(delta: bigint, timestamp: number): void {
+    this.state.streamingReserve = this.getStreamingReserve(timestamp);
+    this.state.streamingReserveTarget += delta;
+    this.state.streamingReserveUpdated = timestamp;
+  }
+
+  private flushStreamingReserve(timestamp: number): bigint {
+    const streamingReserve = this.getStreamingReserve(timestamp);
+    this.state.streamingReserve = 0n;
+    this.state.streamingReserveTarget -= streamingReserve;
+    this.state.streamingReserveUpdated = timestamp;
+    return streamingReserve;
+  }
+}
+
+export type Range<T> = [T, T];
+
+/**
+ * Stakers arriving uniformly within `arrival` (seconds since the simulation start) and unstaking after
+ * `holdingPeriod`. Unstaking is retried every step while there is not enough available reserve.
+ */
+export interface StakerPopulation {
+  count: number;
+  amount: Range<bigint>;
+  arrival: Range<number>;
+  holdingPeriod: Range<number>;
+}
+
+/**
+ * Renters quoting the fee at the step start and renting within `slippage` basis points of the quote.
+ * Rentals are returned by the renters at the end time unless extended with `extendProbability`.
+ */
+export interface RenterPopulation {
+  count: number;
+  service: number;
+  rentalsPerDay: number;
+  amount: Range<bigint>;
+  period: Range<number>;
+  extendProbability: number;
+  slippage: number;
+}
+
+export interface SimulationScenario {
+  seed: number;
+  /**
+   * Simulation start timestamp, must be aligned with the chain time for calibration.
+   */
+  startTime: number;
+  duration: number;
+  /**
+   * Agents make decisions once per step, the actions of the step are executed one second apart in random order.
+   */
+  step: number;
+  enterprise: ModelEnterpriseParams;
+  services: ModelService[];
+  stakers: StakerPopulation[];
+  renters: RenterPopulation[];
+}
+
+export type SimulationActionType = 'stake' | 'unstake' | 'rent' | 'extend' | 'return';
+
+export interface SimulationAction {
+  type: SimulationActionType;
+  timestamp: number;
+  agent: number;
+  service?: number;
+  stakeId?: number;
+  rentalId?: number;
+  amount?: bigint;
+  period?: number;
+  maxPayment?: bigint;
+  quote?: bigint;
+  /**
+   * Rental fee, also known for the rentals rejected because of the slippage.
+   */
+  fee?: RentalFee;
+  /**
+   * Unstaked amount including the reward.
+   */
+  payout?: bigint;
+  error?: keyof typeof Errors;
+}
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  min: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  max: number;
+}
+
+export interface SimulationReport {
+  actions: Record<SimulationActionType, number>;
+  errors: Partial<Record<keyof typeof Errors, number>>;
+  /**
+   * Rentals the renters gave up on at the quote, e.g. because of insufficient liquidity.
+   */
+  unservedRentals: number;
+  /**
+   * Used reserve share sampled at every step.
+   */
+  utilization: Distribution;
+  /**
+   * Annualized staker yield in percent, open stakes are valued at the end of the simulation.
+   */
+  stakerApy: Distribution;
+  /**
+   * Pool and service fees per rented token per day.
+   */
+  renterCost: Distribution;
+  /**
+   * Difference between the paid fee and the quote in basis points, rejected rentals included.
+   */
+  slippage: Distribution;
+  /**
+   * Share of the rented amount accumulated as power token energy by the rental end.
+   */
+  energyEfficiency: Distribution;
+  finalState: ModelState & { reserve: bigint; timestamp: number };
+}
+
+export interface SimulationResult {
+  scenario: SimulationScenario;
+  agents: number;
+  actions: SimulationAction[];
+  report: SimulationReport;
+}
+
+interface StakerAgent {
+  arrival: number;
+  amount: bigint;
+  holdingPeriod: number;
+  stakeId?: number;
+  stakedAt?: number;
+  done: boolean;
+}
+
+interface RenterAgent {
+  population: RenterPopulation;
+  rentalId?: number;
+  startTime?: number;
+}
+
+interface PendingAction {
+  action: SimulationAction;
+  apply: (action: SimulationAction) => void;
+}
+
+/**
+ * Runs the scenario. Results are fully determined by the scenario including the seed.
+ */
+export function simulate(scenario: SimulationScenario): SimulationResult {
+  const random = createRandom(scenario.seed);
+  const model = new EnterpriseModel(scenario.enterprise, scenario.services);
+  const actions: SimulationAction[] = [];
+  const samples = { utilization: [] as number[], apy: [] as number[], cost: [] as number[] };
+  const slippage: number[] = [];
+  const energy: number[] = [];
+  let unservedRentals = 0;
+
+  const stakers: StakerAgent[] = scenario.stakers.flatMap((population) =>
+    Array.from({ length: population.count }, () => ({
+      arrival: scenario.startTime + random.int(...population.arrival),
+      amount: random.bigint(...population.amount),
+      holdingPeriod: random.int(...population.holdingPeriod),
+      done: false,
+    }))
+  );
+  const renters: RenterAgent[] = scenario.renters.flatMap((population) =>
+    Array.from({ length: population.count }, () => ({ population }))
+  );
+
+  const recordApy = (staker: StakerAgent, value: bigint, timestamp: number) => {
+    const held = timestamp - (staker.stakedAt as number);
+    if (held <= 0) return;
+    const growth = Number((value * 1_000_000_000n) / staker.amount) / 1e9;
+    samples.apy.push((Math.pow(growth, ONE_YEAR / held) - 1) * 100);
+  };
+  const recordCost = (fee: RentalFee, amount: bigint, period: number) => {
+    const tokenDays = (Number(amount) / 10 ** TOKEN_DECIMALS) * (period / ONE_DAY);
+    samples.cost.push(Number(fee.poolFee + fee.serviceFee) / 10 ** TOKEN_DECIMALS / tokenDays);
+  };
+  const recordSlippage = (action: SimulationAction) => {
+    if (!action.fee || !action.quote) return;
+    const paid = action.type === 'rent' ? totalRentalFee(action.fee) : action.fee.poolFee + action.fee.serviceFee;
+    slippage.push(Number(((paid - action.quote) * 1_000_000n) / action.quote) / 100);
+  };
+
+  const end = scenario.startTime + scenario.duration;
+  for (let timestamp = scenario.startTime; timestamp < end; timestamp += scenario.step) {
+    const reserve = model.getReserve(timestamp);
+    if (reserve > 0n) samples.utilization.push(Number((model.state.usedReserve * 1_000_000n) / reserve) / 1e6);
+
+    const pending: PendingAction[] = [];
+    stakers.forEach((staker, agent) => {
+      if (staker.done || staker.arrival > timestamp) return;
+      if (staker.stakeId === undefined) {
+        pending.push({
+          action: { type: 'stake', timestamp, agent, amount: staker.amount },
+          apply: (action) => {
+            staker.stakeId = model.stake(staker.amount, action.timestamp).stakeId;
+            staker.stakedAt = action.timestamp;
+            action.stakeId = staker.stakeId;
+          },
+        });
+      } else if ((staker.stakedAt as number) + staker.holdingPeriod <= timestamp) {
+        pending.push({
+          action: { type: 'unstake', timestamp, agent, stakeId: staker.stakeId },
+          apply: (action) => {
+            action.payout = model.unstake(staker.stakeId as number, action.timestamp);
+            recordApy(staker, action.payout, action.timestamp);
+            staker.done = true;
+          },
+        });
+      }
+    });
+
+    renters.forEach((renter, index) => {
+      const agent = stakers.length + index;
+      const { population } = renter;
+      const period = () => random.int(...population.period);
+      const maxPayment = (quote: bigint) => (quote * BigInt(10_000 + population.slippage)) / 10_000n;
+
+      if (renter.rentalId !== undefined) {
+        const rentalId = renter.rentalId;
+        const rental = model.rentals.get(rentalId) as ModelRental;
+        if (rental.endTime > timestamp) return;
+
+        if (random.next() < population.extendProbability) {
+          const rentalPeriod = period();
+          const quote = quoteFee(() => model.estimateExtensionFee(rentalId, rentalPeriod, timestamp), false);
+          if (quote !== undefined) {
+            pending.push({
+              action: { type: 'extend', timestamp, agent, rentalId, period: rentalPeriod, quote },
+              apply: (action) => {
+                action.maxPayment = maxPayment(quote);
+                action.fee = model.extendRentalPeriod(rentalId, rentalPeriod, action.maxPayment, action.timestamp);
+                recordCost(action.fee, rental.rentalAmount, rentalPeriod);
+              },
+            });
+            return;
+          }
+          unservedRentals++;
+        }
+        pending.push({
+          action: { type: 'return', timestamp, agent, rentalId },
+          apply: (action) => {
+            const ratio = halfLife(
+              rental.startTime,
+              10n ** 18n,
+              scenario.services[rental.service].energyGapHalvingPeriod,
+              action.timestamp
+            );
+            energy.push(1 - Number(ratio) / 1e18);
+            model.returnRental(rentalId);
+            renter.rentalId = undefined;
+          },
+        });
+        return;
+      }
+
+      if (random.next() >= (population.rentalsPerDay * scenario.step) / ONE_DAY) return;
+      const amount = random.bigint(...population.amount);
+      const rentalPeriod = period();
+      const quote = quoteFee(() => model.estimateRentalFee(population.service, amount, rentalPeriod, timestamp), true);
+      if (quote === undefined) {
+        unservedRentals++;
+        return;
+      }
+      pending.push({
+        action: { type: 'rent', timestamp, agent, service: population.service, amount, period: rentalPeriod, quote },
+        apply: (action) => {
+          action.maxPayment = maxPayment(quote);
+          const { rentalId, fee } = model.rent(
+            population.service,
+            amount,
+            rentalPeriod,
+            action.maxPayment,
+            action.timestamp
+          );
+          action.rentalId = rentalId;
+          action.fee = fee;
+          renter.rentalId = rentalId;
+          recordCost(fee, amount, rentalPeriod);
+        },
+      });
+    });
+
+    // Shuffled actions of the step compete for the reserve the quotes were made against.
+    for (let i = pending.length - 1; i > 0; i--) {
+      const j = random.int(0, i);
+      [pending[i], pending[j]] = [pending[j], pending[i]];
+    }
+    for (const { action, apply } of pending) {
+      action.timestamp = Math.max(timestamp, (actions[actions.length - 1]?.timestamp ?? 0) + 1);
+      try {
+        apply(action);
+      } catch (e) {
+        if (!(e instanceof ProtocolError)) throw e;
+        action.error = e.error;
+        action.fee = (e as ProtocolError & { fee?: RentalFee }).fee;
+      }
+      recordSlippage(action);
+      actions.push(action);
+    }
+  }
+
+  const finalTime = Math.max(end, (actions[actions.length - 1]?.timestamp ?? 0) + 1);
+  for (const staker of stakers) {
+    if (staker.stakeId !== undefined && !staker.done) {
+      recordApy(staker, model.getStakeLiquidity(staker.stakeId, finalTime), finalTime);
+    }
+  }
+
+  const count = (type: SimulationActionType) => actions.filter((x) => x.type === type && !x.error).length;
+  const errors: SimulationReport['errors'] = {};
+  for (const { error } of actions) {
+    if (error) errors[error] = (errors[error] ?? 0) + 1;
+  }
+
+  return {
+    scenario,
+    agents: stakers.length + renters.length,
+    actions,
+    report: {
+      actions: {
+        stake: count('stake'),
+        unstake: count('unstake'),
+        rent: count('rent'),
+        extend: count('extend'),
+        return: count('return'),
+      },
+      errors,
+      unservedRentals,
+      utilization: distribution(samples.utilization),
+      stakerApy: distribution(samples.apy),
+      renterCost: distribution(samples.cost),
+      slippage: distribution(slippage),
+      energyEfficiency: distribution(energy),
+      finalState: { ...model.state, reserve: model.getReserve(finalTime), timestamp: finalTime },
+    },
+  };
+}
+
+/**
+ * Quotes the fee the renter is going to pay, `undefined` when the rental is impossible at the moment.
+ */
+function quoteFee(estimate: () => RentalFee, withGcFee: boolean): bigint | undefined {
+  try {
+    const fee = estimate();
+    if (fee.poolFee + fee.serviceFee >= MAX_UINT112) return undefined;
+    return withGcFee ? totalRentalFee(fee) : fee.poolFee + fee.serviceFee;
+  } catch (e) {
+    if (e instanceof ProtocolError || e instanceof RangeError) return undefined;
+    throw e;
+  }
+}
+
+export function distribution(values: number[]): Distribution {
+  if (values.length === 0) return { count: 0, mean: 0, min: 0, p10: 0, p50: 0, p90: 0, max: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, x) => sum + x, 0) / sorted.length,
+    min: sorted[0],
+    p10: percentile(0.1),
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+type TokenAmount = string | number;
+
+export interface StakerPopulationManifest {
+  count: number;
+  amount: [TokenAmount, TokenAmount];
+  arrival?: Range<number>;
+  holdingPeriod: Range<number>;
+}
+
+export interface RenterPopulationManifest {
+  count: number;
+  service?: number;
+  rentalsPerDay: number;
+  amount: [TokenAmount, TokenAmount];
+  period: Range<number>;
+  extendProbability?: number;
+  slippage?: number;
+}
+
+export interface ServiceScenarioManifest extends Omit<ModelService, 'baseRate' | 'minGCFee'> {
+  baseRate: BaseRateManifest | string;
+  minGCFee: TokenAmount;
+}
+
+/**
+ * Human readable simulation scenario, token amounts are given in whole tokens, bonding curve parameters
+ * as decimal fractions and base rates in the enterprise manifest format.
+ */
+export interface SimulationScenarioManifest {
+  seed?: number;
+  startTime?: number;
+  duration: number;
+  step: number;
+  enterprise?: {
+    bondingCurve?: { pole: TokenAmount; slope: TokenAmount };
+    streamingReserveHalvingPeriod?: number;
+    gcFeePercent?: number;
+  };
+  services: ServiceScenarioManifest[];
+  stakers?: StakerPopulationManifest[];
+  renters?: RenterPopulationManifest[];
+}
+
+/**
+ * Parses JSON or YAML simulation scenario, `startTime` is used unless the scenario sets it.
+ */
+export function parseSimulationScenario(text: string, startTime = 0): SimulationScenario {
+  const raw = load(text) as SimulationScenarioManifest;
+  if (typeof raw !== 'object' || raw === null) throw new Error('Invalid scenario');
+  for (const field of ['duration', 'step', 'services'] as const) {
+    if (raw[field] === undefined) throw new Error(`Scenario: missing "${field}"`);
+  }
+
+  const tokens = (value: TokenAmount) => parseUnits(value.toString(), TOKEN_DECIMALS).toBigInt();
+  const range = (value: [TokenAmount, TokenAmount]): Range<bigint> => [tokens(value[0]), tokens(value[1])];
+  const enterprise = raw.enterprise ?? {};
+
+  return {
+    seed: raw.seed ?? 0,
+    startTime: raw.startTime ?? startTime,
+    duration: raw.duration,
+    step: raw.step,
+    enterprise: {
+      bondingPole: toFixedPoint(enterprise.bondingCurve?.pole ?? '0.05'),
+      bondingSlope: toFixedPoint(enterprise.bondingCurve?.slope ?? '0.3'),
+      streamingReserveHalvingPeriod: enterprise.streamingReserveHalvingPeriod ?? 7 * ONE_DAY,
+      gcFeePercent: enterprise.gcFeePercent ?? 0,
+    },
+    services: raw.services.map((service) => ({
+      baseRate: parseBaseRate(service.baseRate),
+      minGCFee: tokens(service.minGCFee),
+      serviceFeePercent: service.serviceFeePercent,
+      energyGapHalvingPeriod: service.energyGapHalvingPeriod,
+      minRentalPeriod: service.minRentalPeriod,
+      maxRentalPeriod: service.maxRentalPeriod,
+    })),
+    stakers: (raw.stakers ?? []).map((x) => ({
+      count: x.count,
+      amount: range(x.amount),
+      arrival: x.arrival ?? [0, 0],
+      holdingPeriod: x.holdingPeriod,
+    })),
+    renters: (raw.renters ?? []).map((x) => ({
+      count: x.count,
+      service: x.service ?? 0,
+      rentalsPerDay: x.rentalsPerDay,
+      amount: range(x.amount),
+      period: x.period,
+      extendProbability: x.extendProbability ?? 0,
+      slippage: x.slippage ?? 100,
+    })),
+  };
+}
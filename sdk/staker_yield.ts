@@ -0,0 +1,383 @@
+import { Enterprise, StakeToken__factory } from '../typechain';
+import { halfLife } from './exp_math';
+import { StakeOperation } from './indexer';
+
+const ONE_YEAR = 365 * 86400;
+const PRICE_PRECISION = 10n ** 18n;
+
+/**
+ * Decoded `StakeChanged` event with the block timestamp.
+ */
+export interface StakeChange {
+  stakeTokenId: string;
+  staker: string;
+  operation: StakeOperation;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  amountDelta: bigint;
+  amount: bigint;
+  sharesDelta: bigint;
+  shares: bigint;
+  totalShares: bigint;
+  totalReserve: bigint;
+}
+
+/**
+ * Enterprise token amount backing a single share right after the stake change.
+ */
+export interface SharePricePoint {
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  totalShares: bigint;
+  totalReserve: bigint;
+  sharePrice: number;
+}
+
+/**
+ * Open stake as stored in `IEnterpriseStorage.Stake`, `timestamp` is the time of the last stake or increase block.
+ */
+export interface OpenStake {
+  stakeTokenId: string;
+  staker: string;
+  amount: bigint;
+  shares: bigint;
+  block: number;
+  timestamp: number;
+}
+
+export interface StakingState {
+  blockNumber: number;
+  timestamp: number;
+  totalShares: bigint;
+  fixedReserve: bigint;
+  streamingReserve: bigint;
+  streamingReserveTarget: bigint;
+  streamingReserveUpdated: number;
+  streamingReserveHalvingPeriod: number;
+  stakes: OpenStake[];
+}
+
+export interface StakeYield {
+  stakeTokenId: string;
+  staker: string;
+  open: boolean;
+  startTime: number;
+  /** Unstake time of the closed stake, report time of the open one. */
+  endTime: number;
+  /** Staked and increased amounts. */
+  deposited: bigint;
+  /** Claimed rewards, decreased and unstaked amounts. */
+  withdrawn: bigint;
+  /** Staked amount without the reward. */
+  amount: bigint;
+  shares: bigint;
+  /** Amount received on unstake at the report time. */
+  value: bigint;
+  claimedReward: bigint;
+  /** Reward claimable at the report time, equals `Enterprise.getStakingReward`. */
+  pendingReward: bigint;
+  reward: bigint;
+  /** Reward to deposits ratio, %. */
+  realizedReturn: number;
+  /** Reward per time weighted capital (modified Dietz method) annualized without compounding, %. */
+  apr: number;
+  /** Stake part of the streaming reserve which is not vested yet. */
+  unvestedReward: bigint;
+  /** Stake part of the streaming reserve vested within the projection horizon. */
+  projectedReward: bigint;
+}
+
+export interface EnterpriseYield {
+  blockNumber: number;
+  timestamp: number;
+  /** Projection horizon, seconds. */
+  horizon: number;
+  reserve: bigint;
+  totalShares: bigint;
+  sharePrice: number;
+  /** Share price history in the chronological order. */
+  history: SharePricePoint[];
+  /** Share price growth since the first history point, %. */
+  realizedReturn: number;
+  /** Share price growth annualized without compounding, %. */
+  apr: number;
+  unvestedReserve: bigint;
+  /** Streaming reserve vested within the projection horizon. */
+  projectedReward: bigint;
+  /**
+   * Projected share price growth annualized without compounding, %. Only the fees already paid are taken into
+   * account, future rentals are not.
+   */
+  projectedApr: number;
+  stakes: StakeYield[];
+}
+
+export interface StakerYieldOptions {
+  /**
+   * First block to load `StakeChanged` events from, usually the enterprise deployment block. Stakes opened before
+   * this block are accounted starting from their first loaded change, or the last stake or increase block.
+   */
+  fromBlock?: number;
+  /**
+   * Report block. Defaults to the latest block.
+   */
+  toBlock?: number;
+  /**
+   * Projection horizon, seconds. Defaults to 30 days.
+   */
+  horizon?: number;
+}
+
+/**
+ * Loads stake history and the current staking state of the enterprise and calculates staker yields.
+ */
+export async function loadStakerYield(
+  enterprise: Enterprise,
+  options: StakerYieldOptions = {}
+): Promise<EnterpriseYield> {
+  const toBlock = options.toBlock ?? (await enterprise.provider.getBlockNumber());
+  const [changes, state] = await Promise.all([
+    loadStakeChanges(enterprise, options.fromBlock ?? 0, toBlock),
+    loadStakingState(enterprise, toBlock),
+  ]);
+  return analyzeStakerYield(changes, state, options.horizon ?? 30 * 86400);
+}
+
+export async function loadStakeChanges(
+  enterprise: Enterprise,
+  fromBlock: number,
+  toBlock: number
+): Promise<StakeChange[]> {
+  const events = await enterprise.queryFilter(enterprise.filters.StakeChanged(), fromBlock, toBlock);
+  const timestamps = new Map<number, number>();
+  for (const { blockNumber } of events) {
+    if (!timestamps.has(blockNumber)) {
+      timestamps.set(blockNumber, (await enterprise.provider.getBlock(blockNumber)).timestamp);
+    }
+  }
+
+  return events.map(({ args, blockNumber, transactionHash }) => ({
+    stakeTokenId: args.stakeTokenId.toString(),
+    staker: args.staker.toLowerCase(),
+    operation: args.operation,
+    blockNumber,
+    timestamp: timestamps.get(blockNumber) as number,
+    transactionHash,
+    amountDelta: args.amountDelta.toBigInt(),
+    amount: args.amount.toBigInt(),
+    sharesDelta: args.sharesDelta.toBigInt(),
+    shares: args.shares.toBigInt(),
+    totalShares: args.totalShares.toBigInt(),
+    totalReserve: args.totalReserve.toBigInt(),
+  }));
+}
+
+/**
+ * Loads reserves, shares and open stakes at the end of the block.
+ */
+export async function loadStakingState(enterprise: Enterprise, blockNumber: number): Promise<StakingState> {
+  const overrides = { blockTag: blockNumber };
+  const [info, stakeTokenAddress, block] = await Promise.all([
+    enterprise.getInfo(overrides),
+    enterprise.getStakeToken(overrides),
+    enterprise.provider.getBlock(blockNumber),
+  ]);
+  const stakeToken = StakeToken__factory.connect(stakeTokenAddress, enterprise.provider);
+
+  const stakes: OpenStake[] = [];
+  const totalSupply = (await stakeToken.totalSupply(overrides)).toNumber();
+  for (let i = 0; i < totalSupply; i++) {
+    const stakeTokenId = await stakeToken.tokenByIndex(i, overrides);
+    const [stake, staker] = await Promise.all([
+      enterprise.getStake(stakeTokenId, overrides),
+      stakeToken.ownerOf(stakeTokenId, overrides),
+    ]);
+    stakes.push({
+      stakeTokenId: stakeTokenId.toString(),
+      staker: staker.toLowerCase(),
+      amount: stake.amount.toBigInt(),
+      shares: stake.shares.toBigInt(),
+      block: stake.block.toNumber(),
+      timestamp: (await enterprise.provider.getBlock(stake.block.toNumber())).timestamp,
+    });
+  }
+
+  return {
+    blockNumber,
+    timestamp: block.timestamp,
+    totalShares: info.totalShares.toBigInt(),
+    fixedReserve: info.fixedReserve.toBigInt(),
+    streamingReserve: info.streamingReserve.toBigInt(),
+    streamingReserveTarget: info.streamingReserveTarget.toBigInt(),
+    streamingReserveUpdated: info.streamingReserveUpdated,
+    streamingReserveHalvingPeriod: info.streamingReserveHalvingPeriod,
+    stakes,
+  };
+}
+
+/**
+ * Calculates the streaming reserve (`EnterpriseStorage._getStreamingReserve`) at the given timestamp.
+ */
+export function getStreamingReserve(state: StakingState, timestamp: number): bigint {
+  return (
+    state.streamingReserveTarget -
+    halfLife(
+      state.streamingReserveUpdated,
+      state.streamingReserveTarget - state.streamingReserve,
+      state.streamingReserveHalvingPeriod,
+      timestamp
+    )
+  );
+}
+
+export function getSharePrice(totalReserve: bigint, totalShares: bigint): number {
+  return totalShares === 0n ? 1 : Number((totalReserve * PRICE_PRECISION) / totalShares) / Number(PRICE_PRECISION);
+}
+
+/**
+ * Calculates share price history and yields of every stake mentioned in the `changes` or open in the `state`.
+ * The future yield is projected from the vesting of the streaming reserve within the `horizon`.
+ */
+export function analyzeStakerYield(changes: StakeChange[], state: StakingState, horizon: number): EnterpriseYield {
+  const { timestamp, totalShares } = state;
+  const reserve = state.fixedReserve + getStreamingReserve(state, timestamp);
+  const unvestedReserve = state.streamingReserveTarget - getStreamingReserve(state, timestamp);
+  const projectedReward = getStreamingReserve(state, timestamp + horizon) - getStreamingReserve(state, timestamp);
+  const sharePrice = getSharePrice(reserve, totalShares);
+  const partOf = (total: bigint, shares: bigint) => (totalShares === 0n ? 0n : (total * shares) / totalShares);
+
+  const history: SharePricePoint[] = changes
+    .filter((x) => x.totalShares > 0n)
+    .map(({ blockNumber, timestamp, transactionHash, totalShares, totalReserve }) => ({
+      blockNumber,
+      timestamp,
+      transactionHash,
+      totalShares,
+      totalReserve,
+      sharePrice: getSharePrice(totalReserve, totalShares),
+    }));
+
+  const stakes = new Map<string, StakeYield & { capital: bigint }>();
+  const openStake = (id: string, staker: string, startTime: number) => {
+    let stake = stakes.get(id);
+    if (!stake) {
+      stake = {
+        stakeTokenId: id,
+        staker,
+        open: true,
+        startTime,
+        endTime: timestamp,
+        deposited: 0n,
+        withdrawn: 0n,
+        amount: 0n,
+        shares: 0n,
+        value: 0n,
+        claimedReward: 0n,
+        pendingReward: 0n,
+        reward: 0n,
+        realizedReturn: 0,
+        apr: 0,
+        unvestedReward: 0n,
+        projectedReward: 0n,
+        capital: 0n,
+      };
+      stakes.set(id, stake);
+    }
+    return stake;
+  };
+  // Time weighted capital in token-seconds, every cash flow is weighted by the time left until the end.
+  const addCashFlow = (stake: StakeYield & { capital: bigint }, amount: bigint, time: number) => {
+    stake.capital += amount * BigInt(timestamp - time);
+  };
+
+  // Open stakes without the history are accounted starting from their last stake or increase.
+  for (const { stakeTokenId, staker, amount, timestamp: time } of state.stakes) {
+    if (changes.some((x) => x.stakeTokenId === stakeTokenId)) continue;
+    const stake = openStake(stakeTokenId, staker, time);
+    stake.deposited = amount;
+    addCashFlow(stake, amount, time);
+  }
+
+  for (const change of changes) {
+    if (!stakes.has(change.stakeTokenId) && change.operation !== StakeOperation.Stake) {
+      // Stake opened before the first loaded block is accounted starting from its first known change.
+      const stake = openStake(change.stakeTokenId, change.staker, change.timestamp);
+      stake.deposited = amountBefore(change);
+      addCashFlow(stake, stake.deposited, change.timestamp);
+    }
+    const stake = openStake(change.stakeTokenId, change.staker, change.timestamp);
+    if (change.operation === StakeOperation.Stake || change.operation === StakeOperation.Increase) {
+      stake.deposited += change.amountDelta;
+      addCashFlow(stake, change.amountDelta, change.timestamp);
+    } else {
+      stake.withdrawn += change.amountDelta;
+      addCashFlow(stake, -change.amountDelta, change.timestamp);
+    }
+    stake.amount = change.amount;
+    stake.shares = change.shares;
+    if (change.operation === StakeOperation.Unstake) {
+      stake.open = false;
+      stake.endTime = change.timestamp;
+      // Closed stake capital is weighted by the holding period only.
+      stake.capital -= (stake.deposited - stake.withdrawn) * BigInt(timestamp - change.timestamp);
+    }
+  }
+
+  for (const { stakeTokenId, staker, amount, shares } of state.stakes) {
+    const stake = openStake(stakeTokenId, staker, timestamp);
+    stake.staker = staker;
+    stake.amount = amount;
+    stake.shares = shares;
+    stake.value = partOf(reserve, shares);
+    stake.pendingReward = stake.value > amount ? stake.value - amount : 0n;
+    stake.unvestedReward = partOf(unvestedReserve, shares);
+    stake.projectedReward = partOf(projectedReward, shares);
+  }
+
+  const result = [...stakes.values()].map(({ capital, ...stake }) => {
+    const reward = stake.withdrawn + stake.value - stake.deposited;
+    return {
+      ...stake,
+      reward,
+      claimedReward: reward - stake.pendingReward,
+      realizedReturn: stake.deposited === 0n ? 0 : (Number(reward) / Number(stake.deposited)) * 100,
+      apr: capital <= 0n ? 0 : ((Number(reward) * ONE_YEAR) / Number(capital)) * 100,
+    };
+  });
+
+  const first = history[0];
+  const realizedReturn = first ? (sharePrice / first.sharePrice - 1) * 100 : 0;
+  return {
+    blockNumber: state.blockNumber,
+    timestamp,
+    horizon,
+    reserve,
+    totalShares,
+    sharePrice,
+    history,
+    realizedReturn,
+    apr: first && timestamp > first.timestamp ? (realizedReturn * ONE_YEAR) / (timestamp - first.timestamp) : 0,
+    unvestedReserve,
+    projectedReward,
+    projectedApr: reserve === 0n ? 0 : ((Number(projectedReward) / Number(reserve)) * ONE_YEAR * 100) / horizon,
+    stakes: result,
+  };
+}
+
+/**
+ * Staked amount before the change. The reward part of the unstaked amount is unknown, so it is considered principal.
+ */
+function amountBefore({ operation, amount, amountDelta }: StakeChange): bigint {
+  switch (operation) {
+    case StakeOperation.Increase:
+      return amount - amountDelta;
+    case StakeOperation.Decrease:
+      return amount + amountDelta;
+    case StakeOperation.Unstake:
+      return amountDelta;
+    default:
+      return amount;
+  }
+}
@@ -0,0 +1,332 @@
+import { Provider } from '@ethersproject/providers';
+import { Contract } from 'ethers';
+import { getAddress, hexDataSlice } from 'ethers/lib/utils';
+import { Enterprise } from '../typechain';
+
+/**
+ * Storage variable as reported by solc `storageLayout` output.
+ */
+export interface StorageLayoutEntry {
+  astId?: number;
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  members?: StorageLayoutEntry[];
+  key?: string;
+  value?: string;
+  base?: string;
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * `renamed` is reported for information only, all other kinds make the upgrade unsafe.
+ */
+export type StorageLayoutIssueKind = 'removed' | 'moved' | 'retyped' | 'renamed' | 'unrecorded';
+
+export interface StorageLayoutIssue {
+  kind: StorageLayoutIssueKind;
+  label: string;
+  message: string;
+}
+
+export type UpgradeComponent = 'enterprise' | 'rental' | 'stake' | 'power';
+
+/**
+ * Compiled implementation the proxies get upgraded to.
+ */
+export interface UpgradeTarget {
+  implementation: string;
+  storageLayout: StorageLayout;
+}
+
+export interface UpgradeTargets {
+  factory: string;
+  enterprise?: UpgradeTarget;
+  rental?: UpgradeTarget;
+  stake?: UpgradeTarget;
+  power?: UpgradeTarget;
+}
+
+/**
+ * Implementation deployment recorded in `deployments/<network>`.
+ */
+export interface RecordedImplementation {
+  name: string;
+  address: string;
+  storageLayout: StorageLayout;
+}
+
+export interface ProxyUpgrade {
+  component: UpgradeComponent;
+  proxy: string;
+  implementation: string;
+  /**
+   * Name of the recorded deployment matching the current implementation.
+   */
+  deployment?: string;
+  target: string;
+  issues: StorageLayoutIssue[];
+}
+
+export interface UpgradePlan {
+  enterprise: string;
+  owner: string;
+  factory: string;
+  enterpriseImplementation: string;
+  rentalTokenImplementation: string;
+  stakeTokenImplementation: string;
+  powerTokenImplementation: string;
+  powerTokens: string[];
+  upgrades: ProxyUpgrade[];
+  compatible: boolean;
+  /**
+   * `Enterprise.upgrade` calldata, to be sent by the enterprise owner.
+   */
+  data: string;
+}
+
+/**
+ * EIP-1967 implementation slot: `bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)`.
+ */
+export const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Getters of the enterprises deployed before BorrowToken and InterestToken got renamed.
+const LEGACY_ENTERPRISE_ABI = [
+  'function getBorrowToken() view returns (address)',
+  'function getInterestToken() view returns (address)',
+];
+
+export function isBlockingIssue(issue: StorageLayoutIssue): boolean {
+  return issue.kind !== 'renamed';
+}
+
+/**
+ * Checks that every variable of the recorded layout keeps its slot, offset and type in the current layout.
+ * New variables may only be appended, structs may only grow when stored as mapping values.
+ */
+export function compareStorageLayouts(recorded: StorageLayout, current: StorageLayout): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = [];
+  for (const variable of recorded.storage) {
+    const match = current.storage.find((x) => x.slot === variable.slot && x.offset === variable.offset);
+    if (match?.label === variable.label) {
+      compareTypes(recorded, variable.type, current, match.type, variable.label, false, issues);
+      continue;
+    }
+
+    const moved = current.storage.find((x) => x.label === variable.label);
+    if (moved) {
+      issues.push({
+        kind: 'moved',
+        label: variable.label,
+        message: `${variable.label} moved from ${position(variable)} to ${position(moved)}`,
+      });
+    } else if (match) {
+      issues.push({
+        kind: 'renamed',
+        label: variable.label,
+        message: `${variable.label} at ${position(variable)} renamed to ${match.label}`,
+      });
+      compareTypes(recorded, variable.type, current, match.type, variable.label, false, issues);
+    } else {
+      issues.push({
+        kind: 'removed',
+        label: variable.label,
+        message: `${variable.label} at ${position(variable)} removed`,
+      });
+    }
+  }
+  return issues;
+}
+
+function position(variable: StorageLayoutEntry): string {
+  return `slot ${variable.slot}, offset ${variable.offset}`;
+}
+
+function compareTypes(
+  recordedLayout: StorageLayout,
+  recordedId: string,
+  currentLayout: StorageLayout,
+  currentId: string,
+  path: string,
+  mappingValue: boolean,
+  issues: StorageLayoutIssue[]
+): void {
+  const recorded = recordedLayout.types?.[recordedId];
+  const current = currentLayout.types?.[currentId];
+  if (!recorded || !current) {
+    if (normalizeTypeId(recordedId) !== normalizeTypeId(currentId)) {
+      issues.push(retyped(path, recordedId, currentId));
+    }
+    return;
+  }
+
+  const label = `${path}: ${recorded.label} -> ${current.label}`;
+  if (recorded.encoding !== current.encoding) {
+    issues.push(retyped(path, recorded.label, current.label));
+    return;
+  }
+  switch (recorded.encoding) {
+    case 'mapping':
+      if (normalizeTypeId(recorded.key ?? '') !== normalizeTypeId(current.key ?? '')) {
+        issues.push({ kind: 'retyped', label: path, message: `${label} changes the mapping key` });
+        return;
+      }
+      compareTypes(recordedLayout, recorded.value ?? '', currentLayout, current.value ?? '', `${path}[]`, true, issues);
+      return;
+    case 'dynamic_array':
+      compareTypes(recordedLayout, recorded.base ?? '', currentLayout, current.base ?? '', `${path}[]`, false, issues);
+      return;
+    case 'bytes':
+      return;
+  }
+
+  if (recorded.members) {
+    if (!current.members) {
+      issues.push(retyped(path, recorded.label, current.label));
+      return;
+    }
+    const recordedStruct = { storage: recorded.members, types: recordedLayout.types };
+    const currentStruct = { storage: current.members, types: currentLayout.types };
+    for (const issue of compareStorageLayouts(recordedStruct, currentStruct)) {
+      issues.push({ ...issue, label: `${path}.${issue.label}`, message: `${path}.${issue.message}` });
+    }
+    if (!mappingValue && recorded.numberOfBytes !== current.numberOfBytes) {
+      issues.push({ kind: 'retyped', label: path, message: `${label} changes the struct size in place` });
+    }
+    return;
+  }
+
+  if (recorded.base) {
+    compareTypes(recordedLayout, recorded.base, currentLayout, current.base ?? '', `${path}[]`, false, issues);
+  }
+  if (recorded.numberOfBytes !== current.numberOfBytes || !isSameValueType(recorded.label, current.label)) {
+    issues.push(retyped(path, recorded.label, current.label));
+  }
+}
+
+function retyped(path: string, recorded: string, current: string): StorageLayoutIssue {
+  return { kind: 'retyped', label: path, message: `${path} changed type from ${recorded} to ${current}` };
+}
+
+/**
+ * Strips AST ids from type identifiers, e.g. `t_contract(IEnterprise)9187` -> `t_contract(IEnterprise)`.
+ */
+function normalizeTypeId(id: string): string {
+  return id.replace(/\)\d+/g, ')');
+}
+
+/**
+ * Contracts, interfaces and addresses share the same representation.
+ */
+function isSameValueType(recorded: string, current: string): boolean {
+  const isAddress = (label: string) => label === 'address' || label.startsWith('contract ');
+  return recorded === current || (isAddress(recorded) && isAddress(current));
+}
+
+/**
+ * Reads the implementation address of the transparent proxy.
+ */
+export async function getImplementation(provider: Provider, proxy: string): Promise<string> {
+  return getAddress(hexDataSlice(await provider.getStorageAt(proxy, IMPLEMENTATION_SLOT), 12));
+}
+
+async function getEnterpriseProxies(enterprise: Enterprise): Promise<Record<UpgradeComponent, string[]>> {
+  const legacy = new Contract(enterprise.address, LEGACY_ENTERPRISE_ABI, enterprise.provider);
+  const [rentalToken, stakeToken] = await Promise.all([
+    enterprise.getRentalToken().catch(() => legacy.getBorrowToken() as Promise<string>),
+    enterprise.getStakeToken().catch(() => legacy.getInterestToken() as Promise<string>),
+  ]);
+  return {
+    enterprise: [enterprise.address],
+    rental: [rentalToken],
+    stake: [stakeToken],
+    power: await enterprise.getPowerTokens(),
+  };
+}
+
+/**
+ * Determines the enterprise proxies which are not yet upgraded to the targets, checks storage compatibility of
+ * their current implementations (looked up among recorded deployments) and builds `Enterprise.upgrade` calldata.
+ */
+export async function planUpgrade(
+  enterprise: Enterprise,
+  targets: UpgradeTargets,
+  recorded: RecordedImplementation[]
+): Promise<UpgradePlan> {
+  const proxies = await getEnterpriseProxies(enterprise);
+  const upgrades: ProxyUpgrade[] = [];
+  const implementations: Record<UpgradeComponent, string> = {
+    enterprise: ZERO_ADDRESS,
+    rental: ZERO_ADDRESS,
+    stake: ZERO_ADDRESS,
+    power: ZERO_ADDRESS,
+  };
+
+  for (const component of ['enterprise', 'rental', 'stake', 'power'] as const) {
+    const target = targets[component];
+    if (!target) continue;
+
+    for (const proxy of proxies[component]) {
+      const implementation = await getImplementation(enterprise.provider, proxy);
+      if (implementation === getAddress(target.implementation)) continue;
+
+      const deployment = recorded.find((x) => getAddress(x.address) === implementation);
+      const issues = deployment
+        ? compareStorageLayouts(deployment.storageLayout, target.storageLayout)
+        : [
+            {
+              kind: 'unrecorded' as const,
+              label: proxy,
+              message: `storage layout of ${implementation} implementation is not recorded`,
+            },
+          ];
+      upgrades.push({
+        component,
+        proxy,
+        implementation,
+        deployment: deployment?.name,
+        target: target.implementation,
+        issues,
+      });
+      implementations[component] = target.implementation;
+    }
+  }
+
+  const powerTokens = upgrades.filter((x) => x.component === 'power').map((x) => x.proxy);
+  const data = enterprise.interface.encodeFunctionData('upgrade', [
+    targets.factory,
+    implementations.enterprise,
+    implementations.rental,
+    implementations.stake,
+    implementations.power,
+    powerTokens,
+  ]);
+
+  return {
+    enterprise: enterprise.address,
+    owner: await enterprise.owner(),
+    factory: targets.factory,
+    enterpriseImplementation: implementations.enterprise,
+    rentalTokenImplementation: implementations.rental,
+    stakeTokenImplementation: implementations.stake,
+    powerTokenImplementation: implementations.power,
+    powerTokens,
+    upgrades,
+    compatible: upgrades.every((x) => !x.issues.some(isBlockingIssue)),
+    data,
+  };
+}
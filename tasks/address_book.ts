@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+import { FormatTypes, Interface } from 'ethers/lib/utils';
+import { task } from 'hardhat/config';
+
+export const DEPLOYMENTS_SOURCE = 'deployments';
+export const ADDRESS_BOOK_TARGET = 'sdk/deployed_addresses.ts';
+/** Enterprises deployed outside of this repository, keyed by the network folder name. */
+export const KNOWN_ENTERPRISES = 'known_enterprises.json';
+
+/** Names of the binance deployments made before the tokens were renamed. */
+export const LEGACY_NAMES: Record<string, string> = { BorrowToken: 'RentalToken', InterestToken: 'StakeToken' };
+
+export interface DeploymentRecord {
+  name: string;
+  address: string;
+  /** Human readable ABI. */
+  abi: string[];
+  deploymentBlock?: number;
+}
+
+export interface KnownEnterprise {
+  name: string;
+  address: string;
+  /** Deployment of the same network the ABI is taken from. */
+  abi: string;
+  deploymentBlock?: number;
+}
+
+export interface NetworkDeployments {
+  chainId: number;
+  network: string;
+  contracts: DeploymentRecord[];
+  /**
+   * Enterprises saved by `enterprise:provision` as `Enterprise_<name>` deployments and the ones listed
+   * in `KNOWN_ENTERPRISES`.
+   */
+  enterprises: DeploymentRecord[];
+}
+
+task('address-book', `Generates ${ADDRESS_BOOK_TARGET} from ${DEPLOYMENTS_SOURCE}/`).setAction(async (args, hre) => {
+  await writeAddressBook(hre.config.paths.root);
+});
+
+// Live deployments are committed together with the regenerated address book.
+task('deploy', async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  if (hre.network.live) await writeAddressBook(hre.config.paths.root);
+  return result;
+});
+
+async function writeAddressBook(root: string): Promise<void> {
+  const target = path.join(root, ADDRESS_BOOK_TARGET);
+  const rendered = await generateAddressBook(root);
+  if ((await fs.readFile(target, 'utf8').catch(() => undefined)) !== rendered) {
+    await fs.writeFile(target, rendered);
+    console.log(`Generated ${ADDRESS_BOOK_TARGET}`);
+  }
+}
+
+/**
+ * Renders formatted `ADDRESS_BOOK_TARGET` contents from the network folders of `DEPLOYMENTS_SOURCE`.
+ */
+export async function generateAddressBook(root: string): Promise<string> {
+  const target = path.join(root, ADDRESS_BOOK_TARGET);
+  return prettier.format(renderAddressBook(await loadDeployments(path.join(root, DEPLOYMENTS_SOURCE))), {
+    ...(await prettier.resolveConfig(target)),
+    filepath: target,
+  });
+}
+
+/**
+ * Loads hardhat-deploy network folders, the chain id is read from the `.chainId` file.
+ */
+export async function loadDeployments(dir: string): Promise<NetworkDeployments[]> {
+  const known: Record<string, KnownEnterprise[]> = JSON.parse(
+    (await fs.readFile(path.join(dir, KNOWN_ENTERPRISES), 'utf8').catch(() => undefined)) ?? '{}'
+  );
+  const networks: NetworkDeployments[] = [];
+  for (const network of (await fs.readdir(dir)).sort()) {
+    const chainIdFile = path.join(dir, network, '.chainId');
+    const chainId = await fs.readFile(chainIdFile, 'utf8').catch(() => undefined);
+    if (chainId === undefined) continue;
+
+    const records: DeploymentRecord[] = [];
+    for (const file of (await fs.readdir(path.join(dir, network))).sort()) {
+      if (path.extname(file) !== '.json') continue;
+      const { address, abi, receipt } = JSON.parse(await fs.readFile(path.join(dir, network, file), 'utf8'));
+      records.push({
+        name: path.basename(file, '.json'),
+        address,
+        abi: new Interface(abi).format(FormatTypes.full) as string[],
+        // Older hardhat-deploy versions recorded the block number as a hex string.
+        deploymentBlock: receipt?.blockNumber === undefined ? undefined : Number(receipt.blockNumber),
+      });
+    }
+
+    const isEnterprise = (x: DeploymentRecord) =>
+      x.name.startsWith('Enterprise_') && x.abi.some((y) => y.startsWith('function getPowerTokens('));
+    const knownEnterprises = (known[network] ?? []).map(({ name, address, abi, deploymentBlock }) => {
+      const source = records.find((x) => x.name === abi);
+      if (!source) throw new Error(`${name} enterprise ABI deployment ${abi} is missing on ${network}`);
+      return { name, address, abi: source.abi, deploymentBlock };
+    });
+    networks.push({
+      chainId: Number(chainId.trim()),
+      network,
+      contracts: records.filter((x) => !isEnterprise(x)),
+      enterprises: [
+        ...records.filter(isEnterprise).map((x) => ({ ...x, name: x.name.slice('Enterprise_'.length) })),
+        ...knownEnterprises,
+      ].sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  }
+  return networks.sort((a, b) => a.chainId - b.chainId);
+}
+
+export function renderAddressBook(networks: NetworkDeployments[]): string {
+  // Identical ABIs are shared, e.g. legacy `BorrowToken` uses the `RentalToken` one.
+  const abis = new Map<string, string>();
+  const abiNames = new Set<string>();
+  const abiName = ({ name, abi }: DeploymentRecord, enterprise: boolean) => {
+    const key = JSON.stringify(abi);
+    if (!abis.has(key)) {
+      const base = enterprise ? 'Enterprise' : LEGACY_NAMES[name] ?? name;
+      let unique = base;
+      for (let i = 2; abiNames.has(unique); i++) unique = `${base}${i}`;
+      abis.set(key, unique);
+      abiNames.add(unique);
+    }
+    return abis.get(key) as string;
+  };
+  const entry = (record: DeploymentRecord, enterprise = false) => {
+    const block = record.deploymentBlock === undefined ? '' : `, deploymentBlock: ${record.deploymentBlock}`;
+    return `    ${record.name}: { address: '${record.address}', abi: ABIS.${abiName(record, enterprise)}${block} },`;
+  };
+
+  const book = networks.flatMap((network) => [
+    `  ${network.chainId}: {`,
+    `    network: '${network.network}',`,
+    '    contracts: {',
+    ...network.contracts.map((x) => entry(x)),
+    '    },',
+    '    enterprises: {',
+    ...network.enterprises.map((x) => entry(x, true)),
+    '    },',
+    '  },',
+  ]);
+  return [
+    `// Generated from ${DEPLOYMENTS_SOURCE}/ by the address-book task, do not edit.`,
+    '',
+    'const ABIS = {',
+    ...[...abis].map(([abi, name]) => `  ${name}: ${abi},`),
+    '} as const;',
+    '',
+    'export const DEPLOYED_ADDRESSES = {',
+    ...book,
+    '} as const;',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import prettier from 'prettier';
+import { task } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { TASK_COMPILE } from 'hardhat/builtin-tasks/task-names';
+
+export const ERRORS_SOURCE = 'contracts/libs/Errors.sol';
+export const ERRORS_TARGET = 'sdk/error_codes.ts';
+
+export interface ErrorDefinition {
+  name: string;
+  code: string;
+  message: string;
+}
+
+// Regenerates the enum before every compilation. On CI a stale committed enum fails the build instead.
+task(TASK_COMPILE, async (args, hre, runSuper) => {
+  const target = path.join(hre.config.paths.root, ERRORS_TARGET);
+  const rendered = await generateErrorCodes(hre.config.paths.root);
+  const current = await fs.readFile(target, 'utf8').catch(() => undefined);
+  if (current !== rendered) {
+    if (process.env.CI) {
+      throw new HardhatPluginError(
+        'errors',
+        `${ERRORS_TARGET} is out of sync with ${ERRORS_SOURCE}, run 'yarn compile' locally`
+      );
+    }
+    await fs.writeFile(target, rendered);
+    console.log(`Generated ${ERRORS_TARGET}`);
+  }
+  return runSuper(args);
+});
+
+/**
+ * Renders formatted `ERRORS_TARGET` contents from `ERRORS_SOURCE` of the project.
+ */
+export async function generateErrorCodes(root: string): Promise<string> {
+  const source = await fs.readFile(path.join(root, ERRORS_SOURCE), 'utf8');
+  const target = path.join(root, ERRORS_TARGET);
+  return prettier.format(renderErrorCodes(parseErrors(source)), {
+    ...(await prettier.resolveConfig(target)),
+    filepath: target,
+  });
+}
+
+/**
+ * Parses `Errors` library constants. Human messages are derived from the constant names, the prefix is replaced
+ * with the contract name from the glossary, e.g. `E_RENTAL_PAYMENT_SLIPPAGE` becomes
+ * `Enterprise: rental payment slippage`.
+ */
+export function parseErrors(source: string): ErrorDefinition[] {
+  const prefixes = new Map<string, string>();
+  for (const [, prefix, contract] of source.matchAll(/^\s*\*\s+-\s+(\w+)\s+=\s+(\w+)\s*$/gm)) {
+    prefixes.set(prefix, contract);
+  }
+
+  const errors: ErrorDefinition[] = [];
+  const names = new Set<string>();
+  const codes = new Map<string, string>();
+  for (const [, name, code] of source.matchAll(/string\s+internal\s+constant\s+(\w+)\s*=\s*"([^"]*)"/g)) {
+    if (!/^[1-9]\d*$/.test(code)) throw new Error(`${name} error code "${code}" is not a number`);
+    if (names.has(name)) throw new Error(`${name} error is declared twice`);
+    const duplicate = codes.get(code);
+    if (duplicate) throw new Error(`${name} and ${duplicate} share error code ${code}`);
+
+    names.add(name);
+    codes.set(code, name);
+    errors.push({ name, code, message: errorMessage(name, prefixes) });
+  }
+  if (errors.length === 0) throw new Error('No error codes found');
+
+  return errors.sort((a, b) => Number(a.code) - Number(b.code));
+}
+
+export function renderErrorCodes(errors: ErrorDefinition[]): string {
+  return [
+    `// Generated from ${ERRORS_SOURCE} by the compile task, do not edit.`,
+    '',
+    'export enum Errors {',
+    ...errors.map(({ name, code }) => `  ${name} = '${code}',`),
+    '}',
+    '',
+    'export const ERROR_MESSAGES: Record<Errors, string> = {',
+    ...errors.map(({ name, message }) => `  [Errors.${name}]: '${message}',`),
+    '};',
+    '',
+  ].join('\n');
+}
+
+function errorMessage(name: string, prefixes: Map<string, string>): string {
+  // The longest prefix wins, e.g. ERC721META over ERC721.
+  const prefix = [...prefixes.keys()].filter((x) => name.startsWith(`${x}_`)).sort((a, b) => b.length - a.length)[0];
+  const text = (prefix ? name.slice(prefix.length + 1) : name).toLowerCase().replace(/_/g, ' ');
+  return prefix ? `${prefixes.get(prefix)}: ${text}` : text.charAt(0).toUpperCase() + text.slice(1);
+}
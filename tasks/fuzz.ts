@@ -0,0 +1,495 @@
+import { promises as fs } from 'fs';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ContractTransaction } from 'ethers';
+import type { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { createRandom, Random } from '../sdk/random';
+import type { Enterprise, ERC20Mock, PowerToken, RentalToken, StakeToken } from '../typechain';
+
+export const FUZZ_ACTIONS = [
+  'stake',
+  'increaseStake',
+  'decreaseStake',
+  'unstake',
+  'claimStakingReward',
+  'rent',
+  'extendRentalPeriod',
+  'returnRental',
+  'swapIn',
+  'swapOut',
+  'transferRental',
+  'wait',
+] as const;
+
+export type FuzzAction = typeof FUZZ_ACTIONS[number];
+
+export interface FuzzStep {
+  action: FuzzAction;
+  actor: number;
+  /** Selects the stake, rental, service or recipient of the action, fraction in [0, 1). */
+  target: number;
+  /** Fraction of the available amount or of the allowed period. */
+  amount: number;
+}
+
+/**
+ * Enterprise accounting read after every step.
+ */
+export interface FuzzState {
+  timestamp: number;
+  /** Enterprise tokens held by the enterprise contract. */
+  enterpriseBalance: bigint;
+  reserve: bigint;
+  usedReserve: bigint;
+  totalShares: bigint;
+  stakes: { id: bigint; owner: string; amount: bigint; shares: bigint }[];
+  rentals: { id: bigint; owner: string; service: number; rentalAmount: bigint; endTime: number }[];
+  actors: string[];
+  /** Enterprise token balances of the actors. */
+  balances: bigint[];
+  /** Power token balances of the actors by service. */
+  powerBalances: bigint[][];
+  lockedBalances: bigint[][];
+}
+
+export interface Invariant {
+  name: string;
+  /** Describes the violation, `undefined` when the invariant holds. */
+  check(state: FuzzState): string | undefined;
+}
+
+export interface FuzzFailure {
+  seed: number;
+  invariant: string;
+  message: string;
+  /** Index of the failing step. */
+  step: number;
+  steps: FuzzStep[];
+  /** Number of steps before shrinking. */
+  originalLength: number;
+}
+
+export interface FuzzResult {
+  seed: number;
+  runs: number;
+  executed: number;
+  reverted: number;
+  failure?: FuzzFailure;
+}
+
+export interface FuzzOptions {
+  seed: number;
+  runs: number;
+  steps: number;
+  /** Replays the steps instead of generating random sequences. */
+  replay?: FuzzStep[];
+  invariants?: Invariant[];
+}
+
+interface SequenceOutcome {
+  executed: number;
+  reverted: number;
+  failure?: { invariant: string; message: string; step: number };
+}
+
+const ACTORS = 4;
+const MAX_WAIT = 10 * 86400;
+const ONE_ETHER = '0xde0b6b3a7640000';
+// Panics are compiler inserted checks (overflow, division by zero, assert), never an expected protocol revert.
+const PANIC_PATTERN = /panic code|invalid opcode/i;
+
+const SERVICES = [
+  { symbol: 'FZA', minRentalPeriod: 3600, maxRentalPeriod: 30 * 86400, swappingEnabledForever: true },
+  { symbol: 'FZB', minRentalPeriod: 12 * 3600, maxRentalPeriod: 60 * 86400, swappingEnabledForever: false },
+];
+
+const sum = (values: bigint[]) => values.reduce((a, b) => a + b, 0n);
+
+export const DEFAULT_INVARIANTS: Invariant[] = [
+  {
+    name: 'reserve is backed',
+    check: ({ enterpriseBalance, reserve }: FuzzState): string | undefined =>
+      enterpriseBalance >= reserve ? undefined : `enterprise balance ${enterpriseBalance} < reserve ${reserve}`,
+  },
+  {
+    name: 'used reserve',
+    check: ({ usedReserve, rentals }: FuzzState): string | undefined => {
+      const rented = sum(rentals.map((x) => x.rentalAmount));
+      return usedReserve === rented ? undefined : `used reserve ${usedReserve} != rented ${rented}`;
+    },
+  },
+  {
+    name: 'total shares',
+    check: ({ totalShares, stakes }: FuzzState): string | undefined => {
+      const shares = sum(stakes.map((x) => x.shares));
+      return totalShares === shares ? undefined : `total shares ${totalShares} != stake shares ${shares}`;
+    },
+  },
+  {
+    name: 'locked power tokens',
+    check: ({ lockedBalances, rentals, actors }: FuzzState): string | undefined => {
+      for (const [service, balances] of lockedBalances.entries()) {
+        for (const [actor, locked] of balances.entries()) {
+          const rented = sum(
+            rentals.filter((x) => x.service === service && x.owner === actors[actor]).map((x) => x.rentalAmount)
+          );
+          if (locked !== rented) return `actor ${actor} locked ${locked} != rented ${rented} of service ${service}`;
+        }
+      }
+      return undefined;
+    },
+  },
+];
+
+task('enterprise:fuzz', 'Runs random action sequences against a local enterprise and checks accounting invariants')
+  .addOptionalParam('seed', 'Seed of the first run, next runs use the following seeds', undefined, types.int)
+  .addOptionalParam('runs', 'Number of random sequences', 20, types.int)
+  .addOptionalParam('steps', 'Number of steps in every sequence', 50, types.int)
+  .addOptionalParam('replay', 'Path to the failure JSON to replay')
+  .addOptionalParam('output', 'Path to write the shrunk failure JSON to')
+  .setAction(async ({ seed, runs, steps, replay, output }, hre) => {
+    const failure: FuzzFailure | undefined = replay && JSON.parse(await fs.readFile(replay, 'utf8'));
+    const result = await runFuzzer(hre, {
+      seed: failure?.seed ?? seed ?? Math.floor(Math.random() * 2 ** 32),
+      runs,
+      steps,
+      replay: failure?.steps,
+    });
+    printResult(result);
+    if (output && result.failure) await fs.writeFile(output, JSON.stringify(result.failure, null, 2));
+    return result;
+  });
+
+/**
+ * Random step sequence, deterministic for the seeded generator.
+ */
+export function generateSequence(random: Random, length: number): FuzzStep[] {
+  const fraction = () => Math.floor(random.next() * 10_000) / 10_000;
+  return Array.from({ length }, () => ({
+    action: FUZZ_ACTIONS[random.int(0, FUZZ_ACTIONS.length - 1)],
+    actor: random.int(0, ACTORS - 1),
+    target: fraction(),
+    amount: fraction(),
+  }));
+}
+
+/**
+ * Removes chunks of steps, halving the chunk size, while the sequence keeps failing.
+ */
+export async function shrinkSequence<T>(steps: T[], fails: (steps: T[]) => Promise<boolean>): Promise<T[]> {
+  let current = steps;
+  for (let chunk = Math.max(1, Math.floor(current.length / 2)); chunk >= 1; chunk = Math.floor(chunk / 2)) {
+    for (let i = 0; i < current.length; ) {
+      const candidate = [...current.slice(0, i), ...current.slice(i + chunk)];
+      if (candidate.length > 0 && (await fails(candidate))) current = candidate;
+      else i += chunk;
+    }
+  }
+  return current;
+}
+
+/**
+ * Deploys the fuzzed enterprise on a hardhat network snapshot, runs the sequences from the deployment state and
+ * shrinks the first failing one. The snapshot is reverted afterwards.
+ */
+export async function runFuzzer(hre: HardhatRuntimeEnvironment, options: FuzzOptions): Promise<FuzzResult> {
+  if (hre.network.name !== 'hardhat') throw new Error('Fuzzing is only supported on the hardhat network');
+  const { deployments, ethers } = hre;
+  const provider = ethers.provider;
+  const invariants = options.invariants ?? DEFAULT_INVARIANTS;
+
+  if (!(await deployments.getOrNull('EnterpriseFactory'))) await deployments.fixture();
+  const snapshot = await provider.send('evm_snapshot', []);
+  try {
+    const context = await deployFuzzedEnterprise(hre);
+    const result: FuzzResult = { seed: options.seed, runs: 0, executed: 0, reverted: 0 };
+    const sequences = options.replay
+      ? [{ seed: options.seed, steps: options.replay }]
+      : Array.from({ length: options.runs }, (_, i) => {
+          const seed = (options.seed + i) >>> 0;
+          return { seed, steps: generateSequence(createRandom(seed), options.steps) };
+        });
+
+    // Every sequence starts from the deployment state at the same timestamp.
+    let deployed = await provider.send('evm_snapshot', []);
+    const execute = async (steps: FuzzStep[]) => {
+      await provider.send('evm_revert', [deployed]);
+      deployed = await provider.send('evm_snapshot', []);
+      return executeSequence(context, steps, invariants);
+    };
+
+    for (const { seed, steps } of sequences) {
+      const outcome = await execute(steps);
+      result.runs++;
+      result.executed += outcome.executed;
+      result.reverted += outcome.reverted;
+      if (!outcome.failure) continue;
+
+      const { invariant } = outcome.failure;
+      const shrunk = await shrinkSequence(steps.slice(0, outcome.failure.step + 1), async (candidate) => {
+        return (await execute(candidate)).failure?.invariant === invariant;
+      });
+      const failure = (await execute(shrunk)).failure as NonNullable<SequenceOutcome['failure']>;
+      result.failure = { seed, ...failure, steps: shrunk, originalLength: steps.length };
+      break;
+    }
+    return result;
+  } finally {
+    await provider.send('evm_revert', [snapshot]);
+  }
+}
+
+interface FuzzContext {
+  hre: HardhatRuntimeEnvironment;
+  token: ERC20Mock;
+  enterprise: Enterprise;
+  rentalToken: RentalToken;
+  stakeToken: StakeToken;
+  powerTokens: PowerToken[];
+  actors: SignerWithAddress[];
+  startTime: number;
+}
+
+async function deployFuzzedEnterprise(hre: HardhatRuntimeEnvironment): Promise<FuzzContext> {
+  const { IQClient } = await import('../sdk');
+  const { ERC20Mock__factory, RentalToken__factory, StakeToken__factory } = await import('../typechain');
+  const { deployments, ethers } = hre;
+  const [deployer, ...signers] = await ethers.getSigners();
+  const actors = signers.slice(0, ACTORS);
+  const supply = 10n ** 30n;
+
+  const token = await new ERC20Mock__factory(deployer).deploy('Fuzz', 'FUZZ', 18, supply);
+  const client = await IQClient.deploy((await deployments.get('EnterpriseFactory')).address, deployer, {
+    name: 'Fuzz',
+    enterpriseToken: token.address,
+    baseUri: 'https://iq.space',
+    gcFeePercent: 200,
+    converter: (await deployments.get('DefaultConverter')).address,
+  });
+  const powerTokens: PowerToken[] = [];
+  for (const service of SERVICES) {
+    powerTokens.push(
+      await client.registerService({
+        ...service,
+        name: `Fuzz ${service.symbol}`,
+        energyGapHalvingPeriod: 86400,
+        // 100 tokens per 1000 power tokens per day, see `baseRate` in test/utils.ts.
+        baseRate: (100n << 64n) / (1000n * 86400n),
+        baseToken: token.address,
+        serviceFeePercent: 300,
+        minGCFee: 10n ** 18n,
+      })
+    );
+  }
+
+  for (const actor of actors) {
+    await ethers.provider.send('hardhat_setBalance', [actor.address, ONE_ETHER]);
+    await token.transfer(actor.address, supply / BigInt(ACTORS + 1));
+    await token.connect(actor).approve(client.address, ethers.constants.MaxUint256);
+    for (const powerToken of powerTokens) {
+      await token.connect(actor).approve(powerToken.address, ethers.constants.MaxUint256);
+    }
+  }
+
+  return {
+    hre,
+    token,
+    enterprise: client.enterprise,
+    rentalToken: RentalToken__factory.connect(await client.enterprise.getRentalToken(), deployer),
+    stakeToken: StakeToken__factory.connect(await client.enterprise.getStakeToken(), deployer),
+    powerTokens,
+    actors,
+    startTime: (await ethers.provider.getBlock('latest')).timestamp + 1,
+  };
+}
+
+/**
+ * Runs the steps with pinned block timestamps and checks the invariants after each of them. Protocol reverts are
+ * expected, panics fail the sequence.
+ */
+async function executeSequence(
+  context: FuzzContext,
+  steps: FuzzStep[],
+  invariants: Invariant[]
+): Promise<SequenceOutcome> {
+  const provider = context.hre.ethers.provider;
+  const outcome: SequenceOutcome = { executed: 0, reverted: 0 };
+  let time = context.startTime;
+  let state = await loadFuzzState(context);
+
+  for (const [index, step] of steps.entries()) {
+    if (step.action === 'wait') {
+      time += Math.max(1, Math.floor(step.amount * MAX_WAIT));
+      await provider.send('evm_mine', [time]);
+    } else {
+      await provider.send('evm_setNextBlockTimestamp', [++time]);
+      try {
+        const tx = await sendStep(context, state, step, time);
+        if (tx) await tx.wait();
+        else await provider.send('evm_mine', [time]);
+      } catch (e) {
+        const message = (e as Error).message ?? String(e);
+        if (PANIC_PATTERN.test(message)) {
+          outcome.failure = { invariant: 'no panic', message: `${step.action}: ${message}`, step: index };
+          return outcome;
+        }
+        if (!/revert/i.test(message)) throw e;
+        outcome.reverted++;
+        // Failed transaction is not mined, the block is mined to keep the timestamps pinned.
+        await provider.send('evm_mine', [time]);
+      }
+    }
+    outcome.executed++;
+
+    state = await loadFuzzState(context);
+    for (const invariant of invariants) {
+      const message = invariant.check(state);
+      if (message) {
+        outcome.failure = { invariant: invariant.name, message, step: index };
+        return outcome;
+      }
+    }
+  }
+  return outcome;
+}
+
+async function sendStep(
+  { token, enterprise, rentalToken, powerTokens, actors }: FuzzContext,
+  state: FuzzState,
+  { action, actor, target, amount }: FuzzStep,
+  time: number
+): Promise<ContractTransaction | undefined> {
+  const signer = actors[actor];
+  const connected = enterprise.connect(signer);
+  const pick = <T>(items: T[]): T | undefined => items[Math.floor(target * items.length)];
+  const scale = (value: bigint) => (value * BigInt(Math.floor(amount * 1_000_000))) / 1_000_000n;
+  const ownStake = pick(state.stakes.filter((x) => x.owner === signer.address));
+  const ownRental = pick(state.rentals.filter((x) => x.owner === signer.address));
+  const service = Math.floor(target * powerTokens.length);
+  const period = (index: number) => {
+    const { minRentalPeriod, maxRentalPeriod } = SERVICES[index];
+    return minRentalPeriod + Math.floor(amount * (maxRentalPeriod - minRentalPeriod));
+  };
+  const maxPayment = state.balances[actor];
+
+  switch (action) {
+    case 'stake':
+      return connected.stake(scale(state.balances[actor] / 10n));
+    case 'increaseStake':
+      return ownStake && connected.increaseStake(ownStake.id, scale(state.balances[actor] / 10n));
+    case 'decreaseStake':
+      return ownStake && connected.decreaseStake(ownStake.id, scale(ownStake.amount));
+    case 'unstake':
+      return ownStake && connected.unstake(ownStake.id);
+    case 'claimStakingReward':
+      return ownStake && connected.claimStakingReward(ownStake.id);
+    case 'rent': {
+      const available = state.reserve - state.usedReserve;
+      return connected.rent(powerTokens[service].address, token.address, scale(available), period(service), maxPayment);
+    }
+    case 'extendRentalPeriod':
+      return (
+        ownRental &&
+        connected.extendRentalPeriod(ownRental.id, token.address, Math.floor(period(ownRental.service) / 4), maxPayment)
+      );
+    case 'returnRental': {
+      // Anyone may return expired rentals after the renter-only period.
+      const rental = pick(state.rentals.filter((x) => x.owner === signer.address || x.endTime < time));
+      return rental && connected.returnRental(rental.id);
+    }
+    case 'swapIn':
+      return powerTokens[service].connect(signer).swapIn(scale(state.balances[actor] / 10n));
+    case 'swapOut': {
+      const available = state.powerBalances[service][actor] - state.lockedBalances[service][actor];
+      return powerTokens[service].connect(signer).swapOut(scale(available));
+    }
+    case 'transferRental': {
+      if (!ownRental) return undefined;
+      const recipient = actors[(actor + 1 + Math.floor(amount * (actors.length - 1))) % actors.length];
+      return rentalToken.connect(signer).transferFrom(signer.address, recipient.address, ownRental.id);
+    }
+    case 'wait':
+      return undefined;
+  }
+}
+
+async function loadFuzzState({
+  hre,
+  token,
+  enterprise,
+  rentalToken,
+  stakeToken,
+  powerTokens,
+  actors,
+}: FuzzContext): Promise<FuzzState> {
+  const [block, info, reserve, enterpriseBalance] = await Promise.all([
+    hre.ethers.provider.getBlock('latest'),
+    enterprise.getInfo(),
+    enterprise.getReserve(),
+    token.balanceOf(enterprise.address),
+  ]);
+  const powerTokenIndices = new Map<number, number>();
+  for (const [service, powerToken] of powerTokens.entries()) {
+    powerTokenIndices.set(await powerToken.getIndex(), service);
+  }
+
+  const stakes: FuzzState['stakes'] = [];
+  for (let i = 0; i < (await stakeToken.totalSupply()).toNumber(); i++) {
+    const id = await stakeToken.tokenByIndex(i);
+    const { amount, shares } = await enterprise.getStake(id);
+    stakes.push({
+      id: id.toBigInt(),
+      owner: await stakeToken.ownerOf(id),
+      amount: amount.toBigInt(),
+      shares: shares.toBigInt(),
+    });
+  }
+  const rentals: FuzzState['rentals'] = [];
+  for (let i = 0; i < (await rentalToken.totalSupply()).toNumber(); i++) {
+    const id = await rentalToken.tokenByIndex(i);
+    const { rentalAmount, powerTokenIndex, endTime } = await enterprise.getRentalAgreement(id);
+    rentals.push({
+      id: id.toBigInt(),
+      owner: await rentalToken.ownerOf(id),
+      service: powerTokenIndices.get(powerTokenIndex) as number,
+      rentalAmount: rentalAmount.toBigInt(),
+      endTime,
+    });
+  }
+
+  const balances: bigint[] = [];
+  const powerBalances: bigint[][] = powerTokens.map(() => []);
+  const lockedBalances: bigint[][] = powerTokens.map(() => []);
+  for (const actor of actors) {
+    balances.push((await token.balanceOf(actor.address)).toBigInt());
+    for (const [service, powerToken] of powerTokens.entries()) {
+      const balance = (await powerToken.balanceOf(actor.address)).toBigInt();
+      powerBalances[service].push(balance);
+      lockedBalances[service].push(balance - (await powerToken.availableBalanceOf(actor.address)).toBigInt());
+    }
+  }
+
+  return {
+    timestamp: block.timestamp,
+    enterpriseBalance: enterpriseBalance.toBigInt(),
+    reserve: reserve.toBigInt(),
+    usedReserve: info.usedReserve.toBigInt(),
+    totalShares: info.totalShares.toBigInt(),
+    stakes,
+    rentals,
+    actors: actors.map((x) => x.address),
+    balances,
+    powerBalances,
+    lockedBalances,
+  };
+}
+
+function printResult({ seed, runs, executed, reverted, failure }: FuzzResult): void {
+  console.log(`${runs} run(s) from seed ${seed}: ${executed} steps, ${reverted} reverted`);
+  if (!failure) return;
+  console.log(`Invariant "${failure.invariant}" violated: ${failure.message}`);
+  console.log(`Shrunk from ${failure.originalLength} to ${failure.steps.length} steps (seed ${failure.seed}):`);
+  for (const [i, step] of failure.steps.entries()) {
+    console.log(`  #${i} actor ${step.actor} ${step.action} target ${step.target} amount ${step.amount}`);
+  }
+}
@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { task } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { TASK_COMPILE } from 'hardhat/builtin-tasks/task-names';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { BigNumber, ContractReceipt, ContractTransaction } from 'ethers';
+
+export const GAS_BASELINE = 'gas-baseline.json';
+
+/** Gas used by the benchmark cases keyed by function and case. */
+export type GasResults = Record<string, Record<string, number>>;
+
+export interface GasBaseline {
+  /** Allowed increase over the recorded gas in percent. */
+  threshold: number;
+  /** Gas limits of the functions, every case of the function must fit. */
+  budgets: Record<string, number>;
+  results: GasResults;
+}
+
+export type GasStatus = 'ok' | 'improved' | 'regression' | 'over budget' | 'new' | 'removed';
+
+export interface GasComparison {
+  function: string;
+  case: string;
+  baseline?: number;
+  current?: number;
+  budget?: number;
+  status: GasStatus;
+}
+
+const FAILURES: GasStatus[] = ['regression', 'over budget'];
+
+task('gas-benchmark', `Measures gas of the protocol functions and compares it with ${GAS_BASELINE}`)
+  .addFlag('update', `Records the results in ${GAS_BASELINE}, budgets are still enforced`)
+  .addOptionalParam('report', 'Path to write the markdown report to')
+  .setAction(async ({ update, report }, hre) => {
+    const file = path.join(hre.config.paths.root, GAS_BASELINE);
+    const baseline: GasBaseline = JSON.parse(await fs.readFile(file, 'utf8'));
+    await hre.run(TASK_COMPILE, { quiet: true });
+    const results = await runGasBenchmarks(hre);
+    const comparisons = compareGas(baseline, results);
+    const markdown = renderGasReport(comparisons, baseline.threshold);
+    console.log(markdown);
+    if (report) await fs.writeFile(report, markdown);
+    if (update) {
+      await fs.writeFile(file, `${JSON.stringify({ ...baseline, results }, null, 2)}\n`);
+      console.log(`Updated ${GAS_BASELINE}`);
+    }
+
+    const failed = comparisons.filter((x) => x.status === 'over budget' || (!update && x.status === 'regression'));
+    if (failed.length > 0) {
+      const lines = failed.map((x) => `${x.function} (${x.case}): ${x.status}`);
+      throw new HardhatPluginError('gas', `Gas checks failed:\n${lines.join('\n')}`);
+    }
+    return comparisons;
+  });
+
+/**
+ * Compares the results with the baseline. Cases over the function budget fail regardless of the baseline.
+ */
+export function compareGas(baseline: GasBaseline, results: GasResults): GasComparison[] {
+  const comparisons: GasComparison[] = [];
+  for (const [name, cases] of Object.entries(results)) {
+    const budget = baseline.budgets[name];
+    for (const [label, current] of Object.entries(cases)) {
+      const recorded = baseline.results[name]?.[label];
+      let status: GasStatus = 'ok';
+      if (budget !== undefined && current > budget) status = 'over budget';
+      else if (recorded === undefined) status = 'new';
+      else if (current > recorded * (1 + baseline.threshold / 100)) status = 'regression';
+      else if (current < recorded) status = 'improved';
+      comparisons.push({ function: name, case: label, baseline: recorded, current, budget, status });
+    }
+  }
+  for (const [name, cases] of Object.entries(baseline.results)) {
+    for (const [label, recorded] of Object.entries(cases)) {
+      if (results[name]?.[label] === undefined) {
+        comparisons.push({
+          function: name,
+          case: label,
+          baseline: recorded,
+          budget: baseline.budgets[name],
+          status: 'removed',
+        });
+      }
+    }
+  }
+  return comparisons;
+}
+
+export function renderGasReport(comparisons: GasComparison[], threshold: number): string {
+  const format = (value?: number) => (value === undefined ? '-' : value.toLocaleString('en-US'));
+  const diff = ({ baseline, current }: GasComparison) => {
+    if (baseline === undefined || current === undefined) return '-';
+    const delta = current - baseline;
+    const sign = delta > 0 ? '+' : '';
+    return `${sign}${format(delta)} (${sign}${((delta / baseline) * 100).toFixed(2)}%)`;
+  };
+  const failed = comparisons.filter((x) => FAILURES.includes(x.status)).length;
+
+  return [
+    '## Gas report',
+    '',
+    `Regression threshold: ${threshold}%. ${failed === 0 ? 'All checks passed.' : `${failed} check(s) failed.`}`,
+    '',
+    '| Function | Case | Baseline | Current | Diff | Budget | Status |',
+    '| --- | --- | ---: | ---: | ---: | ---: | --- |',
+    ...comparisons.map((x) => {
+      const status = FAILURES.includes(x.status) ? `**${x.status}**` : x.status;
+      const cells = [x.function, x.case, format(x.baseline), format(x.current), diff(x), format(x.budget), status];
+      return `| ${cells.join(' | ')} |`;
+    }),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Runs the benchmark transactions on a hardhat network snapshot with pinned block timestamps, so that the results
+ * are reproducible. The snapshot is reverted afterwards.
+ */
+export async function runGasBenchmarks(hre: HardhatRuntimeEnvironment): Promise<GasResults> {
+  if (hre.network.name !== 'hardhat') throw new Error('Gas benchmarks are only supported on the hardhat network');
+  const { findEvent, parseBaseRate } = await import('../sdk');
+  const {
+    EnterpriseFactory__factory,
+    Enterprise__factory,
+    ERC20Mock__factory,
+    MockConverter__factory,
+    PowerToken__factory,
+    RentalToken__factory,
+  } = await import('../typechain');
+  const { deployments, ethers } = hre;
+  const provider = ethers.provider;
+  const ONE_DAY = 86400;
+  const ONE_TOKEN = 10n ** 18n;
+  const ONE_USDC = 10n ** 6n;
+
+  if (!(await deployments.getOrNull('EnterpriseFactory'))) await deployments.fixture();
+  const snapshot = await provider.send('evm_snapshot', []);
+  try {
+    const [deployer, staker, staker2, renter, stranger] = await ethers.getSigners();
+    const results: GasResults = {};
+    let time = (await provider.getBlock('latest')).timestamp;
+    const next = async <T>(send: () => Promise<T>) => {
+      await provider.send('evm_setNextBlockTimestamp', [++time]);
+      return send();
+    };
+    const measure = async (
+      name: string,
+      label: string,
+      send: () => Promise<ContractTransaction>
+    ): Promise<ContractReceipt> => {
+      const receipt = await (await next(send)).wait();
+      results[name] = { ...results[name], [label]: receipt.gasUsed.toNumber() };
+      return receipt;
+    };
+
+    const token = await next(() => new ERC20Mock__factory(deployer).deploy('Gas', 'GAS', 18, ONE_TOKEN * 10n ** 9n));
+    const usdc = await next(() => new ERC20Mock__factory(deployer).deploy('USDC', 'USDC', 6, ONE_USDC * 10n ** 9n));
+    const converter = await next(() => new MockConverter__factory(deployer).deploy());
+    await next(() => converter.setRate(usdc.address, token.address, 350_000n));
+    await next(() => token.transfer(converter.address, ONE_TOKEN * 1_000_000n));
+    await next(() => usdc.transfer(converter.address, ONE_USDC * 1_000_000n));
+
+    const factory = EnterpriseFactory__factory.connect((await deployments.get('EnterpriseFactory')).address, deployer);
+    const deployed = await measure('EnterpriseFactory.deploy', 'enterprise', () =>
+      factory.deploy('Gas', token.address, 'https://iq.space', 200, converter.address)
+    );
+    const enterprise = Enterprise__factory.connect(
+      findEvent(deployed, factory, 'EnterpriseDeployed').args.deployed,
+      deployer
+    );
+    await next(() => enterprise.enablePaymentToken(usdc.address));
+
+    const registerService = async (
+      label: string,
+      symbol: string,
+      baseToken: string,
+      minGCFee: bigint,
+      swappingEnabled: boolean
+    ) => {
+      const receipt = await measure('Enterprise.registerService', label, () =>
+        enterprise.registerService(
+          `Gas ${symbol}`,
+          symbol,
+          ONE_DAY,
+          parseBaseRate({ tokens: 100, period: ONE_DAY, price: 3 }),
+          baseToken,
+          300,
+          ONE_DAY / 2,
+          ONE_DAY * 60,
+          minGCFee,
+          swappingEnabled
+        )
+      );
+      return PowerToken__factory.connect(findEvent(receipt, enterprise, 'ServiceRegistered').args.powerToken, deployer);
+    };
+    const serviceA = await registerService('enterprise token base rate', 'GSA', token.address, ONE_TOKEN, true);
+    const serviceB = await registerService('USDC base rate', 'GSB', usdc.address, ONE_USDC, false);
+    await next(() => serviceA.enableTransferForever());
+
+    for (const account of [staker, staker2, renter]) {
+      await next(() => token.transfer(account.address, ONE_TOKEN * 1_000_000n));
+      await next(() => usdc.transfer(account.address, ONE_USDC * 1_000_000n));
+      await next(() => token.connect(account).approve(enterprise.address, ethers.constants.MaxUint256));
+      await next(() => usdc.connect(account).approve(enterprise.address, ethers.constants.MaxUint256));
+    }
+
+    const stake = async (label: string, account: typeof staker, amount: bigint) => {
+      const receipt = await measure('Enterprise.stake', label, () => enterprise.connect(account).stake(amount));
+      return findEvent(receipt, enterprise, 'StakeChanged').args.stakeTokenId;
+    };
+    const stake1 = await stake('first stake', staker, ONE_TOKEN * 100_000n);
+    const stake2 = await stake('second stake', staker2, ONE_TOKEN * 50_000n);
+
+    const rent = async (label: string, service: typeof serviceA, paymentToken: typeof token) => {
+      const receipt = await measure('Enterprise.rent', label, () =>
+        enterprise
+          .connect(renter)
+          .rent(service.address, paymentToken.address, ONE_TOKEN * 1000n, ONE_DAY, ethers.constants.MaxUint256)
+      );
+      return findEvent(receipt, enterprise, 'Rented').args.rentalTokenId;
+    };
+    const rental1 = await rent('enterprise token', serviceA, token);
+    const rental2 = await rent('USDC payment', serviceA, usdc);
+    const rental3 = await rent('USDC base rate', serviceB, token);
+    const rental4 = await rent('USDC base rate, USDC payment', serviceB, usdc);
+
+    const extend = (label: string, rentalTokenId: BigNumber, paymentToken: typeof token) =>
+      measure('Enterprise.extendRentalPeriod', label, () =>
+        enterprise
+          .connect(renter)
+          .extendRentalPeriod(rentalTokenId, paymentToken.address, ONE_DAY, ethers.constants.MaxUint256)
+      );
+    await extend('enterprise token', rental1, token);
+    await extend('USDC payment', rental2, usdc);
+    await extend('USDC base rate', rental3, token);
+
+    await next(() => token.connect(renter).approve(serviceA.address, ethers.constants.MaxUint256));
+    await next(() => serviceA.connect(renter).swapIn(ONE_TOKEN * 100n));
+    await measure('PowerToken.transfer', 'swapped tokens', () =>
+      serviceA.connect(renter).transfer(stranger.address, ONE_TOKEN * 10n)
+    );
+    const rentalToken = RentalToken__factory.connect(await enterprise.getRentalToken(), renter);
+    await measure('PowerToken.transfer', 'rental transfer', () =>
+      rentalToken.transferFrom(renter.address, stranger.address, rental2)
+    );
+
+    await measure('Enterprise.returnRental', 'by renter', () => enterprise.connect(renter).returnRental(rental1));
+    await measure('Enterprise.returnRental', 'by owner of transferred rental', () =>
+      enterprise.connect(stranger).returnRental(rental2)
+    );
+    // Anyone collects the GC reward once the enterprise only collection period is over.
+    time += ONE_DAY * 4;
+    await measure('Enterprise.returnRental', 'garbage collection', () =>
+      enterprise.connect(stranger).returnRental(rental3)
+    );
+    await measure('Enterprise.returnRental', 'garbage collection, USDC base rate', () =>
+      enterprise.connect(stranger).returnRental(rental4)
+    );
+
+    time += ONE_DAY * 30;
+    await measure('Enterprise.unstake', 'first stake', () => enterprise.connect(staker).unstake(stake1));
+    await measure('Enterprise.unstake', 'last stake', () => enterprise.connect(staker2).unstake(stake2));
+    return results;
+  } finally {
+    await provider.send('evm_revert', [snapshot]);
+  }
+}
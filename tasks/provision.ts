@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { EnterpriseManifest, ProvisioningStep } from '../sdk';
+import type { Enterprise } from '../typechain';
+
+export interface ProvisioningResult {
+  address: string;
+  deployed: boolean;
+  steps: ProvisioningStep[];
+}
+
+const MAX_PASSES = 3;
+
+task('enterprise:provision', 'Deploys or updates the enterprise described by the manifest')
+  .addPositionalParam('manifest', 'Path to JSON or YAML enterprise manifest')
+  .addFlag('dryRun', 'Print the changes without sending transactions')
+  .setAction(async ({ manifest, dryRun }, hre) => provision(hre, manifest, dryRun));
+
+async function provision(
+  hre: HardhatRuntimeEnvironment,
+  manifestPath: string,
+  dryRun: boolean
+): Promise<ProvisioningResult> {
+  // SDK depends on typechain bindings which are generated by the compilation.
+  const { findEvent, parseManifest, planProvisioning } = await import('../sdk');
+  const { Enterprise__factory, EnterpriseFactory__factory } = await import('../typechain');
+  const { deployments, getNamedAccounts, ethers } = hre;
+  const { deployer } = await getNamedAccounts();
+  const signer = await ethers.getSigner(deployer);
+
+  const manifest = await resolveManifest(hre, parseManifest(await fs.readFile(manifestPath, 'utf8')));
+  const deploymentName = manifest.deploymentName ?? `Enterprise_${manifest.name.replace(/\W+/g, '_')}`;
+  const result: ProvisioningResult = { address: '', deployed: false, steps: [] };
+
+  const deployment = await deployments.getOrNull(deploymentName);
+  if (deployment) {
+    result.address = deployment.address;
+  } else if (dryRun) {
+    console.log(`deploy ${deploymentName} (${manifest.name}) using EnterpriseFactory`);
+    return result;
+  } else {
+    const { address: factoryAddress } = await deployments.get('EnterpriseFactory');
+    const factory = EnterpriseFactory__factory.connect(factoryAddress, signer);
+    const receipt = await (
+      await factory.deploy(
+        manifest.name,
+        manifest.enterpriseToken,
+        manifest.baseUri,
+        manifest.gcFeePercent,
+        manifest.converter
+      )
+    ).wait();
+    result.address = findEvent(receipt, factory, 'EnterpriseDeployed').args.deployed;
+    result.deployed = true;
+    await deployments.save(deploymentName, {
+      address: result.address,
+      abi: (await deployments.getArtifact('Enterprise')).abi,
+      transactionHash: receipt.transactionHash,
+      // The address book reads the deployment block from the receipt.
+      receipt,
+    });
+    console.log(`deployed ${deploymentName} (tx: ${receipt.transactionHash}) at ${result.address}`);
+  }
+
+  const enterprise = Enterprise__factory.connect(result.address, signer);
+  // Newly registered services are configured during the next pass.
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const plan = await planProvisioning(enterprise, manifest);
+    if (plan.conflicts.length > 0) {
+      throw new Error(`Manifest conflicts with ${deploymentName}:\n${plan.conflicts.join('\n')}`);
+    }
+    if (plan.steps.length === 0) break;
+
+    for (const step of plan.steps) {
+      console.log(`${dryRun ? 'would execute' : 'executing'} ${step.description}`);
+      if (!dryRun) {
+        await (await signer.sendTransaction({ to: step.to, data: step.data })).wait();
+      }
+      result.steps.push(step);
+    }
+    if (dryRun) break;
+  }
+
+  if (!dryRun) {
+    await savePowerTokens(hre, enterprise, deploymentName);
+  }
+  return result;
+}
+
+/**
+ * Resolves named accounts and deployment names used in the manifest into addresses.
+ */
+async function resolveManifest(
+  hre: HardhatRuntimeEnvironment,
+  manifest: EnterpriseManifest
+): Promise<EnterpriseManifest> {
+  const accounts = await hre.getNamedAccounts();
+  const resolve = async (value: string): Promise<string> => {
+    if (hre.ethers.utils.isAddress(value)) return value;
+    if (accounts[value]) return accounts[value];
+
+    const deployment = await hre.deployments.getOrNull(value);
+    if (!deployment) throw new Error(`Cannot resolve address: ${value}`);
+    return deployment.address;
+  };
+  const resolveOptional = async (value?: string) => (value === undefined ? undefined : resolve(value));
+
+  return {
+    ...manifest,
+    enterpriseToken: await resolve(manifest.enterpriseToken),
+    converter: await resolve(manifest.converter),
+    enterpriseWallet: await resolveOptional(manifest.enterpriseWallet),
+    enterpriseCollector: await resolveOptional(manifest.enterpriseCollector),
+    paymentTokens: manifest.paymentTokens && (await Promise.all(manifest.paymentTokens.map(resolve))),
+    services:
+      manifest.services &&
+      (await Promise.all(
+        manifest.services.map(async (service) => ({ ...service, baseToken: await resolve(service.baseToken) }))
+      )),
+  };
+}
+
+/**
+ * Saves registered power tokens as `<enterprise deployment>_<service symbol>` deployments.
+ */
+async function savePowerTokens(
+  hre: HardhatRuntimeEnvironment,
+  enterprise: Enterprise,
+  deploymentName: string
+): Promise<void> {
+  const { PowerToken__factory } = await import('../typechain');
+  const { abi } = await hre.deployments.getArtifact('PowerToken');
+
+  for (const address of await enterprise.getPowerTokens()) {
+    const symbol = (await PowerToken__factory.connect(address, enterprise.provider).symbol()).split(' ').pop();
+    const name = `${deploymentName}_${symbol}`;
+    const deployment = await hre.deployments.getOrNull(name);
+    if (deployment?.address !== address) {
+      await hre.deployments.save(name, { address, abi });
+    }
+  }
+}
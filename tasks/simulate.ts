@@ -0,0 +1,223 @@
+import { promises as fs } from 'fs';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ContractReceipt, ContractTransaction, Wallet } from 'ethers';
+import type { Distribution, SimulationAction, SimulationResult, SimulationScenario } from '../sdk';
+import type { PowerToken } from '../typechain';
+
+export interface Calibration {
+  actions: number;
+  /**
+   * Differences between the simulated and on-chain outcomes, empty when the model is confirmed.
+   */
+  mismatches: string[];
+}
+
+export interface SimulationTaskResult {
+  simulation: SimulationResult;
+  calibration?: Calibration;
+}
+
+const ONE_ETHER = '0xde0b6b3a7640000';
+
+task('enterprise:simulate', 'Runs the agent-based economic simulation of the enterprise pricing parameters')
+  .addPositionalParam('scenario', 'Path to JSON or YAML simulation scenario')
+  .addOptionalParam('output', 'Path to write the JSON report with all the simulated actions to')
+  .addFlag('calibrate', 'Replay the simulated actions on a hardhat network snapshot and compare the outcomes')
+  .setAction(async ({ scenario, output, calibrate }, hre) => runSimulation(hre, scenario, output, calibrate));
+
+async function runSimulation(
+  hre: HardhatRuntimeEnvironment,
+  scenarioPath: string,
+  output: string | undefined,
+  calibrate: boolean
+): Promise<SimulationTaskResult> {
+  // SDK depends on typechain bindings which are generated by the compilation.
+  const { parseSimulationScenario, simulate } = await import('../sdk');
+  const scenario = parseSimulationScenario(await fs.readFile(scenarioPath, 'utf8'));
+
+  const result: SimulationTaskResult = calibrate
+    ? await calibrateSimulation(hre, scenario)
+    : { simulation: simulate(scenario) };
+  printReport(result);
+
+  if (output) {
+    await fs.writeFile(
+      output,
+      JSON.stringify(result, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2)
+    );
+  }
+  return result;
+}
+
+/**
+ * Deploys the simulated enterprise on a hardhat network snapshot, replays every simulated action at the simulated
+ * timestamp and compares the outcomes. The snapshot is reverted afterwards.
+ */
+async function calibrateSimulation(
+  hre: HardhatRuntimeEnvironment,
+  scenario: SimulationScenario
+): Promise<SimulationTaskResult> {
+  if (hre.network.name !== 'hardhat') throw new Error('Calibration is only supported on the hardhat network');
+  const { decodeError, findEvent, IQClient, simulate } = await import('../sdk');
+  const { ERC20Mock__factory } = await import('../typechain');
+  const { deployments, ethers } = hre;
+  const provider = ethers.provider;
+
+  if (!(await deployments.getOrNull('EnterpriseFactory'))) await deployments.fixture();
+  const snapshot = await provider.send('evm_snapshot', []);
+  try {
+    const [deployer] = await ethers.getSigners();
+    const agents = [...scenario.stakers, ...scenario.renters].reduce((sum, x) => sum + x.count, 0);
+    const supply = 1n << 110n;
+    const token = await new ERC20Mock__factory(deployer).deploy('Simulation', 'SIM', 18, supply);
+    const client = await IQClient.deploy((await deployments.get('EnterpriseFactory')).address, deployer, {
+      name: 'Simulation',
+      enterpriseToken: token.address,
+      baseUri: 'https://iq.space',
+      gcFeePercent: scenario.enterprise.gcFeePercent,
+      converter: (await deployments.get('DefaultConverter')).address,
+    });
+    await client.enterprise.setBondingCurve(scenario.enterprise.bondingPole, scenario.enterprise.bondingSlope);
+    await client.enterprise.setStreamingReserveHalvingPeriod(scenario.enterprise.streamingReserveHalvingPeriod);
+    const powerTokens: PowerToken[] = [];
+    for (const [index, service] of scenario.services.entries()) {
+      powerTokens.push(
+        await client.registerService({
+          ...service,
+          name: `Simulation Service ${index}`,
+          symbol: `SIM${index}`,
+          baseToken: token.address,
+          swappingEnabledForever: false,
+        })
+      );
+    }
+
+    const wallets: Wallet[] = Array.from(
+      { length: agents },
+      (_, i) => new ethers.Wallet(ethers.utils.id(`iq-simulation-${scenario.seed}-${i}`), provider)
+    );
+    for (const wallet of wallets) {
+      await provider.send('hardhat_setBalance', [wallet.address, ONE_ETHER]);
+      await token.transfer(wallet.address, supply / BigInt(agents + 1));
+      await token.connect(wallet).approve(client.address, ethers.constants.MaxUint256);
+    }
+
+    const simulation = simulate({ ...scenario, startTime: (await provider.getBlock('latest')).timestamp + 1 });
+    const mismatches: string[] = [];
+    const stakeIds = new Map<number, string>();
+    const rentalIds = new Map<number, string>();
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+      if (String(actual) !== String(expected)) mismatches.push(`${label}: ${actual} on-chain, ${expected} simulated`);
+    };
+
+    const compareAction = (action: SimulationAction, label: string, receipt: ContractReceipt) => {
+      if (action.type === 'stake' || action.type === 'unstake') {
+        const { args } = findEvent(receipt, client.enterprise, 'StakeChanged');
+        if (action.type === 'stake') stakeIds.set(action.stakeId as number, args.stakeTokenId.toString());
+        else expect(`${label} payout`, args.amountDelta, action.payout);
+      } else if (action.type === 'rent' || action.type === 'extend') {
+        const { args } = findEvent(
+          receipt,
+          client.enterprise,
+          action.type === 'rent' ? 'Rented' : 'RentalPeriodExtended'
+        );
+        if (action.type === 'rent') rentalIds.set(action.rentalId as number, args.rentalTokenId.toString());
+        expect(`${label} pool fee`, args.poolFee, action.fee?.poolFee);
+        expect(`${label} service fee`, args.serviceFee, action.fee?.serviceFee);
+        if (action.type === 'rent') expect(`${label} GC fee`, args.gcFee, action.fee?.gcFee);
+      }
+    };
+
+    for (const [index, action] of simulation.actions.entries()) {
+      const label = `#${index} ${action.type} by agent ${action.agent} at ${action.timestamp}`;
+      const enterprise = client.enterprise.connect(wallets[action.agent]);
+      const send = (): Promise<ContractTransaction> => {
+        switch (action.type) {
+          case 'stake':
+            return enterprise.stake(action.amount as bigint);
+          case 'unstake':
+            return enterprise.unstake(stakeIds.get(action.stakeId as number) as string);
+          case 'rent':
+            return enterprise.rent(
+              powerTokens[action.service as number].address,
+              token.address,
+              action.amount as bigint,
+              action.period as number,
+              action.maxPayment as bigint
+            );
+          case 'extend':
+            return enterprise.extendRentalPeriod(
+              rentalIds.get(action.rentalId as number) as string,
+              token.address,
+              action.period as number,
+              action.maxPayment as bigint
+            );
+          case 'return':
+            return enterprise.returnRental(rentalIds.get(action.rentalId as number) as string);
+        }
+      };
+
+      await provider.send('evm_setNextBlockTimestamp', [action.timestamp]);
+      let receipt: ContractReceipt;
+      try {
+        receipt = await (await send()).wait();
+      } catch (e) {
+        const decoded = decodeError(e);
+        if (!decoded) throw e;
+        expect(`${label} error`, decoded.error, action.error);
+        continue;
+      }
+      if (action.error) {
+        mismatches.push(`${label}: succeeded on-chain, failed with ${action.error} simulated`);
+        continue;
+      }
+      compareAction(action, label, receipt);
+    }
+
+    const { finalState } = simulation.report;
+    await provider.send('evm_mine', [finalState.timestamp]);
+    const info = await client.enterprise.getInfo();
+    expect('total shares', info.totalShares, finalState.totalShares);
+    expect('fixed reserve', info.fixedReserve, finalState.fixedReserve);
+    expect('used reserve', info.usedReserve, finalState.usedReserve);
+    expect('streaming reserve', info.streamingReserve, finalState.streamingReserve);
+    expect('streaming reserve target', info.streamingReserveTarget, finalState.streamingReserveTarget);
+    expect('reserve', await client.enterprise.getReserve(), finalState.reserve);
+
+    return { simulation, calibration: { actions: simulation.actions.length, mismatches } };
+  } finally {
+    await provider.send('evm_revert', [snapshot]);
+  }
+}
+
+function printReport({ simulation, calibration }: SimulationTaskResult): void {
+  const { report } = simulation;
+  const row = (name: string, x: Distribution, digits: number) => ({
+    metric: name,
+    count: x.count,
+    mean: x.mean.toFixed(digits),
+    min: x.min.toFixed(digits),
+    p10: x.p10.toFixed(digits),
+    p50: x.p50.toFixed(digits),
+    p90: x.p90.toFixed(digits),
+    max: x.max.toFixed(digits),
+  });
+
+  console.log(`Agents: ${simulation.agents}, actions: ${simulation.actions.length}`);
+  console.table({ ...report.actions, unserved: report.unservedRentals, ...report.errors });
+  console.table([
+    row('utilization', report.utilization, 4),
+    row('staker APY, %', report.stakerApy, 2),
+    row('renter cost, tokens per token-day', report.renterCost, 6),
+    row('slippage, bps', report.slippage, 2),
+    row('energy efficiency', report.energyEfficiency, 4),
+  ]);
+  if (calibration) {
+    console.log(
+      calibration.mismatches.length === 0
+        ? `Calibration: ${calibration.actions} actions replayed with identical outcomes`
+        : `Calibration: ${calibration.mismatches.length} mismatches\n${calibration.mismatches.join('\n')}`
+    );
+  }
+}
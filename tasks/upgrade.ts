@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { RecordedImplementation, StorageLayout, UpgradeComponent, UpgradePlan, UpgradeTargets } from '../sdk';
+
+export interface UpgradeSimulation {
+  success: boolean;
+  error?: string;
+}
+
+export interface UpgradePlanResult {
+  plan: UpgradePlan;
+  simulation?: UpgradeSimulation;
+}
+
+/**
+ * Implementation contracts, their layouts start with `EnterpriseStorage`, `RentalTokenStorage` etc.
+ */
+const COMPONENTS: Record<UpgradeComponent, { contract: string; param: string }> = {
+  enterprise: { contract: 'contracts/Enterprise.sol:Enterprise', param: 'enterpriseImpl' },
+  rental: { contract: 'contracts/RentalToken.sol:RentalToken', param: 'rentalImpl' },
+  stake: { contract: 'contracts/StakeToken.sol:StakeToken', param: 'stakeImpl' },
+  power: { contract: 'contracts/PowerToken.sol:PowerToken', param: 'powerImpl' },
+};
+
+task('enterprise:upgrade-plan', 'Checks storage layout compatibility and builds Enterprise.upgrade calldata')
+  .addPositionalParam('enterprise', 'Enterprise address or deployment name')
+  .addOptionalParam(
+    'deployments',
+    'Network folder in deployments/ with recorded implementations (defaults to current deployments)'
+  )
+  .addOptionalParam('factory', 'EnterpriseFactory address or deployment name', 'EnterpriseFactory')
+  .addOptionalParam('enterpriseImpl', 'Enterprise implementation address or deployment name', 'Enterprise')
+  .addOptionalParam('rentalImpl', 'RentalToken implementation address or deployment name', 'RentalToken')
+  .addOptionalParam('stakeImpl', 'StakeToken implementation address or deployment name', 'StakeToken')
+  .addOptionalParam('powerImpl', 'PowerToken implementation address or deployment name', 'PowerToken')
+  .addOptionalParam(
+    'skip',
+    'Comma separated components not to upgrade: enterprise,rental,stake,power',
+    '',
+    types.string
+  )
+  .addFlag('simulate', 'Execute the upgrade on a hardhat network snapshot and revert it')
+  .setAction(async (args, hre) => planEnterpriseUpgrade(hre, args));
+
+async function planEnterpriseUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  args: Record<string, string | boolean | undefined>
+): Promise<UpgradePlanResult> {
+  // SDK depends on typechain bindings which are generated by the compilation.
+  const { isBlockingIssue, planUpgrade } = await import('../sdk');
+  const { Enterprise__factory } = await import('../typechain');
+  const { ethers } = hre;
+
+  const skip = (args.skip as string).split(',').filter((x) => x.length > 0);
+  const targets: UpgradeTargets = { factory: await resolveAddress(hre, args.factory as string) };
+  for (const [component, { contract, param }] of Object.entries(COMPONENTS)) {
+    if (skip.includes(component)) continue;
+    targets[component as UpgradeComponent] = {
+      implementation: await resolveAddress(hre, args[param] as string),
+      storageLayout: await getCompiledStorageLayout(hre, contract),
+    };
+  }
+
+  const enterprise = Enterprise__factory.connect(await resolveAddress(hre, args.enterprise as string), ethers.provider);
+  const recorded = await getRecordedImplementations(hre, args.deployments as string | undefined);
+  const plan = await planUpgrade(enterprise, targets, recorded);
+
+  console.log(`Enterprise: ${plan.enterprise}, owner: ${plan.owner}`);
+  console.table(
+    plan.upgrades.map((x) => ({
+      component: x.component,
+      proxy: x.proxy,
+      implementation: x.implementation,
+      deployment: x.deployment ?? '',
+      target: x.target,
+      issues: x.issues.length,
+    }))
+  );
+  for (const { proxy, issues } of plan.upgrades) {
+    for (const issue of issues) {
+      console.log(`${isBlockingIssue(issue) ? 'ERROR' : 'WARNING'} ${proxy}: ${issue.message}`);
+    }
+  }
+  console.log(plan.compatible ? 'Storage layouts are compatible' : 'Storage layouts are NOT compatible');
+  console.log(`upgrade calldata (to: ${plan.enterprise}, from: ${plan.owner}):\n${plan.data}`);
+
+  const result: UpgradePlanResult = { plan };
+  if (args.simulate) {
+    result.simulation = await simulateUpgrade(hre, plan);
+    console.log(
+      result.simulation.success ? 'Simulation succeeded' : `Simulation failed: ${result.simulation.error ?? ''}`
+    );
+  }
+  return result;
+}
+
+async function resolveAddress(hre: HardhatRuntimeEnvironment, value: string): Promise<string> {
+  if (hre.ethers.utils.isAddress(value)) return value;
+
+  const deployment = await hre.deployments.getOrNull(value);
+  if (!deployment) throw new Error(`Cannot resolve address: ${value}`);
+  return deployment.address;
+}
+
+async function getCompiledStorageLayout(hre: HardhatRuntimeEnvironment, fullName: string): Promise<StorageLayout> {
+  const [sourceName, contractName] = fullName.split(':');
+  const buildInfo = await hre.artifacts.getBuildInfo(fullName);
+  const storageLayout = (buildInfo?.output.contracts[sourceName]?.[contractName] as { storageLayout?: StorageLayout })
+    ?.storageLayout;
+  if (!storageLayout) throw new Error(`Storage layout of ${fullName} is not compiled`);
+  return storageLayout;
+}
+
+/**
+ * Loads deployments with recorded storage layouts either from `deployments/<network>` or from the current network
+ * (which includes the forked network deployments when `HARDHAT_FORK` is set).
+ */
+async function getRecordedImplementations(
+  hre: HardhatRuntimeEnvironment,
+  network?: string
+): Promise<RecordedImplementation[]> {
+  const deployments: Record<string, { address: string; storageLayout?: StorageLayout; deployedBytecode?: string }> = {};
+  if (network) {
+    const dir = path.join(hre.config.paths.root, 'deployments', network);
+    for (const file of await fs.readdir(dir)) {
+      if (path.extname(file) !== '.json') continue;
+      deployments[path.basename(file, '.json')] = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+    }
+  } else {
+    Object.assign(deployments, await hre.deployments.all());
+  }
+
+  const recorded: RecordedImplementation[] = [];
+  for (const [name, { address, storageLayout, deployedBytecode }] of Object.entries(deployments)) {
+    if (storageLayout) {
+      recorded.push({ name, address, storageLayout });
+      continue;
+    }
+    // Deployments of the hardhat network are kept in memory without storage layouts.
+    const artifact = await hre.deployments.getExtendedArtifact(name).catch(() => undefined);
+    if (artifact?.storageLayout && deployedBytecode && artifact.deployedBytecode === deployedBytecode) {
+      recorded.push({ name, address, storageLayout: artifact.storageLayout });
+    }
+  }
+  return recorded;
+}
+
+/**
+ * Sends the upgrade transaction on behalf of the impersonated owner and reverts the chain afterwards.
+ */
+async function simulateUpgrade(hre: HardhatRuntimeEnvironment, plan: UpgradePlan): Promise<UpgradeSimulation> {
+  const { getImplementation } = await import('../sdk');
+  if (hre.network.name !== 'hardhat') {
+    throw new Error('Upgrade can be simulated on the hardhat network only');
+  }
+  const provider = hre.network.provider;
+  const snapshot = await provider.request({ method: 'evm_snapshot', params: [] });
+  try {
+    await provider.request({ method: 'hardhat_impersonateAccount', params: [plan.owner] });
+    await provider.request({ method: 'hardhat_setBalance', params: [plan.owner, '0xde0b6b3a7640000'] });
+    const owner = await hre.ethers.getSigner(plan.owner);
+    await (await owner.sendTransaction({ to: plan.enterprise, data: plan.data })).wait();
+
+    for (const { proxy, target } of plan.upgrades) {
+      const implementation = await getImplementation(hre.ethers.provider, proxy);
+      if (implementation !== hre.ethers.utils.getAddress(target)) {
+        return { success: false, error: `${proxy} implementation is ${implementation} instead of ${target}` };
+      }
+    }
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: (e as Error).message };
+  } finally {
+    await provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [plan.owner] });
+    await provider.request({ method: 'evm_revert', params: [snapshot] });
+  }
+}
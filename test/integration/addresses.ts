@@ -1 +0,0 @@
-export const PARSIQ_ENTERPRISE_ADDRESS = '0xfAA9721D51c49f0CA7e82203d7914c9726b5cCaB';
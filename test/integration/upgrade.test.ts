@@ -12,9 +12,11 @@ import {
   PowerToken__factory,
 } from '../../typechain';
 import { impersonate, resetFork } from '../utils';
-import { PARSIQ_ENTERPRISE_ADDRESS } from './addresses';
+import { DEPLOYED_ADDRESSES } from '../../sdk';
 import { BigNumber } from '@ethersproject/bignumber';
 
+const PARSIQ_ENTERPRISE_ADDRESS = DEPLOYED_ADDRESSES[56].enterprises.PARSIQ.address;
+
 // prettier-ignore
 const ENTERPRISE_ABI = require('../../deployments/binance/Enterprise.json').abi;
 // prettier-ignore
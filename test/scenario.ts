@@ -0,0 +1,590 @@
+import { promises as fs } from 'fs';
+import { JSON_SCHEMA, load } from 'js-yaml';
+import { BigNumber, ContractTransaction } from 'ethers';
+import { formatUnits, parseUnits } from 'ethers/lib/utils';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { BaseRateManifest, decodeError, Errors, parseBaseRate } from '../sdk';
+import { Enterprise, ERC20Mock, ERC20Mock__factory, PowerToken } from '../typechain';
+import {
+  currentTime,
+  deployEnterprise,
+  getPowerToken,
+  getRentalTokenId,
+  getStakeTokenId,
+  nextBlock,
+  setNextBlockTimestamp,
+} from './utils';
+
+/** Whole tokens, e.g. `1000` or `'0.5'`. */
+export type TokenAmount = string | number;
+
+/** Seconds or a duration like `'12h'`, `'30d'`, `'1d12h'`. */
+export type Duration = string | number;
+
+/** Token amount or percentage of the expected value, e.g. `'0.1%'`. */
+export type Tolerance = TokenAmount;
+
+/**
+ * Whole tokens or an expression of the values measured at the step, e.g. `'paid.renter * 3 / 4'` or
+ * `'reward.stake2 + 2000'`. Expressions support `+ - * /`, parentheses and the variables `balance.<actor>`,
+ * `paid.<actor>`, `stake.<stake>`, `shares.<stake>`, `reward.<stake>`, `reserve`, `usedReserve` and
+ * `availableReserve`, all in whole tokens.
+ */
+export type Expectation = TokenAmount;
+
+export interface ScenarioService {
+  baseRate: BaseRateManifest | string;
+  energyGapHalvingPeriod?: Duration;
+  serviceFeePercent?: number;
+  minRentalPeriod: Duration;
+  maxRentalPeriod: Duration;
+  minGCFee?: TokenAmount;
+  swappingEnabled?: boolean;
+}
+
+/**
+ * Expected state after the step. Stakes and rentals are referenced by the names given with `as`.
+ */
+export interface ScenarioExpectations {
+  /** Enterprise token balances of the actors. */
+  balance?: Record<string, Expectation>;
+  /** Total rental and extension payments of the actors. */
+  paid?: Record<string, Expectation>;
+  stake?: Record<string, Expectation>;
+  reward?: Record<string, Expectation>;
+  reserve?: Expectation;
+  usedReserve?: Expectation;
+  availableReserve?: Expectation;
+}
+
+export interface ScenarioStep {
+  /** Offset from the scenario start, offsets starting with `+` are relative to the previous step. */
+  at: Duration;
+  actor?: string;
+  stake?: { amount: TokenAmount; as: string };
+  increaseStake?: { stake: string; amount: TokenAmount };
+  decreaseStake?: { stake: string; amount: TokenAmount };
+  unstake?: { stake: string };
+  claimReward?: { stake: string };
+  rent?: { service: string; amount: TokenAmount; period: Duration; maxPayment: TokenAmount; as?: string };
+  extend?: { rental: string; period: Duration; maxPayment: TokenAmount };
+  returnRental?: { rental: string };
+  /** Expected protocol error, e.g. `E_INSUFFICIENT_LIQUIDITY`. */
+  reverts?: keyof typeof Errors;
+  /** Enterprise events expected to be emitted by the action, e.g. `Rented`. */
+  emits?: string | string[];
+  tolerance?: Tolerance;
+  expect?: ScenarioExpectations;
+}
+
+/**
+ * Declarative multi-actor scenario. Actors are given with their initial enterprise token balances
+ * and services are keyed by their symbols.
+ */
+export interface Scenario {
+  name: string;
+  /** Default tolerance of the expectations, exact by default. */
+  tolerance?: Tolerance;
+  enterprise?: {
+    streamingReserveHalvingPeriod?: Duration;
+    renterOnlyReturnPeriod?: Duration;
+    enterpriseOnlyCollectionPeriod?: Duration;
+  };
+  actors: Record<string, TokenAmount>;
+  services: Record<string, ScenarioService>;
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioCheck {
+  name: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export interface ScenarioStepReport {
+  index: number;
+  /** Seconds since the scenario start. */
+  offset: number;
+  actor?: string;
+  action: string;
+  outcome: string;
+  checks: ScenarioCheck[];
+}
+
+export interface ScenarioReport {
+  name: string;
+  steps: ScenarioStepReport[];
+  failed: boolean;
+}
+
+const ACTIONS = [
+  'stake',
+  'increaseStake',
+  'decreaseStake',
+  'unstake',
+  'claimReward',
+  'rent',
+  'extend',
+  'returnRental',
+] as const;
+type ScenarioAction = typeof ACTIONS[number];
+
+const DURATION_UNITS: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+
+/**
+ * Scenario failed an expectation, the message contains the report up to the failed step.
+ */
+export class ScenarioFailure extends Error {
+  readonly name = 'ScenarioFailure';
+
+  constructor(readonly report: ScenarioReport) {
+    super(formatScenarioReport(report));
+  }
+}
+
+export function parseDuration(value: Duration): number {
+  if (typeof value === 'number') return value;
+  const text = value.replace(/\s+/g, '');
+  if (/^\d+$/.test(text)) return Number(text);
+  if (!/^(\d+(\.\d+)?[dhms])+$/.test(text)) throw new Error(`Invalid duration: ${value}`);
+  let seconds = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)([dhms])/g)) {
+    seconds += Number(amount) * DURATION_UNITS[unit];
+  }
+  return Math.round(seconds);
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds === 0) return '0s';
+  return Object.entries(DURATION_UNITS)
+    .map(([unit, size]) => {
+      const amount = Math.floor(seconds / size);
+      seconds %= size;
+      return amount > 0 ? `${amount}${unit}` : '';
+    })
+    .join('');
+}
+
+/**
+ * Parses JSON or YAML scenario.
+ */
+export function parseScenario(text: string): Scenario {
+  // Relative offsets like `+0` are kept as strings.
+  const scenario = load(text, { schema: JSON_SCHEMA }) as Scenario;
+  if (typeof scenario !== 'object' || scenario === null) throw new Error('Invalid scenario');
+  for (const field of ['name', 'actors', 'services', 'steps'] as const) {
+    if (scenario[field] === undefined) throw new Error(`Scenario: missing "${field}"`);
+  }
+  for (const [index, step] of scenario.steps.entries()) {
+    const actions = ACTIONS.filter((x) => step[x] !== undefined);
+    if (step.at === undefined) throw new Error(`Scenario: step #${index + 1} is missing "at"`);
+    if (actions.length > 1) throw new Error(`Scenario: step #${index + 1} has several actions: ${actions.join(', ')}`);
+    if (actions.length > 0 && step.actor === undefined) {
+      throw new Error(`Scenario: step #${index + 1} is missing "actor"`);
+    }
+    if (actions.length === 0 && (step.reverts !== undefined || step.emits !== undefined)) {
+      throw new Error(`Scenario: step #${index + 1} has no action`);
+    }
+  }
+  return scenario;
+}
+
+export async function loadScenario(file: string): Promise<Scenario> {
+  return parseScenario(await fs.readFile(file, 'utf8'));
+}
+
+interface ScenarioContext {
+  token: ERC20Mock;
+  enterprise: Enterprise;
+  actors: Map<string, SignerWithAddress>;
+  services: Map<string, PowerToken>;
+  stakes: Map<string, BigNumber>;
+  rentals: Map<string, BigNumber>;
+  paid: Map<string, bigint>;
+}
+
+/**
+ * Deploys the scenario enterprise and executes the steps at pinned block timestamps. Throws `ScenarioFailure`
+ * at the first step with failed expectations.
+ */
+export async function runScenario(scenario: Scenario): Promise<ScenarioReport> {
+  const context = await deployScenario(scenario);
+  const report: ScenarioReport = { name: scenario.name, steps: [], failed: false };
+  const start = (await currentTime()) + 1;
+  let offset = 0;
+
+  for (const [index, step] of scenario.steps.entries()) {
+    const at =
+      typeof step.at === 'string' && step.at.startsWith('+')
+        ? offset + parseDuration(step.at.slice(1))
+        : parseDuration(step.at);
+    // Steps sharing the time are mined in consecutive blocks.
+    const timestamp = Math.max(start + at, (await currentTime()) + 1);
+    offset = timestamp - start;
+
+    const action = ACTIONS.find((x) => step[x] !== undefined);
+    const stepReport: ScenarioStepReport = {
+      index: index + 1,
+      offset,
+      actor: step.actor,
+      action: action ? describeAction(step, action) : 'check',
+      outcome: 'ok',
+      checks: [],
+    };
+    report.steps.push(stepReport);
+
+    if (action) {
+      await setNextBlockTimestamp(timestamp);
+      const [tx, error] = await executeAction(context, step, action).then(
+        (tx) => [tx, undefined] as const,
+        (e) => [undefined, e] as const
+      );
+      // Reverted calls fail on gas estimation without mining a block.
+      if ((await currentTime()) < timestamp) await nextBlock(timestamp);
+      if (error) {
+        const decoded = decodeError(error);
+        if (!decoded) throw error;
+        stepReport.outcome = `reverted ${decoded.error}`;
+      }
+      const expected = step.reverts ? `reverted ${step.reverts}` : 'ok';
+      if (step.reverts || error) {
+        stepReport.checks.push({
+          name: 'outcome',
+          expected,
+          actual: stepReport.outcome,
+          ok: stepReport.outcome === expected,
+        });
+      }
+      const events = tx ? (await tx.wait()).events ?? [] : [];
+      for (const name of step.emits === undefined ? [] : ([] as string[]).concat(step.emits)) {
+        const emitted = events.some((x) => x.address === context.enterprise.address && x.event === name);
+        stepReport.checks.push({
+          name: `event ${name}`,
+          expected: 'emitted',
+          actual: emitted ? 'emitted' : 'not emitted',
+          ok: emitted,
+        });
+      }
+    } else {
+      await nextBlock(timestamp);
+    }
+
+    stepReport.checks.push(
+      ...(await checkExpectations(context, step.expect ?? {}, step.tolerance ?? scenario.tolerance))
+    );
+    if (stepReport.checks.some((x) => !x.ok)) {
+      report.failed = true;
+      throw new ScenarioFailure(report);
+    }
+  }
+  return report;
+}
+
+export function formatScenarioReport(report: ScenarioReport): string {
+  const lines = [`Scenario "${report.name}"`];
+  for (const step of report.steps) {
+    const columns = [
+      `#${step.index}`.padEnd(4),
+      formatDuration(step.offset).padEnd(12),
+      (step.actor ?? '').padEnd(10),
+      step.action.padEnd(40),
+      step.outcome,
+    ];
+    lines.push(`  ${columns.join(' ')}`);
+    for (const check of step.checks) {
+      lines.push(
+        check.ok
+          ? `       ✓ ${check.name} = ${check.actual}`
+          : `       ✗ ${check.name}: expected ${check.expected}, actual ${check.actual}`
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+async function deployScenario(scenario: Scenario): Promise<ScenarioContext> {
+  const [deployer, ...signers] = await ethers.getSigners();
+  const names = Object.keys(scenario.actors);
+  if (names.length > signers.length) throw new Error(`Scenario: at most ${signers.length} actors are supported`);
+
+  const supply = Object.values(scenario.actors).reduce((sum: bigint, x) => sum + tokens(x), 0n);
+  const token = await new ERC20Mock__factory(deployer).deploy('Scenario', 'SCN', 18, supply);
+  const enterprise = await deployEnterprise(scenario.name, token.address);
+  const { streamingReserveHalvingPeriod, renterOnlyReturnPeriod, enterpriseOnlyCollectionPeriod } =
+    scenario.enterprise ?? {};
+  if (streamingReserveHalvingPeriod !== undefined) {
+    await enterprise.setStreamingReserveHalvingPeriod(parseDuration(streamingReserveHalvingPeriod));
+  }
+  if (renterOnlyReturnPeriod !== undefined) {
+    await enterprise.setRenterOnlyReturnPeriod(parseDuration(renterOnlyReturnPeriod));
+  }
+  if (enterpriseOnlyCollectionPeriod !== undefined) {
+    await enterprise.setEnterpriseOnlyCollectionPeriod(parseDuration(enterpriseOnlyCollectionPeriod));
+  }
+
+  const services = new Map<string, PowerToken>();
+  for (const [symbol, service] of Object.entries(scenario.services)) {
+    const tx = await enterprise.registerService(
+      `Scenario ${symbol}`,
+      symbol,
+      parseDuration(service.energyGapHalvingPeriod ?? '1d'),
+      parseBaseRate(service.baseRate),
+      token.address,
+      service.serviceFeePercent ?? 0,
+      parseDuration(service.minRentalPeriod),
+      parseDuration(service.maxRentalPeriod),
+      tokens(service.minGCFee ?? 0),
+      service.swappingEnabled ?? false
+    );
+    services.set(symbol, await getPowerToken(enterprise, tx));
+  }
+
+  const actors = new Map<string, SignerWithAddress>();
+  for (const [i, name] of names.entries()) {
+    actors.set(name, signers[i]);
+    await token.transfer(signers[i].address, tokens(scenario.actors[name]));
+    await token.connect(signers[i]).approve(enterprise.address, ethers.constants.MaxUint256);
+  }
+
+  return { token, enterprise, actors, services, stakes: new Map(), rentals: new Map(), paid: new Map() };
+}
+
+async function executeAction(
+  context: ScenarioContext,
+  step: ScenarioStep,
+  action: ScenarioAction
+): Promise<ContractTransaction> {
+  const actor = lookup(context.actors, 'actor', step.actor as string);
+  const enterprise = context.enterprise.connect(actor);
+  const stakeId = (name: string) => lookup(context.stakes, 'stake', name);
+  const rentalId = (name: string) => lookup(context.rentals, 'rental', name);
+  const pay = async (send: () => Promise<ContractTransaction>) => {
+    const balance = await context.token.balanceOf(actor.address);
+    const tx = await send();
+    const paid = balance.sub(await context.token.balanceOf(actor.address)).toBigInt();
+    context.paid.set(step.actor as string, (context.paid.get(step.actor as string) ?? 0n) + paid);
+    return tx;
+  };
+
+  switch (action) {
+    case 'stake': {
+      const { amount, as } = step.stake as NonNullable<ScenarioStep['stake']>;
+      const tx = await enterprise.stake(tokens(amount));
+      context.stakes.set(as, await getStakeTokenId(context.enterprise, tx));
+      return tx;
+    }
+    case 'increaseStake': {
+      const { stake, amount } = step.increaseStake as NonNullable<ScenarioStep['increaseStake']>;
+      return enterprise.increaseStake(stakeId(stake), tokens(amount));
+    }
+    case 'decreaseStake': {
+      const { stake, amount } = step.decreaseStake as NonNullable<ScenarioStep['decreaseStake']>;
+      return enterprise.decreaseStake(stakeId(stake), tokens(amount));
+    }
+    case 'unstake':
+      return enterprise.unstake(stakeId((step.unstake as NonNullable<ScenarioStep['unstake']>).stake));
+    case 'claimReward':
+      return enterprise.claimStakingReward(
+        stakeId((step.claimReward as NonNullable<ScenarioStep['claimReward']>).stake)
+      );
+    case 'rent': {
+      const { service, amount, period, maxPayment, as } = step.rent as NonNullable<ScenarioStep['rent']>;
+      const powerToken = lookup(context.services, 'service', service);
+      const tx = await pay(() =>
+        enterprise.rent(
+          powerToken.address,
+          context.token.address,
+          tokens(amount),
+          parseDuration(period),
+          tokens(maxPayment)
+        )
+      );
+      if (as) context.rentals.set(as, await getRentalTokenId(context.enterprise, tx));
+      return tx;
+    }
+    case 'extend': {
+      const { rental, period, maxPayment } = step.extend as NonNullable<ScenarioStep['extend']>;
+      return pay(() =>
+        enterprise.extendRentalPeriod(
+          rentalId(rental),
+          context.token.address,
+          parseDuration(period),
+          tokens(maxPayment)
+        )
+      );
+    }
+    case 'returnRental':
+      return enterprise.returnRental(rentalId((step.returnRental as NonNullable<ScenarioStep['returnRental']>).rental));
+  }
+}
+
+async function checkExpectations(
+  context: ScenarioContext,
+  expectations: ScenarioExpectations,
+  tolerance: Tolerance = 0
+): Promise<ScenarioCheck[]> {
+  const expected: [name: string, variable: string, value: Expectation][] = [];
+  for (const kind of ['balance', 'paid', 'stake', 'reward'] as const) {
+    for (const [name, value] of Object.entries(expectations[kind] ?? {})) {
+      expected.push([`${kind} ${name}`, `${kind}.${name}`, value]);
+    }
+  }
+  for (const kind of ['reserve', 'usedReserve', 'availableReserve'] as const) {
+    const value = expectations[kind];
+    if (value !== undefined) expected.push([kind, kind, value]);
+  }
+
+  const checks: ScenarioCheck[] = [];
+  for (const [name, variable, expression] of expected) {
+    const [value, actual] = await Promise.all([evaluate(context, expression), readValue(context, variable)]);
+    const delta =
+      typeof tolerance === 'string' && tolerance.endsWith('%')
+        ? (abs(value) * parseUnits(tolerance.slice(0, -1), 18).toBigInt()) / (100n * 10n ** 18n)
+        : tokens(tolerance);
+    const formula = isTokenAmount(expression) ? '' : `${expression} = `;
+    checks.push({
+      name,
+      expected: `${formula}${formatTokens(value)}${delta > 0n ? ` ± ${formatTokens(delta)}` : ''}`,
+      actual: formatTokens(actual),
+      ok: abs(actual - value) <= delta,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Reads the expectation variable, e.g. `reward.stake1`, in wei.
+ */
+async function readValue(context: ScenarioContext, variable: string): Promise<bigint> {
+  const { enterprise, token } = context;
+  const [kind, name] = variable.split('.');
+  if ((name === undefined) !== ['reserve', 'usedReserve', 'availableReserve'].includes(kind)) {
+    throw new Error(`Scenario: unknown variable "${variable}"`);
+  }
+  const stakeId = () => lookup(context.stakes, 'stake', name);
+
+  switch (kind) {
+    case 'balance':
+      return (await token.balanceOf(lookup(context.actors, 'actor', name).address)).toBigInt();
+    case 'paid':
+      lookup(context.actors, 'actor', name);
+      return context.paid.get(name) ?? 0n;
+    case 'stake':
+      return (await enterprise.getStake(stakeId())).amount.toBigInt();
+    case 'shares':
+      return (await enterprise.getStake(stakeId())).shares.toBigInt();
+    case 'reward':
+      return (await enterprise.getStakingReward(stakeId())).toBigInt();
+    case 'reserve':
+      return (await enterprise.getReserve()).toBigInt();
+    case 'usedReserve':
+      return (await enterprise.getUsedReserve()).toBigInt();
+    case 'availableReserve':
+      return (await enterprise.getAvailableReserve()).toBigInt();
+    default:
+      throw new Error(`Scenario: unknown variable "${variable}"`);
+  }
+}
+
+/**
+ * Evaluates the expectation in wei. Multiplication and division keep 18 decimals, so `x / 8` is exact
+ * up to a wei.
+ */
+async function evaluate(context: ScenarioContext, expectation: Expectation): Promise<bigint> {
+  if (isTokenAmount(expectation)) return tokens(expectation);
+
+  const lexemes = (expectation as string).match(/\d+(\.\d+)?|[A-Za-z]\w*(\.\w+)?|\S/g) ?? [];
+  const values = new Map<string, bigint>();
+  for (const lexeme of lexemes) {
+    if (/^[A-Za-z]/.test(lexeme) && !values.has(lexeme)) values.set(lexeme, await readValue(context, lexeme));
+  }
+
+  let position = 0;
+  const fail = (): never => {
+    throw new Error(`Scenario: invalid expression "${expectation}"`);
+  };
+  const operand = (): bigint => {
+    const lexeme = lexemes[position++] ?? fail();
+    if (lexeme === '(') {
+      const value = sum();
+      if (lexemes[position++] !== ')') fail();
+      return value;
+    }
+    if (lexeme === '-') return -operand();
+    if (/^\d/.test(lexeme)) return tokens(lexeme);
+    return values.get(lexeme) ?? fail();
+  };
+  const product = (): bigint => {
+    let value = operand();
+    while (lexemes[position] === '*' || lexemes[position] === '/') {
+      const operator = lexemes[position++];
+      const right = operand();
+      if (operator === '/' && right === 0n) throw new Error(`Scenario: division by zero in "${expectation}"`);
+      value = operator === '*' ? (value * right) / 10n ** 18n : (value * 10n ** 18n) / right;
+    }
+    return value;
+  };
+  const sum = (): bigint => {
+    let value = product();
+    while (lexemes[position] === '+' || lexemes[position] === '-') {
+      value += lexemes[position++] === '+' ? product() : -product();
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (position !== lexemes.length) fail();
+  return value;
+}
+
+function describeAction(step: ScenarioStep, action: ScenarioAction): string {
+  switch (action) {
+    case 'stake':
+      return `stake ${step.stake?.amount} as ${step.stake?.as}`;
+    case 'increaseStake':
+      return `increaseStake ${step.increaseStake?.stake} by ${step.increaseStake?.amount}`;
+    case 'decreaseStake':
+      return `decreaseStake ${step.decreaseStake?.stake} by ${step.decreaseStake?.amount}`;
+    case 'unstake':
+      return `unstake ${step.unstake?.stake}`;
+    case 'claimReward':
+      return `claimReward ${step.claimReward?.stake}`;
+    case 'rent': {
+      const rent = step.rent as NonNullable<ScenarioStep['rent']>;
+      const as = rent.as ? ` as ${rent.as}` : '';
+      return `rent ${rent.amount} ${rent.service} for ${formatDuration(parseDuration(rent.period))} max ${
+        rent.maxPayment
+      }${as}`;
+    }
+    case 'extend': {
+      const extend = step.extend as NonNullable<ScenarioStep['extend']>;
+      return `extend ${extend.rental} by ${formatDuration(parseDuration(extend.period))} max ${extend.maxPayment}`;
+    }
+    case 'returnRental':
+      return `returnRental ${step.returnRental?.rental}`;
+  }
+}
+
+function lookup<T>(map: Map<string, T>, kind: string, name: string): T {
+  const value = map.get(name);
+  if (value === undefined) throw new Error(`Scenario: unknown ${kind} "${name}"`);
+  return value;
+}
+
+function isTokenAmount(value: Expectation): boolean {
+  return typeof value === 'number' || /^\s*-?\d+(\.\d+)?\s*$/.test(value);
+}
+
+function tokens(value: TokenAmount): bigint {
+  return parseUnits(value.toString(), 18).toBigInt();
+}
+
+function formatTokens(value: bigint): string {
+  return formatUnits(value, 18).replace(/\.0$/, '');
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
@@ -0,0 +1,140 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import { getNetwork } from '@ethersproject/networks';
+import { providers } from 'ethers';
+import { FormatTypes, Interface } from 'ethers/lib/utils';
+import {
+  ChainMismatchError,
+  checkChainId,
+  connectDeployment,
+  connectEnterpriseFactory,
+  connectKnownEnterprise,
+  DEPLOYED_ADDRESSES,
+  getAddressBook,
+} from '../../sdk';
+import {
+  ADDRESS_BOOK_TARGET,
+  generateAddressBook,
+  KNOWN_ENTERPRISES,
+  loadDeployments,
+  renderAddressBook,
+} from '../../tasks/address_book';
+
+describe('Address book', () => {
+  const deployment = (network: string, name: string) => require(`../../deployments/${network}/${name}.json`);
+  const humanReadable = (abi: unknown[]) => new Interface(abi as string[]).format(FormatTypes.full);
+
+  // Provider of a chain without a node behind, enough for the chain id check.
+  class ChainProvider extends providers.BaseProvider {
+    async detectNetwork() {
+      return getNetwork(this.chainId);
+    }
+
+    constructor(readonly chainId: number) {
+      super(chainId);
+    }
+  }
+
+  it('should keep generated address book in sync with the deployments', async () => {
+    const generated = await fs.readFile(ADDRESS_BOOK_TARGET, 'utf8');
+    expect(generated).to.eq(await generateAddressBook(hre.config.paths.root));
+  });
+
+  it('should contain deployments keyed by chain id', () => {
+    expect(Object.keys(DEPLOYED_ADDRESSES)).to.deep.eq(['56', '97', '137', '80001']);
+    const binance = DEPLOYED_ADDRESSES[56];
+    expect(binance.network).to.eq('binance');
+    expect(binance.contracts.EnterpriseFactory).to.deep.eq({
+      address: deployment('binance', 'EnterpriseFactory').address,
+      abi: humanReadable(deployment('binance', 'EnterpriseFactory').abi),
+      deploymentBlock: deployment('binance', 'EnterpriseFactory').receipt.blockNumber,
+    });
+    // Legacy tokens share the ABIs of the renamed contracts.
+    expect(binance.contracts.BorrowToken.address).to.eq(deployment('binance', 'BorrowToken').address);
+    expect(binance.contracts.BorrowToken.abi).to.eq(binance.contracts.RentalToken.abi);
+    expect(binance.contracts.InterestToken.abi).to.eq(binance.contracts.StakeToken.abi);
+    expect(binance.enterprises.PARSIQ.address).to.eq('0xfAA9721D51c49f0CA7e82203d7914c9726b5cCaB');
+    expect(binance.enterprises.PARSIQ.abi).to.eq(binance.contracts.Enterprise.abi);
+
+    expect(DEPLOYED_ADDRESSES[137].contracts.Enterprise.deploymentBlock).to.eq(
+      Number(deployment('polygon', 'Enterprise').receipt.blockNumber)
+    );
+    expect(getAddressBook(80001).network).to.eq('polygonTestnet');
+    expect(() => getAddressBook(1)).to.throw('No deployments on chain 1');
+  });
+
+  it('should render provisioned enterprises and services', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'deployments-'));
+    const save = async (network: string, name: string, data: unknown) => {
+      await fs.mkdir(path.join(dir, network), { recursive: true });
+      await fs.writeFile(path.join(dir, network, `${name}.json`), JSON.stringify(data));
+    };
+    const enterpriseAbi = (await hre.deployments.getArtifact('Enterprise')).abi;
+    const powerTokenAbi = (await hre.deployments.getArtifact('PowerToken')).abi;
+    await fs.mkdir(path.join(dir, 'local'));
+    await fs.writeFile(path.join(dir, 'local', '.chainId'), '1337');
+    await save('local', 'Enterprise', { address: '0x01', abi: enterpriseAbi, receipt: { blockNumber: 10 } });
+    await save('local', 'Enterprise_Test', { address: '0x02', abi: enterpriseAbi });
+    await save('local', 'Enterprise_Test_IQPT', { address: '0x03', abi: powerTokenAbi });
+    await save('local', 'Enterprise_Provisioned', {
+      address: '0x05',
+      abi: enterpriseAbi,
+      transactionHash: '0x06',
+      receipt: { blockNumber: 12 },
+    });
+    // Folders without the chain id are not deployments.
+    await save('scratch', 'Enterprise', { address: '0x04', abi: enterpriseAbi });
+    const known = { local: [{ name: 'Known', address: '0x07', abi: 'Enterprise', deploymentBlock: 5 }] };
+    await fs.writeFile(path.join(dir, KNOWN_ENTERPRISES), JSON.stringify(known));
+
+    const networks = await loadDeployments(dir);
+    expect(networks.map((x) => [x.chainId, x.network])).to.deep.eq([[1337, 'local']]);
+    expect(networks[0].contracts.map((x) => x.name)).to.deep.eq(['Enterprise', 'Enterprise_Test_IQPT']);
+    expect(networks[0].enterprises.map((x) => [x.name, x.address, x.deploymentBlock])).to.deep.eq([
+      ['Known', '0x07', 5],
+      ['Provisioned', '0x05', 12],
+      ['Test', '0x02', undefined],
+    ]);
+    expect(networks[0].enterprises[0].abi).to.deep.eq(networks[0].contracts[0].abi);
+
+    const rendered = renderAddressBook(networks);
+    expect(rendered).to.include("    Enterprise: { address: '0x01', abi: ABIS.Enterprise, deploymentBlock: 10 },");
+    expect(rendered).to.include("    Enterprise_Test_IQPT: { address: '0x03', abi: ABIS.Enterprise_Test_IQPT },");
+    expect(rendered).to.include("    Test: { address: '0x02', abi: ABIS.Enterprise },");
+    expect(rendered).to.include("    Known: { address: '0x07', abi: ABIS.Enterprise, deploymentBlock: 5 },");
+
+    await fs.writeFile(path.join(dir, KNOWN_ENTERPRISES), JSON.stringify({ local: [{ ...known.local[0], abi: 'X' }] }));
+    expect(await loadDeployments(dir).catch((e) => e.message)).to.eq(
+      'Known enterprise ABI deployment X is missing on local'
+    );
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('should check the chain id before connecting contracts', async () => {
+    const [signer] = await ethers.getSigners();
+    await checkChainId(signer, 31337);
+    await checkChainId(ethers.provider, 31337);
+    const mismatch = await connectEnterpriseFactory(signer, 56).catch((e) => e);
+    expect(mismatch).to.be.instanceOf(ChainMismatchError);
+    expect(mismatch).to.include({ expected: 56, actual: 31337 });
+    expect(mismatch.message).to.eq('Expected chain 56 (binance), connected to chain 31337');
+    expect(await connectKnownEnterprise(ethers.provider, 56, 'PARSIQ').catch((e) => e)).to.be.instanceOf(
+      ChainMismatchError
+    );
+
+    const binance = new ChainProvider(56);
+    const factory = await connectEnterpriseFactory(binance, 56);
+    expect(factory.address).to.eq(DEPLOYED_ADDRESSES[56].contracts.EnterpriseFactory.address);
+    const client = await connectKnownEnterprise(binance, 56, 'PARSIQ');
+    expect(client.enterprise.address).to.eq(DEPLOYED_ADDRESSES[56].enterprises.PARSIQ.address);
+    const borrowToken = await connectDeployment(binance, 56, 'BorrowToken');
+    expect(borrowToken.address).to.eq(DEPLOYED_ADDRESSES[56].contracts.BorrowToken.address);
+    expect(borrowToken.interface.getFunction('getEnterprise').format()).to.eq('getEnterprise()');
+    const testnet = await connectDeployment(binance, 97, 'PowerToken').catch((e) => e);
+    expect(testnet.message).to.eq('Expected chain 97 (binanceTestnet), connected to chain 56');
+  });
+});
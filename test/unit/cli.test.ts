@@ -0,0 +1,243 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { ERC20Mock, ERC20Mock__factory, PowerToken } from '../../typechain';
+import { IQClient } from '../../sdk';
+import { parseCommandLine, parseDuration, UsageError } from '../../cli/args';
+import { CliIO, ENTERPRISE_COMMANDS, GLOBAL_OPTIONS, runCli } from '../../cli/commands';
+import { Errors } from '../types';
+import { deployTestEnterprise, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('CLI', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let user: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let written: string[];
+  let prompts: string[];
+  let answer: boolean;
+
+  const io: CliIO = {
+    write: (text) => {
+      written.push(text);
+    },
+    confirm: async (message) => {
+      prompts.push(message);
+      return answer;
+    },
+  };
+  const iq = (...argv: string[]) => runCli([...argv], hre, io);
+  const iqJson = async (...argv: string[]) => {
+    await iq(...argv, '--json');
+    return JSON.parse(written[written.length - 1]);
+  };
+
+  beforeEach(async () => {
+    [deployer, user] = await ethers.getSigners();
+    written = [];
+    prompts = [];
+    answer = true;
+    token = await new ERC20Mock__factory(deployer).deploy('Testing', 'TST', 18, ONE_TOKEN * 1_000_000n);
+    ({ client, powerToken } = await deployTestEnterprise(deployer, { token }));
+    await token.transfer(user.address, ONE_TOKEN * 100_000n);
+  });
+
+  it('should parse command lines', () => {
+    const parsed = parseCommandLine(
+      ['payment-token', 'enable', '0xE', '0xT', '--json', '--account', 'user'],
+      ENTERPRISE_COMMANDS,
+      GLOBAL_OPTIONS
+    );
+    expect(parsed.command.name).to.eq('payment-token enable');
+    expect(parsed.args).to.deep.eq({ enterprise: '0xE', token: '0xT' });
+    expect(parsed.options).to.deep.eq({ json: true, account: 'user' });
+
+    const parse = (...argv: string[]) => {
+      return () => parseCommandLine(argv, ENTERPRISE_COMMANDS, GLOBAL_OPTIONS);
+    };
+    expect(parse('stake', '0xE')).to.throw(UsageError, 'Expected 2 argument(s) <enterprise> <amount>, got 1');
+    expect(parse('stake', '0xE', '1', '2')).to.throw(UsageError, 'Unexpected argument "2"');
+    expect(parse('stake', '0xE', '1', '--fast')).to.throw(UsageError, 'Unknown option --fast');
+    expect(parse('stake', '0xE', '1', '--account')).to.throw(UsageError, 'Option --account requires a value');
+    expect(parse('payment-token', 'toggle')).to.throw(UsageError, 'Unknown command "payment-token toggle"');
+    const fork = {
+      name: 'fork:run',
+      description: 'Runs the script on the fork',
+      args: ['network', 'script'],
+      options: { 'block-number': { description: 'Fork block number', aliases: ['blockNumber'] } },
+      passthrough: true,
+    };
+    const forkParsed = parseCommandLine(['fork:run', 'binance', 'a.ts', '--blockNumber', '100', '--x'], [fork]);
+    expect(forkParsed.options).to.deep.eq({ 'block-number': '100' });
+    expect(forkParsed.extra).to.deep.eq(['--x']);
+    expect(parseDuration('12h')).to.eq(ONE_HOUR * 12);
+    expect(parseDuration('86400')).to.eq(ONE_DAY);
+    expect(() => parseDuration('1y')).to.throw(UsageError, 'Invalid duration "1y"');
+  });
+
+  it('should print enterprise info', async () => {
+    const info = await iqJson('enterprise', 'info', client.address);
+
+    expect(info).to.deep.include({
+      address: client.address,
+      name: 'Test',
+      owner: deployer.address,
+      gcFeePercent: 200,
+      reserve: '0.0',
+      bondingCurve: { pole: '0.05', slope: '0.3' },
+      paymentTokens: [{ address: token.address, enabled: true }],
+    });
+    expect(info.enterpriseToken).to.deep.eq({ address: token.address, symbol: 'TST', decimals: 18 });
+    expect(info.services).to.have.length(1);
+    expect(info.services[0]).to.deep.include({
+      address: powerToken.address,
+      symbol: 'TST IQPT',
+      serviceFeePercent: 300,
+    });
+
+    await iq('enterprise', 'info', client.address);
+    expect(written[written.length - 1]).to.include('name: Test\n');
+  });
+
+  it('should stake, rent and unstake', async () => {
+    const staked = await iqJson('stake', client.address, '10000', '--account', 'user');
+    expect(staked.transactions.map((x: { description: string }) => x.description)).to.deep.eq([
+      `approve 10000.0 TST to ${client.address}`,
+      'stake 10000',
+    ]);
+    const { stakeTokenId } = staked;
+    expect((await client.enterprise.getStake(stakeTokenId)).amount).to.eq(ONE_TOKEN * 10_000n);
+
+    const quote = await iqJson('quote', client.address, 'IQPT', '1000', '1d');
+    const fee = await client.estimateRentalFee(powerToken.address, token.address, ONE_TOKEN * 1_000n, ONE_DAY);
+    expect(quote.fee).to.eq(ethers.utils.formatUnits(fee, 18));
+
+    const { rentalTokenId, maxPayment } = await iqJson(
+      'rent',
+      client.address,
+      powerToken.address,
+      '1000',
+      '1d',
+      '--slippage',
+      '0',
+      '--account',
+      'user'
+    );
+    expect(maxPayment).to.eq(quote.fee);
+    expect(await powerToken.balanceOf(user.address)).to.eq(ONE_TOKEN * 1_000n);
+
+    const { endTime } = await iqJson('extend', client.address, rentalTokenId, '12h', '--account', 'user');
+    expect((await client.enterprise.getRentalAgreement(rentalTokenId)).endTime).to.eq(endTime);
+    await iq('return', client.address, rentalTokenId, '--account', 'user');
+    expect(await powerToken.balanceOf(user.address)).to.eq(0);
+
+    const { reward } = await iqJson('claim', client.address, stakeTokenId, '--account', 'user');
+    expect(Number(reward)).to.be.greaterThan(0);
+    const balance = await token.balanceOf(user.address);
+    const { amount } = await iqJson('unstake', client.address, stakeTokenId, '--account', 'user');
+    expect(await token.balanceOf(user.address)).to.eq(balance.add(amount));
+  });
+
+  it('should plan the cheapest rental', async () => {
+    await client.stake(ONE_TOKEN * 100_000n);
+
+    const { best, candidates, skipped } = await iqJson('plan', client.address, '1000', '90d', '--max-segments', '2');
+    expect(skipped).to.be.empty;
+    expect(candidates).to.have.length(1);
+    expect(best).to.deep.include({
+      enterprise: client.address,
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalPeriod: ONE_DAY * 90,
+    });
+    expect(best.steps.map((x: { action: string; rentalPeriod: number }) => [x.action, x.rentalPeriod])).to.deep.eq([
+      ['rent', ONE_DAY * 30],
+      ['extend', ONE_DAY * 60],
+    ]);
+    expect(best.steps[1].gcFee).to.eq('0.0');
+
+    const single = await iqJson('plan', client.address, '1000', '30d', '--max-segments', '1');
+    expect(single.best.total).to.eq(
+      ethers.utils.formatUnits(
+        await client.estimateRentalFee(powerToken.address, token.address, ONE_TOKEN * 1_000n, ONE_DAY * 30),
+        18
+      )
+    );
+  });
+
+  it('should print calldata without sending transactions on dry run', async () => {
+    const output = await iqJson('stake', client.address, '5', '--account', 'user', '--dry-run');
+
+    expect(output).to.deep.eq({
+      dryRun: true,
+      from: user.address,
+      transactions: [
+        {
+          description: `approve 5.0 TST to ${client.address}`,
+          to: token.address,
+          data: token.interface.encodeFunctionData('approve', [client.address, ONE_TOKEN * 5n]),
+        },
+        {
+          description: 'stake 5',
+          to: client.address,
+          data: client.enterprise.interface.encodeFunctionData('stake', [ONE_TOKEN * 5n]),
+        },
+      ],
+    });
+    expect(await token.allowance(user.address, client.address)).to.eq(0);
+    expect((await client.enterprise.getInfo()).totalShares).to.eq(0);
+    expect(prompts).to.be.empty;
+  });
+
+  it('should confirm owner-only actions', async () => {
+    const other = await new ERC20Mock__factory(deployer).deploy('Other', 'OTH', 18, ONE_TOKEN);
+
+    answer = false;
+    const aborted = await iq('payment-token', 'enable', client.address, other.address);
+    expect(aborted.aborted).to.eq(true);
+    expect(prompts).to.have.length(1);
+    expect(prompts[0]).to.include(`enable payment token ${other.address}`);
+    expect(await client.enterprise.getPaymentTokens()).to.have.length(1);
+
+    answer = true;
+    await iq('payment-token', 'enable', client.address, other.address);
+    expect(prompts).to.have.length(2);
+    await iq('payment-token', 'disable', client.address, other.address, '--yes');
+    expect(prompts).to.have.length(2);
+    const paymentTokens = await client.enterprise.getPaymentTokens();
+    expect(paymentTokens.map((x) => [x.paymentToken, x.enabled])).to.deep.eq([
+      [token.address, true],
+      [other.address, false],
+    ]);
+
+    const registered = await iqJson(
+      'service',
+      'register',
+      client.address,
+      '--name',
+      'IQ Power Second',
+      '--symbol',
+      'IQPS',
+      '--base-rate',
+      'baseRate(100, 86400, 5)',
+      '--service-fee-percent',
+      '300',
+      '--energy-gap-halving-period',
+      '1d',
+      '--min-rental-period',
+      '12h',
+      '--max-rental-period',
+      '30d',
+      '--yes'
+    );
+    const [, second] = await client.getPowerTokens();
+    expect(registered.powerToken).to.eq(second.address);
+    expect((await second.getInfo()).maxRentalPeriod).to.eq(ONE_DAY * 30);
+
+    await expect(iq('shutdown', client.address, '--account', 'user', '--yes')).to.be.revertedWith(
+      Errors.CALLER_NOT_OWNER
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import { IQClient, withSlippage } from '../../sdk';
+import { Errors } from '../types';
+import { deployTestEnterprise, increaseTime, ONE_DAY } from '../utils';
+
+describe('IQClient', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let staker: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+
+  beforeEach(async () => {
+    [deployer, staker, renter] = await ethers.getSigners();
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer, {
+      enterprise: { gcFeePercent: 0 },
+      service: { swappingEnabledForever: true },
+    }));
+
+    await token.transfer(staker.address, ONE_TOKEN * 10_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 1_000n);
+  });
+
+  it('should deploy enterprise and register service', async () => {
+    expect(await client.enterprise.getEnterpriseToken()).to.eq(token.address);
+    expect((await client.getPowerTokens()).map((x) => x.address)).to.deep.eq([powerToken.address]);
+    expect(await powerToken.symbol()).to.eq('TST IQPT');
+  });
+
+  it('should approve and stake', async () => {
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+
+    const stakeToken = await client.getStakeToken();
+    expect(await stakeToken.ownerOf(stakeTokenId)).to.eq(staker.address);
+    expect((await client.enterprise.getStake(stakeTokenId)).amount).to.eq(ONE_TOKEN * 10_000n);
+  });
+
+  describe('when staked', () => {
+    let stakeTokenId: BigNumber;
+
+    beforeEach(async () => {
+      ({ stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n));
+    });
+
+    it('should rent within slippage', async () => {
+      const fee = await client.estimateRentalFee(powerToken.address, token.address, ONE_TOKEN * 100n, ONE_DAY);
+      const balanceBefore = await token.balanceOf(renter.address);
+
+      const { rentalTokenId, receipt } = await client.connect(renter).rent({
+        powerToken: powerToken.address,
+        paymentToken: token.address,
+        rentalAmount: ONE_TOKEN * 100n,
+        rentalPeriod: ONE_DAY,
+      });
+
+      const rentalToken = await client.getRentalToken();
+      expect(rentalTokenId).to.eq(await rentalToken.tokenOfOwnerByIndex(renter.address, 0));
+      expect(receipt.status).to.eq(1);
+      expect(await powerToken.balanceOf(renter.address)).to.eq(ONE_TOKEN * 100n);
+      expect(balanceBefore.sub(await token.balanceOf(renter.address))).to.eq(fee);
+      expect(await token.allowance(renter.address, client.address)).to.eq(withSlippage(fee, 100).sub(fee));
+    });
+
+    it('should not rent when fee exceeds max payment', async () => {
+      await expect(
+        client.connect(renter).rent({
+          powerToken: powerToken.address,
+          paymentToken: token.address,
+          rentalAmount: ONE_TOKEN * 100n,
+          rentalPeriod: ONE_DAY,
+          maxPayment: 1,
+        })
+      ).to.be.revertedWith(Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+    });
+
+    it('should extend rental period without slippage', async () => {
+      const renterClient = client.connect(renter);
+      const { rentalTokenId } = await renterClient.rent({
+        powerToken: powerToken.address,
+        paymentToken: token.address,
+        rentalAmount: ONE_TOKEN * 1_000n,
+        rentalPeriod: ONE_DAY,
+      });
+      const { endTime } = await client.enterprise.getRentalAgreement(rentalTokenId);
+      const fee = await client.estimateRentalExtensionFee(rentalTokenId, token.address, ONE_DAY);
+      const balanceBefore = await token.balanceOf(renter.address);
+
+      await renterClient.extendRentalPeriod({
+        rentalTokenId,
+        paymentToken: token.address,
+        rentalPeriod: ONE_DAY,
+        slippage: 0,
+      });
+
+      // Streaming reserve grows with time, so the actual fee can only decrease.
+      const paid = balanceBefore.sub(await token.balanceOf(renter.address));
+      expect(paid).to.be.lte(fee);
+      expect(paid).to.be.gte(fee.mul(9_999).div(10_000));
+      expect((await client.enterprise.getRentalAgreement(rentalTokenId)).endTime).to.eq(endTime + ONE_DAY);
+    });
+
+    it('should return rental and unstake', async () => {
+      const renterClient = client.connect(renter);
+      const { rentalTokenId } = await renterClient.rent({
+        powerToken: powerToken.address,
+        paymentToken: token.address,
+        rentalAmount: ONE_TOKEN * 100n,
+        rentalPeriod: ONE_DAY,
+      });
+      await increaseTime(ONE_DAY);
+
+      await renterClient.returnRental(rentalTokenId);
+      await client.connect(staker).unstake(stakeTokenId);
+
+      expect(await powerToken.balanceOf(renter.address)).to.eq(0);
+      expect(await token.balanceOf(staker.address)).to.be.above(ONE_TOKEN * 10_000n);
+    });
+
+    describe('when rented', () => {
+      let rentalTokenIds: BigNumber[];
+
+      beforeEach(async () => {
+        rentalTokenIds = [];
+        for (let i = 0; i < 3; i++) {
+          const { rentalTokenId } = await client.connect(renter).rent({
+            powerToken: powerToken.address,
+            paymentToken: token.address,
+            rentalAmount: ONE_TOKEN * 100n,
+            rentalPeriod: ONE_DAY,
+          });
+          rentalTokenIds.push(rentalTokenId);
+        }
+        await increaseTime(ONE_DAY);
+      });
+
+      it('should return rentals in one transaction reporting failed returns', async () => {
+        const [first, second, third] = rentalTokenIds;
+        await client.connect(renter).returnRental(second);
+
+        const { succeeded, failed, receipts } = await client.connect(renter).returnRentals([first, second, third]);
+
+        expect(receipts).to.have.length(1);
+        expect(succeeded).to.deep.eq([first, third]);
+        expect(failed).to.have.length(1);
+        expect(failed[0].tokenId).to.eq(second);
+        expect(failed[0].error?.error).to.eq('E_INVALID_RENTAL_TOKEN_ID');
+        expect(await powerToken.balanceOf(renter.address)).to.eq(0);
+      });
+
+      it('should split batches by gas estimate', async () => {
+        const renterClient = client.connect(renter);
+        const { batches } = await renterClient.planBatches('returnRental', rentalTokenIds);
+        expect(batches.map((x) => x.tokenIds)).to.deep.eq([rentalTokenIds]);
+
+        const maxGas = batches[0].gasLimit.sub(1);
+        const { succeeded, failed, receipts } = await renterClient.returnRentals(rentalTokenIds, { maxGas });
+
+        expect(receipts).to.have.length(2);
+        expect(succeeded).to.deep.eq(rentalTokenIds);
+        expect(failed).to.be.empty;
+        for (const receipt of receipts) expect(receipt.gasUsed.lte(maxGas)).to.be.true;
+      });
+    });
+
+    it('should claim rewards and unstake many stakes of the caller', async () => {
+      await token.transfer(staker.address, ONE_TOKEN);
+      const { stakeTokenId: second } = await client.connect(staker).stake(ONE_TOKEN);
+      const { stakeTokenId: foreign } = await client.connect(deployer).stake(ONE_TOKEN);
+      await client.connect(renter).rent({
+        powerToken: powerToken.address,
+        paymentToken: token.address,
+        rentalAmount: ONE_TOKEN * 100n,
+        rentalPeriod: ONE_DAY,
+      });
+      await increaseTime(ONE_DAY);
+
+      const claimed = await client.connect(staker).claimStakingRewards([stakeTokenId, second, foreign]);
+      expect(claimed.succeeded).to.deep.eq([stakeTokenId, second]);
+      expect(claimed.failed.map((x) => [x.tokenId, x.error?.error])).to.deep.eq([[foreign, 'CALLER_NOT_OWNER']]);
+
+      await client
+        .connect(renter)
+        .returnRental(await (await client.getRentalToken()).tokenOfOwnerByIndex(renter.address, 0));
+      const unstaked = await client.connect(staker).unstakeMany([stakeTokenId, foreign, second]);
+      expect(unstaked.succeeded).to.deep.eq([stakeTokenId, second]);
+      expect(unstaked.failed.map((x) => x.tokenId)).to.deep.eq([foreign]);
+      expect(await (await client.getStakeToken()).balanceOf(staker.address)).to.eq(0);
+      expect(await token.balanceOf(staker.address)).to.be.above(ONE_TOKEN * 10_001n);
+    });
+  });
+});
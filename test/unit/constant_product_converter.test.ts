@@ -0,0 +1,251 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  ConstantProductConverter,
+  ConstantProductConverter__factory,
+  ERC20Mock,
+  ERC20Mock__factory,
+  UniswapV2FactoryMock,
+  UniswapV2PairMock,
+  UniswapV2PairMock__factory,
+} from '../../typechain';
+import {
+  estimateRentalFee,
+  getAmountOut,
+  getAverageAmountOut,
+  loadConstantProductFeeConverter,
+  loadPairReserves,
+  loadRentalFeeParams,
+  MAX_UINT112,
+  totalRentalFee,
+} from '../../sdk';
+import { Errors } from '../types';
+import { baseRate, deployTestEnterprise, increaseTime, ONE_DAY } from '../utils';
+
+describe('ConstantProductConverter', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  const ONE_USDC = 10n ** 6n;
+  const TWAP_PERIOD = 1800;
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let wallet: SignerWithAddress;
+  let token: ERC20Mock;
+  let usdc: ERC20Mock;
+  let pairFactory: UniswapV2FactoryMock;
+  let pair: UniswapV2PairMock;
+  let converter: ConstantProductConverter;
+
+  const createPair = async (tokenA: ERC20Mock, tokenB: ERC20Mock, amountA: bigint, amountB: bigint) => {
+    await pairFactory.createPair(tokenA.address, tokenB.address);
+    const created = UniswapV2PairMock__factory.connect(
+      await pairFactory.getPair(tokenA.address, tokenB.address),
+      deployer
+    );
+    await tokenA.transfer(created.address, amountA);
+    await tokenB.transfer(created.address, amountB);
+    await created.sync();
+    return created;
+  };
+
+  beforeEach(async () => {
+    [deployer, renter, wallet] = await ethers.getSigners();
+    token = await new ERC20Mock__factory(deployer).deploy('Testing', 'TST', 18, ONE_TOKEN * 100_000_000n);
+    usdc = await new ERC20Mock__factory(deployer).deploy('USD Coin', 'USDC', 6, ONE_USDC * 100_000_000n);
+    pairFactory = (await ethers.getContract('UniswapV2FactoryMock')) as UniswapV2FactoryMock;
+    converter = (await ethers.getContract('ConstantProductConverter')) as ConstantProductConverter;
+    // 1 TST = 0.5 USDC
+    pair = await createPair(token, usdc, ONE_TOKEN * 1_000_000n, ONE_USDC * 500_000n);
+    await converter.update(token.address, usdc.address);
+    await increaseTime(TWAP_PERIOD);
+  });
+
+  const spotAmountOut = async (source: ERC20Mock, amount: bigint, target: ERC20Mock) =>
+    getAmountOut(amount, await loadPairReserves(converter, source.address, target.address));
+
+  // Buys `amount` target tokens directly from the pair.
+  const buy = async (source: ERC20Mock, amount: bigint, target: ERC20Mock) => {
+    const { reserveIn, reserveOut } = await loadPairReserves(converter, source.address, target.address);
+    const amountIn = (reserveIn * amount * 10_000n) / ((reserveOut - amount) * 9_970n) + 1n;
+    await source.transfer(pair.address, amountIn);
+    const targetIsToken0 = (await pair.token0()) === target.address;
+    await pair.swap(targetIsToken0 ? amount : 0, targetIsToken0 ? 0 : amount, deployer.address, '0x');
+  };
+
+  it('should be deployed with the local pair factory', async () => {
+    expect(await converter.getFactory()).to.eq(pairFactory.address);
+    expect(await converter.getFeePercent()).to.eq(30);
+    expect(await converter.getTwapPeriod()).to.eq(TWAP_PERIOD);
+    expect(await converter.getMaxDeviationPercent()).to.eq(200);
+  });
+
+  it('should validate the configuration', async () => {
+    const deploy = (twapPeriod: number, maxDeviationPercent: number) =>
+      new ConstantProductConverter__factory(deployer).deploy(pairFactory.address, 30, twapPeriod, maxDeviationPercent);
+
+    await expect(deploy(0, 200)).to.be.revertedWith(Errors.CPC_INVALID_TWAP_PERIOD);
+    await expect(deploy(TWAP_PERIOD, 0)).to.be.revertedWith(Errors.CPC_INVALID_MAX_DEVIATION);
+    await expect(deploy(TWAP_PERIOD, 10_000)).to.be.revertedWith(Errors.CPC_INVALID_MAX_DEVIATION);
+  });
+
+  it('should estimate conversion at the average price', async () => {
+    const amount = ONE_TOKEN * 1_000n;
+    const reserves = { reserveIn: ONE_TOKEN * 1_000_000n, reserveOut: ONE_USDC * 500_000n, feePercent: 30 };
+    // The price has not changed since the observation.
+    const price = (reserves.reserveOut << 112n) / reserves.reserveIn;
+    const inversePrice = (reserves.reserveIn << 112n) / reserves.reserveOut;
+
+    expect(await converter.getAveragePrice(token.address, usdc.address)).to.eq(price);
+    expect(await converter.getAveragePrice(usdc.address, token.address)).to.eq(inversePrice);
+    expect(await converter.estimateConvert(token.address, amount, usdc.address)).to.eq(
+      getAverageAmountOut(amount, price, 30)
+    );
+    expect(await converter.estimateConvert(usdc.address, ONE_USDC * 500n, token.address)).to.eq(
+      getAverageAmountOut(ONE_USDC * 500n, inversePrice, 30)
+    );
+    // Unlike the swap, the estimate has no price impact.
+    expect(getAverageAmountOut(amount, price, 30) > getAmountOut(amount, reserves)).to.eq(true);
+    expect(await loadPairReserves(converter, token.address, usdc.address)).to.deep.eq(reserves);
+    expect(await converter.estimateConvert(usdc.address, ONE_USDC, usdc.address)).to.eq(ONE_USDC);
+  });
+
+  it('should require the price history of the averaging period', async () => {
+    const other = await new ERC20Mock__factory(deployer).deploy('Other', 'OTH', 18, ONE_TOKEN * 1_000n);
+    await createPair(token, other, ONE_TOKEN * 1_000n, ONE_TOKEN * 1_000n);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.be.revertedWith(
+      Errors.CPC_INSUFFICIENT_PRICE_HISTORY
+    );
+
+    await expect(converter.update(token.address, other.address)).to.emit(converter, 'PriceObserved');
+    await increaseTime(TWAP_PERIOD - 10);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.be.revertedWith(
+      Errors.CPC_INSUFFICIENT_PRICE_HISTORY
+    );
+    // Observations younger than the averaging period are not replaced.
+    await expect(converter.update(token.address, other.address)).not.to.emit(converter, 'PriceObserved');
+
+    await increaseTime(10);
+    expect(await converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.eq(
+      getAverageAmountOut(ONE_TOKEN, 1n << 112n, 30)
+    );
+  });
+
+  it('should resist pair price manipulation', async () => {
+    const amount = ONE_USDC * 1_000n;
+    const estimate = await converter.estimateConvert(usdc.address, amount, token.address);
+    await usdc.transfer(renter.address, amount);
+    await usdc.connect(renter).approve(converter.address, amount);
+
+    // TST price is doubled within the block before the conversion.
+    await buy(usdc, ONE_TOKEN * 292_893n, token);
+    const spot = await spotAmountOut(usdc, amount, token);
+    expect(Number(spot)).to.be.approximately(Number(estimate) / 2, Number(estimate) / 100);
+
+    const manipulated = await converter.estimateConvert(usdc.address, amount, token.address);
+    expect(Number(manipulated)).to.be.approximately(Number(estimate), Number(estimate) / 1_000);
+    await expect(converter.connect(renter).convert(usdc.address, amount, token.address)).to.be.revertedWith(
+      Errors.CPC_PRICE_DEVIATION_EXCEEDED
+    );
+  });
+
+  it('should reject unsupported and empty pairs', async () => {
+    const other = await new ERC20Mock__factory(deployer).deploy('Other', 'OTH', 18, ONE_TOKEN);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.be.revertedWith(
+      Errors.CPC_UNSUPPORTED_PAIR
+    );
+
+    await pairFactory.createPair(token.address, other.address);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.be.revertedWith(
+      Errors.CPC_INSUFFICIENT_LIQUIDITY
+    );
+  });
+
+  it('should swap source tokens through the pair', async () => {
+    const amount = ONE_USDC * 1_000n;
+    await usdc.transfer(renter.address, amount);
+    await usdc.connect(renter).approve(converter.address, amount);
+    const expected = await spotAmountOut(usdc, amount, token);
+
+    await expect(converter.connect(renter).convert(usdc.address, amount, token.address)).to.emit(
+      converter,
+      'PriceObserved'
+    );
+
+    expect(await token.balanceOf(renter.address)).to.eq(expected);
+    expect(await usdc.balanceOf(renter.address)).to.eq(0);
+    const [reserve0, reserve1] = await pair.getReserves();
+    const [usdcReserve, tokenReserve] =
+      (await pair.token0()) === usdc.address ? [reserve0, reserve1] : [reserve1, reserve0];
+    expect(usdcReserve).to.eq(ONE_USDC * 500_000n + amount);
+    expect(tokenReserve).to.eq(ONE_TOKEN * 1_000_000n - expected);
+  });
+
+  it('should price unavailable rentals of the service priced in USDC', async () => {
+    // USDC price in TST wei is too high to multiply `type(uint112).max` by its UQ112x112 value.
+    const { client, powerToken } = await deployTestEnterprise(deployer, {
+      token,
+      enterprise: { converter: converter.address },
+      service: {
+        baseRate: baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 3n * ONE_USDC),
+        baseToken: usdc.address,
+        minGCFee: ONE_USDC,
+      },
+    });
+    await client.stake(ONE_TOKEN * 100_000n);
+    expect(await converter.estimateConvert(usdc.address, MAX_UINT112, token.address)).to.eq(MAX_UINT112);
+
+    const rentalAmount = ONE_TOKEN * 100_000n;
+    const [params, convert] = await Promise.all([
+      loadRentalFeeParams(client.enterprise, powerToken),
+      loadConstantProductFeeConverter(converter, usdc.address, token.address),
+    ]);
+    const fee = estimateRentalFee(params, rentalAmount, ONE_DAY, convert);
+    expect(fee.poolFee + fee.serviceFee).to.eq(MAX_UINT112);
+    expect(await client.estimateRentalFee(powerToken.address, token.address, rentalAmount, ONE_DAY)).to.eq(
+      totalRentalFee(fee)
+    );
+    await expect(
+      client.enterprise.rent(powerToken.address, token.address, rentalAmount, ONE_DAY, ONE_TOKEN * 1_000_000n)
+    ).to.be.revertedWith(Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+  });
+
+  it('should rent with USDC for the service priced in enterprise tokens', async () => {
+    const { client, powerToken } = await deployTestEnterprise(deployer, {
+      token,
+      enterprise: { converter: converter.address },
+    });
+    await client.enterprise.enablePaymentToken(usdc.address);
+    await client.enterprise.setEnterpriseWallet(wallet.address);
+    await client.stake(ONE_TOKEN * 100_000n);
+    await usdc.transfer(renter.address, ONE_USDC * 10_000n);
+
+    const rentalAmount = ONE_TOKEN * 1_000n;
+    const [params, convert] = await Promise.all([
+      loadRentalFeeParams(client.enterprise, powerToken),
+      loadConstantProductFeeConverter(converter, token.address, usdc.address),
+    ]);
+    const fee = estimateRentalFee(params, rentalAmount, ONE_DAY * 7, convert);
+    expect(await client.estimateRentalFee(powerToken.address, usdc.address, rentalAmount, ONE_DAY * 7)).to.eq(
+      totalRentalFee(fee)
+    );
+    const convertedFee = await spotAmountOut(usdc, fee.poolFee + fee.serviceFee, token);
+    const reserveTarget = (await client.enterprise.getInfo()).streamingReserveTarget;
+
+    const { rentalTokenId } = await client.connect(renter).rent({
+      powerToken: powerToken.address,
+      paymentToken: usdc.address,
+      rentalAmount,
+      rentalPeriod: ONE_DAY * 7,
+    });
+
+    expect(await usdc.balanceOf(renter.address)).to.eq(ONE_USDC * 10_000n - totalRentalFee(fee));
+    expect(await powerToken.balanceOf(renter.address)).to.eq(rentalAmount);
+    expect((await client.enterprise.getRentalAgreement(rentalTokenId)).gcRewardAmount).to.eq(fee.gcFee);
+    const serviceFee = await token.balanceOf(wallet.address);
+    expect(serviceFee).to.eq((convertedFee * fee.serviceFee) / (fee.poolFee + fee.serviceFee));
+    expect((await client.enterprise.getInfo()).streamingReserveTarget).to.eq(
+      reserveTarget.add(convertedFee).sub(serviceFee)
+    );
+    expect(await usdc.balanceOf(client.enterprise.address)).to.eq(0);
+  });
+});
@@ -1,5 +1,6 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
 import chai from 'chai';
+import path from 'path';
 import { BigNumber } from 'ethers';
 import { ethers, waffle } from 'hardhat';
 import {
@@ -14,6 +15,7 @@ import {
   MockConverter__factory,
   PowerToken,
 } from '../../typechain';
+import { loadScenario, runScenario } from '../scenario';
 import { Errors } from '../types';
 import {
   stake,
@@ -26,10 +28,8 @@ import {
   fromTokens,
   getRentalToken,
   getRentalTokenId,
-  getStakeTokenId,
   getProxyImplementation,
   increaseTime,
-  nextBlock,
   ONE_DAY,
   ONE_HOUR,
   extendRentalPeriod,
@@ -291,6 +291,19 @@ describe('Enterprise', () => {
         expect(await enterpriseToken.balanceOf(renter.address)).to.be.above(balanceBefore);
         expect(await enterpriseToken.balanceOf(enterprise.address)).to.be.above(STAKE_AMOUNT);
       });
+
+      it('should be possible to return rented tokens in batch reporting failed calls', async () => {
+        await increaseTime(ONE_DAY);
+        const returnRental = enterprise.interface.encodeFunctionData('returnRental', [tokenId]);
+        const revert = new ethers.utils.Interface(['function Error(string)']);
+
+        await expect(enterprise.connect(renter).multicall([returnRental, returnRental]))
+          .to.emit(enterprise, 'RentalReturned')
+          .and.to.emit(enterprise, 'CallFailed')
+          .withArgs(1, revert.encodeFunctionData('Error', [Errors.E_INVALID_RENTAL_TOKEN_ID]));
+
+        expect(await powerToken.balanceOf(renter.address)).to.eq(0);
+      });
     });
   });
 
@@ -536,134 +549,8 @@ describe('Enterprise', () => {
   });
 
   describe('multi renting scenario', () => {
-    let powerToken: PowerToken;
-    let streamingReserveHalvingPeriod: number;
-    beforeEach(async () => {
-      enterprise = await deployEnterprise('Test', enterpriseToken.address);
-      powerToken = await registerService(
-        enterprise,
-        GAP_HALVING_PERIOD,
-        baseRate(1000n * ONE_TOKEN, BigInt(ONE_DAY), ONE_TOKEN * 3n),
-        enterpriseToken.address,
-        0, // 0%
-        ONE_HOUR * 12,
-        ONE_DAY * 60,
-        0,
-        true
-      );
-      await enterpriseToken.transfer(renter.address, ONE_TOKEN * 1000n);
-
-      streamingReserveHalvingPeriod = await enterprise.getStreamingReserveHalvingPeriod();
-    });
-
     it('scenario', async () => {
-      const tokenId1 = await stake(enterprise, ONE_TOKEN * 10_000n);
-
-      expect(await enterprise.getStakingReward(tokenId1)).to.eq(0);
-
-      await increaseTime(ONE_DAY / 2);
-
-      expect(await enterprise.getStakingReward(tokenId1)).to.eq(0);
-
-      const renterBalance1 = await enterpriseToken.balanceOf(renter.address);
-      await expect(
-        rent(enterprise, powerToken, enterpriseToken, ONE_TOKEN * 1_000n, ONE_DAY * 30, ONE_TOKEN * 50n, renter)
-      ).to.be.revertedWith(Errors.E_RENTAL_PAYMENT_SLIPPAGE); // 50 tokens is not enough
-
-      const rentingTx1 = await rent(
-        enterprise,
-        powerToken,
-        enterpriseToken,
-        ONE_TOKEN * 1_000n,
-        ONE_DAY * 30,
-        ONE_TOKEN * 800n,
-        renter
-      );
-      await expect(rentingTx1).to.emit(enterprise, 'Rented');
-      const rentingReceipt = await rentingTx1.wait();
-
-      const rentBlock = await ethers.provider.getBlock(rentingReceipt.blockNumber);
-      const rentTimestamp = rentBlock.timestamp;
-
-      const renter1Paid = renterBalance1.sub(await enterpriseToken.balanceOf(renter.address));
-
-      const rentalTokenId1 = await getRentalTokenId(enterprise, rentingTx1);
-
-      await nextBlock(rentTimestamp + streamingReserveHalvingPeriod);
-
-      expect(toTokens(await enterprise.getStakingReward(tokenId1), 3)).to.approximately(
-        toTokens(renter1Paid.div(2), 3),
-        0.001
-      );
-
-      await enterpriseToken.approve(enterprise.address, ONE_TOKEN * 2_000n);
-      await expect(enterprise.unstake(tokenId1)).to.be.revertedWith(Errors.E_INSUFFICIENT_LIQUIDITY);
-
-      await setNextBlockTimestamp(rentTimestamp + streamingReserveHalvingPeriod * 2);
-      const stakeTx = await enterprise.stake(ONE_TOKEN * 2_000n);
-      const tokenId2 = await getStakeTokenId(enterprise, stakeTx);
-
-      expect(toTokens(await enterprise.getStakingReward(tokenId1), 3)).to.approximately(
-        toTokens(renter1Paid.mul(3).div(4), 3),
-        0.001
-      );
-
-      expect(await enterprise.getStakingReward(tokenId2)).to.eq(0);
-
-      await nextBlock(rentTimestamp + streamingReserveHalvingPeriod * 3);
-
-      const [stake1, stake2] = await Promise.all([enterprise.getStake(tokenId1), enterprise.getStake(tokenId2)]);
-
-      const staker2Reward = renter1Paid.mul(stake2.shares).div(stake1.shares.add(stake2.shares).mul(8));
-
-      expect(toTokens(await enterprise.getStakingReward(tokenId2), 3)).to.approximately(
-        toTokens(staker2Reward, 3),
-        0.001
-      );
-
-      await increaseTime(ONE_DAY * 5);
-
-      await expect(enterprise.unstake(tokenId1)).to.emit(enterprise, 'StakeChanged');
-      await expect(enterprise.unstake(tokenId2)).to.be.revertedWith(Errors.E_INSUFFICIENT_LIQUIDITY);
-      await expect(enterprise.decreaseStake(tokenId2, ONE_TOKEN * 10n)).to.emit(enterprise, 'StakeChanged');
-
-      const rentalAgreement2 = await enterprise.getStake(tokenId2);
-      expect(rentalAgreement2.amount).to.eq(ONE_TOKEN * 1_990n);
-
-      await expect(enterprise.connect(stranger).returnRental(rentalTokenId1)).to.be.revertedWith(
-        Errors.E_INVALID_CALLER_WITHIN_RENTER_ONLY_RETURN_PERIOD
-      );
-
-      await increaseTime(ONE_DAY * 4.5); // because of 12 hours of renter and enterprise grace period
-
-      await expect(enterprise.unstake(tokenId2)).to.be.revertedWith(Errors.E_INSUFFICIENT_LIQUIDITY);
-      await expect(enterprise.connect(stranger).returnRental(rentalTokenId1)).to.be.revertedWith(
-        Errors.E_INVALID_CALLER_WITHIN_ENTERPRISE_ONLY_COLLECTION_PERIOD
-      ); // still cannot return rental
-
-      await increaseTime(ONE_DAY);
-
-      await expect(enterprise.connect(stranger).returnRental(rentalTokenId1)).to.emit(enterprise, 'RentalReturned');
-
-      await expect(enterprise.connect(renter).returnRental(rentalTokenId1)).to.be.revertedWith(
-        Errors.E_INVALID_RENTAL_TOKEN_ID
-      );
-
-      await enterprise.decreaseStake(tokenId2, ONE_TOKEN * 1_990n);
-
-      expect(await enterprise.getStakingReward(tokenId2))
-        .to.eq(await enterprise.getAvailableReserve())
-        .to.eq(await enterprise.getReserve());
-
-      await enterpriseToken.approve(enterprise.address, ONE_TOKEN * 2_000n);
-      await expect(enterprise.increaseStake(tokenId2, ONE_TOKEN * 2_000n)).to.emit(enterprise, 'StakeChanged');
-
-      const rentalAgreement3 = await enterprise.getStake(tokenId2);
-      expect(rentalAgreement3.amount).to.eq(ONE_TOKEN * 2_000n);
-
-      const reward = await enterprise.getStakingReward(tokenId2);
-
-      expect(await enterprise.getReserve()).to.eq(reward.add(ONE_TOKEN * 2000n));
+      await runScenario(await loadScenario(path.join(__dirname, '../scenarios/multi_renting.yaml')));
     });
   });
 
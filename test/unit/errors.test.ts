@@ -0,0 +1,131 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import hre, { ethers } from 'hardhat';
+import { defaultAbiCoder, hexConcat } from 'ethers/lib/utils';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import { decodeError, decodeRevertReason, ERROR_MESSAGES, IQClient, ProtocolError, withDecodedErrors } from '../../sdk';
+import { ERRORS_TARGET, generateErrorCodes, parseErrors } from '../../tasks/errors';
+import { Errors } from '../types';
+import { deployTestEnterprise, ONE_DAY } from '../utils';
+
+describe('Errors', () => {
+  const ONE_TOKEN = 10n ** 18n;
+
+  it('should keep generated error codes in sync with the contracts', async () => {
+    const generated = await fs.readFile(ERRORS_TARGET, 'utf8');
+    expect(generated).to.eq(await generateErrorCodes(hre.config.paths.root));
+    // Every contract prefix is in the glossary.
+    expect(ERROR_MESSAGES[Errors.EF_INVALID_ENTERPRISE_IMPLEMENTATION_ADDRESS]).to.eq(
+      'EnterpriseFactory: invalid enterprise implementation address'
+    );
+  });
+
+  it('should derive messages from the glossary prefixes', () => {
+    const source = `
+      /**
+       * @dev Error messages prefix glossary:
+       *  - ERC721 = ERC721
+       *  - ERC721META = ERC721Metadata
+       *  - E = Enterprise
+       */
+      library Errors {
+          string internal constant CALLER_NOT_OWNER = "3";
+          string internal constant ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN = "33";
+          string internal constant E_RENTAL_PAYMENT_SLIPPAGE = "47";
+          string internal constant ERC721_INVALID_TOKEN = "20";
+      }`;
+
+    expect(parseErrors(source)).to.deep.eq([
+      { name: 'CALLER_NOT_OWNER', code: '3', message: 'Caller not owner' },
+      { name: 'ERC721_INVALID_TOKEN', code: '20', message: 'ERC721: invalid token' },
+      {
+        name: 'ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN',
+        code: '33',
+        message: 'ERC721Metadata: uri query for nonexistent token',
+      },
+      { name: 'E_RENTAL_PAYMENT_SLIPPAGE', code: '47', message: 'Enterprise: rental payment slippage' },
+    ]);
+  });
+
+  it('should reject inconsistent error codes', () => {
+    const library = (...lines: string[]) => `library Errors {\n${lines.join('\n')}\n}`;
+
+    expect(() =>
+      parseErrors(library('string internal constant A = "1";', 'string internal constant B = "1";'))
+    ).to.throw('B and A share error code 1');
+    expect(() =>
+      parseErrors(library('string internal constant A = "1";', 'string internal constant A = "2";'))
+    ).to.throw('A error is declared twice');
+    expect(() => parseErrors(library('string internal constant A = "E1";'))).to.throw('is not a number');
+    expect(() => parseErrors(library())).to.throw('No error codes found');
+  });
+
+  it('should decode revert reasons of different providers', () => {
+    const encoded = hexConcat(['0x08c379a0', defaultAbiCoder.encode(['string'], ['47'])]);
+
+    for (const error of [
+      new Error("VM Exception while processing transaction: reverted with reason string '47'"),
+      { reason: '47', code: 'CALL_EXCEPTION' },
+      { error: { data: encoded } },
+      { error: { body: '{"jsonrpc":"2.0","error":{"code":3,"message":"execution reverted: 47","data":"0x"}}' } },
+    ]) {
+      const decoded = decodeError(error);
+      expect(decoded).to.be.instanceOf(ProtocolError);
+      expect(decoded?.code).to.eq(Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+      expect(decoded?.error).to.eq('E_RENTAL_PAYMENT_SLIPPAGE');
+      expect(decoded?.message).to.eq('Enterprise: rental payment slippage');
+      expect(decoded?.cause).to.eq(error);
+    }
+    expect(decodeRevertReason(Errors.PT_TRANSFER_DISABLED)?.message).to.eq('PowerToken: transfer disabled');
+    expect(decodeRevertReason('Ownable: caller is not the owner')).to.be.undefined;
+    expect(decodeError(new Error('nonce too low'))).to.be.undefined;
+  });
+
+  describe('Contract calls', () => {
+    let renter: SignerWithAddress;
+    let token: ERC20Mock;
+    let client: IQClient;
+    let powerToken: PowerToken;
+
+    beforeEach(async () => {
+      let deployer: SignerWithAddress;
+      [deployer, renter] = await ethers.getSigners();
+      ({ token, client, powerToken } = await deployTestEnterprise(deployer, { enterprise: { gcFeePercent: 0 } }));
+      await client.stake(ONE_TOKEN * 10_000n);
+      await token.transfer(renter.address, ONE_TOKEN * 1_000n);
+    });
+
+    it('should decode enterprise transaction reverts', async () => {
+      const error = await withDecodedErrors(
+        client.connect(renter).rent({
+          powerToken: powerToken.address,
+          paymentToken: token.address,
+          rentalAmount: ONE_TOKEN * 100n,
+          rentalPeriod: ONE_DAY,
+          maxPayment: 1,
+        })
+      ).catch((e) => e);
+
+      expect(error).to.be.instanceOf(ProtocolError);
+      expect(error.code).to.eq(Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+      expect(error.message).to.eq('Enterprise: rental payment slippage');
+    });
+
+    it('should decode power token call reverts', async () => {
+      const error = await powerToken.callStatic.transfer(renter.address, 1).catch((e) => e);
+      expect(decodeError(error)?.error).to.eq('PT_TRANSFER_DISABLED');
+
+      const estimation = await powerToken.estimateGas.transfer(renter.address, 1).catch((e) => e);
+      expect(decodeError(estimation)?.error).to.eq('PT_TRANSFER_DISABLED');
+    });
+
+    it('should keep other errors as is', async () => {
+      const error = await withDecodedErrors(token.connect(renter).transfer(token.address, ONE_TOKEN * 2_000n)).catch(
+        (e) => e
+      );
+      expect(error).not.to.be.instanceOf(ProtocolError);
+      expect(decodeError(error)).to.be.undefined;
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { b2f, f2b } from '../../scripts/utils';
+import { halfLife } from '../../sdk';
 import { ExpMathMock } from '../../typechain';
+import { createRandom } from '../utils';
 
 type TestCase = [bigint, number, bigint, bigint, number];
 
@@ -46,3 +48,39 @@ describe('ExpMath', function () {
     });
   });
 });
+
+describe('ExpMath off-chain', function () {
+  let expMath: ExpMathMock;
+
+  before(async () => {
+    expMath = (await ethers.getContract('ExpMathMock')) as ExpMathMock;
+  });
+
+  (
+    [
+      // t0    c0  t12   t
+      [100n, 1000, 20n, 120n],
+      [100n, 1997.25, 20n, 110n],
+      [0n, 199700000000.45, 75n ** 5n, 75n ** 5n - 1n],
+      [0n, Number.MAX_SAFE_INTEGER / 2.0, 75n ** 5n, 75n ** 5n - 1n],
+    ] as [bigint, number, bigint, bigint][]
+  ).forEach(([t0, c0, t12, t], idx: number) => {
+    it(`should match halfLife exactly: ${idx}`, async function () {
+      const expected = await expMath.halfLife(t0, f2b(c0), t12, t);
+
+      expect(halfLife(Number(t0), f2b(c0), Number(t12), Number(t))).to.eq(expected.toBigInt());
+    });
+  });
+
+  it('should match halfLife exactly on random input', async function () {
+    const random = createRandom(0xe4);
+    for (let i = 0; i < 50; i++) {
+      const t0 = random.int(0, 2 ** 31);
+      const t12 = random.int(1, 2 ** 24);
+      const t = t0 + random.int(0, t12 * 3);
+      const c0 = random.bigint(0n, (1n << 112n) - 1n);
+
+      expect(halfLife(t0, c0, t12, t)).to.eq((await expMath.halfLife(t0, c0, t12, t)).toBigInt());
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { createRandom } from '../../sdk';
+import {
+  DEFAULT_INVARIANTS,
+  FUZZ_ACTIONS,
+  FuzzResult,
+  generateSequence,
+  Invariant,
+  runFuzzer,
+  shrinkSequence,
+} from '../../tasks/fuzz';
+
+describe('Invariant fuzzer', () => {
+  it('should generate sequences reproducible from the seed', () => {
+    const sequence = generateSequence(createRandom(42), 200);
+
+    expect(generateSequence(createRandom(42), 200)).to.deep.eq(sequence);
+    expect(generateSequence(createRandom(43), 200)).not.to.deep.eq(sequence);
+    expect(new Set(sequence.map((x) => x.action))).to.have.length(FUZZ_ACTIONS.length);
+    for (const step of sequence) {
+      expect(step.actor).to.be.within(0, 3);
+      expect(step.target).to.be.within(0, 0.9999);
+      expect(step.amount).to.be.within(0, 0.9999);
+    }
+  });
+
+  it('should shrink failing sequences', async () => {
+    const steps = Array.from({ length: 20 }, (_, i) => i);
+    let attempts = 0;
+    const shrunk = await shrinkSequence(steps, async (candidate) => {
+      attempts++;
+      return candidate.includes(3) && candidate.includes(17);
+    });
+
+    expect(shrunk).to.deep.eq([3, 17]);
+    expect(attempts).to.be.lessThan(steps.length * 2);
+  });
+
+  it('should keep the invariants over random sequences', async () => {
+    const result: FuzzResult = await hre.run('enterprise:fuzz', { seed: 1, runs: 1, steps: 30 });
+
+    expect(result).to.deep.include({ seed: 1, runs: 1, executed: 30 });
+    expect(result.failure).to.be.undefined;
+    expect(result.reverted).to.be.lessThan(result.executed);
+  });
+
+  it('should shrink and replay invariant violations', async () => {
+    const singleRental: Invariant = {
+      name: 'single rental',
+      check: ({ rentals }) => (rentals.length > 1 ? `${rentals.length} rentals` : undefined),
+    };
+    const invariants = [...DEFAULT_INVARIANTS, singleRental];
+    const { failure } = await runFuzzer(hre, { seed: 17, runs: 1, steps: 20, invariants });
+
+    expect(failure).to.deep.include({ seed: 17, invariant: 'single rental', message: '2 rentals', originalLength: 20 });
+    // Stake provides the liquidity for the two rentals.
+    expect(failure?.steps.map((x) => x.action)).to.deep.eq(['stake', 'rent', 'rent']);
+    expect(failure?.step).to.eq(2);
+
+    const replayed = await runFuzzer(hre, { seed: 17, runs: 1, steps: 0, replay: failure?.steps, invariants });
+    expect(replayed.failure).to.deep.eq(failure && { ...failure, originalLength: 3 });
+  });
+});
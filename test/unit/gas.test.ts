@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import hre from 'hardhat';
+import { compareGas, GAS_BASELINE, GasBaseline, renderGasReport, runGasBenchmarks } from '../../tasks/gas';
+
+describe('Gas benchmarks', () => {
+  const baseline: GasBaseline = {
+    threshold: 1,
+    budgets: { 'Enterprise.rent': 500_000 },
+    results: {
+      'Enterprise.rent': { 'enterprise token': 400_000, 'USDC payment': 450_000, 'USDC base rate': 420_000 },
+      'Enterprise.stake': { 'first stake': 300_000, 'second stake': 250_000 },
+    },
+  };
+
+  it('should compare results with the baseline and budgets', () => {
+    const comparisons = compareGas(baseline, {
+      'Enterprise.rent': { 'enterprise token': 404_000, 'USDC payment': 500_001, 'USDC base rate': 424_201 },
+      'Enterprise.stake': { 'first stake': 299_000 },
+      'Enterprise.unstake': { 'first stake': 100_000 },
+    });
+
+    expect(comparisons.map((x) => [x.function, x.case, x.status])).to.deep.eq([
+      ['Enterprise.rent', 'enterprise token', 'ok'],
+      ['Enterprise.rent', 'USDC payment', 'over budget'],
+      ['Enterprise.rent', 'USDC base rate', 'regression'],
+      ['Enterprise.stake', 'first stake', 'improved'],
+      ['Enterprise.unstake', 'first stake', 'new'],
+      ['Enterprise.stake', 'second stake', 'removed'],
+    ]);
+  });
+
+  it('should render markdown diff report', () => {
+    const report = renderGasReport(
+      compareGas(baseline, {
+        'Enterprise.rent': { 'enterprise token': 404_000, 'USDC payment': 500_001, 'USDC base rate': 420_000 },
+        'Enterprise.stake': { 'first stake': 299_000, 'second stake': 250_000 },
+      }),
+      baseline.threshold
+    );
+
+    expect(report.split('\n')).to.deep.eq([
+      '## Gas report',
+      '',
+      'Regression threshold: 1%. 1 check(s) failed.',
+      '',
+      '| Function | Case | Baseline | Current | Diff | Budget | Status |',
+      '| --- | --- | ---: | ---: | ---: | ---: | --- |',
+      '| Enterprise.rent | enterprise token | 400,000 | 404,000 | +4,000 (+1.00%) | 500,000 | ok |',
+      '| Enterprise.rent | USDC payment | 450,000 | 500,001 | +50,001 (+11.11%) | 500,000 | **over budget** |',
+      '| Enterprise.rent | USDC base rate | 420,000 | 420,000 | 0 (0.00%) | 500,000 | ok |',
+      '| Enterprise.stake | first stake | 300,000 | 299,000 | -1,000 (-0.33%) | - | improved |',
+      '| Enterprise.stake | second stake | 250,000 | 250,000 | 0 (0.00%) | - | ok |',
+      '',
+    ]);
+  });
+
+  it('should keep gas within the committed baseline', async () => {
+    const committed: GasBaseline = JSON.parse(await fs.readFile(GAS_BASELINE, 'utf8'));
+    const comparisons = compareGas(committed, await runGasBenchmarks(hre));
+
+    expect(comparisons.filter((x) => x.status !== 'ok' && x.status !== 'improved')).to.deep.eq([]);
+    expect(Object.keys(committed.budgets)).to.have.members(Object.keys(committed.results));
+  });
+});
@@ -0,0 +1,131 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import { executeCollection, getRentalStatus, IQClient, planCollection, RentalStatus } from '../../sdk';
+import { deployTestEnterprise, increaseTime, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('Rental collection', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  const GAS_PRICE = BigNumber.from(10n ** 9n);
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let collector: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+
+  const rent = async (rentalPeriod: number) => {
+    const { rentalTokenId } = await client.connect(renter).rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 100n,
+      rentalPeriod,
+    });
+    return rentalTokenId;
+  };
+
+  const sorted = (ids: BigNumber[]) => [...ids].sort((a, b) => (a.lt(b) ? -1 : 1));
+
+  beforeEach(async () => {
+    [deployer, renter, collector, stranger] = await ethers.getSigners();
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+    await client.enterprise.setRenterOnlyReturnPeriod(ONE_DAY);
+    await client.enterprise.setEnterpriseOnlyCollectionPeriod(ONE_DAY * 2);
+    await client.enterprise.setEnterpriseCollector(collector.address);
+
+    await token.transfer(renter.address, ONE_TOKEN * 10_000n);
+    await client.stake(ONE_TOKEN * 100_000n);
+  });
+
+  it('should determine rental status', async () => {
+    const windows = { endTime: 100, renterOnlyReturnTime: 200, enterpriseOnlyCollectionTime: 300 };
+
+    expect(getRentalStatus(windows, 99)).to.eq(RentalStatus.Active);
+    expect(getRentalStatus(windows, 100)).to.eq(RentalStatus.RenterOnly);
+    expect(getRentalStatus(windows, 200)).to.eq(RentalStatus.RenterOnly);
+    expect(getRentalStatus(windows, 201)).to.eq(RentalStatus.CollectorOnly);
+    expect(getRentalStatus(windows, 300)).to.eq(RentalStatus.CollectorOnly);
+    expect(getRentalStatus(windows, 301)).to.eq(RentalStatus.Collectable);
+  });
+
+  it('should plan collection according to return windows', async () => {
+    const expired = await rent(ONE_DAY);
+    const active = await rent(ONE_DAY * 5);
+    await increaseTime(ONE_DAY * 2 + ONE_HOUR);
+
+    const options = { gasPrice: GAS_PRICE, nativePrice: ONE_TOKEN };
+    const strangerPlan = await planCollection(client.enterprise, stranger.address, options);
+    expect(strangerPlan.returns).to.be.empty;
+    expect(strangerPlan.skipped.map((x) => [x.rentalTokenId, x.status])).to.deep.eq([
+      [expired, RentalStatus.CollectorOnly],
+      [active, RentalStatus.Active],
+    ]);
+
+    const collectorPlan = await planCollection(client.enterprise, collector.address, options);
+    expect(collectorPlan.returns.map((x) => x.rentalTokenId)).to.deep.eq([expired]);
+
+    const renterPlan = await planCollection(client.enterprise, renter.address, options);
+    expect(sorted(renterPlan.returns.map((x) => x.rentalTokenId))).to.deep.eq(sorted([expired, active]));
+
+    await increaseTime(ONE_DAY);
+    const plan = await planCollection(client.enterprise, stranger.address, options);
+    expect(plan.returns.map((x) => [x.rentalTokenId, x.status])).to.deep.eq([[expired, RentalStatus.Collectable]]);
+  });
+
+  it('should skip unprofitable rentals', async () => {
+    const rentalTokenId = await rent(ONE_DAY);
+    await increaseTime(ONE_DAY * 4);
+
+    const { gcRewardAmount } = await client.enterprise.getRentalAgreement(rentalTokenId);
+    const plan = await planCollection(client.enterprise, stranger.address, {
+      gasPrice: GAS_PRICE,
+      nativePrice: ONE_TOKEN * 1_000_000n,
+    });
+
+    expect(plan.returns).to.be.empty;
+    expect(plan.skipped).to.have.length(1);
+    expect(plan.skipped[0].reason).to.eq('unprofitable');
+    expect(gcRewardAmount).to.eq(plan.skipped[0].reward);
+    expect((plan.skipped[0].profit ?? 0n) < 0n).to.eq(true);
+  });
+
+  it('should return planned rentals', async () => {
+    const rentalTokenIds = [await rent(ONE_DAY), await rent(ONE_DAY), await rent(ONE_DAY * 2)];
+    const open = await rent(ONE_DAY * 30);
+    await increaseTime(ONE_DAY * 5);
+
+    const enterprise = client.enterprise.connect(stranger);
+    const plan = await planCollection(enterprise, stranger.address, { gasPrice: GAS_PRICE, nativePrice: ONE_TOKEN });
+    const rewards = plan.returns.reduce((sum, x) => sum + x.gcRewardAmount, 0n);
+    const balanceBefore = await token.balanceOf(stranger.address);
+
+    const results = await executeCollection(enterprise, plan, GAS_PRICE);
+
+    expect(sorted(results.map((x) => x.rentalTokenId))).to.deep.eq(sorted(rentalTokenIds));
+    expect(results.every((x) => x.receipt?.status === 1)).to.eq(true);
+    expect(await token.balanceOf(stranger.address)).to.eq(balanceBefore.add(rewards));
+    expect(await (await client.getRentalToken()).totalSupply()).to.eq(1);
+    expect((await client.enterprise.getRentalAgreement(open)).rentalAmount).to.eq(ONE_TOKEN * 100n);
+  });
+
+  it('should continue returning rentals after a failed return', async () => {
+    const rentalTokenIds = [await rent(ONE_DAY), await rent(ONE_DAY), await rent(ONE_DAY)];
+    await increaseTime(ONE_DAY * 5);
+
+    const enterprise = client.enterprise.connect(stranger);
+    const plan = await planCollection(enterprise, stranger.address, { gasPrice: GAS_PRICE, nativePrice: ONE_TOKEN });
+    const returned = plan.returns[0].rentalTokenId;
+    await client.enterprise.connect(renter).returnRental(returned);
+
+    const results = await executeCollection(enterprise, plan, GAS_PRICE);
+
+    expect(results.map((x) => x.rentalTokenId)).to.deep.eq(plan.returns.map((x) => x.rentalTokenId));
+    expect(results[0].error).to.be.instanceOf(Error);
+    expect(results.slice(1).every((x) => x.receipt?.status === 1)).to.eq(true);
+    expect(sorted(results.map((x) => x.rentalTokenId))).to.deep.eq(sorted(rentalTokenIds));
+    expect(await (await client.getRentalToken()).totalSupply()).to.eq(0);
+  });
+});
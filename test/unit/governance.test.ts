@@ -0,0 +1,179 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import {
+  DefaultConverter__factory,
+  EnterpriseTimelock,
+  Enterprise__factory,
+  ERC20Mock,
+  PowerToken,
+  RentalToken__factory,
+} from '../../typechain';
+import {
+  cancelProposal,
+  encodeScheduleProposal,
+  EnterpriseProposalBuilder,
+  executeProposal,
+  getImplementation,
+  getProposalStatus,
+  IQClient,
+  listProposals,
+  ProposalState,
+  scheduleProposal,
+  toFixedPoint,
+} from '../../sdk';
+import { Errors } from '../types';
+import { baseRate, deployTestEnterprise, increaseTime, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('Enterprise governance', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let executor: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let timelock: EnterpriseTimelock;
+
+  const proposal = () => new EnterpriseProposalBuilder(client.enterprise);
+
+  beforeEach(async () => {
+    [deployer, executor, , stranger] = await ethers.getSigners();
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+
+    const env = {
+      TIMELOCK_ENTERPRISE: client.enterprise.address,
+      TIMELOCK_MIN_DELAY: ONE_DAY.toString(),
+      TIMELOCK_EXECUTORS: 'user',
+    };
+    Object.assign(process.env, env);
+    try {
+      await hre.deployments.run('timelock', { resetMemory: false, writeDeploymentsToFiles: false });
+    } finally {
+      Object.keys(env).forEach((key) => delete process.env[key]);
+    }
+    timelock = (await ethers.getContract(`${client.enterprise.address}_Timelock`)) as EnterpriseTimelock;
+  });
+
+  it('should transfer enterprise ownership to the timelock', async () => {
+    expect(await client.enterprise.owner()).to.eq(timelock.address);
+    expect(await timelock.getMinDelay()).to.eq(ONE_DAY);
+    expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), deployer.address)).to.eq(true);
+    expect(await timelock.hasRole(await timelock.EXECUTOR_ROLE(), executor.address)).to.eq(true);
+    expect(await timelock.hasRole(await timelock.TIMELOCK_ADMIN_ROLE(), deployer.address)).to.eq(false);
+    await expect(client.enterprise.setGcFeePercent(300)).to.be.revertedWith(Errors.CALLER_NOT_OWNER);
+  });
+
+  it('should execute scheduled proposal after the delay', async () => {
+    const converter = await new DefaultConverter__factory(deployer).deploy();
+    const newBaseRate = baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 5n * ONE_TOKEN);
+    const built = proposal()
+      .setBondingCurve(toFixedPoint('0.1'), toFixedPoint('0.5'))
+      .setGcFeePercent(300)
+      .setConverter(converter.address)
+      .setBaseRate(powerToken.address, newBaseRate, token.address, ONE_TOKEN * 2n)
+      .enableTransferForever(powerToken.address)
+      .registerService({
+        name: 'IQ Power Governed',
+        symbol: 'IQPG',
+        energyGapHalvingPeriod: ONE_DAY,
+        baseRate: newBaseRate,
+        baseToken: token.address,
+        serviceFeePercent: 300,
+        minRentalPeriod: ONE_HOUR,
+        maxRentalPeriod: ONE_DAY,
+        minGCFee: ONE_TOKEN,
+        swappingEnabledForever: false,
+      })
+      .build('Reprice IQ Power Test');
+
+    expect(built.id).to.eq(
+      await timelock.hashOperationBatch(
+        built.calls.map((x) => x.target),
+        built.calls.map((x) => x.value),
+        built.calls.map((x) => x.data),
+        built.predecessor,
+        built.salt
+      )
+    );
+    expect(built.calls[1].description).to.eq('setGcFeePercent(300)');
+    expect((await getProposalStatus(timelock, built.id)).state).to.eq(ProposalState.Unset);
+
+    await scheduleProposal(timelock, built);
+    const { state, readyAt } = await getProposalStatus(timelock, built.id);
+    expect(state).to.eq(ProposalState.Pending);
+    expect(readyAt).to.eq((await ethers.provider.getBlock('latest')).timestamp + ONE_DAY);
+    await expect(executeProposal(timelock.connect(executor), built)).to.be.revertedWith(
+      'TimelockController: operation is not ready'
+    );
+
+    await increaseTime(ONE_DAY);
+    expect((await getProposalStatus(timelock, built.id)).state).to.eq(ProposalState.Ready);
+    await expect(executeProposal(timelock.connect(stranger), built)).to.be.reverted;
+    await executeProposal(timelock.connect(executor), built);
+
+    expect((await getProposalStatus(timelock, built.id)).state).to.eq(ProposalState.Done);
+    const [pole, slope] = await client.enterprise.getBondingCurve();
+    expect(pole).to.eq(toFixedPoint('0.1'));
+    expect(slope).to.eq(toFixedPoint('0.5'));
+    expect(await client.enterprise.getGCFeePercent()).to.eq(300);
+    expect(await client.enterprise.getConverter()).to.eq(converter.address);
+    const info = await powerToken.getInfo();
+    expect(info.baseRate).to.eq(newBaseRate);
+    expect(info.minGCFee).to.eq(ONE_TOKEN * 2n);
+    expect(info.transferEnabled).to.eq(true);
+    expect(await client.enterprise.getPowerTokens()).to.have.length(2);
+
+    const [listed] = await listProposals(timelock);
+    expect(listed.id).to.eq(built.id);
+    expect(listed.state).to.eq(ProposalState.Done);
+    expect(listed.calls.map((x) => x.data)).to.deep.eq(built.calls.map((x) => x.data));
+  });
+
+  it('should upgrade and shut down enterprise through dependent proposals', async () => {
+    const rentalToken = await client.enterprise.getRentalToken();
+    const implementation = await new RentalToken__factory(deployer).deploy();
+    const factory = await client.enterprise.getFactory();
+    const upgrade = proposal()
+      .upgrade(
+        factory,
+        ethers.constants.AddressZero,
+        implementation.address,
+        ethers.constants.AddressZero,
+        ethers.constants.AddressZero,
+        []
+      )
+      .build('Upgrade rental token');
+    const shutdown = proposal().shutdownEnterpriseForever().build('Shutdown', upgrade.id);
+
+    // Proposals can be scheduled by a multisig proposer using raw transactions.
+    await deployer.sendTransaction(encodeScheduleProposal(timelock, upgrade, ONE_DAY));
+    await scheduleProposal(timelock, shutdown, ONE_DAY * 2);
+    expect((await listProposals(timelock)).map((x) => [x.id, x.state, x.delay])).to.deep.eq([
+      [upgrade.id, ProposalState.Pending, ONE_DAY],
+      [shutdown.id, ProposalState.Pending, ONE_DAY * 2],
+    ]);
+
+    await increaseTime(ONE_DAY * 2);
+    await expect(executeProposal(timelock.connect(executor), shutdown)).to.be.revertedWith(
+      'TimelockController: missing dependency'
+    );
+    await executeProposal(timelock.connect(executor), upgrade);
+    await executeProposal(timelock.connect(executor), shutdown);
+
+    expect(await getImplementation(ethers.provider, rentalToken)).to.eq(implementation.address);
+    await expect(client.stake(ONE_TOKEN)).to.be.revertedWith(Errors.E_ENTERPRISE_SHUTDOWN);
+  });
+
+  it('should cancel scheduled proposal', async () => {
+    const built = proposal().setGcFeePercent(500).build('Increase GC fee');
+    await scheduleProposal(timelock, built);
+
+    await cancelProposal(timelock, built.id);
+
+    expect(await getProposalStatus(timelock, built.id)).to.deep.eq({ state: ProposalState.Unset, readyAt: 0 });
+    await increaseTime(ONE_DAY);
+    await expect(executeProposal(timelock.connect(executor), built)).to.be.reverted;
+    expect(await Enterprise__factory.connect(client.enterprise.address, stranger).getGCFeePercent()).to.eq(200);
+  });
+});
@@ -0,0 +1,208 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import { EnterpriseIndexer, FileCheckpointStore, IQClient } from '../../sdk';
+import { deployTestEnterprise, evmRevert, evmSnapshot, increaseTime, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('EnterpriseIndexer', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let staker: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let startBlock: number;
+
+  const rent = async (rentalAmount: bigint, rentalPeriod: number) =>
+    client.connect(renter).rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount,
+      rentalPeriod,
+    });
+
+  const expectState = async (indexer: EnterpriseIndexer) => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    expect(indexer.blockNumber).to.eq(blockNumber);
+
+    const { state } = indexer;
+    const enterprise = client.enterprise;
+    const info = await enterprise.getInfo();
+    expect(state.baseUri).to.eq(info.baseUri);
+    expect(state.onChainTokenUri).to.eq(await enterprise.isOnChainTokenUri());
+    expect(state.gcFeePercent).to.eq(info.gcFeePercent);
+    expect(state.streamingReserveHalvingPeriod).to.eq(info.streamingReserveHalvingPeriod);
+    expect(state.renterOnlyReturnPeriod).to.eq(info.renterOnlyReturnPeriod);
+    expect(state.enterpriseOnlyCollectionPeriod).to.eq(info.enterpriseOnlyCollectionPeriod);
+    expect(info.totalShares).to.eq(state.totalShares);
+    expect(info.fixedReserve).to.eq(state.fixedReserve);
+    expect(info.usedReserve).to.eq(state.usedReserve);
+    expect(info.streamingReserve).to.eq(state.streamingReserve);
+    expect(info.streamingReserveTarget).to.eq(state.streamingReserveTarget);
+    expect(state.streamingReserveUpdated).to.eq(info.streamingReserveUpdated);
+    expect(state.converter).to.eq((await enterprise.getConverter()).toLowerCase());
+    expect(state.enterpriseCollector).to.eq((await enterprise.getEnterpriseCollector()).toLowerCase());
+
+    const [pole, slope] = await enterprise.getBondingCurve();
+    expect(pole).to.eq(state.bondingPole);
+    expect(slope).to.eq(state.bondingSlope);
+
+    const { timestamp } = await ethers.provider.getBlock(blockNumber);
+    expect(await enterprise.getReserve({ blockTag: blockNumber })).to.eq(indexer.getReserve(timestamp));
+
+    const powerTokens = await enterprise.getPowerTokens();
+    expect(state.services.map((service) => service.address)).to.deep.eq(powerTokens.map((x) => x.toLowerCase()));
+    for (const service of state.services) {
+      const info = await client.getPowerToken(service.address).getInfo();
+      expect(info.baseRate).to.eq(service.baseRate);
+      expect(service.baseToken).to.eq(info.baseToken.toLowerCase());
+      expect(info.minGCFee).to.eq(service.minGCFee);
+      expect(service.serviceFeePercent).to.eq(info.serviceFeePercent);
+      expect(service.minRentalPeriod).to.eq(info.minRentalPeriod);
+      expect(service.maxRentalPeriod).to.eq(info.maxRentalPeriod);
+      expect(service.swappingEnabled).to.eq(info.swappingEnabled);
+      expect(service.transferEnabled).to.eq(info.transferEnabled);
+    }
+
+    const stakeToken = await client.getStakeToken();
+    expect(Object.keys(state.stakes).length).to.eq((await stakeToken.totalSupply()).toNumber());
+    for (const stake of Object.values(state.stakes)) {
+      const { amount, shares, block } = await enterprise.getStake(stake.stakeTokenId);
+      expect(amount).to.eq(stake.amount);
+      expect(shares).to.eq(stake.shares);
+      expect(block).to.eq(stake.block);
+      expect(stake.owner).to.eq((await stakeToken.ownerOf(stake.stakeTokenId)).toLowerCase());
+    }
+
+    const rentalToken = await client.getRentalToken();
+    expect(Object.keys(state.rentalAgreements).length).to.eq((await rentalToken.totalSupply()).toNumber());
+    for (const rental of Object.values(state.rentalAgreements)) {
+      const agreement = await enterprise.getRentalAgreement(rental.rentalTokenId);
+      expect(agreement.rentalAmount).to.eq(rental.rentalAmount);
+      expect(rental.powerTokenIndex).to.eq(agreement.powerTokenIndex);
+      expect(rental.startTime).to.eq(agreement.startTime);
+      expect(rental.endTime).to.eq(agreement.endTime);
+      expect(rental.renterOnlyReturnTime).to.eq(agreement.renterOnlyReturnTime);
+      expect(rental.enterpriseOnlyCollectionTime).to.eq(agreement.enterpriseOnlyCollectionTime);
+      expect(agreement.gcRewardAmount).to.eq(rental.gcRewardAmount);
+      expect(rental.gcRewardTokenIndex).to.eq(agreement.gcRewardTokenIndex);
+      expect(rental.owner).to.eq((await rentalToken.ownerOf(rental.rentalTokenId)).toLowerCase());
+    }
+  };
+
+  beforeEach(async () => {
+    [deployer, staker, renter, stranger] = await ethers.getSigners();
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+
+    await token.transfer(staker.address, ONE_TOKEN * 100_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 10_000n);
+  });
+
+  it('should reconstruct enterprise state', async () => {
+    const indexer = new EnterpriseIndexer(ethers.provider, client.address, { startBlock, batchSize: 3 });
+
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    const { stakeTokenId: secondStakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 5_000n);
+    const { rentalTokenId } = await rent(ONE_TOKEN * 1_000n, ONE_DAY);
+    await rent(ONE_TOKEN * 500n, ONE_DAY * 2);
+    await indexer.sync();
+    await expectState(indexer);
+
+    await increaseTime(ONE_HOUR * 6);
+    await client
+      .connect(renter)
+      .extendRentalPeriod({ rentalTokenId, paymentToken: token.address, rentalPeriod: ONE_DAY });
+    await client.enterprise.setBondingCurve(ethers.utils.parseEther('0.1'), ethers.utils.parseEther('0.4'));
+    await client.enterprise.setGcFeePercent(500);
+    await client.enterprise.setEnterpriseCollector(stranger.address);
+    await client.enterprise.setOnChainTokenUri(true);
+    await powerToken.setServiceFeePercent(500);
+    await powerToken.enableTransferForever();
+    await client.connect(staker).increaseStake(stakeTokenId, ONE_TOKEN * 1_000n);
+    await indexer.sync();
+    await expectState(indexer);
+
+    await increaseTime(ONE_DAY * 3);
+    await client.connect(renter).returnRental(rentalTokenId);
+    await client.connect(staker).decreaseStake(stakeTokenId, ONE_TOKEN * 2_000n);
+    await client.connect(staker).claimStakingReward(secondStakeTokenId);
+    const stakeToken = await client.getStakeToken();
+    await stakeToken.connect(staker).transferFrom(staker.address, stranger.address, secondStakeTokenId);
+    await client.connect(staker).unstake(stakeTokenId);
+    await indexer.sync();
+    await expectState(indexer);
+
+    expect(indexer.state.reserveHistory.map((x) => x.event)).to.deep.eq([
+      'StakeChanged',
+      'StakeChanged',
+      'Rented',
+      'Rented',
+      'StakeChanged',
+      'RentalReturned',
+      'StakeChanged',
+      'StakeChanged',
+      'StakeChanged',
+    ]);
+  });
+
+  it('should recover from chain reorganization', async () => {
+    const indexer = new EnterpriseIndexer(ethers.provider, client.address, { startBlock, batchSize: 1 });
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    await indexer.sync();
+
+    const snapshot = await evmSnapshot();
+    await rent(ONE_TOKEN * 1_000n, ONE_DAY);
+    await client.connect(staker).increaseStake(stakeTokenId, ONE_TOKEN * 1_000n);
+    await indexer.sync();
+    await expectState(indexer);
+
+    await evmRevert(snapshot as string);
+    await client.connect(staker).stake(ONE_TOKEN * 3_000n);
+    await rent(ONE_TOKEN * 200n, ONE_DAY * 2);
+    await client.connect(staker).claimStakingReward(stakeTokenId);
+    await client.connect(staker).claimStakingReward(stakeTokenId);
+    await indexer.sync();
+    await expectState(indexer);
+  });
+
+  it('should not index unconfirmed blocks', async () => {
+    const indexer = new EnterpriseIndexer(ethers.provider, client.address, { startBlock, confirmations: 2 });
+    await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    await indexer.sync();
+    expect(Object.keys(indexer.state.stakes)).to.be.empty;
+
+    await increaseTime(ONE_HOUR);
+    await increaseTime(ONE_HOUR);
+    await indexer.sync();
+    expect(Object.keys(indexer.state.stakes)).to.have.length(1);
+  });
+
+  it('should resume from persisted checkpoints', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-')), 'checkpoints.json');
+    try {
+      await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+      await rent(ONE_TOKEN * 1_000n, ONE_DAY);
+      await new EnterpriseIndexer(ethers.provider, client.address, {
+        startBlock,
+        store: new FileCheckpointStore(file),
+      }).sync();
+
+      await rent(ONE_TOKEN * 100n, ONE_DAY);
+      const indexer = new EnterpriseIndexer(ethers.provider, client.address, {
+        startBlock,
+        store: new FileCheckpointStore(file),
+      });
+      await indexer.sync();
+      await expectState(indexer);
+    } finally {
+      await fs.rm(path.dirname(file), { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { EnterpriseLens, ERC20Mock, PowerToken } from '../../typechain';
+import { IQClient, loadAccountView, loadEnterpriseSnapshot } from '../../sdk';
+import { deployTestEnterprise, increaseTime, ONE_DAY, ONE_HOUR, registerTestService } from '../utils';
+
+describe('EnterpriseLens', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let user: SignerWithAddress;
+  let token: ERC20Mock;
+  let lens: EnterpriseLens;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let otherPowerToken: PowerToken;
+
+  beforeEach(async () => {
+    [deployer, user] = await ethers.getSigners();
+    lens = (await ethers.getContract('EnterpriseLens')) as EnterpriseLens;
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+    otherPowerToken = await registerTestService(client, token.address, {
+      symbol: 'IQPT2',
+      maxRentalPeriod: ONE_DAY * 10,
+    });
+    await token.transfer(user.address, ONE_TOKEN * 100_000n);
+    await client.stake(ONE_TOKEN * 100_000n);
+  });
+
+  it('should match the enterprise getters', async () => {
+    const userClient = client.connect(user);
+    await userClient.rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 1_000n,
+      rentalPeriod: ONE_DAY,
+    });
+    await increaseTime(ONE_HOUR);
+
+    const snapshot = await loadEnterpriseSnapshot(lens, client.address);
+    const { enterprise } = client;
+    const blockTag = snapshot.blockNumber;
+    const call = { blockTag };
+    const info = await enterprise.getInfo(call);
+    const [pole, slope] = await enterprise.getBondingCurve(call);
+
+    expect(snapshot).to.deep.include({
+      blockNumber: await ethers.provider.getBlockNumber(),
+      timestamp: (await ethers.provider.getBlock(blockTag)).timestamp,
+      enterprise: client.address,
+      owner: await enterprise.owner(call),
+      name: info.name,
+      baseUri: info.baseUri,
+      onChainTokenUri: await enterprise.isOnChainTokenUri(call),
+      enterpriseToken: await enterprise.getEnterpriseToken(call),
+      converter: await enterprise.getConverter(call),
+      rentalToken: await enterprise.getRentalToken(call),
+      stakeToken: await enterprise.getStakeToken(call),
+      enterpriseWallet: await enterprise.getEnterpriseWallet(call),
+      enterpriseCollector: await enterprise.getEnterpriseCollector(call),
+      streamingReserveHalvingPeriod: info.streamingReserveHalvingPeriod,
+      renterOnlyReturnPeriod: info.renterOnlyReturnPeriod,
+      enterpriseOnlyCollectionPeriod: info.enterpriseOnlyCollectionPeriod,
+      gcFeePercent: info.gcFeePercent,
+      bondingPole: pole.toBigInt(),
+      bondingSlope: slope.toBigInt(),
+      totalShares: info.totalShares.toBigInt(),
+      fixedReserve: info.fixedReserve.toBigInt(),
+      usedReserve: info.usedReserve.toBigInt(),
+      reserve: (await enterprise.getReserve(call)).toBigInt(),
+      availableReserve: (await enterprise.getAvailableReserve(call)).toBigInt(),
+      streamingReserve: info.streamingReserve.toBigInt(),
+      streamingReserveTarget: info.streamingReserveTarget.toBigInt(),
+      streamingReserveUpdated: info.streamingReserveUpdated,
+    });
+    expect(snapshot.streamingReserveTarget > 0n).to.eq(true);
+    expect(snapshot.paymentTokens).to.deep.eq([{ paymentToken: token.address, enabled: true }]);
+
+    expect(snapshot.services.map((x) => x.powerToken)).to.deep.eq([powerToken.address, otherPowerToken.address]);
+    for (const service of snapshot.services) {
+      const contract = client.getPowerToken(service.powerToken);
+      const serviceInfo = await contract.getInfo(call);
+      expect(service).to.deep.eq({
+        powerToken: contract.address,
+        name: serviceInfo.name,
+        symbol: serviceInfo.symbol,
+        decimals: await contract.decimals(call),
+        totalSupply: (await contract.totalSupply(call)).toBigInt(),
+        baseToken: serviceInfo.baseToken,
+        baseRate: serviceInfo.baseRate.toBigInt(),
+        minGCFee: serviceInfo.minGCFee.toBigInt(),
+        serviceFeePercent: serviceInfo.serviceFeePercent,
+        energyGapHalvingPeriod: serviceInfo.energyGapHalvingPeriod,
+        index: serviceInfo.index,
+        minRentalPeriod: serviceInfo.minRentalPeriod,
+        maxRentalPeriod: serviceInfo.maxRentalPeriod,
+        swappingEnabled: serviceInfo.swappingEnabled,
+        transferEnabled: serviceInfo.transferEnabled,
+      });
+    }
+  });
+
+  it('should match the account getters', async () => {
+    const userClient = client.connect(user);
+    const { rentalTokenId: first } = await userClient.rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 1_000n,
+      rentalPeriod: ONE_DAY,
+    });
+    const { rentalTokenId: second } = await userClient.rent({
+      powerToken: otherPowerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 500n,
+      rentalPeriod: ONE_DAY * 2,
+    });
+    const { stakeTokenId } = await userClient.stake(ONE_TOKEN * 1_000n);
+    await token.connect(user).approve(client.address, ONE_TOKEN);
+    await increaseTime(ONE_HOUR);
+
+    const view = await loadAccountView(lens, client.address, user.address);
+    const { enterprise } = client;
+    const call = { blockTag: view.blockNumber };
+
+    expect(view).to.deep.include({
+      account: user.address,
+      enterpriseTokenBalance: (await token.balanceOf(user.address, call)).toBigInt(),
+      enterpriseTokenAllowance: ONE_TOKEN,
+    });
+
+    for (const [i, address] of [powerToken.address, otherPowerToken.address].entries()) {
+      const contract = client.getPowerToken(address);
+      expect(view.services[i]).to.deep.eq({
+        powerToken: address,
+        balance: (await contract.balanceOf(user.address, call)).toBigInt(),
+        availableBalance: (await contract.availableBalanceOf(user.address, call)).toBigInt(),
+        lockedBalance: (await contract.getState(user.address, call)).lockedBalance.toBigInt(),
+        energy: (await contract.energyAt(user.address, view.timestamp, call)).toBigInt(),
+      });
+    }
+    expect(view.services[1].lockedBalance).to.eq(ONE_TOKEN * 500n);
+
+    expect(view.rentals.map((x) => x.rentalTokenId)).to.deep.eq([first.toBigInt(), second.toBigInt()]);
+    for (const rental of view.rentals) {
+      const agreement = await enterprise.getRentalAgreement(rental.rentalTokenId, call);
+      expect(rental).to.deep.eq({
+        rentalTokenId: rental.rentalTokenId,
+        rentalAmount: agreement.rentalAmount.toBigInt(),
+        powerTokenIndex: agreement.powerTokenIndex,
+        startTime: agreement.startTime,
+        endTime: agreement.endTime,
+        renterOnlyReturnTime: agreement.renterOnlyReturnTime,
+        enterpriseOnlyCollectionTime: agreement.enterpriseOnlyCollectionTime,
+        gcRewardAmount: agreement.gcRewardAmount.toBigInt(),
+        gcRewardTokenIndex: agreement.gcRewardTokenIndex,
+      });
+    }
+
+    const stake = await enterprise.getStake(stakeTokenId, call);
+    expect(view.stakes).to.deep.eq([
+      {
+        stakeTokenId: stakeTokenId.toBigInt(),
+        amount: stake.amount.toBigInt(),
+        shares: stake.shares.toBigInt(),
+        block: stake.block.toNumber(),
+        reward: (await enterprise.getStakingReward(stakeTokenId, call)).toBigInt(),
+      },
+    ]);
+  });
+
+  it('should load the state at the block', async () => {
+    const userClient = client.connect(user);
+    const before = await ethers.provider.getBlockNumber();
+    await userClient.rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 1_000n,
+      rentalPeriod: ONE_DAY,
+    });
+
+    const [snapshot, view] = await Promise.all([
+      loadEnterpriseSnapshot(lens, client.address, before),
+      loadAccountView(lens, client.address, user.address, before),
+    ]);
+    expect(snapshot.blockNumber).to.eq(before);
+    expect(snapshot.usedReserve).to.eq(0n);
+    expect(snapshot.services[0].totalSupply).to.eq(0n);
+    expect(view.blockNumber).to.eq(before);
+    expect(view.rentals).to.be.empty;
+
+    const latest = await loadAccountView(lens, client.address, user.address);
+    expect(latest.rentals).to.have.length(1);
+    expect(latest.services[0].balance).to.eq(ONE_TOKEN * 1_000n);
+  });
+
+  it('should load the snapshot of the enterprise deployed before the on-chain token URIs', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const recorded = require('../../deployments/binance/Enterprise.json');
+    const implementation = await new ethers.ContractFactory(recorded.abi, recorded.bytecode, deployer).deploy();
+    await client.enterprise.upgrade(
+      await client.enterprise.getFactory(),
+      implementation.address,
+      ethers.constants.AddressZero,
+      ethers.constants.AddressZero,
+      ethers.constants.AddressZero,
+      []
+    );
+    await expect(client.enterprise.isOnChainTokenUri()).to.be.reverted;
+
+    const snapshot = await loadEnterpriseSnapshot(lens, client.address);
+    expect(snapshot.onChainTokenUri).to.be.false;
+    expect(snapshot.name).to.eq('Test');
+    expect(snapshot.services).to.have.length(2);
+  });
+});
@@ -0,0 +1,180 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { get } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'hardhat';
+import { Enterprise, ERC20Mock, ERC20Mock__factory, PowerToken } from '../../typechain';
+import { createMetadataServer, MetadataResolver, NftMetadata } from '../../sdk';
+import {
+  baseRate,
+  deployEnterprise,
+  evmRevert,
+  evmSnapshot,
+  expectSnapshot,
+  getRentalTokenId,
+  nextBlock,
+  ONE_DAY,
+  ONE_HOUR,
+  registerService,
+  setNextBlockTimestamp,
+  stake,
+} from '../utils';
+
+describe('Metadata service', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  // Pinned block timestamps keep the snapshots reproducible.
+  const START = 2_000_000_000;
+  let snapshot: string;
+  let staker: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let enterprise: Enterprise;
+  let powerToken: PowerToken;
+  let stakeTokenId: BigNumber;
+  let rentalTokenId: BigNumber;
+  let resolver: MetadataResolver;
+
+  const decodeImage = ({ image }: NftMetadata) =>
+    Buffer.from(image.replace('data:image/svg+xml;base64,', ''), 'base64').toString();
+
+  before(async () => {
+    snapshot = (await evmSnapshot()) as string;
+    const [deployer] = await ethers.getSigners();
+    [, staker, renter] = await ethers.getSigners();
+    token = await new ERC20Mock__factory(deployer).deploy('Test Token', 'TST', 18, ONE_TOKEN * 1_000_000n);
+    enterprise = await deployEnterprise('Metadata Test', token.address);
+    powerToken = await registerService(
+      enterprise,
+      ONE_DAY,
+      baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 3n * ONE_TOKEN),
+      token.address,
+      300,
+      ONE_HOUR * 12,
+      ONE_DAY * 60,
+      ONE_TOKEN,
+      true
+    );
+    await token.transfer(staker.address, ONE_TOKEN * 10_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 1_000n);
+    stakeTokenId = await stake(enterprise, ONE_TOKEN * 10_000n, staker);
+    await token.connect(renter).approve(enterprise.address, ONE_TOKEN * 1_000n);
+
+    await setNextBlockTimestamp(START);
+    rentalTokenId = await getRentalTokenId(
+      enterprise,
+      await enterprise
+        .connect(renter)
+        .rent(powerToken.address, token.address, ONE_TOKEN * 100n, ONE_DAY, ONE_TOKEN * 1_000n)
+    );
+    await nextBlock(START + ONE_HOUR * 12);
+  });
+
+  after(async () => {
+    await evmRevert(snapshot);
+  });
+
+  beforeEach(() => {
+    resolver = new MetadataResolver(ethers.provider, enterprise.address);
+  });
+
+  it('should resolve rental metadata', async () => {
+    const metadata = await resolver.getRentalMetadata(rentalTokenId);
+
+    await expectSnapshot('metadata/rental.json', metadata);
+    await expectSnapshot('metadata/rental.svg', metadata && decodeImage(metadata));
+  });
+
+  it('should resolve stake metadata', async () => {
+    const metadata = await resolver.getStakeMetadata(stakeTokenId);
+
+    await expectSnapshot('metadata/stake.json', metadata);
+    await expectSnapshot('metadata/stake.svg', metadata && decodeImage(metadata));
+  });
+
+  it('should not resolve unknown tokens', async () => {
+    expect(await resolver.getRentalMetadata(stakeTokenId)).to.be.undefined;
+    expect(await resolver.getStakeMetadata(12345)).to.be.undefined;
+  });
+
+  it('should cache metadata', async () => {
+    const snapshot = (await evmSnapshot()) as string;
+    const uncached = new MetadataResolver(ethers.provider, enterprise.address, { cacheTtl: 0 });
+    const cached = await resolver.getStakeMetadata(stakeTokenId);
+    await uncached.getStakeMetadata(stakeTokenId);
+
+    await nextBlock(START + ONE_DAY * 2);
+
+    expect(await resolver.getStakeMetadata(stakeTokenId)).to.deep.eq(cached);
+    expect(await uncached.getStakeMetadata(stakeTokenId)).not.to.deep.eq(cached);
+    resolver.clear();
+    expect(await resolver.getStakeMetadata(stakeTokenId)).to.deep.eq(await uncached.getStakeMetadata(stakeTokenId));
+    await evmRevert(snapshot);
+  });
+
+  describe('server', () => {
+    let other: MetadataResolver;
+    let url: string;
+    let server: ReturnType<typeof createMetadataServer>;
+
+    const request = (path: string): Promise<{ status?: number; headers: Record<string, unknown>; body: unknown }> =>
+      new Promise((resolve, reject) => {
+        get(`${url}${path}`, (response) => {
+          let body = '';
+          response.on('data', (chunk) => (body += chunk));
+          response.on('end', () =>
+            resolve({ status: response.statusCode, headers: response.headers, body: JSON.parse(body) })
+          );
+        }).on('error', reject);
+      });
+
+    beforeEach(async () => {
+      other = new MetadataResolver(
+        ethers.provider,
+        await deployEnterprise('Other', token.address).then((x) => x.address)
+      );
+      server = createMetadataServer([resolver, other]);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should serve metadata of the enterprises', async () => {
+      const rental = await request(`/${enterprise.address}/rental/${rentalTokenId}`);
+      expect(rental.status).to.eq(200);
+      expect(rental.headers['cache-control']).to.eq('public, max-age=60');
+      expect(rental.body).to.deep.eq(await resolver.getRentalMetadata(rentalTokenId));
+
+      const stake = await request(`/${enterprise.address.toLowerCase()}/stake/${stakeTokenId}`);
+      expect(stake.body).to.deep.eq(await resolver.getStakeMetadata(stakeTokenId));
+    });
+
+    it('should respond with errors', async () => {
+      expect(await request(`/${other.address}/rental/${rentalTokenId}`)).to.deep.include({
+        status: 404,
+        body: { error: `Unknown rental token: ${rentalTokenId}` },
+      });
+      expect(await request(`/${enterprise.address}/rental/0x01`)).to.deep.include({
+        status: 400,
+        body: { error: 'Invalid token id: 0x01' },
+      });
+      // The enterprise can only be omitted with a single resolver.
+      expect((await request(`/rental/${rentalTokenId}`)).status).to.eq(404);
+      expect((await request(`/${enterprise.address}/power/1`)).status).to.eq(404);
+    });
+
+    it('should serve single enterprise without address prefix', async () => {
+      await new Promise((resolve) => server.close(resolve));
+      server = createMetadataServer([resolver]);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      const { status, body } = await request(`/stake/${stakeTokenId}`);
+      expect(status).to.eq(200);
+      expect(body).to.deep.eq(await resolver.getStakeMetadata(stakeTokenId));
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { expect } from 'chai';
+import { Wallet } from 'ethers';
+import {
+  DEFAULT_MNEMONIC,
+  DEFAULT_PRIVATE_KEY,
+  KeySource,
+  MNEMONIC_ACCOUNTS,
+  namedRole,
+  resolveSigners,
+  selectedNetwork,
+} from '../../utils/network';
+
+describe('Network signers', () => {
+  const MNEMONIC = 'candy maple cake sugar pudding cream honey rich smooth crumble sweet treat';
+  const deployer = Wallet.createRandom();
+  const operator = Wallet.createRandom();
+  const collector = Wallet.createRandom();
+  let keystores: Record<string, string>;
+  let prompts: string[];
+
+  const source = (env: Record<string, string>, passphrase = 'secret'): KeySource => ({
+    env,
+    readFile: (path) => {
+      if (!keystores[path]) throw new Error(`ENOENT: ${path}`);
+      return keystores[path];
+    },
+    prompt: (question) => {
+      prompts.push(question);
+      return passphrase;
+    },
+  });
+
+  before(async () => {
+    // Low scrypt cost keeps the keystores fast to decrypt.
+    const encrypt = (wallet: Wallet) => wallet.encrypt('secret', { scrypt: { N: 2 } });
+    keystores = {
+      'deployer.json': await encrypt(deployer),
+      'operator.json': await encrypt(operator),
+    };
+  });
+
+  beforeEach(() => {
+    prompts = [];
+  });
+
+  it('should fall back to the network, generic and default keys', () => {
+    const resolve = (env: Record<string, string>, privateKey = false) =>
+      resolveSigners('rinkeby', { privateKey, selected: 'rinkeby', source: source(env) });
+
+    expect(resolve({ MNEMONIC_RINKEBY: MNEMONIC, MNEMONIC: DEFAULT_MNEMONIC })).to.deep.eq({
+      accounts: { mnemonic: MNEMONIC },
+      roles: { deployer: 0, operator: 0, collector: 0 },
+      defaultKeys: false,
+    });
+    expect(resolve({ MNEMONIC_RINKEBY: '', MNEMONIC }).accounts).to.deep.eq({ mnemonic: MNEMONIC });
+    expect(resolve({})).to.deep.include({ accounts: { mnemonic: DEFAULT_MNEMONIC }, defaultKeys: true });
+    expect(resolve({ PRIVATE_KEY: deployer.privateKey }, true).accounts).to.deep.eq([deployer.privateKey]);
+    expect(resolve({}, true)).to.deep.include({ accounts: [DEFAULT_PRIVATE_KEY], defaultKeys: true });
+
+    const staging = resolveSigners('staging', { keys: 'rinkeby', selected: 'staging', source: source({ MNEMONIC }) });
+    expect(staging.accounts).to.deep.eq({ mnemonic: MNEMONIC });
+    const localhost = resolveSigners('localhost', {
+      keys: '',
+      selected: 'localhost',
+      source: source({ MNEMONIC_LOCALHOST: DEFAULT_MNEMONIC, MNEMONIC }),
+    });
+    expect(localhost.accounts).to.deep.eq({ mnemonic: MNEMONIC });
+  });
+
+  it('should refuse default keys on the selected production network', () => {
+    expect(() => resolveSigners('binance', { selected: 'binance', source: source({}) })).to.throw(
+      'Network binance refuses the default keys, set KEYSTORE_BINANCE or MNEMONIC_BINANCE'
+    );
+    expect(() =>
+      resolveSigners('polygon', {
+        privateKey: true,
+        selected: 'polygon',
+        source: source({ PRIVATE_KEY: DEFAULT_PRIVATE_KEY }),
+      })
+    ).to.throw('Network polygon refuses the default keys, set KEYSTORE_POLYGON or PRIVATE_KEY_POLYGON');
+
+    // Configuring the production network does not make other runs fail.
+    expect(resolveSigners('binance', { selected: 'hardhat', source: source({}) }).defaultKeys).to.eq(true);
+    expect(resolveSigners('binance', { selected: 'binance', source: source({ MNEMONIC }) }).defaultKeys).to.eq(false);
+    expect(resolveSigners('binanceTestnet', { selected: 'binanceTestnet', source: source({}) }).defaultKeys).to.eq(
+      true
+    );
+  });
+
+  it('should decrypt keystores of the selected network', () => {
+    const signers = resolveSigners('binance', {
+      selected: 'binance',
+      source: source({ KEYSTORE_BINANCE: 'deployer.json', KEYSTORE_PASSWORD_BINANCE: 'secret', MNEMONIC }),
+    });
+    expect(signers).to.deep.eq({
+      accounts: [deployer.privateKey],
+      roles: { deployer: 0, operator: 0, collector: 0 },
+      defaultKeys: false,
+    });
+    expect(prompts).to.be.empty;
+
+    const prompted = resolveSigners('binance', { selected: 'binance', source: source({ KEYSTORE: 'deployer.json' }) });
+    expect(prompted.accounts).to.deep.eq([deployer.privateKey]);
+    expect(prompts).to.deep.eq(['Passphrase for deployer.json: ']);
+
+    expect(() =>
+      resolveSigners('binance', { selected: 'binance', source: source({ KEYSTORE: 'deployer.json' }, 'wrong') })
+    ).to.throw('Cannot decrypt keystore deployer.json: invalid password');
+    expect(() =>
+      resolveSigners('binance', { selected: 'binance', source: source({ KEYSTORE: 'missing.json' }) })
+    ).to.throw('Cannot decrypt keystore missing.json: ENOENT: missing.json');
+  });
+
+  it('should not decrypt keystores of other networks', () => {
+    const env = { KEYSTORE_BINANCE: 'deployer.json', PRIVATE_KEY_BINANCE_COLLECTOR: collector.privateKey };
+    const signers = resolveSigners('binance', { selected: 'polygon', source: source(env) });
+
+    expect(signers).to.deep.eq({ accounts: [], roles: { deployer: 0, operator: 0, collector: 1 }, defaultKeys: false });
+    expect(prompts).to.be.empty;
+  });
+
+  it('should map signer roles to named accounts', () => {
+    const env = {
+      KEYSTORE_BINANCE: 'deployer.json',
+      KEYSTORE_BINANCE_OPERATOR: 'operator.json',
+      PRIVATE_KEY_BINANCE_COLLECTOR: collector.privateKey,
+      KEYSTORE_PASSWORD: 'secret',
+      PRIVATE_KEY_POLYGON: deployer.privateKey,
+      PRIVATE_KEY_POLYGON_COLLECTOR: collector.privateKey,
+      MNEMONIC_KOVAN: MNEMONIC,
+      PRIVATE_KEY_KOVAN_OPERATOR: operator.privateKey,
+    };
+    const binance = resolveSigners('binance', { selected: 'binance', source: source(env) });
+    expect(binance).to.deep.eq({
+      accounts: [deployer.privateKey, operator.privateKey, collector.privateKey],
+      roles: { deployer: 0, operator: 1, collector: 2 },
+      defaultKeys: false,
+    });
+    const polygon = resolveSigners('polygon', { privateKey: true, selected: 'polygon', source: source(env) });
+    expect(polygon).to.deep.include({
+      accounts: [deployer.privateKey, collector.privateKey],
+      roles: { deployer: 0, operator: 0, collector: 1 },
+    });
+    // Mnemonic is replaced with its accounts to append the role keys, named accounts keep their indices.
+    const kovan = resolveSigners('kovan', { selected: 'kovan', source: source(env) });
+    const mnemonicAccounts = [0, 1, 2, 3].map((i) => Wallet.fromMnemonic(MNEMONIC, `m/44'/60'/0'/0/${i}`).privateKey);
+    expect(kovan.accounts).to.have.length(MNEMONIC_ACCOUNTS + 1);
+    expect((kovan.accounts as string[]).slice(0, 4)).to.deep.eq(mnemonicAccounts);
+    expect((kovan.accounts as string[])[MNEMONIC_ACCOUNTS]).to.eq(operator.privateKey);
+    expect(kovan.roles).to.deep.eq({ deployer: 0, operator: MNEMONIC_ACCOUNTS, collector: 0 });
+
+    const localhost = resolveSigners('localhost', { keys: '', selected: 'localhost', source: source({}) });
+    expect(namedRole({ localhost, binance, polygon, kovan }, 'operator')).to.deep.eq({
+      default: 0,
+      localhost: 0,
+      binance: 1,
+      polygon: 0,
+      kovan: MNEMONIC_ACCOUNTS,
+    });
+    expect(namedRole({ localhost, binance, polygon, kovan }, 'collector')).to.deep.eq({
+      default: 0,
+      localhost: 0,
+      binance: 2,
+      polygon: 1,
+      kovan: 0,
+    });
+  });
+
+  it('should select the network from the command line', () => {
+    expect(
+      selectedNetwork(['node', 'hardhat', '--network', 'binance', 'deploy'], { HARDHAT_NETWORK: 'polygon' })
+    ).to.eq('binance');
+    expect(selectedNetwork(['node', 'script.ts'], { HARDHAT_NETWORK: 'polygon' })).to.eq('polygon');
+    expect(selectedNetwork(['node', 'hardhat', 'test'], {})).to.eq('hardhat');
+  });
+});
@@ -0,0 +1,223 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  AggregatorMock,
+  AggregatorMock__factory,
+  ERC20Mock,
+  ERC20Mock__factory,
+  OracleConverter,
+  OracleConverter__factory,
+  PowerToken,
+} from '../../typechain';
+import { estimateRentalFee, IQClient, loadOracleFeeConverter, loadRentalFeeParams, totalRentalFee } from '../../sdk';
+import { Errors } from '../types';
+import { deployTestEnterprise, increaseTime, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('OracleConverter', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  const ONE_USDC = 10n ** 6n;
+  const ONE_DOLLAR = 10n ** 8n;
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let wallet: SignerWithAddress;
+  let token: ERC20Mock;
+  let usdc: ERC20Mock;
+  let tokenFeed: AggregatorMock;
+  let usdcFeed: AggregatorMock;
+  let converter: OracleConverter;
+
+  beforeEach(async () => {
+    [deployer, renter, wallet] = await ethers.getSigners();
+    token = await new ERC20Mock__factory(deployer).deploy('Testing', 'TST', 18, ONE_TOKEN * 100_000_000n);
+    usdc = await new ERC20Mock__factory(deployer).deploy('USD Coin', 'USDC', 6, ONE_USDC * 100_000_000n);
+    // 1 TST = 0.5 USD, 1 USDC = 1 USD
+    tokenFeed = await new AggregatorMock__factory(deployer).deploy(8, ONE_DOLLAR / 2n);
+    usdcFeed = await new AggregatorMock__factory(deployer).deploy(8, ONE_DOLLAR);
+    // one hour max staleness, 10% max deviation
+    converter = await new OracleConverter__factory(deployer).deploy(ONE_HOUR, 1000);
+    await converter.setFeed(token.address, tokenFeed.address);
+    await converter.setFeed(usdc.address, usdcFeed.address);
+    await token.transfer(converter.address, ONE_TOKEN * 1_000_000n);
+  });
+
+  it('should estimate conversion by the feed prices', async () => {
+    expect(await converter.getPrice(token.address)).to.eq(ONE_TOKEN / 2n);
+    expect(await converter.estimateConvert(token.address, ONE_TOKEN * 1_000n, usdc.address)).to.eq(ONE_USDC * 500n);
+    expect(await converter.estimateConvert(usdc.address, ONE_USDC * 500n, token.address)).to.eq(ONE_TOKEN * 1_000n);
+    expect(await converter.estimateConvert(usdc.address, ONE_USDC, usdc.address)).to.eq(ONE_USDC);
+
+    const convert = await loadOracleFeeConverter(converter, usdc.address, token.address);
+    expect(await converter.estimateConvert(usdc.address, 123_456_789n, token.address)).to.eq(convert(123_456_789n));
+  });
+
+  it('should reject unsupported tokens and invalid prices', async () => {
+    const other = await new ERC20Mock__factory(deployer).deploy('Other', 'OTH', 18, ONE_TOKEN);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, other.address)).to.be.revertedWith(
+      Errors.OC_UNSUPPORTED_TOKEN
+    );
+
+    await usdcFeed.setAnswer(0);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, usdc.address)).to.be.revertedWith(
+      Errors.OC_INVALID_PRICE
+    );
+  });
+
+  it('should reject stale prices', async () => {
+    await increaseTime(ONE_HOUR - 10);
+    await converter.estimateConvert(token.address, ONE_TOKEN, usdc.address);
+
+    await increaseTime(20);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, usdc.address)).to.be.revertedWith(
+      Errors.OC_STALE_PRICE
+    );
+
+    await converter.setMaxStaleness(ONE_DAY);
+    await converter.estimateConvert(token.address, ONE_TOKEN, usdc.address);
+  });
+
+  it('should reject prices deviating from the previous round', async () => {
+    await tokenFeed.setAnswer((ONE_DOLLAR * 6n) / 10n);
+    await expect(converter.estimateConvert(token.address, ONE_TOKEN, usdc.address)).to.be.revertedWith(
+      Errors.OC_PRICE_DEVIATION_EXCEEDED
+    );
+
+    await tokenFeed.setAnswer((ONE_DOLLAR * 63n) / 100n);
+    expect(await converter.estimateConvert(token.address, ONE_TOKEN, usdc.address)).to.eq((ONE_USDC * 63n) / 100n);
+
+    await tokenFeed.setAnswer((ONE_DOLLAR * 50n) / 100n);
+    await expect(converter.estimateConvert(usdc.address, ONE_USDC, token.address)).to.be.revertedWith(
+      Errors.OC_PRICE_DEVIATION_EXCEEDED
+    );
+    await converter.setMaxDeviationPercent(2500);
+    expect(await converter.estimateConvert(usdc.address, ONE_USDC, token.address)).to.eq(ONE_TOKEN * 2n);
+  });
+
+  it('should validate settings', async () => {
+    await expect(converter.setMaxStaleness(0)).to.be.revertedWith(Errors.OC_INVALID_MAX_STALENESS);
+    await expect(converter.setMaxDeviationPercent(0)).to.be.revertedWith(Errors.OC_INVALID_MAX_DEVIATION);
+    await expect(converter.connect(renter).setFeed(token.address, usdcFeed.address)).to.be.revertedWith(
+      Errors.CALLER_NOT_OWNER
+    );
+    await expect(converter.connect(renter).withdraw(token.address, renter.address, 1)).to.be.revertedWith(
+      Errors.CALLER_NOT_OWNER
+    );
+    await expect(converter.connect(renter).setEnterpriseAllowed(renter.address, true)).to.be.revertedWith(
+      Errors.CALLER_NOT_OWNER
+    );
+  });
+
+  it('should only convert for the allowed enterprises', async () => {
+    const amount = ONE_USDC * 1_000n;
+    await usdc.transfer(renter.address, amount);
+    await usdc.connect(renter).approve(converter.address, amount);
+
+    expect(await converter.isEnterpriseAllowed(renter.address)).to.eq(false);
+    await expect(converter.connect(renter).convert(usdc.address, amount, token.address)).to.be.revertedWith(
+      Errors.OC_CALLER_NOT_ALLOWED
+    );
+
+    await expect(converter.setEnterpriseAllowed(renter.address, true))
+      .to.emit(converter, 'EnterpriseAllowedChanged')
+      .withArgs(renter.address, true);
+    await converter.connect(renter).convert(usdc.address, amount / 2n, token.address);
+    expect(await token.balanceOf(renter.address)).to.eq(ONE_TOKEN * 1_000n);
+
+    await converter.setEnterpriseAllowed(renter.address, false);
+    await expect(converter.connect(renter).convert(usdc.address, amount / 2n, token.address)).to.be.revertedWith(
+      Errors.OC_CALLER_NOT_ALLOWED
+    );
+  });
+
+  it('should pay converted tokens out of the converter balance', async () => {
+    const amount = ONE_USDC * 1_000n;
+    await usdc.transfer(renter.address, amount);
+    await usdc.connect(renter).approve(converter.address, amount);
+    // The renter stands in for the enterprise.
+    await converter.setEnterpriseAllowed(renter.address, true);
+
+    await converter.connect(renter).convert(usdc.address, amount, token.address);
+
+    expect(await token.balanceOf(renter.address)).to.eq(ONE_TOKEN * 2_000n);
+    expect(await usdc.balanceOf(converter.address)).to.eq(amount);
+    expect(await token.balanceOf(converter.address)).to.eq(ONE_TOKEN * 998_000n);
+
+    await converter.withdraw(usdc.address, wallet.address, amount);
+    expect(await usdc.balanceOf(wallet.address)).to.eq(amount);
+
+    await token.connect(renter).approve(converter.address, ONE_TOKEN);
+    await expect(converter.connect(renter).convert(token.address, ONE_TOKEN, usdc.address)).to.be.revertedWith(
+      Errors.OC_INSUFFICIENT_BALANCE
+    );
+  });
+
+  describe('Renting', () => {
+    const rentalAmount = ONE_TOKEN * 1_000n;
+    let client: IQClient;
+    let powerToken: PowerToken;
+
+    beforeEach(async () => {
+      ({ client, powerToken } = await deployTestEnterprise(deployer, {
+        token,
+        enterprise: { converter: converter.address },
+      }));
+      await converter.setEnterpriseAllowed(client.address, true);
+      await client.enterprise.enablePaymentToken(usdc.address);
+      await client.enterprise.setEnterpriseWallet(wallet.address);
+      await client.stake(ONE_TOKEN * 100_000n);
+      await usdc.transfer(renter.address, ONE_USDC * 10_000n);
+    });
+
+    const rent = (maxPayment: bigint) =>
+      client.connect(renter).rent({
+        powerToken: powerToken.address,
+        paymentToken: usdc.address,
+        rentalAmount,
+        rentalPeriod: ONE_DAY * 7,
+        maxPayment,
+      });
+
+    it('should fail with slippage error when the price rises after estimation', async () => {
+      const quote = (
+        await client.estimateRentalFee(powerToken.address, usdc.address, rentalAmount, ONE_DAY * 7)
+      ).toBigInt();
+
+      await tokenFeed.setAnswer((ONE_DOLLAR * 105n) / 200n);
+
+      await expect(rent(quote)).to.be.revertedWith(Errors.E_RENTAL_PAYMENT_SLIPPAGE);
+      const requote = (
+        await client.estimateRentalFee(powerToken.address, usdc.address, rentalAmount, ONE_DAY * 7)
+      ).toBigInt();
+      expect(requote > quote).to.eq(true);
+      await rent(requote);
+      expect(await usdc.balanceOf(renter.address)).to.eq(ONE_USDC * 10_000n - requote);
+    });
+
+    it('should charge the current price when it drops after estimation', async () => {
+      const quote = (
+        await client.estimateRentalFee(powerToken.address, usdc.address, rentalAmount, ONE_DAY * 7)
+      ).toBigInt();
+
+      await tokenFeed.setAnswer((ONE_DOLLAR * 95n) / 200n);
+      const [params, convert] = await Promise.all([
+        loadRentalFeeParams(client.enterprise, powerToken),
+        loadOracleFeeConverter(converter, token.address, usdc.address),
+      ]);
+      const fee = estimateRentalFee(params, rentalAmount, ONE_DAY * 7, convert);
+      expect(totalRentalFee(fee) < quote).to.eq(true);
+      const convertedFee = await converter.estimateConvert(usdc.address, fee.poolFee + fee.serviceFee, token.address);
+      const reserveTarget = (await client.enterprise.getInfo()).streamingReserveTarget;
+
+      const { rentalTokenId } = await rent(quote);
+
+      expect(await usdc.balanceOf(renter.address)).to.eq(ONE_USDC * 10_000n - totalRentalFee(fee));
+      expect((await client.enterprise.getRentalAgreement(rentalTokenId)).gcRewardAmount).to.eq(fee.gcFee);
+      const serviceFee = await token.balanceOf(wallet.address);
+      expect(serviceFee).to.eq(convertedFee.mul(fee.serviceFee).div(fee.poolFee + fee.serviceFee));
+      expect((await client.enterprise.getInfo()).streamingReserveTarget).to.eq(
+        reserveTarget.add(convertedFee).sub(serviceFee)
+      );
+      expect(await usdc.balanceOf(converter.address)).to.eq(fee.poolFee + fee.serviceFee);
+    });
+  });
+});
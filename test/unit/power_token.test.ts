@@ -4,7 +4,17 @@ import { BigNumberish } from 'ethers';
 import { ethers } from 'hardhat';
 import { RentalToken, RentalToken__factory, Enterprise, ERC20Mock, PowerToken } from '../../typechain';
 import { Errors } from '../types';
-import { stake, baseRate, rent, deployEnterprise, getRentalTokenId, ONE_DAY, registerService } from '../utils';
+import { projectEnergyCurve } from '../../sdk';
+import {
+  stake,
+  baseRate,
+  rent,
+  deployEnterprise,
+  getRentalTokenId,
+  increaseTime,
+  ONE_DAY,
+  registerService,
+} from '../utils';
 
 type EnegryTestCase = [BigNumberish, number, BigNumberish];
 
@@ -61,6 +71,29 @@ describe('PowerToken', function () {
         expect(result).to.equal(expected);
       });
     });
+
+    it('should project energy off-chain', async () => {
+      await token.approve(powerToken.address, ONE_ETHER * 3000n);
+      await powerToken.swapIn(ONE_ETHER * 1000n);
+      await increaseTime(GAP_HALVING_PERIOD / 3);
+      const tx = await powerToken.swapIn(ONE_ETHER * 2000n);
+      const block = await ethers.provider.getBlock((await tx.wait()).blockNumber);
+
+      const { energy, timestamp } = await powerToken.getState(user.address);
+      const balance = await powerToken.balanceOf(user.address);
+      const points = projectEnergyCurve(
+        { energy: energy.toBigInt(), timestamp },
+        balance.toBigInt(),
+        GAP_HALVING_PERIOD,
+        block.timestamp,
+        block.timestamp + GAP_HALVING_PERIOD * 3,
+        37
+      );
+
+      for (const point of points) {
+        expect(await powerToken.energyAt(user.address, point.timestamp)).to.equal(point.energy);
+      }
+    });
   });
 
   describe('Basic', () => {
@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import { Enterprise, Enterprise__factory, ERC20Mock, ERC20Mock__factory, PowerToken__factory } from '../../typechain';
+import { parseBaseRate, toFixedPoint } from '../../sdk';
+import type { ProvisioningResult } from '../../tasks/provision';
+import { baseRate, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('Enterprise provisioning', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let dir: string;
+  let usdc: ERC20Mock;
+  let deploymentName: string;
+  let counter = 0;
+
+  const manifest = (overrides = '') => `
+name: Testing Enterprise
+deploymentName: ${deploymentName}
+enterpriseToken: ERC20Mock
+baseUri: https://iq.space
+converter: DefaultConverter
+gcFeePercent: 200
+enterpriseCollector: user
+renterOnlyReturnPeriod: ${ONE_HOUR * 12}
+enterpriseOnlyCollectionPeriod: ${ONE_DAY}
+bondingCurve:
+  pole: 0.05
+  slope: 0.3
+paymentTokens:
+  - ${usdc.address}
+services:
+  - name: IQ Power Test
+    symbol: IQPT
+    energyGapHalvingPeriod: ${ONE_DAY}
+    baseRate: baseRate(100n, 86400n, 3n)
+    baseToken: ERC20Mock
+    minGCFee: 1
+    serviceFeePercent: 300
+    minRentalPeriod: ${ONE_HOUR * 12}
+    maxRentalPeriod: ${ONE_DAY * 60}
+    swappingEnabled: true
+${overrides}`;
+
+  const provision = async (text: string, dryRun = false): Promise<ProvisioningResult> => {
+    const file = path.join(dir, `manifest-${counter++}.yaml`);
+    await fs.writeFile(file, text);
+    return hre.run('enterprise:provision', { manifest: file, dryRun });
+  };
+
+  const getEnterprise = async (): Promise<Enterprise> =>
+    Enterprise__factory.connect((await hre.deployments.get(deploymentName)).address, ethers.provider);
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true });
+  });
+
+  beforeEach(async () => {
+    const [deployer] = await ethers.getSigners();
+    usdc = await new ERC20Mock__factory(deployer).deploy('USD Coin', 'USDC', 6, 1_000_000n * 10n ** 6n);
+    deploymentName = `Enterprise_Provisioning_${counter++}`;
+  });
+
+  it('should parse human readable base rate', async () => {
+    const expected = baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 3n * ONE_TOKEN);
+
+    expect(parseBaseRate('baseRate(100n, 86400n, 3n)')).to.eq(expected);
+    expect(parseBaseRate({ tokens: 100, period: ONE_DAY, price: '3' })).to.eq(expected);
+    expect(parseBaseRate({ tokens: 100, period: ONE_DAY, price: '1.5' })).to.eq(
+      baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 1_500_000n, 18n, 6n)
+    );
+  });
+
+  it('should deploy enterprise described by the manifest', async () => {
+    const { user } = await hre.getNamedAccounts();
+    const token = await hre.deployments.get('ERC20Mock');
+
+    const result = await provision(manifest());
+
+    expect(result.deployed).to.eq(true);
+    const enterprise = await getEnterprise();
+    expect(enterprise.address).to.eq(result.address);
+    const info = await enterprise.getInfo();
+    expect(info.name).to.eq('Testing Enterprise');
+    expect(info.gcFeePercent).to.eq(200);
+    expect(info.renterOnlyReturnPeriod).to.eq(ONE_HOUR * 12);
+    expect(info.enterpriseOnlyCollectionPeriod).to.eq(ONE_DAY);
+    expect(await enterprise.getEnterpriseToken()).to.eq(token.address);
+    expect(await enterprise.getEnterpriseCollector()).to.eq(user);
+    const [pole, slope] = await enterprise.getBondingCurve();
+    expect(pole).to.eq(toFixedPoint('0.05'));
+    expect(slope).to.eq(toFixedPoint('0.3'));
+    expect(await enterprise.isSupportedPaymentToken(usdc.address)).to.eq(true);
+
+    const [powerTokenAddress] = await enterprise.getPowerTokens();
+    expect((await hre.deployments.get(`${deploymentName}_IQPT`)).address).to.eq(powerTokenAddress);
+    const service = await PowerToken__factory.connect(powerTokenAddress, ethers.provider).getInfo();
+    expect(service.name).to.eq('IQ Power Test');
+    expect(service.baseRate).to.eq(baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 3n * ONE_TOKEN));
+    expect(service.minGCFee).to.eq(ONE_TOKEN);
+    expect(service.swappingEnabled).to.eq(true);
+    expect(service.transferEnabled).to.eq(false);
+  });
+
+  it('should not change anything when re-run with the same manifest', async () => {
+    await provision(manifest());
+
+    const result = await provision(manifest());
+
+    expect(result.deployed).to.eq(false);
+    expect(result.steps).to.be.empty;
+  });
+
+  it('should apply only the changes', async () => {
+    await provision(manifest());
+    const changed = manifest()
+      .replace('gcFeePercent: 200', 'gcFeePercent: 300')
+      .replace(`enterpriseOnlyCollectionPeriod: ${ONE_DAY}`, `enterpriseOnlyCollectionPeriod: ${ONE_DAY * 3}`)
+      .replace(`renterOnlyReturnPeriod: ${ONE_HOUR * 12}`, `renterOnlyReturnPeriod: ${ONE_DAY * 2}`)
+      .replace('    serviceFeePercent: 300', '    serviceFeePercent: 500\n    transferEnabled: true')
+      .replace(`  - ${usdc.address}`, '  []')
+      .replace('paymentTokens:\n  []', 'paymentTokens: []');
+
+    const dryRun = await provision(changed, true);
+    const result = await provision(changed);
+
+    const enterprise = await getEnterprise();
+    expect(result.steps.map((x) => x.description)).to.deep.eq([
+      'setGcFeePercent(300)',
+      `setEnterpriseOnlyCollectionPeriod(${ONE_DAY * 3})`,
+      `setRenterOnlyReturnPeriod(${ONE_DAY * 2})`,
+      `disablePaymentToken(${usdc.address.toLowerCase()})`,
+      'IQ Power Test: setServiceFeePercent(500)',
+      'IQ Power Test: enableTransferForever()',
+    ]);
+    expect(dryRun.steps).to.deep.eq(result.steps);
+    expect((await enterprise.getInfo()).gcFeePercent).to.eq(300);
+    expect(await enterprise.isSupportedPaymentToken(usdc.address)).to.eq(false);
+    expect((await provision(changed)).steps).to.be.empty;
+  });
+
+  it('should reject changes of immutable parameters', async () => {
+    await provision(manifest());
+
+    const error = await provision(
+      manifest().replace(`energyGapHalvingPeriod: ${ONE_DAY}`, `energyGapHalvingPeriod: ${ONE_HOUR}`)
+    ).catch((e: Error) => e);
+
+    expect((error as Error).message).to.contain('IQ Power Test: energyGapHalvingPeriod cannot be changed');
+  });
+});
@@ -0,0 +1,184 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { promises as fs } from 'fs';
+import { ethers } from 'hardhat';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import {
+  FileRenewalStore,
+  IQClient,
+  MemoryRenewalStore,
+  RenewalDecision,
+  RenewalKeeper,
+  RenewalPolicy,
+  RenewalState,
+} from '../../sdk';
+import { currentTime, deployTestEnterprise, increaseTime, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('Rental renewal', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let policy: RenewalPolicy;
+
+  const rent = async (rentalPeriod: number) => {
+    const { rentalTokenId } = await client.connect(renter).rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount: ONE_TOKEN * 100n,
+      rentalPeriod,
+    });
+    return rentalTokenId;
+  };
+
+  const getEndTime = async (rentalTokenId: BigNumber) =>
+    (await client.enterprise.getRentalAgreement(rentalTokenId)).endTime;
+
+  const summary = (decisions: RenewalDecision[]) => decisions.map((x) => [x.rentalTokenId, x.action, x.reason]);
+
+  beforeEach(async () => {
+    [deployer, renter] = await ethers.getSigners();
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+
+    await token.transfer(renter.address, ONE_TOKEN * 10_000n);
+    await client.stake(ONE_TOKEN * 100_000n);
+
+    policy = {
+      paymentToken: token.address,
+      budget: ONE_TOKEN * 1_000n,
+      maxUnitPrice: ONE_TOKEN,
+      rentalPeriod: ONE_DAY * 7,
+      renewBefore: ONE_HOUR * 6,
+    };
+  });
+
+  it('should renew rentals before they end and persist spent budget', async () => {
+    const rentalTokenId = await rent(ONE_DAY * 2);
+    const endTime = await getEndTime(rentalTokenId);
+    const path = join(tmpdir(), `renewal-${Date.now()}.json`);
+    const logged: RenewalDecision[] = [];
+    const keeper = new RenewalKeeper(client.connect(renter), policy, {
+      store: new FileRenewalStore(path),
+      log: (decision) => logged.push(decision),
+    });
+
+    expect(summary(await keeper.run())).to.deep.eq([[rentalTokenId.toString(), 'wait', 'not due']]);
+    expect(await getEndTime(rentalTokenId)).to.eq(endTime);
+
+    await increaseTime(ONE_DAY * 2 - ONE_HOUR * 5);
+    const balance = await token.balanceOf(renter.address);
+    const [renewal] = await keeper.run();
+
+    expect(renewal).to.deep.include({ action: 'renew', rentalPeriod: ONE_DAY * 7, endTime: endTime + ONE_DAY * 7 });
+    expect(await getEndTime(rentalTokenId)).to.eq(endTime + ONE_DAY * 7);
+    const paid = balance.sub(await token.balanceOf(renter.address)).toBigInt();
+    expect(renewal.fee).to.eq(paid);
+    expect((renewal.fee as bigint) <= (renewal.maxPayment as bigint)).to.eq(true);
+    expect(logged.map((x) => x.action)).to.deep.eq(['wait', 'renew']);
+
+    const restarted = new RenewalKeeper(client.connect(renter), policy, { store: new FileRenewalStore(path) });
+    expect(await restarted.getSpent()).to.eq(paid);
+    const { renewals } = await new FileRenewalStore(path).load();
+    expect(renewals.map((x) => [x.transactionHash, x.fee])).to.deep.eq([[renewal.transactionHash, paid]]);
+
+    // Rental can still be renewed after its end time as long as it is not returned.
+    await increaseTime(ONE_DAY * 7 + ONE_HOUR * 2);
+    expect(summary(await restarted.run())).to.deep.eq([[rentalTokenId.toString(), 'renew', 'due']]);
+    expect(await getEndTime(rentalTokenId)).to.eq(endTime + ONE_DAY * 14);
+    expect((await restarted.getSpent()) > paid).to.eq(true);
+    await fs.unlink(path);
+  });
+
+  it('should persist the state without reviving strings as bigints', async () => {
+    const path = join(tmpdir(), `renewal-${Date.now()}.json`);
+    const store = new FileRenewalStore(path);
+    const state: RenewalState = {
+      spent: { [renter.address]: ONE_TOKEN * 5n },
+      renewals: [
+        {
+          rentalTokenId: '1',
+          renter: renter.address,
+          timestamp: 100,
+          endTime: 200,
+          action: 'failed',
+          reason: '100n',
+          fee: -1n,
+        },
+      ],
+    };
+
+    await store.save(state);
+    expect(await store.load()).to.deep.eq(state);
+    await fs.unlink(path);
+  });
+
+  it('should extend within the maximum rental period', async () => {
+    const rentalTokenId = await rent(ONE_DAY * 10);
+    const longest = await rent(ONE_DAY * 60);
+    const keeper = new RenewalKeeper(client.connect(renter), {
+      ...policy,
+      rentalPeriod: ONE_DAY * 90,
+      renewBefore: ONE_DAY * 60,
+    });
+
+    const now = await currentTime();
+    const decisions = await keeper.plan(now);
+    expect(decisions.map((x) => [x.rentalTokenId, x.action, x.reason, x.rentalPeriod])).to.deep.eq([
+      [rentalTokenId.toString(), 'renew', 'due', ONE_DAY * 60 - ((await getEndTime(rentalTokenId)) - now)],
+      [longest.toString(), 'skip', 'rental period out of range', ONE_DAY * 60 - ((await getEndTime(longest)) - now)],
+    ]);
+  });
+
+  it('should respect budget and maximum unit price', async () => {
+    const first = await rent(ONE_DAY);
+    const second = await rent(ONE_DAY * 2);
+    const rented = await rent(ONE_DAY * 30);
+    await increaseTime(ONE_DAY * 2 - ONE_HOUR);
+
+    const keeper = new RenewalKeeper(client.connect(renter), policy);
+    const quotes = await keeper.plan();
+    expect(summary(quotes)).to.deep.eq([
+      [first.toString(), 'renew', 'due'],
+      [second.toString(), 'renew', 'due'],
+      [rented.toString(), 'wait', 'not due'],
+    ]);
+
+    // The most urgent rental is served first.
+    const budget = (quotes[0].maxPayment as bigint) + (quotes[1].maxPayment as bigint) - 1n;
+    expect(summary(await new RenewalKeeper(client.connect(renter), { ...policy, budget }).plan())).to.deep.eq([
+      [first.toString(), 'renew', 'due'],
+      [second.toString(), 'skip', 'budget exceeded'],
+      [rented.toString(), 'wait', 'not due'],
+    ]);
+
+    const maxUnitPrice = (quotes[0].unitPrice as bigint) - 1n;
+    const expensive = new RenewalKeeper(client.connect(renter), {
+      ...policy,
+      maxUnitPrice,
+      rentalTokenIds: [first.toString()],
+    });
+    expect(summary(await expensive.run())).to.deep.eq([[first.toString(), 'skip', 'unit price above limit']]);
+    expect(await expensive.getSpent()).to.eq(0n);
+  });
+
+  it('should record failed renewals', async () => {
+    const rentalTokenId = await rent(ONE_DAY);
+    const endTime = await getEndTime(rentalTokenId);
+    await increaseTime(ONE_DAY - ONE_HOUR);
+    await token.connect(renter).transfer(deployer.address, await token.balanceOf(renter.address));
+
+    const store = new MemoryRenewalStore();
+    const keeper = new RenewalKeeper(client.connect(renter), policy, { store });
+    const [decision] = await keeper.run();
+
+    expect(decision.action).to.eq('failed');
+    expect(decision.reason).to.match(/transfer amount exceeds balance/);
+    expect(await getEndTime(rentalTokenId)).to.eq(endTime);
+    expect(await store.load()).to.deep.eq({ spent: {}, renewals: [decision] });
+  });
+});
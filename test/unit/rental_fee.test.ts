@@ -0,0 +1,110 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { Enterprise, ERC20Mock, ERC20Mock__factory, MockConverter__factory, PowerToken } from '../../typechain';
+import { estimateRentalFee, loadRentalFeeParams, MAX_UINT112, ONE, RentalFeeParams } from '../../sdk';
+import { baseRate, createRandom, deployEnterprise, ONE_DAY, registerService, rent, stake } from '../utils';
+
+const ONE_TOKEN = 10n ** 18n;
+const SCENARIOS = 8;
+const QUOTES = 5;
+
+describe('Rental fee engine', () => {
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+
+  before(async () => {
+    [deployer, renter] = await ethers.getSigners();
+    token = (await ethers.getContract('ERC20Mock')) as ERC20Mock;
+  });
+
+  for (let scenario = 0; scenario < SCENARIOS; scenario++) {
+    describe(`scenario ${scenario}`, () => {
+      const random = createRandom(0x1d + scenario);
+      const baseTokenDecimals = [18, 6, 24][scenario % 3];
+      let enterprise: Enterprise;
+      let powerToken: PowerToken;
+      let baseToken: ERC20Mock;
+      let params: RentalFeeParams;
+
+      before(async () => {
+        baseToken = await new ERC20Mock__factory(deployer).deploy('Base', 'BASE', baseTokenDecimals, 0);
+        const converter = await new MockConverter__factory(deployer).deploy();
+        await converter.setRate(baseToken.address, token.address, 10n ** BigInt(baseTokenDecimals));
+        enterprise = await deployEnterprise('Test', token.address, converter.address);
+        await enterprise.enablePaymentToken(baseToken.address);
+        await enterprise.setBondingCurve(random.bigint(0n, (3n * ONE) / 10n), random.bigint(0n, ONE));
+        await enterprise.setGcFeePercent(random.int(0, 1000));
+
+        // Zero base rate makes initial rental free, so the streaming reserve stays untouched.
+        powerToken = await registerService(
+          enterprise,
+          ONE_DAY,
+          0,
+          baseToken.address,
+          random.int(0, 5000),
+          ONE_DAY / 2,
+          ONE_DAY * 60,
+          0,
+          true
+        );
+
+        const reserve = random.bigint(ONE_TOKEN, ONE_TOKEN * 100_000_000n);
+        await stake(enterprise, reserve);
+        await rent(enterprise, powerToken, token, random.bigint(1n, (reserve * 9n) / 10n), ONE_DAY, 0, renter);
+
+        const baseTokenOne = 10n ** BigInt(baseTokenDecimals);
+        await powerToken.setBaseRate(
+          baseRate(
+            100n * ONE_TOKEN,
+            BigInt(ONE_DAY),
+            random.bigint(1n, 100n * baseTokenOne),
+            18n,
+            BigInt(baseTokenDecimals)
+          ),
+          baseToken.address,
+          random.bigint(0n, baseTokenOne)
+        );
+
+        params = await loadRentalFeeParams(enterprise, powerToken);
+      });
+
+      for (let quote = 0; quote < QUOTES; quote++) {
+        it(`should match on-chain rental fee: ${quote}`, async () => {
+          const rentalAmount = random.bigint(1n, params.reserve - params.usedReserve - 1n);
+          const rentalPeriod = random.int(ONE_DAY / 2, ONE_DAY * 60);
+
+          const [poolFee, serviceFee, gcFee] = await powerToken.estimateRentalFee(
+            baseToken.address,
+            rentalAmount,
+            rentalPeriod
+          );
+
+          expect(estimateRentalFee(params, rentalAmount, rentalPeriod)).to.deep.eq({
+            poolFee: poolFee.toBigInt(),
+            serviceFee: serviceFee.toBigInt(),
+            gcFee: gcFee.toBigInt(),
+          });
+        });
+      }
+
+      it('should return insufficient liquidity sentinel', async () => {
+        const rentalAmount = params.reserve - params.usedReserve;
+        const [poolFee, serviceFee, gcFee] = await powerToken.estimateRentalFee(
+          baseToken.address,
+          rentalAmount,
+          ONE_DAY
+        );
+        const fee = estimateRentalFee(params, rentalAmount, ONE_DAY);
+
+        expect(fee.poolFee + fee.serviceFee).to.eq(MAX_UINT112);
+        expect(fee).to.deep.eq({
+          poolFee: poolFee.toBigInt(),
+          serviceFee: serviceFee.toBigInt(),
+          gcFee: gcFee.toBigInt(),
+        });
+      });
+    });
+  }
+});
@@ -0,0 +1,192 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ERC20Mock, ERC20Mock__factory, PowerToken } from '../../typechain';
+import { findEvent, IQClient, planRental, splitRentalPeriod } from '../../sdk';
+import { baseRate, deployTestEnterprise, ONE_DAY, ONE_HOUR, registerTestService } from '../utils';
+
+describe('Rental planner', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let other: IQClient;
+  let service: PowerToken;
+  let shortService: PowerToken;
+  let otherService: PowerToken;
+
+  const paid = async (action: () => Promise<unknown>) => {
+    const before = await token.balanceOf(renter.address);
+    await action();
+    return before.sub(await token.balanceOf(renter.address)).toBigInt();
+  };
+
+  beforeEach(async () => {
+    [deployer, renter] = await ethers.getSigners();
+    ({ token, client, powerToken: service } = await deployTestEnterprise(deployer));
+    ({ client: other, powerToken: otherService } = await deployTestEnterprise(deployer, { token }));
+    shortService = await registerTestService(client, token.address, {
+      symbol: 'SHORT',
+      baseRate: baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 2n * ONE_TOKEN),
+      maxRentalPeriod: ONE_DAY * 10,
+    });
+    await client.stake(ONE_TOKEN * 100_000n);
+    await other.stake(ONE_TOKEN * 20_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 10_000n);
+  });
+
+  it('should split rental periods within the allowed range', () => {
+    expect(splitRentalPeriod(ONE_HOUR, 1, ONE_HOUR * 12, ONE_DAY * 10)).to.deep.eq([ONE_HOUR * 12]);
+    expect(splitRentalPeriod(ONE_HOUR, 2, ONE_HOUR * 12, ONE_DAY * 10)).to.be.undefined;
+    expect(splitRentalPeriod(ONE_DAY * 5, 1, ONE_HOUR * 12, ONE_DAY * 10)).to.deep.eq([ONE_DAY * 5]);
+    expect(splitRentalPeriod(ONE_DAY * 5, 2, ONE_HOUR * 12, ONE_DAY * 10)).to.deep.eq([ONE_HOUR * 12, ONE_HOUR * 108]);
+    expect(splitRentalPeriod(ONE_DAY * 25, 2, ONE_HOUR * 12, ONE_DAY * 10)).to.be.undefined;
+    expect(splitRentalPeriod(ONE_DAY * 25, 3, ONE_HOUR * 12, ONE_DAY * 10)).to.deep.eq([
+      ONE_DAY * 5,
+      ONE_DAY * 10,
+      ONE_DAY * 10,
+    ]);
+    expect(splitRentalPeriod(ONE_DAY + 1, 3, ONE_HOUR * 12, ONE_DAY * 10)).to.be.undefined;
+    expect(splitRentalPeriod(ONE_DAY * 2 + 1, 3, ONE_HOUR * 12, ONE_DAY * 10)).to.deep.eq([
+      ONE_HOUR * 12,
+      ONE_HOUR * 18,
+      ONE_HOUR * 18 + 1,
+    ]);
+  });
+
+  it('should select the cheapest service across enterprises', async () => {
+    const amount = ONE_TOKEN * 1_000n;
+    const plan = await planRental(
+      [client.enterprise, other.enterprise],
+      { amount, duration: ONE_DAY },
+      { maxSegments: 1 }
+    );
+
+    expect(plan.quoteToken).to.eq(token.address);
+    expect(plan.skipped).to.be.empty;
+    expect(plan.candidates.map((x) => [x.enterprise, x.powerToken])).to.deep.eq([
+      [client.address, shortService.address],
+      [client.address, service.address],
+      [other.address, otherService.address],
+    ]);
+
+    const { best } = plan;
+    expect(best).to.deep.include({ paymentToken: token.address, rentalAmount: amount, rentalPeriod: ONE_DAY });
+    const total = await client.estimateRentalFee(shortService.address, token.address, amount, ONE_DAY);
+    expect(best?.total).to.eq(total.toBigInt());
+    expect(best?.steps).to.deep.eq([
+      {
+        action: 'rent',
+        rentalPeriod: ONE_DAY,
+        poolFee: best?.poolFee,
+        serviceFee: best?.serviceFee,
+        gcFee: best?.gcFee,
+      },
+    ]);
+
+    const fee = await paid(() =>
+      client.connect(renter).rent({
+        powerToken: shortService.address,
+        paymentToken: token.address,
+        rentalAmount: amount,
+        rentalPeriod: ONE_DAY,
+        maxPayment: total,
+      })
+    );
+    expect(fee).to.eq(best?.total);
+  });
+
+  it('should rent then extend beyond the maximum rental period', async () => {
+    const amount = ONE_TOKEN * 1_000n;
+    const plan = await planRental([client.enterprise], { amount, duration: ONE_DAY * 25 }, { maxSegments: 3 });
+
+    const short = plan.candidates.filter((x) => x.powerToken === shortService.address);
+    expect(short.map((x) => x.steps.map((step) => [step.action, step.rentalPeriod]))).to.deep.eq([
+      [
+        ['rent', ONE_DAY * 5],
+        ['extend', ONE_DAY * 10],
+        ['extend', ONE_DAY * 10],
+      ],
+    ]);
+    expect(short[0].steps.map((x) => x.gcFee > 0n)).to.deep.eq([true, false, false]);
+
+    // The GC fee of a shorter rental is lower, so the split is cheaper than a single rental.
+    const long = plan.candidates.filter((x) => x.powerToken === service.address);
+    const single = long.find((x) => x.steps.length === 1);
+    expect(long).to.have.length(3);
+    expect(long[0].steps.length).to.be.above(1);
+    expect(long[0].gcFee < (single?.gcFee ?? 0n)).to.eq(true);
+
+    const renterClient = client.connect(renter);
+    const [rent, ...extensions] = short[0].steps;
+    let rentalTokenId = '';
+    let fee = await paid(async () => {
+      const result = await renterClient.rent({
+        powerToken: shortService.address,
+        paymentToken: token.address,
+        rentalAmount: amount,
+        rentalPeriod: rent.rentalPeriod,
+      });
+      rentalTokenId = result.rentalTokenId.toString();
+    });
+    for (const { rentalPeriod } of extensions) {
+      fee += await paid(async () => {
+        const receipt = await renterClient.extendRentalPeriod({
+          rentalTokenId,
+          paymentToken: token.address,
+          rentalPeriod,
+        });
+        expect(findEvent(receipt, client.enterprise, 'RentalPeriodExtended').args.rentalTokenId).to.eq(rentalTokenId);
+      });
+    }
+
+    // Reserves change slightly between the transactions, as the pool fees are streamed into the reserve.
+    expect(Number(fee)).to.be.approximately(Number(short[0].total), Number(short[0].total) / 10_000);
+  });
+
+  it('should report services unable to serve the request', async () => {
+    const unsupported = await new ERC20Mock__factory(deployer).deploy('USD', 'USD', 6, 10n ** 12n);
+    await client.enterprise.enablePaymentToken(unsupported.address);
+
+    const plan = await planRental(
+      [client.enterprise, other.enterprise],
+      { amount: ONE_TOKEN * 30_000n, duration: ONE_DAY * 30 },
+      { maxSegments: 1 }
+    );
+
+    expect(plan.candidates.map((x) => [x.powerToken, x.paymentToken])).to.deep.eq([[service.address, token.address]]);
+    expect(plan.skipped).to.deep.eq([
+      {
+        enterprise: client.address,
+        powerToken: service.address,
+        paymentToken: unsupported.address,
+        reason: 'DC_UNSUPPORTED_PAIR',
+      },
+      {
+        enterprise: client.address,
+        powerToken: shortService.address,
+        paymentToken: undefined,
+        reason: 'rental period out of range',
+      },
+      {
+        enterprise: other.address,
+        powerToken: otherService.address,
+        paymentToken: undefined,
+        reason: 'insufficient available reserve',
+      },
+    ]);
+
+    const candidates = await planRental(
+      [client.enterprise],
+      { amount: ONE_TOKEN * 30_000n, duration: ONE_DAY * 30 },
+      {
+        paymentTokens: [unsupported.address],
+        powerTokens: [shortService.address],
+        maxSegments: 3,
+      }
+    );
+    expect(candidates.skipped.map((x) => x.reason)).to.deep.eq(['DC_UNSUPPORTED_PAIR']);
+    expect(candidates.best).to.be.undefined;
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import {
+  formatDuration,
+  parseDuration,
+  parseScenario,
+  runScenario,
+  Scenario,
+  ScenarioFailure,
+  ScenarioReport,
+} from '../scenario';
+
+describe('Scenario', () => {
+  const scenario: Scenario = {
+    name: 'Single staker',
+    actors: { staker: 1000, renter: 100 },
+    services: {
+      IQPT: { baseRate: { tokens: 1000, period: 86400, price: 3 }, minRentalPeriod: '12h', maxRentalPeriod: '60d' },
+    },
+    steps: [
+      {
+        at: 0,
+        actor: 'staker',
+        stake: { amount: 1000, as: 'stake' },
+        expect: { reserve: 1000, stake: { stake: 1000 } },
+      },
+      {
+        at: '1d',
+        actor: 'renter',
+        rent: { service: 'IQPT', amount: 1001, period: '1d', maxPayment: 10, as: 'rental' },
+        reverts: 'E_INSUFFICIENT_LIQUIDITY',
+      },
+      {
+        at: '+0',
+        actor: 'renter',
+        rent: { service: 'IQPT', amount: 100, period: '1d', maxPayment: 10, as: 'rental' },
+        emits: 'Rented',
+        tolerance: '1%',
+        expect: { paid: { renter: 0.31 }, usedReserve: 100, availableReserve: 'reserve - usedReserve' },
+      },
+    ],
+  };
+
+  it('should parse durations', () => {
+    expect(parseDuration(90)).to.eq(90);
+    expect(parseDuration('12h')).to.eq(43200);
+    expect(parseDuration('1d 12h 30m 5s')).to.eq(131405);
+    expect(parseDuration('4.5d')).to.eq(388800);
+    expect(() => parseDuration('1 week')).to.throw('Invalid duration: 1 week');
+    expect(formatDuration(131405)).to.eq('1d12h30m5s');
+    expect(formatDuration(0)).to.eq('0s');
+  });
+
+  it('should validate scenario steps', () => {
+    expect(parseScenario(JSON.stringify(scenario))).to.deep.eq(scenario);
+    expect(() => parseScenario('name: Test\nactors: {}\nservices: {}')).to.throw('Scenario: missing "steps"');
+    expect(() =>
+      parseScenario('{ name: Test, actors: {}, services: {}, steps: [{ at: 0, unstake: { stake: a } }] }')
+    ).to.throw('Scenario: step #1 is missing "actor"');
+    expect(() =>
+      parseScenario(
+        '{ name: Test, actors: {}, services: {}, steps: [{ at: 0, actor: a, unstake: {}, claimReward: {} }] }'
+      )
+    ).to.throw('Scenario: step #1 has several actions: unstake, claimReward');
+    expect(() => parseScenario('{ name: Test, actors: {}, services: {}, steps: [{ at: 0, emits: Rented }] }')).to.throw(
+      'Scenario: step #1 has no action'
+    );
+  });
+
+  it('should run scenario', async () => {
+    const report = await runScenario(scenario);
+
+    expect(report.failed).to.eq(false);
+    expect(report.steps.map((x) => [x.offset, x.outcome])).to.deep.eq([
+      [0, 'ok'],
+      [86400, 'reverted E_INSUFFICIENT_LIQUIDITY'],
+      [86401, 'ok'],
+    ]);
+    expect(report.steps[2].checks).to.deep.include({
+      name: 'usedReserve',
+      expected: '100 ± 1',
+      actual: '100',
+      ok: true,
+    });
+    expect(report.steps[2].checks).to.deep.include({
+      name: 'event Rented',
+      expected: 'emitted',
+      actual: 'emitted',
+      ok: true,
+    });
+    expect(report.steps[2].checks).to.deep.include({
+      name: 'availableReserve',
+      expected: 'reserve - usedReserve = 900 ± 9',
+      actual: '900',
+      ok: true,
+    });
+  });
+
+  it('should evaluate expectations of the measured values', async () => {
+    const check = (expect: Scenario['steps'][number]['expect']) =>
+      runScenario({ ...scenario, steps: [{ ...scenario.steps[0], expect }] }).then(
+        (x) => x.steps[0].checks,
+        (e) => e
+      );
+
+    expect(await check({ reserve: '(stake.stake - 400) * 5 / 3 + shares.stake * 0 + reward.stake' })).to.deep.eq([
+      {
+        name: 'reserve',
+        expected: '(stake.stake - 400) * 5 / 3 + shares.stake * 0 + reward.stake = 1000',
+        actual: '1000',
+        ok: true,
+      },
+    ]);
+    expect(await check({ balance: { staker: '-stake.stake + 1000' } })).to.deep.eq([
+      { name: 'balance staker', expected: '-stake.stake + 1000 = 0', actual: '0', ok: true },
+    ]);
+    expect((await check({ reserve: 'stake.stake +' })).message).to.eq('Scenario: invalid expression "stake.stake +"');
+    expect((await check({ reserve: 'reserve.stake' })).message).to.eq('Scenario: unknown variable "reserve.stake"');
+    expect((await check({ reserve: 'reward.other' })).message).to.eq('Scenario: unknown stake "other"');
+    expect((await check({ reserve: 'reserve / usedReserve' })).message).to.eq(
+      'Scenario: division by zero in "reserve / usedReserve"'
+    );
+  });
+
+  it('should report failed expectations', async () => {
+    const steps = [
+      ...scenario.steps.slice(0, 2),
+      { ...scenario.steps[2], emits: 'RentalReturned', expect: { paid: { renter: 1 } } },
+    ];
+    const error = await runScenario({ ...scenario, steps }).catch((e) => e);
+
+    expect(error).to.be.instanceOf(ScenarioFailure);
+    const report: ScenarioReport = error.report;
+    expect(report.failed).to.eq(true);
+    expect(report.steps).to.have.length(3);
+    expect(report.steps[2].checks[0]).to.deep.eq({
+      name: 'event RentalReturned',
+      expected: 'emitted',
+      actual: 'not emitted',
+      ok: false,
+    });
+    expect(report.steps[2].checks[1]).to.include({ name: 'paid renter', expected: '1 ± 0.01', ok: false });
+    const lines = error.message.split('\n');
+    expect(lines[0]).to.eq('Scenario "Single staker"');
+    expect(lines[4]).to.eq(
+      '  #2   1d           renter     rent 1001 IQPT for 1d max 10 as rental   reverted E_INSUFFICIENT_LIQUIDITY'
+    );
+    expect(lines[7]).to.eq('       ✗ event RentalReturned: expected emitted, actual not emitted');
+    expect(lines[8]).to.match(/^ {7}✗ paid renter: expected 1 ± 0.01, actual 0.31\d+$/);
+
+    const unexpected = await runScenario({
+      ...scenario,
+      steps: [scenario.steps[0], { ...scenario.steps[1], reverts: undefined }],
+    }).catch((e) => e);
+    expect(unexpected.report.steps[1].checks).to.deep.eq([
+      { name: 'outcome', expected: 'ok', actual: 'reverted E_INSUFFICIENT_LIQUIDITY', ok: false },
+    ]);
+  });
+});
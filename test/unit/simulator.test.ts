@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import hre from 'hardhat';
+import {
+  EnterpriseModel,
+  estimateRentalFee,
+  parseSimulationScenario,
+  RentalFee,
+  simulate,
+  totalRentalFee,
+} from '../../sdk';
+import type { SimulationTaskResult } from '../../tasks/simulate';
+import { baseRate, ONE_DAY, ONE_HOUR } from '../utils';
+
+describe('Economic simulator', () => {
+  const ONE_TOKEN = 10n ** 18n;
+
+  const scenarioText = (overrides = '') => `
+seed: 7
+duration: ${ONE_DAY * 10}
+step: ${ONE_HOUR * 2}
+enterprise:
+  gcFeePercent: 200
+  streamingReserveHalvingPeriod: ${ONE_DAY * 3}
+  bondingCurve:
+    pole: 0.05
+    slope: 0.3
+services:
+  - energyGapHalvingPeriod: ${ONE_DAY}
+    baseRate: baseRate(100n, 86400n, 3n)
+    minGCFee: 1
+    serviceFeePercent: 300
+    minRentalPeriod: ${ONE_HOUR * 12}
+    maxRentalPeriod: ${ONE_DAY * 3}
+stakers:
+  - count: 3
+    amount: [100000, 300000]
+    arrival: [0, ${ONE_DAY}]
+    holdingPeriod: [${ONE_DAY * 4}, ${ONE_DAY * 8}]
+renters:
+  - count: 4
+    rentalsPerDay: 2
+    amount: [10000, 80000]
+    period: [${ONE_HOUR * 12}, ${ONE_DAY * 2}]
+    extendProbability: 0.4
+    slippage: 0
+  - count: 3
+    rentalsPerDay: 1
+    amount: [1000, 20000]
+    period: [${ONE_HOUR * 12}, ${ONE_DAY * 3}]
+    slippage: 500
+${overrides}`;
+
+  it('should parse the scenario', () => {
+    const scenario = parseSimulationScenario(scenarioText(), 1000);
+
+    expect(scenario.startTime).to.eq(1000);
+    expect(scenario.services[0].baseRate).to.eq(baseRate(100n, BigInt(ONE_DAY), 3n));
+    expect(scenario.services[0].minGCFee).to.eq(ONE_TOKEN);
+    expect(scenario.stakers[0].amount).to.deep.eq([ONE_TOKEN * 100_000n, ONE_TOKEN * 300_000n]);
+    expect(scenario.renters[1]).to.deep.include({ service: 0, extendProbability: 0, slippage: 500 });
+    expect(() => parseSimulationScenario('seed: 1')).to.throw('Scenario: missing "duration"');
+  });
+
+  it('should model enterprise reserves and fees', () => {
+    const { enterprise, services } = parseSimulationScenario(scenarioText());
+    const model = new EnterpriseModel(enterprise, services);
+    const { stakeId } = model.stake(ONE_TOKEN * 1_000_000n, 1000);
+
+    const fee = model.estimateRentalFee(0, ONE_TOKEN * 50_000n, ONE_DAY, 1000);
+    expect(fee).to.deep.eq(
+      estimateRentalFee(
+        {
+          reserve: ONE_TOKEN * 1_000_000n,
+          usedReserve: 0n,
+          pole: enterprise.bondingPole,
+          slope: enterprise.bondingSlope,
+          ...services[0],
+          gcFeePercent: 200,
+          enterpriseTokenDecimals: 18,
+          baseTokenDecimals: 18,
+        },
+        ONE_TOKEN * 50_000n,
+        ONE_DAY
+      )
+    );
+    expect(() => model.rent(0, ONE_TOKEN * 50_000n, ONE_DAY, fee.poolFee, 1000)).to.throw(
+      'Enterprise: rental payment slippage'
+    );
+
+    const { rentalId } = model.rent(0, ONE_TOKEN * 50_000n, ONE_DAY, ONE_TOKEN * 1_000_000n, 1000);
+    expect(model.state.usedReserve).to.eq(ONE_TOKEN * 50_000n);
+    expect(model.state.streamingReserveTarget).to.eq(fee.poolFee);
+    // Streaming reserve is half way to the target after the halving period.
+    expect(model.getStreamingReserve(1000 + ONE_DAY * 3)).to.eq(fee.poolFee - fee.poolFee / 2n);
+
+    model.returnRental(rentalId);
+    expect(model.unstake(stakeId, 1000 + ONE_DAY * 3)).to.eq(ONE_TOKEN * 1_000_000n + fee.poolFee / 2n);
+    expect(model.state.totalShares).to.eq(0n);
+  });
+
+  it('should report reproducible results', () => {
+    const scenario = parseSimulationScenario(scenarioText());
+    const { report, actions } = simulate(scenario);
+
+    expect(simulate(scenario).actions).to.deep.eq(actions);
+    expect(simulate({ ...scenario, seed: 8 }).actions).not.to.deep.eq(actions);
+    expect(report.actions.stake).to.eq(3);
+    expect(report.actions.rent).to.be.greaterThan(20);
+    expect(report.actions.extend).to.be.greaterThan(0);
+    expect(report.utilization.max).to.be.lessThan(1);
+    expect(report.utilization.mean).to.be.greaterThan(0);
+    expect(report.stakerApy.count).to.eq(3);
+    expect(report.stakerApy.min).to.be.greaterThan(0);
+    expect(report.renterCost.count).to.eq(report.actions.rent + report.actions.extend);
+    expect(report.energyEfficiency.max).to.be.lessThanOrEqual(1);
+  });
+
+  it('should reject rentals exceeding renter slippage', () => {
+    const { report, actions } = simulate(parseSimulationScenario(scenarioText()));
+
+    const rejected = actions.filter((x) => x.error === 'E_RENTAL_PAYMENT_SLIPPAGE');
+    expect(rejected.length).to.be.greaterThan(0);
+    expect(report.errors.E_RENTAL_PAYMENT_SLIPPAGE).to.eq(rejected.length);
+    // Only the renters accepting no slippage are rejected.
+    for (const action of rejected) {
+      expect(action.agent).to.be.within(3, 6);
+      expect(totalRentalFee(action.fee as RentalFee) > (action.maxPayment as bigint)).to.eq(true);
+    }
+    expect(report.slippage.max).to.be.greaterThan(0);
+  });
+
+  it('should calibrate the model against the contracts', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'simulation-'));
+    try {
+      const file = path.join(dir, 'scenario.yaml');
+      const output = path.join(dir, 'report.json');
+      await fs.writeFile(file, scenarioText());
+
+      const { simulation, calibration } = (await hre.run('enterprise:simulate', {
+        scenario: file,
+        output,
+        calibrate: true,
+      })) as SimulationTaskResult;
+
+      expect(calibration?.mismatches).to.deep.eq([]);
+      expect(calibration?.actions).to.eq(simulation.actions.length);
+      expect(simulation.actions.map((x) => x.error)).to.include('E_RENTAL_PAYMENT_SLIPPAGE');
+      expect(JSON.parse(await fs.readFile(output, 'utf8')).simulation.actions).to.have.length(
+        simulation.actions.length
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ERC20Mock, PowerToken } from '../../typechain';
+import { getSharePrice, IQClient, loadStakerYield } from '../../sdk';
+import { deployTestEnterprise, increaseTime, nextBlock, ONE_DAY } from '../utils';
+
+describe('Staker yield', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  const ONE_YEAR = 365 * ONE_DAY;
+  let deployer: SignerWithAddress;
+  let staker: SignerWithAddress;
+  let otherStaker: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let client: IQClient;
+  let powerToken: PowerToken;
+  let startBlock: number;
+
+  const rent = async (rentalAmount: bigint, rentalPeriod: number) =>
+    client.connect(renter).rent({
+      powerToken: powerToken.address,
+      paymentToken: token.address,
+      rentalAmount,
+      rentalPeriod,
+    });
+
+  beforeEach(async () => {
+    [deployer, staker, otherStaker, renter] = await ethers.getSigners();
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    ({ token, client, powerToken } = await deployTestEnterprise(deployer));
+
+    await token.transfer(staker.address, ONE_TOKEN * 100_000n);
+    await token.transfer(otherStaker.address, ONE_TOKEN * 100_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 10_000n);
+  });
+
+  it('should track share price and stake rewards', async () => {
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    const { stakeTokenId: otherStakeTokenId } = await client.connect(otherStaker).stake(ONE_TOKEN * 20_000n);
+    await rent(ONE_TOKEN * 5_000n, ONE_DAY * 3);
+    await increaseTime(ONE_DAY * 7);
+    await client.connect(otherStaker).claimStakingReward(otherStakeTokenId);
+    await client.connect(staker).increaseStake(stakeTokenId, ONE_TOKEN * 5_000n);
+    await increaseTime(ONE_DAY * 7);
+    await client.connect(otherStaker).unstake(otherStakeTokenId);
+    await increaseTime(ONE_DAY);
+    await nextBlock();
+
+    const report = await loadStakerYield(client.enterprise, { fromBlock: startBlock });
+
+    expect(report.history).to.have.length(5);
+    expect(report.history[0].sharePrice).to.eq(1);
+    for (const point of report.history) {
+      expect(point.sharePrice).to.eq(getSharePrice(point.totalReserve, point.totalShares));
+    }
+    expect(report.reserve).to.eq((await client.enterprise.getReserve()).toBigInt());
+    expect(report.sharePrice).to.be.greaterThan(report.history[3].sharePrice);
+    expect(report.realizedReturn).to.be.closeTo((report.sharePrice - 1) * 100, 1e-9);
+    const held = report.timestamp - report.history[0].timestamp;
+    expect(report.apr).to.be.closeTo((report.realizedReturn * ONE_YEAR) / held, 1e-9);
+
+    const open = report.stakes.find((x) => x.stakeTokenId === stakeTokenId.toString());
+    expect(open).to.deep.include({
+      staker: staker.address.toLowerCase(),
+      open: true,
+      deposited: ONE_TOKEN * 15_000n,
+      withdrawn: 0n,
+      amount: ONE_TOKEN * 15_000n,
+      claimedReward: 0n,
+      pendingReward: (await client.enterprise.getStakingReward(stakeTokenId)).toBigInt(),
+    });
+    expect((open?.pendingReward as bigint) > 0n).to.eq(true);
+    expect(open?.reward).to.eq(open?.pendingReward);
+
+    // Reward of the closed stake is the balance change of the staker.
+    const closed = report.stakes.find((x) => x.stakeTokenId === otherStakeTokenId.toString());
+    const balance = (await token.balanceOf(otherStaker.address)).toBigInt();
+    expect(closed).to.deep.include({
+      open: false,
+      value: 0n,
+      pendingReward: 0n,
+      reward: balance - ONE_TOKEN * 100_000n,
+    });
+    expect(closed?.claimedReward).to.eq(closed?.reward);
+    expect(closed?.realizedReturn).to.be.closeTo((Number(closed?.reward) / Number(ONE_TOKEN * 20_000n)) * 100, 1e-9);
+    // The reward claim reduces the capital, so APR is above the simple annualized return.
+    const closedHeld = (closed?.endTime as number) - (closed?.startTime as number);
+    expect(closed?.apr).to.be.greaterThan(((closed?.realizedReturn as number) * ONE_YEAR) / closedHeld);
+  });
+
+  it('should project rewards from the streaming reserve', async () => {
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    const { stakeTokenId: otherStakeTokenId } = await client.connect(otherStaker).stake(ONE_TOKEN * 30_000n);
+    await rent(ONE_TOKEN * 5_000n, ONE_DAY * 3);
+    await increaseTime(ONE_DAY * 2);
+    await nextBlock();
+
+    const horizon = ONE_DAY * 10;
+    const report = await loadStakerYield(client.enterprise, { fromBlock: startBlock, horizon });
+    const info = await client.enterprise.getInfo();
+    const reserve = await client.enterprise.getReserve();
+    expect(report.unvestedReserve).to.eq(info.streamingReserveTarget.sub(reserve.sub(info.fixedReserve)));
+    expect(report.unvestedReserve > report.projectedReward).to.eq(true);
+
+    const [stake, otherStake] = [stakeTokenId, otherStakeTokenId].map((id) =>
+      report.stakes.find((x) => x.stakeTokenId === id.toString())
+    );
+    expect(stake?.unvestedReward).to.eq((report.unvestedReserve * 10_000n) / 40_000n);
+    expect(otherStake?.projectedReward).to.eq((report.projectedReward * 30_000n) / 40_000n);
+    expect(report.projectedApr).to.be.closeTo(
+      ((Number(report.projectedReward) / Number(report.reserve)) * ONE_YEAR * 100) / horizon,
+      1e-9
+    );
+
+    await nextBlock(report.timestamp + horizon);
+    expect(await client.enterprise.getReserve()).to.eq(report.reserve + report.projectedReward);
+    const reward = (await client.enterprise.getStakingReward(stakeTokenId)).toBigInt();
+    // Projected stake reward is rounded down separately from the pending one.
+    expect(Number(reward - (stake?.pendingReward as bigint) - (stake?.projectedReward as bigint))).to.be.within(0, 1);
+  });
+
+  it('should account stakes opened before the first loaded block', async () => {
+    const { stakeTokenId } = await client.connect(staker).stake(ONE_TOKEN * 10_000n);
+    const { stakeTokenId: otherStakeTokenId } = await client.connect(otherStaker).stake(ONE_TOKEN * 10_000n);
+    await rent(ONE_TOKEN * 5_000n, ONE_DAY * 3);
+    await increaseTime(ONE_DAY * 5);
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await client.connect(otherStaker).decreaseStake(otherStakeTokenId, ONE_TOKEN * 4_000n);
+    await increaseTime(ONE_DAY);
+    await nextBlock();
+
+    const report = await loadStakerYield(client.enterprise, { fromBlock });
+
+    expect(report.history).to.have.length(1);
+    const stake = report.stakes.find((x) => x.stakeTokenId === stakeTokenId.toString());
+    const { block } = await client.enterprise.getStake(stakeTokenId);
+    expect(stake?.startTime).to.eq((await ethers.provider.getBlock(block.toNumber())).timestamp);
+    expect(stake).to.deep.include({ deposited: ONE_TOKEN * 10_000n, reward: stake?.pendingReward });
+
+    const otherStake = report.stakes.find((x) => x.stakeTokenId === otherStakeTokenId.toString());
+    expect(otherStake).to.deep.include({
+      startTime: report.history[0].timestamp,
+      deposited: ONE_TOKEN * 10_000n,
+      withdrawn: ONE_TOKEN * 4_000n,
+      amount: ONE_TOKEN * 6_000n,
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { ethers } from 'hardhat';
+import { Enterprise, ERC20Mock, ERC20Mock__factory, PowerToken, RentalToken, StakeToken } from '../../typechain';
+import { Errors } from '../types';
+import {
+  baseRate,
+  deployEnterprise,
+  getRentalToken,
+  getRentalTokenId,
+  getStakeToken,
+  increaseTime,
+  nextBlock,
+  ONE_DAY,
+  ONE_HOUR,
+  registerService,
+  stake,
+} from '../utils';
+
+interface Metadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes: { trait_type: string; display_type?: string; value: string | number }[];
+}
+
+const decodeDataUri = (uri: string, mediaType: string): string => {
+  const prefix = `data:${mediaType};base64,`;
+  expect(uri.startsWith(prefix), uri).to.be.true;
+  return Buffer.from(uri.slice(prefix.length), 'base64').toString();
+};
+
+const decodeTokenUri = (uri: string): Metadata & { svg: string } => {
+  const metadata: Metadata = JSON.parse(decodeDataUri(uri, 'application/json'));
+  return { ...metadata, svg: decodeDataUri(metadata.image, 'image/svg+xml') };
+};
+
+const getAttributes = ({ attributes }: Metadata) => Object.fromEntries(attributes.map((x) => [x.trait_type, x.value]));
+
+describe('On-chain token URI', () => {
+  const ONE_TOKEN = 10n ** 18n;
+  let deployer: SignerWithAddress;
+  let staker: SignerWithAddress;
+  let renter: SignerWithAddress;
+  let token: ERC20Mock;
+  let enterprise: Enterprise;
+  let powerToken: PowerToken;
+  let rentalToken: RentalToken;
+  let stakeToken: StakeToken;
+  let stakeTokenId: BigNumber;
+  let rentalTokenId: BigNumber;
+
+  beforeEach(async () => {
+    [deployer, staker, renter] = await ethers.getSigners();
+    token = await new ERC20Mock__factory(deployer).deploy('TST', 'TST', 18, ONE_TOKEN * 1_000_000n);
+    enterprise = await deployEnterprise('Test', token.address);
+    powerToken = await registerService(
+      enterprise,
+      ONE_DAY,
+      baseRate(100n * ONE_TOKEN, BigInt(ONE_DAY), 3n * ONE_TOKEN),
+      token.address,
+      300,
+      ONE_HOUR * 12,
+      ONE_DAY * 60,
+      ONE_TOKEN,
+      true
+    );
+    rentalToken = await getRentalToken(enterprise);
+    stakeToken = await getStakeToken(enterprise);
+
+    await token.transfer(staker.address, ONE_TOKEN * 10_000n);
+    await token.transfer(renter.address, ONE_TOKEN * 1_000n);
+    stakeTokenId = await stake(enterprise, ONE_TOKEN * 10_000n, staker);
+    await token.connect(renter).approve(enterprise.address, ONE_TOKEN * 1_000n);
+    rentalTokenId = await getRentalTokenId(
+      enterprise,
+      await enterprise
+        .connect(renter)
+        .rent(powerToken.address, token.address, ONE_TOKEN * 150n, ONE_DAY, ONE_TOKEN * 1_000n)
+    );
+  });
+
+  it('should use base URI by default', async () => {
+    expect(await enterprise.isOnChainTokenUri()).to.be.false;
+    expect(await rentalToken.tokenURI(rentalTokenId)).to.eq(`https://test.iq.spacerental/${rentalTokenId}`);
+    expect(await stakeToken.tokenURI(stakeTokenId)).to.eq(`https://test.iq.spacestake/${stakeTokenId}`);
+  });
+
+  it('should only allow the owner to switch the token URI mode', async () => {
+    await expect(enterprise.connect(staker).setOnChainTokenUri(true)).to.be.revertedWith(Errors.CALLER_NOT_OWNER);
+
+    await expect(enterprise.setOnChainTokenUri(true)).to.emit(enterprise, 'OnChainTokenUriChanged').withArgs(true);
+    expect(await enterprise.isOnChainTokenUri()).to.be.true;
+
+    await enterprise.setOnChainTokenUri(false);
+    expect(await rentalToken.tokenURI(rentalTokenId)).to.eq(`https://test.iq.spacerental/${rentalTokenId}`);
+  });
+
+  describe('when enabled', () => {
+    beforeEach(async () => {
+      await enterprise.setOnChainTokenUri(true);
+    });
+
+    it('should render rental agreement over its lifecycle', async () => {
+      const { endTime, renterOnlyReturnTime, enterpriseOnlyCollectionTime } = await enterprise.getRentalAgreement(
+        rentalTokenId
+      );
+      const expiry = new Date(endTime * 1000).toISOString().replace('.000Z', 'Z');
+      const metadata = decodeTokenUri(await rentalToken.tokenURI(rentalTokenId));
+
+      expect(metadata.name).to.eq('150 TST IQPT rental');
+      expect(metadata.description).to.eq(`Rental of 150 TST IQPT expiring at ${expiry}.`);
+      expect(metadata.attributes).to.deep.eq([
+        { trait_type: 'Power token', value: 'TST IQPT' },
+        { trait_type: 'Amount', display_type: 'number', value: 150 },
+        { trait_type: 'Status', value: 'Active' },
+        { trait_type: 'Expiry', display_type: 'date', value: endTime },
+      ]);
+      expect(metadata.svg).to.match(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg".*<\/svg>$/);
+      for (const text of ['Rental TST', '150 TST IQPT rental', 'Active', expiry]) {
+        expect(metadata.svg).to.include(`>${text}</text>`);
+      }
+
+      const statuses: [number, string][] = [
+        [endTime, 'Renter only'],
+        [renterOnlyReturnTime + 1, 'Collector only'],
+        [enterpriseOnlyCollectionTime + 1, 'Collectable'],
+      ];
+      for (const [timestamp, status] of statuses) {
+        await nextBlock(timestamp);
+        const { attributes, svg } = decodeTokenUri(await rentalToken.tokenURI(rentalTokenId));
+        expect(getAttributes({ attributes } as Metadata).Status).to.eq(status);
+        expect(svg).to.include(`>${status}</text>`);
+      }
+
+      await enterprise.connect(renter).returnRental(rentalTokenId);
+      await expect(rentalToken.tokenURI(rentalTokenId)).to.be.revertedWith(
+        Errors.ERC721META_URI_QUERY_FOR_NONEXISTENT_TOKEN
+      );
+    });
+
+    it('should render stake with pending reward', async () => {
+      const metadata = decodeTokenUri(await stakeToken.tokenURI(stakeTokenId));
+      const attributes = getAttributes(metadata);
+
+      expect(metadata.name).to.eq('10000 TST stake');
+      expect(metadata.description).to.match(/^Stake of 10000 TST with [\d.]+ TST pending reward\.$/);
+      expect(attributes.Amount).to.eq(10_000);
+      expect(attributes.Shares).to.eq(10_000);
+      expect(metadata.svg).to.include('>Staking TST</text>');
+
+      await increaseTime(ONE_DAY);
+      const reward = await enterprise.getStakingReward(stakeTokenId);
+      const later = getAttributes(decodeTokenUri(await stakeToken.tokenURI(stakeTokenId)));
+      expect(later.Amount).to.eq(10_000);
+      expect(later['Pending reward']).to.be.above(attributes['Pending reward'] as number);
+      // Rendered with 4 fraction digits at most.
+      expect(later['Pending reward']).to.eq(Number(reward.toBigInt() / 10n ** 14n) / 1e4);
+    });
+  });
+});
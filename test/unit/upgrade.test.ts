@@ -0,0 +1,188 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signers';
+import { expect } from 'chai';
+import { existsSync } from 'fs';
+import hre, { ethers } from 'hardhat';
+import {
+  EnterpriseFactory,
+  Enterprise__factory,
+  PowerToken__factory,
+  RentalToken__factory,
+  StakeToken__factory,
+} from '../../typechain';
+import {
+  compareStorageLayouts,
+  getImplementation,
+  IQClient,
+  isBlockingIssue,
+  StorageLayout,
+  StorageLayoutIssue,
+} from '../../sdk';
+import type { UpgradePlanResult } from '../../tasks/upgrade';
+import { deployTestEnterprise } from '../utils';
+
+describe('Enterprise upgrade planning', () => {
+  let deployer: SignerWithAddress;
+  let client: IQClient;
+
+  const getStorageLayout = async (contract: string): Promise<StorageLayout> => {
+    const buildInfo = await hre.artifacts.getBuildInfo(`contracts/${contract}.sol:${contract}`);
+    const output = buildInfo?.output.contracts[`contracts/${contract}.sol`][contract];
+    return (output as unknown as { storageLayout: StorageLayout }).storageLayout;
+  };
+
+  const getRecordedStorageLayout = (network: string, name: string): StorageLayout =>
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    require(`../../deployments/${network}/${name}.json`).storageLayout;
+
+  const blocking = (issues: StorageLayoutIssue[]) => issues.filter(isBlockingIssue).map((x) => [x.kind, x.label]);
+
+  const planUpgrade = async (params: Record<string, string | boolean> = {}): Promise<UpgradePlanResult> =>
+    hre.run('enterprise:upgrade-plan', { enterprise: client.enterprise.address, ...params });
+
+  beforeEach(async () => {
+    [deployer] = await ethers.getSigners();
+    ({ client } = await deployTestEnterprise(deployer));
+  });
+
+  it('should accept layouts recorded in deployments', async () => {
+    const recorded: [string, string, string][] = [];
+    for (const network of ['binance', 'binanceTestnet', 'polygon', 'polygonTestnet']) {
+      for (const contract of ['Enterprise', 'RentalToken', 'StakeToken', 'PowerToken']) {
+        recorded.push([network, contract, contract]);
+      }
+    }
+    recorded.push(['binance', 'BorrowToken', 'RentalToken'], ['binance', 'InterestToken', 'StakeToken']);
+
+    for (const [network, name, contract] of recorded) {
+      if (!existsSync(`deployments/${network}/${name}.json`)) continue;
+      const issues = compareStorageLayouts(getRecordedStorageLayout(network, name), await getStorageLayout(contract));
+      expect(blocking(issues), `${network}/${name}`).to.be.empty;
+    }
+  });
+
+  it('should detect incompatible storage changes', async () => {
+    const layout = await getStorageLayout('Enterprise');
+    const types = layout.types ?? {};
+    const change = (storage: StorageLayout['storage'], changedTypes = types) =>
+      compareStorageLayouts(layout, { storage, types: changedTypes });
+
+    expect(change(layout.storage)).to.be.empty;
+    expect(blocking(change(layout.storage.filter((x) => x.label !== '_converter')))).to.deep.eq([
+      ['removed', '_converter'],
+    ]);
+
+    const inserted = layout.storage.map((x) =>
+      Number(x.slot) >= 19 ? { ...x, slot: (Number(x.slot) + 1).toString() } : x
+    );
+    expect(blocking(change(inserted))).to.deep.eq([
+      ['moved', '_registeredPowerTokens'],
+      ['moved', '_powerTokens'],
+      ['moved', '_onChainTokenUri'],
+    ]);
+
+    const renamed = layout.storage.map((x) => (x.label === '_usedReserve' ? { ...x, label: '_reserveUsed' } : x));
+    expect(change(renamed).map((x) => x.kind)).to.deep.eq(['renamed']);
+
+    const retyped = layout.storage.map((x) => (x.label === '_streamingReserve' ? { ...x, type: 't_uint128' } : x));
+    expect(
+      blocking(change(retyped, { ...types, t_uint128: { encoding: 'inplace', label: 'uint128', numberOfBytes: '16' } }))
+    ).to.deep.eq([['retyped', '_streamingReserve']]);
+
+    const stakeType = layout.storage.find((x) => x.label === '_stakes')?.type ?? '';
+    const structType = types[stakeType].value ?? '';
+    const struct = types[structType];
+    const member = { ...(struct.members ?? [])[0], label: 'delegate', slot: '3', type: 't_address' };
+    const grown = {
+      ...types,
+      [structType]: { ...struct, members: [...(struct.members ?? []), member], numberOfBytes: '128' },
+    };
+    expect(change(layout.storage, grown)).to.be.empty;
+
+    const narrowed = (struct.members ?? []).map((x) => (x.label === 'amount' ? { ...x, type: 't_uint128' } : x));
+    const uint128 = { encoding: 'inplace' as const, label: 'uint128', numberOfBytes: '16' };
+    expect(
+      blocking(change(layout.storage, { ...types, t_uint128: uint128, [structType]: { ...struct, members: narrowed } }))
+    ).to.deep.eq([['retyped', '_stakes[].amount']]);
+  });
+
+  it('should build upgrade calldata for the enterprise', async () => {
+    const enterprise = client.enterprise;
+    const powerTokens = await enterprise.getPowerTokens();
+    const proxies = [
+      enterprise.address,
+      await enterprise.getRentalToken(),
+      await enterprise.getStakeToken(),
+      ...powerTokens,
+    ];
+    const implementations = [
+      await new Enterprise__factory(deployer).deploy(),
+      await new RentalToken__factory(deployer).deploy(),
+      await new StakeToken__factory(deployer).deploy(),
+      await new PowerToken__factory(deployer).deploy(),
+    ];
+    const factory = (await ethers.getContract('EnterpriseFactory')) as EnterpriseFactory;
+    const before = await Promise.all(proxies.map((x) => getImplementation(ethers.provider, x)));
+
+    const { plan, simulation } = await planUpgrade({
+      enterpriseImpl: implementations[0].address,
+      rentalImpl: implementations[1].address,
+      stakeImpl: implementations[2].address,
+      powerImpl: implementations[3].address,
+      simulate: true,
+    });
+
+    expect(plan.compatible).to.eq(true);
+    expect(plan.owner).to.eq(deployer.address);
+    expect(plan.upgrades.map((x) => [x.proxy, x.deployment])).to.deep.eq([
+      [proxies[0], 'Enterprise'],
+      [proxies[1], 'RentalToken'],
+      [proxies[2], 'StakeToken'],
+      [proxies[3], 'PowerToken'],
+    ]);
+    expect(plan.data).to.eq(
+      enterprise.interface.encodeFunctionData('upgrade', [
+        factory.address,
+        implementations[0].address,
+        implementations[1].address,
+        implementations[2].address,
+        implementations[3].address,
+        powerTokens,
+      ])
+    );
+    expect(simulation).to.deep.eq({ success: true });
+    expect(await Promise.all(proxies.map((x) => getImplementation(ethers.provider, x)))).to.deep.eq(before);
+
+    await (await deployer.sendTransaction({ to: plan.enterprise, data: plan.data })).wait();
+
+    expect(await Promise.all(proxies.map((x) => getImplementation(ethers.provider, x)))).to.deep.eq(
+      implementations.map((x) => x.address)
+    );
+    expect((await enterprise.getInfo()).name).to.eq('Test');
+    expect(await enterprise.getPowerTokens()).to.deep.eq(powerTokens);
+  });
+
+  it('should skip up to date proxies and reject unrecorded implementations', async () => {
+    const { plan: upToDate } = await planUpgrade({ skip: 'power' });
+    expect(upToDate.upgrades).to.be.empty;
+    expect(upToDate.powerTokenImplementation).to.eq(ethers.constants.AddressZero);
+    expect(upToDate.powerTokens).to.be.empty;
+
+    const unrecorded = await new Enterprise__factory(deployer).deploy();
+    const { address: factory } = await hre.deployments.get('EnterpriseFactory');
+    await client.enterprise.upgrade(
+      factory,
+      unrecorded.address,
+      ethers.constants.AddressZero,
+      ethers.constants.AddressZero,
+      ethers.constants.AddressZero,
+      []
+    );
+
+    const { plan } = await planUpgrade({ skip: 'rental,stake,power' });
+    expect(plan.compatible).to.eq(false);
+    expect(plan.upgrades.map((x) => [x.implementation, x.issues.map((issue) => issue.kind)])).to.deep.eq([
+      [unrecorded.address, ['unrecorded']],
+    ]);
+    expect(plan.rentalTokenImplementation).to.eq(ethers.constants.AddressZero);
+  });
+});
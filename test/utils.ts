@@ -1,4 +1,7 @@
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { Contract, ContractTransaction, Signer } from 'ethers';
 import { ethers } from 'hardhat';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
@@ -11,7 +14,10 @@ import {
   StakeToken,
   PowerToken,
   ProxyAdmin,
+  ERC20Mock,
+  ERC20Mock__factory,
 } from '../typechain';
+import { EnterpriseParams, findEvent, IQClient, ServiceParams } from '../sdk';
 
 export const ONE_DAY = 86400;
 export const ONE_HOUR = 3600;
@@ -52,12 +58,7 @@ export const getEnterprise = async (
 ): Promise<Enterprise> => {
   const receipt = await deployTx.wait(1);
 
-  const events = await enterpriseFactory.queryFilter(
-    enterpriseFactory.filters.EnterpriseDeployed(),
-    receipt.blockNumber
-  );
-
-  const enterpriseAddress = events[0].args.deployed;
+  const enterpriseAddress = findEvent(receipt, enterpriseFactory, 'EnterpriseDeployed').args.deployed;
 
   const Enterprise = await ethers.getContractFactory('Enterprise');
 
@@ -77,9 +78,7 @@ export const getPowerToken = async (
 ): Promise<PowerToken> => {
   const receipt = await registerServiceTx.wait(1);
 
-  const events = await enterprise.queryFilter(enterprise.filters.ServiceRegistered(), receipt.blockNumber);
-
-  const powerTokenAddress = events[0].args[0];
+  const powerTokenAddress = findEvent(receipt, enterprise, 'ServiceRegistered').args.powerToken;
 
   const PowerToken = await ethers.getContractFactory('PowerToken');
 
@@ -89,20 +88,13 @@ export const getPowerToken = async (
 export const getRentalTokenId = async (enterprise: Enterprise, rentingTx: ContractTransaction): Promise<BigNumber> => {
   const receipt = await rentingTx.wait(1);
 
-  const events = await enterprise.queryFilter(enterprise.filters.Rented(), receipt.blockNumber);
-
-  return BigNumber.from(events[0].args.rentalTokenId);
+  return BigNumber.from(findEvent(receipt, enterprise, 'Rented').args.rentalTokenId);
 };
 
 export const getStakeTokenId = async (enterprise: Enterprise, stakeTx: ContractTransaction): Promise<BigNumber> => {
   const receipt = await stakeTx.wait();
-  const StakeToken = await ethers.getContractFactory('StakeToken');
-
-  const stakeToken = StakeToken.attach(await enterprise.getStakeToken()) as StakeToken;
 
-  const events = await stakeToken.queryFilter(stakeToken.filters.Transfer(), receipt.blockNumber);
-
-  return BigNumber.from(events[0].args.tokenId);
+  return BigNumber.from(findEvent(receipt, enterprise, 'StakeChanged').args.stakeTokenId);
 };
 
 export const getStakeToken = async (enterprise: Enterprise): Promise<StakeToken> => {
@@ -257,6 +249,48 @@ export const registerService = async (
   return getPowerToken(enterprise, tx);
 };
 
+export const registerTestService = async (
+  client: IQClient,
+  baseToken: string,
+  params: Partial<ServiceParams> = {}
+): Promise<PowerToken> =>
+  client.registerService({
+    name: 'IQ Power Test',
+    symbol: 'IQPT',
+    energyGapHalvingPeriod: ONE_DAY,
+    baseRate: baseRate(100n * 10n ** 18n, BigInt(ONE_DAY), 3n * 10n ** 18n),
+    baseToken,
+    serviceFeePercent: 300,
+    minRentalPeriod: ONE_HOUR * 12,
+    maxRentalPeriod: ONE_DAY * 60,
+    minGCFee: 10n ** 18n,
+    swappingEnabledForever: false,
+    ...params,
+  });
+
+/**
+ * Deploys the 'Test' enterprise with the 'IQPT' service, the enterprise token is deployed unless given.
+ */
+export const deployTestEnterprise = async (
+  deployer: Signer,
+  options: { token?: ERC20Mock; enterprise?: Partial<EnterpriseParams>; service?: Partial<ServiceParams> } = {}
+): Promise<{ token: ERC20Mock; client: IQClient; powerToken: PowerToken }> => {
+  const token =
+    options.token ?? (await new ERC20Mock__factory(deployer).deploy('TST', 'TST', 18, 10n ** 18n * 1_000_000n));
+  const factory = (await ethers.getContract('EnterpriseFactory')) as EnterpriseFactory;
+  const converter = (await ethers.getContract('DefaultConverter')) as IConverter;
+  const client = await IQClient.deploy(factory.address, deployer, {
+    name: 'Test',
+    enterpriseToken: token.address,
+    baseUri: 'https://test.iq.space',
+    gcFeePercent: 200,
+    converter: converter.address,
+    ...options.enterprise,
+  });
+  const powerToken = await registerTestService(client, token.address, options.service);
+  return { token, client, powerToken };
+};
+
 export const resetFork = async (hre: HardhatRuntimeEnvironment, block?: number): Promise<void> => {
   await hre.network.provider.request({
     method: 'hardhat_reset',
@@ -279,3 +313,22 @@ export const impersonate = async (hre: HardhatRuntimeEnvironment, account: strin
     params: [account],
   });
 };
+
+/**
+ * Compares the value with the snapshot file in `test/snapshots`, strings are stored as is and other values as JSON.
+ * Missing snapshots are written unless running on CI, `UPDATE_SNAPSHOTS=true` rewrites them.
+ */
+export const expectSnapshot = async (name: string, value: unknown): Promise<void> => {
+  const file = path.join(__dirname, 'snapshots', name);
+  const actual = typeof value === 'string' ? value : `${JSON.stringify(value, null, 2)}\n`;
+  const expected = await fs.readFile(file, 'utf8').catch(() => undefined);
+  if (process.env.UPDATE_SNAPSHOTS === 'true' || (expected === undefined && !process.env.CI)) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, actual);
+    return;
+  }
+  expect(expected, `Snapshot ${name} is missing`).not.to.be.undefined;
+  expect(actual).to.eq(expected, `Snapshot ${name} differs, run with UPDATE_SNAPSHOTS=true to update`);
+};
+
+export { createRandom, Random } from '../sdk/random';
@@ -1,4 +1,18 @@
 import 'dotenv/config';
+import { execSync } from 'child_process';
+import fs from 'fs';
+import { utils, Wallet } from 'ethers';
+
+export type SignerRole = 'deployer' | 'operator' | 'collector';
+
+/** Networks which refuse to start with the well-known hardhat keys. */
+export const PRODUCTION_NETWORKS = ['mainnet', 'production', 'binance', 'polygon'];
+
+export const DEFAULT_MNEMONIC = 'test test test test test test test test test test test junk';
+export const DEFAULT_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+/** Number of accounts hardhat derives from a mnemonic by default. */
+export const MNEMONIC_ACCOUNTS = 20;
+
 export function node_url(networkName: string): string {
   if (networkName) {
     const uri = process.env['ETH_NODE_URI_' + networkName.toUpperCase()];
@@ -26,17 +40,17 @@ export function node_url(networkName: string): string {
   return uri;
 }
 
-export function getMnemonic(networkName?: string): string {
+export function getMnemonic(networkName?: string, env: Record<string, string | undefined> = process.env): string {
   if (networkName) {
-    const mnemonic = process.env['MNEMONIC_' + networkName.toUpperCase()];
+    const mnemonic = env['MNEMONIC_' + networkName.toUpperCase()];
     if (mnemonic && mnemonic !== '') {
       return mnemonic;
     }
   }
 
-  const mnemonic = process.env.MNEMONIC;
+  const mnemonic = env.MNEMONIC;
   if (!mnemonic || mnemonic === '') {
-    return 'test test test test test test test test test test test junk';
+    return DEFAULT_MNEMONIC;
   }
   return mnemonic;
 }
@@ -45,19 +59,181 @@ export function accounts(networkName?: string): { mnemonic: string } {
   return { mnemonic: getMnemonic(networkName) };
 }
 
-export function getPrivateKey(networkName?: string): string {
+export function getPrivateKey(networkName?: string, env: Record<string, string | undefined> = process.env): string {
   if (networkName) {
-    const privateKey = process.env['PRIVATE_KEY_' + networkName.toUpperCase()];
+    const privateKey = env['PRIVATE_KEY_' + networkName.toUpperCase()];
     if (privateKey && privateKey !== '') return privateKey;
   }
 
-  const privateKey = process.env.PRIVATE_KEY;
+  const privateKey = env.PRIVATE_KEY;
   if (privateKey && privateKey !== '') return privateKey;
 
   // default private key (hardhat)
-  return '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+  return DEFAULT_PRIVATE_KEY;
 }
 
 export function privateKey(networkName?: string): string[] {
   return [getPrivateKey(networkName)];
 }
+
+/**
+ * Environment and terminal access of the signer resolution, replaced in tests.
+ */
+export interface KeySource {
+  env: Record<string, string | undefined>;
+  readFile(path: string): string;
+  prompt(question: string): string;
+}
+
+export interface SignerOptions {
+  /** Suffix of the key environment variables, defaults to the network name. Empty string uses the generic ones. */
+  keys?: string;
+  /** Reads `PRIVATE_KEY_*` instead of `MNEMONIC_*`. */
+  privateKey?: boolean;
+  /** Network of the current run. Keystores are decrypted and the production policy is enforced only for it. */
+  selected?: string;
+  source?: KeySource;
+}
+
+export interface NetworkSigners {
+  accounts: string[] | { mnemonic: string };
+  /** Account index of every role, roles without own key use the deployer account. */
+  roles: Record<SignerRole, number>;
+  /** The deployer is one of the well-known hardhat keys. */
+  defaultKeys: boolean;
+}
+
+/**
+ * Resolves the accounts of the network and the account indices of the signer roles.
+ *
+ * The deployer key is read from the encrypted JSON keystore at `KEYSTORE_<KEYS>` or `KEYSTORE`, falling back to
+ * `MNEMONIC_*` or `PRIVATE_KEY_*` variables. Operator and collector have their own keys when
+ * `KEYSTORE_<KEYS>_<ROLE>` or `PRIVATE_KEY_<KEYS>_<ROLE>` is set, these keys follow the deployer key or the mnemonic
+ * accounts. Keystore passphrase is taken from `KEYSTORE_PASSWORD_<KEYS>` or `KEYSTORE_PASSWORD`, otherwise it is
+ * prompted.
+ */
+export function resolveSigners(networkName: string, options: SignerOptions = {}): NetworkSigners {
+  const { privateKey: usePrivateKey = false, selected = selectedNetwork(), source = processKeySource } = options;
+  const keys = (options.keys ?? networkName).toUpperCase();
+  const suffix = keys ? `_${keys}` : '';
+  const env = (name: string) => source.env[name] || undefined;
+  const active = networkName === selected;
+
+  const decrypt = (path: string): string => {
+    const password =
+      env(`KEYSTORE_PASSWORD${suffix}`) ?? env('KEYSTORE_PASSWORD') ?? source.prompt(`Passphrase for ${path}: `);
+    try {
+      return Wallet.fromEncryptedJsonSync(source.readFile(path), password).privateKey;
+    } catch (error) {
+      throw new Error(`Cannot decrypt keystore ${path}: ${(error as Error).message}`);
+    }
+  };
+
+  const roleKeys = (['operator', 'collector'] as const)
+    .map((role) => ({
+      role,
+      keystore: env(`KEYSTORE${suffix}_${role.toUpperCase()}`),
+      privateKey: env(`PRIVATE_KEY${suffix}_${role.toUpperCase()}`),
+    }))
+    .filter((x) => x.keystore || x.privateKey);
+  const keystore = env(`KEYSTORE${suffix}`) ?? env('KEYSTORE');
+
+  let accounts: string[] | { mnemonic: string };
+  let defaultKeys = false;
+  if (!active && (keystore || roleKeys.some((x) => x.keystore))) {
+    // Other networks are configured too, but only the selected one may ask for the passphrase.
+    accounts = [];
+  } else if (keystore) {
+    accounts = [decrypt(keystore)];
+  } else if (usePrivateKey) {
+    accounts = [getPrivateKey(keys || undefined, source.env)];
+    defaultKeys = accounts[0] === DEFAULT_PRIVATE_KEY;
+  } else {
+    const mnemonic = getMnemonic(keys || undefined, source.env);
+    defaultKeys = mnemonic === DEFAULT_MNEMONIC;
+    // Role keys are appended to the private keys, so the mnemonic is replaced with the accounts it derives.
+    accounts = roleKeys.length > 0 ? deriveAccounts(mnemonic) : { mnemonic };
+  }
+
+  if (active && defaultKeys && PRODUCTION_NETWORKS.includes(networkName)) {
+    const variable = usePrivateKey ? 'PRIVATE_KEY' : 'MNEMONIC';
+    throw new Error(`Network ${networkName} refuses the default keys, set KEYSTORE${suffix} or ${variable}${suffix}`);
+  }
+
+  const roles: Record<SignerRole, number> = { deployer: 0, operator: 0, collector: 0 };
+  const base = Array.isArray(accounts) && accounts.length > 0 ? accounts.length : 1;
+  roleKeys.forEach(({ role, keystore, privateKey }, i) => {
+    roles[role] = base + i;
+    if (Array.isArray(accounts) && accounts.length > 0) {
+      accounts.push(keystore ? decrypt(keystore) : (privateKey as string));
+    }
+  });
+  return { accounts, roles, defaultKeys };
+}
+
+/**
+ * Maps the role to the account index of every network for hardhat-deploy `namedAccounts`.
+ */
+export function namedRole(signers: Record<string, NetworkSigners>, role: SignerRole): Record<string, number> {
+  return {
+    default: 0,
+    ...Object.fromEntries(Object.entries(signers).map(([networkName, x]) => [networkName, x.roles[role]])),
+  };
+}
+
+/**
+ * Network given by `--network` or `HARDHAT_NETWORK`, config is loaded before hardhat resolves it.
+ */
+export function selectedNetwork(argv = process.argv, env = process.env): string {
+  const index = argv.indexOf('--network');
+  if (index >= 0 && index + 1 < argv.length) return argv[index + 1];
+  return env.HARDHAT_NETWORK || 'hardhat';
+}
+
+const processKeySource: KeySource = {
+  env: process.env,
+  readFile: (path) => fs.readFileSync(path, 'utf8'),
+  prompt: promptHidden,
+};
+
+/**
+ * Derives the private keys of the mnemonic accounts, keeping the indices of the named accounts.
+ */
+function deriveAccounts(mnemonic: string): string[] {
+  const root = utils.HDNode.fromMnemonic(mnemonic);
+  return [...Array(MNEMONIC_ACCOUNTS).keys()].map((i) => root.derivePath(`m/44'/60'/0'/0/${i}`).privateKey);
+}
+
+/**
+ * Hardhat config is synchronous, so the passphrase is read from the terminal with blocking reads.
+ */
+function promptHidden(question: string): string {
+  let fd: number;
+  try {
+    fd = fs.openSync('/dev/tty', 'r+');
+  } catch {
+    throw new Error(`${question.trim()} cannot be prompted without terminal, set KEYSTORE_PASSWORD`);
+  }
+  const echo = (enabled: boolean) => {
+    try {
+      execSync(enabled ? 'stty echo' : 'stty -echo', { stdio: [fd, 'ignore', 'ignore'] });
+    } catch {
+      // Terminal without stty shows the passphrase.
+    }
+  };
+
+  fs.writeSync(fd, question);
+  echo(false);
+  try {
+    const buffer = Buffer.alloc(1);
+    let answer = '';
+    while (fs.readSync(fd, buffer, 0, 1, null) === 1 && buffer[0] !== 0x0a) {
+      answer += buffer.toString('utf8');
+    }
+    return answer.replace(/\r$/, '');
+  } finally {
+    echo(true);
+    fs.writeSync(fd, '\n');
+    fs.closeSync(fd);
+  }
+}